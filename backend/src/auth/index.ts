@@ -0,0 +1,10 @@
+/**
+ * Auth Module
+ * Export all API key authentication functionality
+ */
+
+export * from './types';
+export * from './keys';
+export * from './manager';
+export * from './middleware';
+export * from './routes';
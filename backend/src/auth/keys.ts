@@ -0,0 +1,55 @@
+/**
+ * API Key Helpers
+ * Key generation, hashing and scope checks (no database access)
+ */
+
+import crypto from 'crypto';
+import { API_KEY_SCOPES, ApiKeyScope } from './types';
+
+const KEY_PREFIX = 'bk';
+
+/**
+ * Generate a new plaintext key of the form bk_<prefix>_<secret>.
+ * The prefix is stored in clear so keys can be looked up without a table scan.
+ */
+export function generateApiKey(): { key: string; prefix: string } {
+  const prefix = crypto.randomBytes(6).toString('hex');
+  const secret = crypto.randomBytes(32).toString('base64url');
+  return { key: `${KEY_PREFIX}_${prefix}_${secret}`, prefix };
+}
+
+/**
+ * Extract the lookup prefix from a plaintext key, or null if it is malformed
+ */
+export function parseApiKeyPrefix(key: string): string | null {
+  const match = /^bk_([0-9a-f]{12})_[A-Za-z0-9_-]{20,}$/.exec(key.trim());
+  return match ? match[1] : null;
+}
+
+/**
+ * Hash a plaintext key. When API_KEY_PEPPER is set the hash is an HMAC so a
+ * leaked database dump alone is not enough to verify guesses.
+ */
+export function hashApiKey(key: string, pepper: string = process.env.API_KEY_PEPPER || ''): string {
+  return pepper
+    ? crypto.createHmac('sha256', pepper).update(key).digest('hex')
+    : crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function verifyApiKeyHash(key: string, storedHash: string, pepper?: string): boolean {
+  const computed = Buffer.from(hashApiKey(key, pepper), 'hex');
+  const expected = Buffer.from(storedHash, 'hex');
+  return computed.length === expected.length && crypto.timingSafeEqual(computed, expected);
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+/**
+ * admin implies every other scope; documents:write does not imply search:read
+ * so ingestion-only keys cannot be used to read the index.
+ */
+export function hasScope(granted: ApiKeyScope[], required: ApiKeyScope): boolean {
+  return granted.includes('admin') || granted.includes(required);
+}
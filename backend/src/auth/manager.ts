@@ -0,0 +1,203 @@
+/**
+ * API Key Manager
+ * Issues, rotates, revokes and authenticates hashed API keys stored in Postgres
+ */
+
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiKey, ApiKeyScope, AuthContext, IssuedApiKey } from './types';
+import { generateApiKey, hashApiKey, parseApiKeyPrefix, verifyApiKeyHash } from './keys';
+
+const CACHE_TTL_MS = 30000;
+const LAST_USED_THROTTLE_MS = 60000;
+
+export class ApiKeyManager {
+  private pool: Pool;
+  private bootstrapKeyHash?: string;   // Compared by hash, in constant time
+  private cache: Map<string, { context: AuthContext | null; expires: number }> = new Map();
+  private lastUsedWrites: Map<string, number> = new Map();
+
+  constructor(pool: Pool, options: { bootstrapKey?: string } = {}) {
+    this.pool = pool;
+    this.bootstrapKeyHash = options.bootstrapKey ? hashApiKey(options.bootstrapKey) : undefined;
+  }
+
+  /**
+   * Issue a new key. The plaintext is only ever returned from this call.
+   */
+  async issueKey(input: {
+    name: string;
+    tenantId: string;
+    scopes: ApiKeyScope[];
+    expiresAt?: Date | null;
+    createdBy?: string | null;
+    rotatedFrom?: string | null;
+  }): Promise<IssuedApiKey> {
+    const { key, prefix } = generateApiKey();
+
+    const result = await this.pool.query(`
+      INSERT INTO api_keys (id, name, tenant_id, key_prefix, key_hash, scopes, created_by, rotated_from, expires_at)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `, [
+      uuidv4(),
+      input.name,
+      input.tenantId,
+      prefix,
+      hashApiKey(key),
+      input.scopes,
+      input.createdBy || null,
+      input.rotatedFrom || null,
+      input.expiresAt || null
+    ]);
+
+    return { apiKey: this.rowToApiKey(result.rows[0]), key };
+  }
+
+  /**
+   * List keys, optionally restricted to a tenant
+   */
+  async listKeys(tenantId?: string | null, includeRevoked: boolean = false): Promise<ApiKey[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (tenantId) {
+      params.push(tenantId);
+      conditions.push(`tenant_id = $${params.length}`);
+    }
+    if (!includeRevoked) {
+      conditions.push('revoked_at IS NULL');
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.pool.query(
+      `SELECT * FROM api_keys ${whereClause} ORDER BY created_at DESC`,
+      params
+    );
+
+    return result.rows.map(row => this.rowToApiKey(row));
+  }
+
+  async getKey(id: string, tenantId?: string | null): Promise<ApiKey | null> {
+    const result = tenantId
+      ? await this.pool.query('SELECT * FROM api_keys WHERE id = $1 AND tenant_id = $2', [id, tenantId])
+      : await this.pool.query('SELECT * FROM api_keys WHERE id = $1', [id]);
+
+    return result.rows.length > 0 ? this.rowToApiKey(result.rows[0]) : null;
+  }
+
+  /**
+   * Rotate a key: issue a replacement with the same name, tenant and scopes,
+   * and let the old key keep working for graceSeconds before it expires.
+   */
+  async rotateKey(id: string, options: { tenantId?: string | null; graceSeconds?: number; createdBy?: string | null } = {}): Promise<IssuedApiKey | null> {
+    const current = await this.getKey(id, options.tenantId);
+    if (!current || current.revokedAt) {
+      return null;
+    }
+
+    const issued = await this.issueKey({
+      name: current.name,
+      tenantId: current.tenantId,
+      scopes: current.scopes,
+      expiresAt: current.expiresAt,
+      createdBy: options.createdBy,
+      rotatedFrom: current.id
+    });
+
+    const graceSeconds = Math.max(0, options.graceSeconds || 0);
+    if (graceSeconds > 0) {
+      await this.pool.query(`
+        UPDATE api_keys
+        SET expires_at = LEAST(COALESCE(expires_at, 'infinity'), NOW() + make_interval(secs => $2))
+        WHERE id = $1
+      `, [id, graceSeconds]);
+    } else {
+      await this.pool.query('UPDATE api_keys SET revoked_at = NOW() WHERE id = $1', [id]);
+    }
+
+    this.cache.clear();
+    return issued;
+  }
+
+  async revokeKey(id: string, tenantId?: string | null): Promise<boolean> {
+    const result = tenantId
+      ? await this.pool.query(
+          'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND tenant_id = $2 AND revoked_at IS NULL RETURNING id',
+          [id, tenantId]
+        )
+      : await this.pool.query(
+          'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL RETURNING id',
+          [id]
+        );
+
+    this.cache.clear();
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Resolve a presented plaintext key to an auth context, or null if it is
+   * unknown, revoked or expired.
+   */
+  async authenticate(presented: string): Promise<AuthContext | null> {
+    if (this.bootstrapKeyHash && verifyApiKeyHash(presented, this.bootstrapKeyHash)) {
+      return { keyId: null, tenantId: null, scopes: ['admin'], anonymous: false, bootstrap: true };
+    }
+
+    const prefix = parseApiKeyPrefix(presented);
+    if (!prefix) return null;
+
+    const cacheKey = hashApiKey(presented);
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expires > Date.now()) {
+      return cached.context;
+    }
+
+    const result = await this.pool.query(`
+      SELECT id, tenant_id, key_hash, scopes
+      FROM api_keys
+      WHERE key_prefix = $1
+        AND revoked_at IS NULL
+        AND (expires_at IS NULL OR expires_at > NOW())
+    `, [prefix]);
+
+    const row = result.rows.find(r => verifyApiKeyHash(presented, r.key_hash));
+    const context: AuthContext | null = row
+      ? { keyId: row.id, tenantId: row.tenant_id, scopes: row.scopes || [], anonymous: false, bootstrap: false }
+      : null;
+
+    this.cache.set(cacheKey, { context, expires: Date.now() + CACHE_TTL_MS });
+    if (context?.keyId) {
+      this.touch(context.keyId);
+    }
+
+    return context;
+  }
+
+  /**
+   * Record key usage, at most once per minute per key (non-blocking)
+   */
+  private touch(keyId: string): void {
+    const last = this.lastUsedWrites.get(keyId) || 0;
+    if (Date.now() - last < LAST_USED_THROTTLE_MS) return;
+
+    this.lastUsedWrites.set(keyId, Date.now());
+    this.pool.query('UPDATE api_keys SET last_used_at = NOW() WHERE id = $1', [keyId]).catch(console.error);
+  }
+
+  private rowToApiKey(row: any): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      tenantId: row.tenant_id,
+      keyPrefix: row.key_prefix,
+      scopes: row.scopes || [],
+      createdBy: row.created_by,
+      rotatedFrom: row.rotated_from,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at,
+      expiresAt: row.expires_at,
+      revokedAt: row.revoked_at
+    };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Authentication Middleware
+ * Maps each /api route to the scope it requires and checks the presented key
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyManager } from './manager';
+import { ApiKeyScope, AuthContext } from './types';
+import { hasScope, isApiKeyScope } from './keys';
+
+interface ScopeRule {
+  pattern: RegExp;
+  methods?: string[];
+  scope: ApiKeyScope;
+}
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * First matching rule wins. Anything not listed falls back to
+ * search:read for reads and documents:write for writes.
+ */
+const SCOPE_RULES: ScopeRule[] = [
+  // Administration: keys, config repo, webhooks, connectors, wizard, embeddings, firehose status, relay registry
+  { pattern: /^\/api\/(auth|config|webhooks|connectors|wizard|embeddings)(\/|$)/, scope: 'admin' },
+  { pattern: /^\/api\/generate-embeddings(\/|$)/, scope: 'admin' },
+  { pattern: /^\/api\/nostr\/firehose(\/|$)/, scope: 'admin' },
+  { pattern: /^\/api\/nostr\/relays(\/|$)/, methods: WRITE_METHODS, scope: 'admin' },
+
+  // Upload jobs list filenames and serve originals without a per-document
+  // check; readers get uploaded files through /api/documents/:id/download
+  { pattern: /^\/api\/uploads(\/|$)/, scope: 'documents:write' },
+
+  // Query-time vocabulary is admin-managed; the trigger tester is read-only
+  { pattern: /^\/api\/triggers\/test$/, methods: ['POST'], scope: 'search:read' },
+  { pattern: /^\/api\/(ontology|dictionary|triggers)(\/|$)/, methods: WRITE_METHODS, scope: 'admin' },
+
+  // Read-only endpoints that take a POST body
+  { pattern: /^\/api\/ask$/, methods: ['POST'], scope: 'search:read' },
+  { pattern: /^\/api\/search(\/|$)/, methods: ['POST'], scope: 'search:read' },
+  { pattern: /^\/api\/frpei\/(retrieve|ingest|enrich|rank|explain|feedback)$/, methods: ['POST'], scope: 'search:read' },
+  { pattern: /^\/api\/(tv|movies|media)\/search$/, methods: ['POST'], scope: 'search:read' },
+  { pattern: /^\/api\/(podcasts|tv|movies|media)\/recommendations\/preview$/, methods: ['POST'], scope: 'search:read' }
+];
+
+export function resolveRequiredScope(method: string, path: string): ApiKeyScope {
+  const upper = method.toUpperCase();
+  const normalizedPath = path.replace(/\/+$/, '') || '/';
+
+  for (const rule of SCOPE_RULES) {
+    if (rule.methods && !rule.methods.includes(upper)) continue;
+    if (rule.pattern.test(normalizedPath)) return rule.scope;
+  }
+
+  return WRITE_METHODS.includes(upper) ? 'documents:write' : 'search:read';
+}
+
+/**
+ * Read the presented key from "Authorization: Bearer <key>" or "X-API-Key"
+ */
+export function extractApiKey(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (header && /^Bearer\s+/i.test(header)) {
+    return header.replace(/^Bearer\s+/i, '').trim() || null;
+  }
+
+  const apiKeyHeader = req.headers['x-api-key'];
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader.trim()) {
+    return apiKeyHeader.trim();
+  }
+
+  return null;
+}
+
+export interface AuthMiddlewareOptions {
+  enabled?: boolean;
+  anonymousScopes?: ApiKeyScope[];
+}
+
+export function getAuthOptionsFromEnv(): AuthMiddlewareOptions {
+  return {
+    enabled: process.env.AUTH_ENABLED !== 'false',
+    // Search is public unless AUTH_ANONYMOUS_SCOPES says otherwise (set it empty to close it)
+    anonymousScopes: (process.env.AUTH_ANONYMOUS_SCOPES ?? 'search:read')
+      .split(',')
+      .map(s => s.trim())
+      .filter(isApiKeyScope)
+  };
+}
+
+/**
+ * Authenticate every request under the mount point and enforce the scope
+ * required by its route. Mount before any /api routers.
+ */
+export function createAuthMiddleware(manager: ApiKeyManager, options: AuthMiddlewareOptions = {}): RequestHandler {
+  const enabled = options.enabled !== false;
+  const anonymousScopes = options.anonymousScopes || [];
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!enabled || req.method === 'OPTIONS') {
+      return next();
+    }
+
+    try {
+      const required = resolveRequiredScope(req.method, req.baseUrl + req.path);
+      const presented = extractApiKey(req);
+
+      let context: AuthContext | null = null;
+      if (presented) {
+        context = await manager.authenticate(presented);
+        if (!context) {
+          return res.status(401).json({ error: 'Invalid or expired API key' });
+        }
+      } else if (hasScope(anonymousScopes, required)) {
+        context = { keyId: null, tenantId: null, scopes: anonymousScopes, anonymous: true, bootstrap: false };
+      } else {
+        return res.status(401).json({ error: 'API key required', requiredScope: required });
+      }
+
+      if (!hasScope(context.scopes, required)) {
+        return res.status(403).json({ error: 'Insufficient scope', requiredScope: required });
+      }
+
+      req.auth = context;
+      next();
+    } catch (error) {
+      console.error('Authentication error:', error);
+      res.status(500).json({ error: 'Authentication failed' });
+    }
+  };
+}
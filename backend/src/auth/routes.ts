@@ -0,0 +1,145 @@
+/**
+ * API Key Management Routes
+ * Issue, list, rotate and revoke keys (requires the admin scope)
+ */
+
+import { Router, Request, Response } from 'express';
+import { ApiKeyManager } from './manager';
+import { ApiKeyScope } from './types';
+import { isApiKeyScope } from './keys';
+
+export function createApiKeyRoutes(manager: ApiKeyManager): Router {
+  const router = Router();
+
+  /**
+   * Bootstrap and anonymous admins are not bound to a tenant;
+   * every other admin key only sees keys of its own tenant.
+   */
+  const tenantScope = (req: Request): string | null => req.auth?.tenantId || null;
+
+  /**
+   * GET /api/auth/whoami
+   * Describe the key used for this request
+   */
+  router.get('/whoami', (req: Request, res: Response) => {
+    res.json(req.auth || { anonymous: true, scopes: [] });
+  });
+
+  /**
+   * GET /api/auth/keys
+   * List keys (hashes are never returned)
+   */
+  router.get('/keys', async (req: Request, res: Response) => {
+    try {
+      const includeRevoked = req.query.includeRevoked === 'true';
+      const keys = await manager.listKeys(tenantScope(req), includeRevoked);
+      res.json(keys);
+    } catch (error) {
+      console.error('Error listing API keys:', error);
+      res.status(500).json({ error: 'Failed to list API keys' });
+    }
+  });
+
+  /**
+   * GET /api/auth/keys/:id
+   */
+  router.get('/keys/:id', async (req: Request, res: Response) => {
+    try {
+      const key = await manager.getKey(req.params.id, tenantScope(req));
+      if (!key) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+      res.json(key);
+    } catch (error) {
+      console.error('Error getting API key:', error);
+      res.status(500).json({ error: 'Failed to get API key' });
+    }
+  });
+
+  /**
+   * POST /api/auth/keys
+   * Issue a new key. The plaintext key is only included in this response.
+   */
+  router.post('/keys', async (req: Request, res: Response) => {
+    try {
+      const { name, scopes, tenantId, expiresAt } = req.body || {};
+
+      if (!name) {
+        return res.status(400).json({ error: 'Name is required' });
+      }
+
+      if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+        return res.status(400).json({ error: 'Scopes must be a non-empty array of: search:read, documents:write, admin' });
+      }
+
+      const callerTenant = tenantScope(req);
+      if (callerTenant && tenantId && tenantId !== callerTenant) {
+        return res.status(403).json({ error: 'Cannot issue keys for another tenant' });
+      }
+
+      let expiry: Date | null = null;
+      if (expiresAt) {
+        expiry = new Date(expiresAt);
+        if (isNaN(expiry.getTime())) {
+          return res.status(400).json({ error: 'Invalid expiresAt' });
+        }
+      }
+
+      const issued = await manager.issueKey({
+        name,
+        tenantId: callerTenant || tenantId || 'default',
+        scopes: Array.from(new Set(scopes as ApiKeyScope[])),
+        expiresAt: expiry,
+        createdBy: req.auth?.keyId || null
+      });
+
+      res.status(201).json(issued);
+    } catch (error) {
+      console.error('Error issuing API key:', error);
+      res.status(500).json({ error: 'Failed to issue API key' });
+    }
+  });
+
+  /**
+   * POST /api/auth/keys/:id/rotate
+   * Replace a key; the old one stays valid for graceSeconds (default: revoke now)
+   */
+  router.post('/keys/:id/rotate', async (req: Request, res: Response) => {
+    try {
+      const graceSeconds = parseInt(req.body?.graceSeconds) || 0;
+      const issued = await manager.rotateKey(req.params.id, {
+        tenantId: tenantScope(req),
+        graceSeconds,
+        createdBy: req.auth?.keyId || null
+      });
+
+      if (!issued) {
+        return res.status(404).json({ error: 'API key not found or already revoked' });
+      }
+
+      res.status(201).json(issued);
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      res.status(500).json({ error: 'Failed to rotate API key' });
+    }
+  });
+
+  /**
+   * DELETE /api/auth/keys/:id
+   * Revoke a key immediately (the record is kept for auditing)
+   */
+  router.delete('/keys/:id', async (req: Request, res: Response) => {
+    try {
+      const revoked = await manager.revokeKey(req.params.id, tenantScope(req));
+      if (!revoked) {
+        return res.status(404).json({ error: 'API key not found or already revoked' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Error revoking API key:', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  });
+
+  return router;
+}
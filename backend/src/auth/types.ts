@@ -0,0 +1,47 @@
+/**
+ * Authentication Types for Beacon Search
+ * API keys, scopes and the per-request auth context
+ */
+
+export type ApiKeyScope = 'search:read' | 'documents:write' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['search:read', 'documents:write', 'admin'];
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  tenantId: string;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  createdBy?: string | null;
+  rotatedFrom?: string | null;
+  createdAt: Date;
+  lastUsedAt?: Date | null;
+  expiresAt?: Date | null;
+  revokedAt?: Date | null;
+}
+
+/**
+ * Returned exactly once when a key is issued or rotated.
+ * Only the hash is persisted, so the plaintext cannot be recovered later.
+ */
+export interface IssuedApiKey {
+  apiKey: ApiKey;
+  key: string;
+}
+
+export interface AuthContext {
+  keyId: string | null;
+  tenantId: string | null;
+  scopes: ApiKeyScope[];
+  anonymous: boolean;
+  bootstrap: boolean;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Archive Reading
+ * Lists and unpacks the files inside .zip and .tar.gz archives for the
+ * folder connector, with limits against archive bombs
+ */
+
+import JSZip from 'jszip';
+import { gunzipSync } from 'zlib';
+
+const MAX_ARCHIVE_ENTRIES = Number(process.env.FOLDER_ARCHIVE_MAX_ENTRIES || 1000);
+const MAX_ARCHIVE_BYTES = Number(process.env.FOLDER_ARCHIVE_MAX_MB || 200) * 1024 * 1024;
+
+export interface ArchiveEntry {
+  path: string;                // Path inside the archive, '/'-separated
+  data: Buffer;
+  modifiedTime?: Date;
+}
+
+export function isArchiveExtension(extension: string): boolean {
+  return extension === '.zip' || extension === '.tar.gz' || extension === '.tgz' || extension === '.tar';
+}
+
+/**
+ * Bytes an archive may inflate to. One budget is shared by an archive and
+ * every archive nested inside it, so nesting cannot multiply the limit.
+ */
+export interface ArchiveBudget {
+  remainingBytes: number;
+}
+
+export function createArchiveBudget(): ArchiveBudget {
+  return { remainingBytes: MAX_ARCHIVE_BYTES };
+}
+
+/**
+ * Regular files of an archive, in archive order. Directories, links and
+ * anything beyond the entry or size limits are left out.
+ */
+export async function readArchive(
+  data: Buffer,
+  extension: string,
+  budget: ArchiveBudget = createArchiveBudget()
+): Promise<ArchiveEntry[]> {
+  switch (extension) {
+    case '.zip':
+      return readZip(data, budget);
+    case '.tar.gz':
+    case '.tgz':
+      return readTar(gunzipSync(data, { maxOutputLength: Math.max(1, budget.remainingBytes) }), budget);
+    case '.tar':
+      return readTar(data, budget);
+    default:
+      throw new Error(`Unsupported archive type: ${extension}`);
+  }
+}
+
+async function readZip(data: Buffer, budget: ArchiveBudget): Promise<ArchiveEntry[]> {
+  const zip = await JSZip.loadAsync(data);
+  const entries: ArchiveEntry[] = [];
+
+  for (const file of Object.values(zip.files)) {
+    if (file.dir) continue;
+    if (entries.length >= MAX_ARCHIVE_ENTRIES) break;
+
+    const content = await inflateEntry(file, budget);
+    if (!content) break;
+
+    entries.push({ path: file.name, data: content, modifiedTime: file.date });
+  }
+
+  return entries;
+}
+
+/**
+ * Inflate a zip entry, counting bytes as they come out rather than trusting
+ * the size the archive declares. Null once the entry overruns the budget.
+ */
+function inflateEntry(file: JSZip.JSZipObject, budget: ArchiveBudget): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = file.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > budget.remainingBytes) {
+        // A paused stream stops pulling from the inflater once its buffer is full
+        stream.removeAllListeners('data');
+        stream.removeAllListeners('end');
+        stream.pause();
+        budget.remainingBytes = 0;
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('end', () => {
+      budget.remainingBytes -= size;
+      resolve(Buffer.concat(chunks));
+    });
+    stream.on('error', reject);
+  });
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = parseInt(readString(block, offset, length).trim() || '0', 8);
+  return isNaN(value) ? 0 : value;
+}
+
+// PAX extended header records: "<length> <key>=<value>\n"
+function readPaxPath(data: Buffer): string | null {
+  const text = data.toString('utf-8');
+  for (const record of text.split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/**
+ * Read an uncompressed (ustar, GNU or PAX) tar archive
+ */
+export function readTar(data: Buffer, budget: ArchiveBudget = createArchiveBudget()): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  let offset = 0;
+  let longPath: string | null = null;
+
+  while (offset + 512 <= data.length && entries.length < MAX_ARCHIVE_ENTRIES) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every(byte => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 48);
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === 'L') {
+      longPath = readString(body, 0, body.length);
+      continue;
+    }
+    if (type === 'x') {
+      longPath = readPaxPath(body) || longPath;
+      continue;
+    }
+
+    if (type === '0' || type === '7') {
+      if (size > budget.remainingBytes) break;
+      budget.remainingBytes -= size;
+
+      const name = readString(header, 0, 100);
+      const prefix = header.subarray(257, 262).toString('latin1') === 'ustar' ? readString(header, 345, 155) : '';
+      entries.push({
+        path: longPath || (prefix ? `${prefix}/${name}` : name),
+        data: Buffer.from(body),
+        modifiedTime: new Date(readOctal(header, 136, 12) * 1000)
+      });
+    }
+    longPath = null;
+  }
+
+  return entries;
+}
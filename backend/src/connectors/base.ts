@@ -8,25 +8,36 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   Connector,
   ConnectorRun,
+  ConnectorSyncHooks,
   ExtractedDocument
 } from './types';
 
+const DELETION_REPORT_LIMIT = 100;
+
 export abstract class BaseConnector extends EventEmitter {
   protected connector: Connector;
   protected currentRun: ConnectorRun | null = null;
   protected shouldStop: boolean = false;
+  protected syncHooks: ConnectorSyncHooks | null = null;
+  // External ids the current run found upstream, emitted or not
+  private seenIds: Set<string> = new Set();
 
   constructor(connector: Connector) {
     super();
     this.connector = connector;
   }
 
+  setSyncHooks(hooks: ConnectorSyncHooks): void {
+    this.syncHooks = hooks;
+  }
+
   async run(): Promise<ConnectorRun> {
     if (this.currentRun && this.currentRun.status === 'running') {
       throw new Error('Connector is already running');
     }
 
     this.shouldStop = false;
+    this.seenIds = new Set();
     this.currentRun = {
       id: uuidv4(),
       connectorId: this.connector.id,
@@ -40,8 +51,8 @@ export abstract class BaseConnector extends EventEmitter {
       log: []
     };
 
-    this.log(`Starting ${this.connector.config.type} connector: ${this.connector.name}`);
     this.emit('start', this.currentRun);
+    this.log(`Starting ${this.connector.config.type} connector: ${this.connector.name}`);
 
     try {
       await this.execute();
@@ -50,6 +61,9 @@ export abstract class BaseConnector extends EventEmitter {
         this.currentRun.status = 'stopped';
         this.log('Connector stopped by user');
       } else {
+        if (this.isFullSync()) {
+          await this.reconcile();
+        }
         this.currentRun.status = 'completed';
         this.log('Connector completed successfully');
       }
@@ -103,7 +117,7 @@ export abstract class BaseConnector extends EventEmitter {
     this.currentRun.progress = total > 0 ? Math.round((processed / total) * 100) : 0;
     
     if (current) {
-      if (this.connector.config.type === 'web') {
+      if (this.connector.config.type === 'web' || this.connector.config.type === 'rest') {
         this.currentRun.currentUrl = current;
       } else if (this.connector.config.type === 'folder') {
         this.currentRun.currentFile = current;
@@ -116,6 +130,8 @@ export abstract class BaseConnector extends EventEmitter {
   protected emitDocument(doc: ExtractedDocument, isUpdate: boolean = false): void {
     if (!this.currentRun) return;
 
+    this.seenIds.add(doc.externalId);
+
     if (isUpdate) {
       this.currentRun.documentsUpdated++;
     } else {
@@ -125,5 +141,85 @@ export abstract class BaseConnector extends EventEmitter {
     this.emit('document', doc);
   }
 
+  /**
+   * Record an item that still exists upstream but was not emitted this run
+   * (unchanged, or failed transiently), so reconciliation keeps it
+   */
+  protected markSeen(externalId: string): void {
+    this.seenIds.add(externalId);
+  }
+
+  /**
+   * Increment one of the run's connector-specific counters
+   */
+  protected countStat(name: string, by: number = 1): void {
+    if (!this.currentRun) return;
+    const stats = this.currentRun.stats || (this.currentRun.stats = {});
+    stats[name] = (stats[name] || 0) + by;
+  }
+
+  /**
+   * Whether the run that just finished saw every item of the source. Only
+   * then are indexed documents it did not see treated as deleted upstream.
+   */
+  protected isFullSync(): boolean {
+    return false;
+  }
+
+  /**
+   * Remove indexed documents the completed full sync did not see
+   */
+  private async reconcile(): Promise<void> {
+    if (!this.syncHooks) return;
+
+    if (this.seenIds.size === 0) {
+      // An empty source is far more often an outage than a mass deletion
+      this.log('Skipping deletion check: the run found no items');
+      return;
+    }
+
+    try {
+      const indexed = await this.syncHooks.listExternalIds();
+      const unseen = indexed.filter(id => !this.seenIds.has(id));
+      if (unseen.length > 0) {
+        await this.removeDocuments(unseen);
+      }
+    } catch (error) {
+      this.log(`Deletion check failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Remove documents whose source item no longer exists, according to the
+   * connector's deletion mode. Returns the number removed.
+   */
+  protected async removeDocuments(externalIds: string[]): Promise<number> {
+    if (!this.currentRun || !this.syncHooks || externalIds.length === 0) return 0;
+
+    const mode = this.connector.config.deletions || 'tombstone';
+    if (mode === 'off') {
+      this.log(`${externalIds.length} documents are gone upstream (deletions: off, keeping them)`);
+      return 0;
+    }
+
+    const dryRun = mode === 'dry-run';
+    const removed = await this.syncHooks.removeDocuments(externalIds, dryRun);
+
+    const report = this.currentRun.deletionReport || { dryRun, count: 0, documents: [] };
+    report.count += removed.length;
+    report.documents.push(...removed.slice(0, DELETION_REPORT_LIMIT - report.documents.length));
+    this.currentRun.deletionReport = report;
+
+    if (dryRun) {
+      this.log(`Dry run: would remove ${removed.length} documents gone upstream`);
+      return 0;
+    }
+
+    this.currentRun.documentsRemoved += removed.length;
+    this.log(`Tombstoned ${removed.length} documents gone upstream`);
+    this.emit('removed', removed.map(doc => doc.externalId));
+    return removed.length;
+  }
+
   protected abstract execute(): Promise<void>;
 }
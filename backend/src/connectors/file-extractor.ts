@@ -0,0 +1,428 @@
+/**
+ * File Extraction
+ * Turns a file into documents: text extraction per format, archives and
+ * emails unpacked into one document per inner file or attachment, and the
+ * optional processing pipeline. Shared by the folder connector and uploads.
+ */
+
+import { ExtractedDocument } from './types';
+import { ArchiveBudget, createArchiveBudget, isArchiveExtension, readArchive } from './archive';
+import { parseEmail, splitMbox, ParsedEmail } from './mail';
+import { ExtractedText, extractXlsx, extractPptx, extractOdt, extractEpub, rtfToText } from './file-formats';
+import { MEDIA_FILE_TYPES, isMediaExtension, processConnectorFile } from './processing';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+
+export const EXTRACTABLE_FILE_TYPES = [
+  '.txt', '.md', '.html', '.htm', '.pdf', '.docx', '.xlsx', '.pptx', '.odt', '.epub', '.rtf',
+  '.eml', '.mbox', '.zip', '.tar.gz', '.tgz', '.tar',
+  ...MEDIA_FILE_TYPES
+];
+
+// Archives inside archives (or attachments inside attached emails) are
+// followed this many levels deep
+const MAX_NESTING_DEPTH = 3;
+
+// Dynamic imports for optional dependencies
+let pdfParse: any = null;
+let mammoth: any = null;
+
+async function loadPdfParse() {
+  if (!pdfParse) {
+    try {
+      pdfParse = (await import('pdf-parse')).default;
+    } catch {
+      console.warn('pdf-parse not installed. PDF support disabled.');
+    }
+  }
+  return pdfParse;
+}
+
+async function loadMammoth() {
+  if (!mammoth) {
+    try {
+      mammoth = await import('mammoth');
+    } catch {
+      console.warn('mammoth not installed. DOCX support disabled.');
+    }
+  }
+  return mammoth;
+}
+
+/**
+ * A file to index: one on disk, or one found inside an archive or email
+ */
+export interface FileItem {
+  externalId: string;
+  name: string;
+  filePath?: string;           // When the file is on disk as is
+  displayPath: string;         // e.g. reports/q1.zip/summary.pdf
+  url: string;
+  extension: string;
+  modifiedTime: Date;
+  data: Buffer;
+  depth: number;               // 0 for the file itself, +1 per archive or email it is inside
+  parent?: { externalId: string; path: string };
+  archiveBudget?: ArchiveBudget; // Shared by the file and everything unpacked from it
+  attributes: Record<string, any>;
+}
+
+/**
+ * Lower-case extension, with compound ones such as .tar.gz kept whole
+ */
+export function fileExtension(name: string): string {
+  const lower = name.toLowerCase();
+  return lower.endsWith('.tar.gz') ? '.tar.gz' : path.extname(lower);
+}
+
+export interface FileExtractorOptions {
+  fileTypes: string[];         // Inner files and attachments of other types are skipped
+  autoProcess: boolean;
+}
+
+export interface FileExtractorHooks {
+  emit(doc: ExtractedDocument, item: FileItem): void;
+  log(message: string): void;
+  countStat?(name: string): void;
+  markSeen?(externalId: string): void;     // A document kept although its file failed
+  shouldContinue?(): boolean;
+}
+
+export class FileExtractor {
+  private options: FileExtractorOptions;
+  private hooks: FileExtractorHooks;
+
+  constructor(options: FileExtractorOptions, hooks: FileExtractorHooks) {
+    this.options = options;
+    this.hooks = hooks;
+  }
+
+  /**
+   * Emit the documents of a file. Throws if the file itself cannot be read;
+   * inner files and attachments that fail are logged and skipped.
+   */
+  async extract(item: FileItem): Promise<void> {
+    item.archiveBudget ??= createArchiveBudget();
+
+    if (isArchiveExtension(item.extension)) {
+      return this.processArchive(item);
+    }
+    if (item.extension === '.mbox') {
+      return this.processMbox(item);
+    }
+    if (item.extension === '.eml') {
+      return this.processEmail(item, parseEmail(item.data));
+    }
+
+    // Images, audio and video only have text once processed
+    const media = isMediaExtension(item.extension);
+    if (media && !this.options.autoProcess) {
+      this.hooks.log(`Skipping ${item.displayPath}: media files need content processing`);
+      return;
+    }
+
+    let extracted: ExtractedText = { text: '' };
+    if (!media) {
+      try {
+        extracted = await this.extractContent(item);
+      } catch (error) {
+        throw new Error(`Failed to extract content: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    let content = extracted.text;
+    const fields: Partial<ExtractedDocument> = {};
+    if (this.options.autoProcess) {
+      const processed = await this.processContent(item, content);
+      if (processed) {
+        content = processed.content;
+        fields.language = processed.language;
+        fields.attributes = processed.attributes;
+      }
+    }
+
+    if (!content || content.trim().length < 10) {
+      this.hooks.log(`Skipping file with insufficient content: ${item.displayPath}`);
+      return;
+    }
+
+    this.emitItem(item, extracted.title || this.extractTitle(item, content), content.trim(), fields);
+  }
+
+  /**
+   * Run a file through the OCR / translation / description pipeline.
+   * Failures are logged and leave the extracted text as it is.
+   */
+  private async processContent(item: FileItem, extractedText: string) {
+    try {
+      const processed = await processConnectorFile(
+        { path: item.filePath, data: item.data, extension: item.extension },
+        extractedText
+      );
+
+      this.hooks.log(`Processed ${item.displayPath}: ${processed.steps.join('; ') || 'nothing to do'}`);
+      this.hooks.countStat?.('filesProcessed');
+      if (processed.attributes.ocrText) this.hooks.countStat?.('ocr');
+      if (processed.attributes.translation) this.hooks.countStat?.('translated');
+      if (processed.attributes.aiDescription) this.hooks.countStat?.('described');
+      if (processed.attributes.processingError) this.hooks.countStat?.('processingErrors');
+
+      return processed;
+    } catch (error) {
+      this.hooks.log(`Processing failed for ${item.displayPath}: ${error instanceof Error ? error.message : String(error)}`);
+      this.hooks.countStat?.('processingErrors');
+      return null;
+    }
+  }
+
+  private emitItem(item: FileItem, title: string, content: string, fields: Partial<ExtractedDocument> = {}): void {
+    const doc: ExtractedDocument = {
+      externalId: item.externalId,
+      title,
+      content,
+      url: item.url,
+      attributes: {
+        ...item.attributes,
+        ...(item.parent ? { parentExternalId: item.parent.externalId, parentPath: item.parent.path } : {}),
+        ...fields.attributes
+      },
+      lastModified: fields.lastModified || item.modifiedTime,
+      language: fields.language
+    };
+
+    this.hooks.emit(doc, item);
+  }
+
+  /**
+   * An archive is indexed as a listing of its files, and each supported file
+   * inside it as its own document
+   */
+  private async processArchive(item: FileItem): Promise<void> {
+    const entries = await readArchive(item.data, item.extension, item.archiveBudget);
+    this.hooks.log(`Archive ${item.displayPath}: ${entries.length} files`);
+
+    const listing = entries.map(entry => entry.path).join('\n');
+    this.emitItem(item, item.name, `Archive ${item.name} with ${entries.length} files:\n${listing}`, { attributes: { fileCount: entries.length } });
+
+    await this.processChildren(item, entries.map(entry => this.childItem(item, entry.path, entry.data, entry.modifiedTime)));
+  }
+
+  /**
+   * Every message of an mbox file becomes a document, keyed by its Message-ID
+   */
+  private async processMbox(item: FileItem): Promise<void> {
+    const messages = splitMbox(item.data).map(raw => ({ raw, email: parseEmail(raw) }));
+    this.hooks.log(`Mailbox ${item.displayPath}: ${messages.length} messages`);
+
+    const listing = messages.map(({ email }) => `${email.subject || '(no subject)'} - ${email.from || 'unknown sender'}`).join('\n');
+    this.emitItem(item, item.name, `Mailbox ${item.name} with ${messages.length} messages:\n${listing}`, { attributes: { messageCount: messages.length } });
+
+    for (let i = 0; i < messages.length; i++) {
+      if (this.hooks.shouldContinue?.() === false) break;
+
+      const { raw, email } = messages[i];
+      const key = email.messageId ? `<${email.messageId}>` : `message-${i + 1}`;
+      const child = this.childItem(item, key, raw, email.date);
+      child.name = `${email.subject || key}.eml`;
+      child.extension = '.eml';
+      try {
+        await this.processEmail(child, email);
+      } catch (error) {
+        this.hooks.log(`Error processing ${child.displayPath}: ${error instanceof Error ? error.message : String(error)}`);
+        this.hooks.markSeen?.(child.externalId);
+      }
+    }
+  }
+
+  /**
+   * An email is indexed with its headers as attributes; its attachments
+   * become documents of their own
+   */
+  private async processEmail(item: FileItem, email: ParsedEmail): Promise<void> {
+    const headerLines = [
+      email.from ? `From: ${email.from}` : '',
+      email.to.length > 0 ? `To: ${email.to.join(', ')}` : '',
+      email.cc.length > 0 ? `Cc: ${email.cc.join(', ')}` : '',
+      email.date ? `Date: ${email.date.toISOString()}` : '',
+      email.subject ? `Subject: ${email.subject}` : ''
+    ].filter(Boolean);
+
+    const mailAttributes = {
+      from: email.from,
+      to: email.to,
+      cc: email.cc,
+      sentAt: email.date?.toISOString(),
+      subject: email.subject
+    };
+
+    this.emitItem(
+      item,
+      email.subject || item.name,
+      `${headerLines.join('\n')}\n\n${email.text}`.trim(),
+      {
+        attributes: {
+          ...mailAttributes,
+          messageId: email.messageId,
+          attachments: email.attachments.map(attachment => attachment.filename)
+        },
+        lastModified: email.date
+      }
+    );
+
+    const usedNames = new Set<string>();
+    const children = email.attachments.map((attachment, index) => {
+      const name = usedNames.has(attachment.filename) ? `${index + 1}-${attachment.filename}` : attachment.filename;
+      usedNames.add(name);
+      const child = this.childItem(item, name, attachment.data, email.date);
+      Object.assign(child.attributes, { contentType: attachment.contentType, email: mailAttributes });
+      return child;
+    });
+    await this.processChildren(item, children);
+  }
+
+  /**
+   * Index the files found inside an archive or email whose type the
+   * connector is configured for
+   */
+  private async processChildren(parent: FileItem, children: FileItem[]): Promise<void> {
+    if (parent.depth >= MAX_NESTING_DEPTH) {
+      if (children.length > 0) this.hooks.log(`Not descending into ${parent.displayPath}: nested too deep`);
+      return;
+    }
+
+    for (const child of children) {
+      if (this.hooks.shouldContinue?.() === false) break;
+      if (!this.options.fileTypes.includes(child.extension)) continue;
+
+      this.hooks.log(`Processing: ${child.displayPath}`);
+      try {
+        await this.extract(child);
+      } catch (error) {
+        this.hooks.log(`Error processing ${child.displayPath}: ${error instanceof Error ? error.message : String(error)}`);
+        this.hooks.markSeen?.(child.externalId);
+      }
+    }
+  }
+
+  private childItem(parent: FileItem, innerPath: string, data: Buffer, modifiedTime?: Date): FileItem {
+    const name = path.posix.basename(innerPath);
+    const extension = fileExtension(name);
+    const time = modifiedTime && !isNaN(modifiedTime.getTime()) ? modifiedTime : parent.modifiedTime;
+    return {
+      externalId: `${parent.externalId}/${createHash('sha1').update(innerPath).digest('hex').substring(0, 16)}`,
+      name,
+      displayPath: `${parent.displayPath}/${innerPath}`,
+      url: `${parent.url}#${encodeURIComponent(innerPath)}`,
+      extension,
+      modifiedTime: time,
+      data,
+      depth: parent.depth + 1,
+      parent: { externalId: parent.externalId, path: parent.displayPath },
+      archiveBudget: parent.archiveBudget,
+      attributes: {
+        filename: name,
+        innerPath,
+        extension,
+        fileSize: data.length,
+        modifiedAt: time.toISOString()
+      }
+    };
+  }
+
+  private async extractContent(item: FileItem): Promise<ExtractedText> {
+    switch (item.extension) {
+      case '.txt':
+        return { text: item.data.toString('utf-8') };
+      case '.md':
+        return { text: this.extractMarkdown(item.data.toString('utf-8')) };
+      case '.html':
+      case '.htm':
+        return this.extractHtml(item.data.toString('utf-8'));
+      case '.pdf':
+        return { text: await this.extractPdf(item.data) };
+      case '.docx':
+        return { text: await this.extractDocx(item.data) };
+      case '.xlsx':
+        return extractXlsx(item.data);
+      case '.pptx':
+        return extractPptx(item.data);
+      case '.odt':
+        return extractOdt(item.data);
+      case '.epub':
+        return extractEpub(item.data);
+      case '.rtf':
+        return { text: rtfToText(item.data.toString('latin1')) };
+      default:
+        throw new Error(`Unsupported file type: ${item.extension}`);
+    }
+  }
+
+  private extractMarkdown(content: string): string {
+    return content
+      .replace(/```[\s\S]*?```/g, '')
+      .replace(/`[^`]+`/g, '')
+      .replace(/!\[.*?\]\(.*?\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
+      .replace(/^#{1,6}\s+/gm, '')
+      .replace(/\*\*([^*]+)\*\*/g, '$1')
+      .replace(/\*([^*]+)\*/g, '$1')
+      .replace(/__([^_]+)__/g, '$1')
+      .replace(/_([^_]+)_/g, '$1')
+      .replace(/^[-*_]{3,}$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private extractHtml(html: string): ExtractedText {
+    const $ = cheerio.load(html);
+    const title = $('title').text().trim();
+
+    $('script, style, nav, header, footer, aside, noscript').remove();
+
+    const text = $('body').text() || $.root().text();
+
+    return {
+      text: text
+        .replace(/\s+/g, ' ')
+        .replace(/\n+/g, '\n')
+        .trim(),
+      title: title || undefined
+    };
+  }
+
+  private async extractPdf(buffer: Buffer): Promise<string> {
+    const pdf = await loadPdfParse();
+    if (!pdf) {
+      throw new Error('PDF support not available. Install pdf-parse package.');
+    }
+
+    const data = await pdf(buffer);
+    return data.text || '';
+  }
+
+  private async extractDocx(buffer: Buffer): Promise<string> {
+    const mam = await loadMammoth();
+    if (!mam) {
+      throw new Error('DOCX support not available. Install mammoth package.');
+    }
+
+    const result = await mam.extractRawText({ buffer });
+    return result.value || '';
+  }
+
+  private extractTitle(item: FileItem, content: string): string {
+    const filename = item.name.slice(0, item.name.length - item.extension.length) || item.name;
+    
+    if (item.extension === '.md') {
+      const headerMatch = item.data.toString('utf-8').match(/^#\s+(.+)$/m);
+      if (headerMatch) {
+        return headerMatch[1].trim();
+      }
+    }
+
+    return filename
+      .replace(/[-_]/g, ' ')
+      .replace(/\b\w/g, c => c.toUpperCase());
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Document Formats
+ * Text extraction for the zip-based office and e-book formats (.xlsx,
+ * .pptx, .odt, .epub) and for .rtf
+ */
+
+import JSZip from 'jszip';
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+
+export interface ExtractedText {
+  text: string;
+  title?: string;
+}
+
+async function readXml(zip: JSZip, name: string): Promise<cheerio.CheerioAPI | null> {
+  const file = zip.file(name);
+  if (!file) return null;
+  return cheerio.load(await file.async('string'), { xmlMode: true });
+}
+
+// Numeric order: slide2 before slide10
+function byTrailingNumber(a: string, b: string): number {
+  const number = (name: string) => Number(name.match(/(\d+)\.xml$/)?.[1] || 0);
+  return number(a) - number(b);
+}
+
+/**
+ * Spreadsheet cells, one tab-separated line per row, under a heading per sheet
+ */
+export async function extractXlsx(data: Buffer): Promise<ExtractedText> {
+  const zip = await JSZip.loadAsync(data);
+
+  const sharedStrings: string[] = [];
+  const strings$ = await readXml(zip, 'xl/sharedStrings.xml');
+  strings$?.('si').each((_, element) => {
+    sharedStrings.push(strings$(element).find('t').map((__, t) => strings$(t).text()).get().join(''));
+  });
+
+  // Sheet names in workbook order, resolved to their part through the relationships
+  const targets = new Map<string, string>();
+  const rels$ = await readXml(zip, 'xl/_rels/workbook.xml.rels');
+  rels$?.('Relationship').each((_, element) => {
+    const target = rels$(element).attr('Target') || '';
+    targets.set(rels$(element).attr('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  });
+
+  const sheets: { name: string; part: string }[] = [];
+  const workbook$ = await readXml(zip, 'xl/workbook.xml');
+  workbook$?.('sheet').each((_, element) => {
+    const part = targets.get(workbook$(element).attr('r:id') || '');
+    if (part) sheets.push({ name: workbook$(element).attr('name') || part, part });
+  });
+  if (sheets.length === 0) {
+    Object.keys(zip.files)
+      .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+      .sort(byTrailingNumber)
+      .forEach(part => sheets.push({ name: path.basename(part, '.xml'), part }));
+  }
+
+  const blocks: string[] = [];
+  for (const sheet of sheets) {
+    const $ = await readXml(zip, sheet.part);
+    if (!$) continue;
+
+    const rows: string[] = [];
+    $('sheetData row').each((_, row) => {
+      const cells = $(row).children('c').map((__, cell) => {
+        const type = $(cell).attr('t');
+        if (type === 'inlineStr') return $(cell).find('is t').text();
+        const value = $(cell).children('v').text();
+        if (type === 's') return sharedStrings[Number(value)] ?? '';
+        if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+        return value;
+      }).get();
+      if (cells.some(cell => cell !== '')) rows.push(cells.join('\t'));
+    });
+
+    if (rows.length > 0) blocks.push(`${sheet.name}\n${rows.join('\n')}`);
+  }
+
+  return { text: blocks.join('\n\n') };
+}
+
+/**
+ * Slide text in slide order, one line per paragraph
+ */
+export async function extractPptx(data: Buffer): Promise<ExtractedText> {
+  const zip = await JSZip.loadAsync(data);
+  const slideNames = Object.keys(zip.files)
+    .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort(byTrailingNumber);
+
+  const slides: string[] = [];
+  for (const name of slideNames) {
+    const $ = (await readXml(zip, name))!;
+    const paragraphs = $('a\\:p')
+      .map((_, p) => $(p).find('a\\:t').map((__, t) => $(t).text()).get().join(''))
+      .get()
+      .filter(text => text.trim());
+    if (paragraphs.length > 0) slides.push(paragraphs.join('\n'));
+  }
+
+  const core$ = await readXml(zip, 'docProps/core.xml');
+  const title = core$?.('dc\\:title').text().trim();
+
+  return { text: slides.join('\n\n'), title: title || undefined };
+}
+
+/**
+ * OpenDocument text: headings and paragraphs
+ */
+export async function extractOdt(data: Buffer): Promise<ExtractedText> {
+  const zip = await JSZip.loadAsync(data);
+  const $ = await readXml(zip, 'content.xml');
+  if (!$) throw new Error('Not an OpenDocument file: content.xml missing');
+
+  $('text\\:tab').replaceWith('\t');
+  $('text\\:line-break').replaceWith('\n');
+  const paragraphs = $('office\\:body text\\:h, office\\:body text\\:p')
+    .map((_, element) => $(element).text())
+    .get()
+    .filter(text => text.trim());
+
+  const meta$ = await readXml(zip, 'meta.xml');
+  const title = meta$?.('dc\\:title').text().trim();
+
+  return { text: paragraphs.join('\n'), title: title || undefined };
+}
+
+/**
+ * EPUB chapters in reading (spine) order
+ */
+export async function extractEpub(data: Buffer): Promise<ExtractedText> {
+  const zip = await JSZip.loadAsync(data);
+  const container$ = await readXml(zip, 'META-INF/container.xml');
+  const opfPath = container$?.('rootfile').attr('full-path');
+  if (!opfPath) throw new Error('Not an EPUB file: container.xml has no rootfile');
+
+  const opf$ = await readXml(zip, opfPath);
+  if (!opf$) throw new Error(`EPUB package document missing: ${opfPath}`);
+
+  const manifest = new Map<string, string>();
+  opf$('manifest item').each((_, item) => {
+    manifest.set(opf$(item).attr('id') || '', opf$(item).attr('href') || '');
+  });
+
+  const chapters: string[] = [];
+  for (const itemref of opf$('spine itemref').toArray()) {
+    const href = manifest.get(opf$(itemref).attr('idref') || '');
+    if (!href) continue;
+
+    const file = zip.file(path.posix.join(path.posix.dirname(opfPath), decodeURIComponent(href)));
+    if (!file) continue;
+
+    const $ = cheerio.load(await file.async('string'));
+    $('script, style').remove();
+    const text = $('body').text().replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+    if (text) chapters.push(text);
+  }
+
+  const title = opf$('dc\\:title').first().text().trim();
+  return { text: chapters.join('\n\n'), title: title || undefined };
+}
+
+// Destinations that hold formatting, metadata or binary data, not body text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'footer',
+  'headerl', 'headerr', 'footerl', 'footerr', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl', 'xmlnstbl', 'generator'
+]);
+
+/**
+ * Plain text of an RTF document
+ */
+export function rtfToText(rtf: string): string {
+  const ansi = new TextDecoder('windows-1252');
+  const stack: { skip: boolean; unicodeSkip: number }[] = [];
+  let skip = false;
+  let unicodeSkip = 1;     // Fallback characters after \uN (set by \ucN)
+  let pendingSkip = 0;
+  let groupStart = false;
+  let out = '';
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!skip) out += text;
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+
+    if (ch === '{') {
+      stack.push({ skip, unicodeSkip });
+      groupStart = true;
+      i++;
+      continue;
+    }
+    if (ch === '}') {
+      ({ skip, unicodeSkip } = stack.pop() || { skip: false, unicodeSkip: 1 });
+      groupStart = false;
+      pendingSkip = 0;
+      i++;
+      continue;
+    }
+
+    const wasGroupStart = groupStart;
+    groupStart = false;
+
+    if (ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+    if (ch !== '\\') {
+      emit(ch);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+    } else if (next === "'") {
+      emit(ansi.decode(Buffer.from([parseInt(rtf.substr(i + 2, 2), 16) || 0x3f])));
+      i += 4;
+    } else if (next === '*') {
+      // Unknown-destination marker: ignorable group
+      skip = true;
+      i += 2;
+    } else if (next === '\r' || next === '\n') {
+      emit('\n');
+      i += 2;
+    } else if (next === '~') {
+      emit(' ');
+      i += 2;
+    } else if (next === '-' || next === '_') {
+      emit(next === '_' ? '-' : '');
+      i += 2;
+    } else {
+      const match = rtf.slice(i).match(/^\\([a-zA-Z]+)(-?\d+)? ?/);
+      if (!match) {
+        i += 2;
+        continue;
+      }
+      const [token, word, param] = match;
+      i += token.length;
+
+      if (wasGroupStart && RTF_SKIPPED_DESTINATIONS.has(word)) {
+        skip = true;
+      } else if (word === 'par' || word === 'line' || word === 'sect' || word === 'page') {
+        emit('\n');
+      } else if (word === 'tab' || word === 'cell') {
+        emit('\t');
+      } else if (word === 'row') {
+        emit('\n');
+      } else if (word === 'uc') {
+        unicodeSkip = Number(param || 1);
+      } else if (word === 'u' && param !== undefined) {
+        const code = Number(param);
+        if (!skip && pendingSkip === 0) out += String.fromCharCode(code < 0 ? code + 65536 : code);
+        pendingSkip = unicodeSkip;
+      }
+    }
+  }
+
+  return out.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
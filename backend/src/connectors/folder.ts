@@ -1,41 +1,20 @@
 /**
  * Folder/File Connector
- * Recursively scans local folders and extracts text content
+ * Recursively scans local folders and extracts text content, including the
+ * files inside archives and the attachments of emails
  */
 
 import { BaseConnector } from './base';
-import { Connector, FolderConnectorConfig, ExtractedDocument } from './types';
+import { Connector, FolderConnectorConfig } from './types';
+import { FileExtractor, fileExtension } from './file-extractor';
+import { autoProcessEnabled } from './processing';
+import { createHash } from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as cheerio from 'cheerio';
 
 // Dynamic imports for optional dependencies
-let pdfParse: any = null;
-let mammoth: any = null;
 let chokidar: any = null;
 
-async function loadPdfParse() {
-  if (!pdfParse) {
-    try {
-      pdfParse = (await import('pdf-parse')).default;
-    } catch {
-      console.warn('pdf-parse not installed. PDF support disabled.');
-    }
-  }
-  return pdfParse;
-}
-
-async function loadMammoth() {
-  if (!mammoth) {
-    try {
-      mammoth = await import('mammoth');
-    } catch {
-      console.warn('mammoth not installed. DOCX support disabled.');
-    }
-  }
-  return mammoth;
-}
-
 async function loadChokidar() {
   if (!chokidar) {
     try {
@@ -57,12 +36,33 @@ interface FileInfo {
 
 export class FolderConnector extends BaseConnector {
   private config: FolderConnectorConfig;
+  private autoProcess: boolean;
+  private extractor: FileExtractor;
   private watcher: any = null;
   private fileQueue: FileInfo[] = [];
+  // Ids extracted from each file the watcher is re-reading, by the file's id
+  private reextracting = new Map<string, Set<string>>();
 
   constructor(connector: Connector) {
     super(connector);
     this.config = connector.config as FolderConnectorConfig;
+    this.autoProcess = autoProcessEnabled(this.config.autoProcess);
+    this.extractor = new FileExtractor(
+      { fileTypes: this.config.fileTypes, autoProcess: this.autoProcess },
+      {
+        emit: doc => {
+          this.trackReextracted(doc.externalId);
+          this.emitDocument(doc);
+        },
+        log: message => this.log(message),
+        countStat: name => this.countStat(name),
+        markSeen: externalId => {
+          this.trackReextracted(externalId);
+          this.markSeen(externalId);
+        },
+        shouldContinue: () => this.shouldContinue()
+      }
+    );
   }
 
   protected async execute(): Promise<void> {
@@ -80,6 +80,7 @@ export class FolderConnector extends BaseConnector {
     this.log(`Scanning folder: ${folderPath}`);
     this.log(`Recursive: ${this.config.recursive}`);
     this.log(`File types: ${this.config.fileTypes.join(', ')}`);
+    this.log(`Content processing: ${this.autoProcess ? 'on' : 'off'}`);
 
     this.fileQueue = [];
     await this.collectFiles(folderPath, folderPath);
@@ -96,6 +97,8 @@ export class FolderConnector extends BaseConnector {
         await this.processFile(fileInfo);
       } catch (error) {
         this.log(`Error processing ${fileInfo.relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+        // The file still exists; keep its indexed copy
+        this.markSeen(this.fileToId(fileInfo.path));
       }
 
       processed++;
@@ -108,6 +111,11 @@ export class FolderConnector extends BaseConnector {
     }
   }
 
+  protected isFullSync(): boolean {
+    // Every matching file was listed; files not seen were deleted or excluded
+    return true;
+  }
+
   private resolvePath(folderPath: string): string {
     if (folderPath.startsWith('~')) {
       const home = process.env.HOME || process.env.USERPROFILE || '/';
@@ -139,7 +147,7 @@ export class FolderConnector extends BaseConnector {
           await this.collectFiles(fullPath, basePath);
         }
       } else if (entry.isFile()) {
-        const ext = path.extname(entry.name).toLowerCase();
+        const ext = fileExtension(entry.name);
         
         if (this.config.fileTypes.includes(ext)) {
           const fileStats = fs.statSync(fullPath);
@@ -181,137 +189,38 @@ export class FolderConnector extends BaseConnector {
   private async processFile(fileInfo: FileInfo): Promise<void> {
     this.log(`Processing: ${fileInfo.relativePath}`);
 
-    let content: string;
-    
-    try {
-      content = await this.extractContent(fileInfo);
-    } catch (error) {
-      throw new Error(`Failed to extract content: ${error instanceof Error ? error.message : String(error)}`);
-    }
-
-    if (!content || content.trim().length < 10) {
-      this.log(`Skipping file with insufficient content: ${fileInfo.relativePath}`);
-      return;
-    }
-
-    const doc: ExtractedDocument = {
+    const name = path.basename(fileInfo.path);
+    await this.extractor.extract({
       externalId: this.fileToId(fileInfo.path),
-      title: this.extractTitle(fileInfo, content),
-      content: content.trim(),
+      name,
+      filePath: fileInfo.path,
+      displayPath: fileInfo.relativePath,
       url: `file://${fileInfo.path}`,
+      extension: fileInfo.extension,
+      modifiedTime: fileInfo.modifiedTime,
+      data: fs.readFileSync(fileInfo.path),
+      depth: 0,
       attributes: {
-        filename: path.basename(fileInfo.path),
+        filename: name,
         filePath: fileInfo.path,
         relativePath: fileInfo.relativePath,
         extension: fileInfo.extension,
         fileSize: fileInfo.size,
         modifiedAt: fileInfo.modifiedTime.toISOString()
-      },
-      lastModified: fileInfo.modifiedTime
-    };
-
-    this.emitDocument(doc);
-  }
-
-  private async extractContent(fileInfo: FileInfo): Promise<string> {
-    switch (fileInfo.extension) {
-      case '.txt':
-        return this.extractText(fileInfo.path);
-      case '.md':
-        return this.extractMarkdown(fileInfo.path);
-      case '.html':
-      case '.htm':
-        return this.extractHtml(fileInfo.path);
-      case '.pdf':
-        return this.extractPdf(fileInfo.path);
-      case '.docx':
-        return this.extractDocx(fileInfo.path);
-      default:
-        throw new Error(`Unsupported file type: ${fileInfo.extension}`);
-    }
-  }
-
-  private extractText(filePath: string): string {
-    return fs.readFileSync(filePath, 'utf-8');
-  }
-
-  private extractMarkdown(filePath: string): string {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    return content
-      .replace(/```[\s\S]*?```/g, '')
-      .replace(/`[^`]+`/g, '')
-      .replace(/!\[.*?\]\(.*?\)/g, '')
-      .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-      .replace(/^#{1,6}\s+/gm, '')
-      .replace(/\*\*([^*]+)\*\*/g, '$1')
-      .replace(/\*([^*]+)\*/g, '$1')
-      .replace(/__([^_]+)__/g, '$1')
-      .replace(/_([^_]+)_/g, '$1')
-      .replace(/^[-*_]{3,}$/gm, '')
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
-  }
-
-  private extractHtml(filePath: string): string {
-    const html = fs.readFileSync(filePath, 'utf-8');
-    const $ = cheerio.load(html);
-
-    $('script, style, nav, header, footer, aside, noscript').remove();
-
-    const text = $('body').text() || $.root().text();
-
-    return text
-      .replace(/\s+/g, ' ')
-      .replace(/\n+/g, '\n')
-      .trim();
-  }
-
-  private async extractPdf(filePath: string): Promise<string> {
-    const pdf = await loadPdfParse();
-    if (!pdf) {
-      throw new Error('PDF support not available. Install pdf-parse package.');
-    }
-
-    const buffer = fs.readFileSync(filePath);
-    const data = await pdf(buffer);
-    return data.text || '';
-  }
-
-  private async extractDocx(filePath: string): Promise<string> {
-    const mam = await loadMammoth();
-    if (!mam) {
-      throw new Error('DOCX support not available. Install mammoth package.');
-    }
-
-    const buffer = fs.readFileSync(filePath);
-    const result = await mam.extractRawText({ buffer });
-    return result.value || '';
-  }
-
-  private extractTitle(fileInfo: FileInfo, content: string): string {
-    const filename = path.basename(fileInfo.path, fileInfo.extension);
-    
-    if (fileInfo.extension === '.md') {
-      const headerMatch = content.match(/^#\s+(.+)$/m);
-      if (headerMatch) {
-        return headerMatch[1].trim();
-      }
-    } else if (fileInfo.extension === '.html' || fileInfo.extension === '.htm') {
-      const html = fs.readFileSync(fileInfo.path, 'utf-8');
-      const $ = cheerio.load(html);
-      const title = $('title').text();
-      if (title) {
-        return title.trim();
       }
-    }
-
-    return filename
-      .replace(/[-_]/g, ' ')
-      .replace(/\b\w/g, c => c.toUpperCase());
+    });
   }
 
   private fileToId(filePath: string): string {
-    return Buffer.from(filePath).toString('base64url').substring(0, 64);
+    return createHash('sha256').update(filePath).digest('hex');
+  }
+
+  /**
+   * Documents unpacked from a file have ids under the file's own,
+   * `<file id>/<hash>`, and file ids contain no '/'
+   */
+  private trackReextracted(externalId: string): void {
+    this.reextracting.get(externalId.split('/')[0])?.add(externalId);
   }
 
   private async startWatcher(folderPath: string): Promise<void> {
@@ -345,7 +254,7 @@ export class FolderConnector extends BaseConnector {
       })
       .on('unlink', (filePath: string) => {
         this.log(`File deleted: ${filePath}`);
-        this.emit('delete', this.fileToId(filePath));
+        this.emit('delete', this.fileToId(filePath), []);
       })
       .on('error', (error: Error) => {
         this.log(`Watcher error: ${error.message}`);
@@ -362,10 +271,20 @@ export class FolderConnector extends BaseConnector {
         relativePath: path.relative(basePath, filePath),
         size: fileStats.size,
         modifiedTime: fileStats.mtime,
-        extension: path.extname(filePath).toLowerCase()
+        extension: fileExtension(filePath)
       };
 
-      await this.processFile(fileInfo);
+      const externalId = this.fileToId(filePath);
+      const extracted = new Set<string>();
+      this.reextracting.set(externalId, extracted);
+      try {
+        await this.processFile(fileInfo);
+      } finally {
+        this.reextracting.delete(externalId);
+      }
+
+      // Inner files and attachments that the new version no longer has
+      this.emit('delete', externalId, [...extracted]);
     } catch (error) {
       this.log(`Error handling file change: ${error instanceof Error ? error.message : String(error)}`);
     }
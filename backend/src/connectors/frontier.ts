@@ -0,0 +1,285 @@
+/**
+ * Crawl Frontier
+ * The web connector's queue of discovered URLs, grouped into per-host
+ * politeness queues and optionally persisted so a crawl pass can resume.
+ */
+
+import { Pool } from 'pg';
+import { isTrackingParam, stripTrackingParams } from '../frpei/utils';
+import { CrawlFrontierStore, FrontierEntry, FrontierStatus } from './types';
+
+const MAX_FETCH_ATTEMPTS = 3;
+const RETRY_BACKOFF_MS = 30_000;
+// Beyond FRPEI's list: every utm_* parameter and a few more click ids
+const CRAWL_TRACKING_PARAMS = new Set(['yclid', 'mc_cid', 'mc_eid', 'ref_src']);
+
+function isCrawlTrackingParam(key: string): boolean {
+  const lower = key.toLowerCase();
+  return isTrackingParam(lower) || lower.startsWith('utm_') || CRAWL_TRACKING_PARAMS.has(lower);
+}
+
+/**
+ * Canonical form of a crawlable URL: fragment and tracking parameters
+ * removed. Returns null for anything that is not http(s).
+ */
+export function canonicalizeCrawlUrl(value: string, base?: string): string | null {
+  try {
+    const url = new URL(value, base);
+    if (!['http:', 'https:'].includes(url.protocol)) return null;
+    url.hash = '';
+    return stripTrackingParams(url, isCrawlTrackingParam).href;
+  } catch {
+    return null;
+  }
+}
+
+export interface FrontierPick {
+  entry: FrontierEntry | null;   // Null when every host is still cooling down
+  waitMs: number;
+}
+
+export class CrawlFrontier {
+  private store: CrawlFrontierStore | null;
+  private log: (message: string) => void;
+  private entries: Map<string, FrontierEntry> = new Map();
+  private hostQueues: Map<string, FrontierEntry[]> = new Map();
+  private hostReadyAt: Map<string, number> = new Map();
+
+  constructor(store: CrawlFrontierStore | null, log: (message: string) => void = () => undefined) {
+    this.store = store;
+    this.log = log;
+  }
+
+  /**
+   * Load the stored frontier. Returns the entries of an unfinished pass, or
+   * an empty list (after clearing any leftovers) when there is none to resume.
+   */
+  async open(seedUrl: string): Promise<FrontierEntry[]> {
+    this.entries.clear();
+    this.hostQueues.clear();
+    this.hostReadyAt.clear();
+    if (!this.store) return [];
+
+    let stored: FrontierEntry[];
+    try {
+      stored = await this.store.load();
+    } catch (error) {
+      this.log(`Failed to load crawl frontier, starting over: ${error instanceof Error ? error.message : String(error)}`);
+      return [];
+    }
+
+    const resumable = stored.some(entry => entry.status === 'queued') && stored.some(entry => entry.url === seedUrl);
+    if (!resumable) {
+      if (stored.length > 0) await this.persist(this.store.clear());
+      return [];
+    }
+
+    for (const entry of stored) {
+      this.entries.set(entry.url, entry);
+      if (entry.status === 'queued') this.enqueue(entry);
+    }
+    return stored;
+  }
+
+  has(url: string): boolean {
+    return this.entries.has(url);
+  }
+
+  get pendingCount(): number {
+    let count = 0;
+    for (const queue of this.hostQueues.values()) count += queue.length;
+    return count;
+  }
+
+  /**
+   * Add newly discovered URLs; ones already in the frontier are ignored
+   */
+  async add(urls: string[], depth: number, priority: number = -depth): Promise<void> {
+    const added: FrontierEntry[] = [];
+    for (const url of urls) {
+      if (this.entries.has(url)) continue;
+      const entry: FrontierEntry = {
+        url,
+        host: new URL(url).host,
+        depth,
+        priority,
+        status: 'queued',
+        nextFetchAt: new Date(),
+        attempts: 0
+      };
+      this.entries.set(url, entry);
+      this.enqueue(entry);
+      added.push(entry);
+    }
+
+    if (this.store && added.length > 0) {
+      await this.persist(this.store.add(added));
+    }
+  }
+
+  /**
+   * The next URL to fetch: the best-ranked due entry of a host that is not
+   * cooling down. Returns null when the frontier is exhausted.
+   */
+  next(now: number = Date.now()): FrontierPick | null {
+    let best: { entry: FrontierEntry; readyAt: number } | null = null;
+
+    for (const [host, queue] of this.hostQueues) {
+      if (queue.length === 0) continue;
+
+      const due = queue.find(entry => entry.nextFetchAt.getTime() <= now)
+        || queue.reduce((a, b) => (b.nextFetchAt < a.nextFetchAt ? b : a));
+      const readyAt = Math.max(this.hostReadyAt.get(host) || 0, due.nextFetchAt.getTime());
+
+      const better = !best
+        || (readyAt <= now && best.readyAt <= now
+          ? due.priority > best.entry.priority || (due.priority === best.entry.priority && readyAt < best.readyAt)
+          : readyAt < best.readyAt);
+      if (better) best = { entry: due, readyAt };
+    }
+
+    if (!best) return null;
+    if (best.readyAt > now) return { entry: null, waitMs: best.readyAt - now };
+
+    this.dequeue(best.entry);
+    return { entry: best.entry, waitMs: 0 };
+  }
+
+  /**
+   * Hold off further requests to a host for `delayMs`
+   */
+  cooldown(host: string, delayMs: number): void {
+    this.hostReadyAt.set(host, Date.now() + delayMs);
+  }
+
+  async finish(entry: FrontierEntry, status: Exclude<FrontierStatus, 'queued'>, details: { externalId?: string; error?: string } = {}): Promise<void> {
+    entry.status = status;
+    entry.attempts++;
+    entry.externalId = details.externalId ?? entry.externalId;
+    entry.lastError = details.error;
+    if (this.store) await this.persist(this.store.update(entry));
+  }
+
+  /**
+   * Requeue an entry after a transient failure, with backoff. Returns false
+   * (and marks it failed) once it is out of attempts.
+   */
+  async retry(entry: FrontierEntry, error: string): Promise<boolean> {
+    if (entry.attempts + 1 >= MAX_FETCH_ATTEMPTS) {
+      await this.finish(entry, 'failed', { error });
+      return false;
+    }
+
+    entry.attempts++;
+    entry.lastError = error;
+    entry.nextFetchAt = new Date(Date.now() + RETRY_BACKOFF_MS * entry.attempts);
+    this.enqueue(entry);
+    if (this.store) await this.persist(this.store.update(entry));
+    return true;
+  }
+
+  /**
+   * Forget the pass once it is finished, so the next run starts from the seed
+   */
+  async close(): Promise<void> {
+    if (this.store) await this.persist(this.store.clear());
+  }
+
+  // Insert by priority, after entries of equal priority (discovery order)
+  private enqueue(entry: FrontierEntry): void {
+    let queue = this.hostQueues.get(entry.host);
+    if (!queue) {
+      queue = [];
+      this.hostQueues.set(entry.host, queue);
+    }
+
+    let index = queue.length;
+    while (index > 0 && queue[index - 1].priority < entry.priority) index--;
+    queue.splice(index, 0, entry);
+  }
+
+  private dequeue(entry: FrontierEntry): void {
+    const queue = this.hostQueues.get(entry.host);
+    if (!queue) return;
+    queue.splice(queue.indexOf(entry), 1);
+    if (queue.length === 0) this.hostQueues.delete(entry.host);
+  }
+
+  // The crawl can go on without persistence; it only loses resumability
+  private async persist(operation: Promise<void>): Promise<void> {
+    try {
+      await operation;
+    } catch (error) {
+      this.log(`Failed to save crawl frontier: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Frontier persistence in the crawl_frontier table
+ */
+export class PgCrawlFrontierStore implements CrawlFrontierStore {
+  private pool: Pool;
+  private connectorId: string;
+
+  constructor(pool: Pool, connectorId: string) {
+    this.pool = pool;
+    this.connectorId = connectorId;
+  }
+
+  async load(): Promise<FrontierEntry[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM crawl_frontier WHERE connector_id = $1 ORDER BY priority DESC, seq',
+      [this.connectorId]
+    );
+    return result.rows.map(row => ({
+      url: row.url,
+      host: row.host,
+      depth: row.depth,
+      priority: row.priority,
+      status: row.status,
+      nextFetchAt: row.next_fetch_at,
+      attempts: row.attempts,
+      externalId: row.external_id || undefined,
+      lastError: row.last_error || undefined
+    }));
+  }
+
+  async add(entries: FrontierEntry[]): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO crawl_frontier (connector_id, url, host, depth, priority, next_fetch_at)
+      SELECT $1, e.url, e.host, e.depth, e.priority, e.next_fetch_at
+      FROM unnest($2::text[], $3::text[], $4::int[], $5::int[], $6::timestamptz[])
+        WITH ORDINALITY AS e(url, host, depth, priority, next_fetch_at, ord)
+      ORDER BY e.ord
+      ON CONFLICT (connector_id, url) DO NOTHING
+    `, [
+      this.connectorId,
+      entries.map(entry => entry.url),
+      entries.map(entry => entry.host),
+      entries.map(entry => entry.depth),
+      entries.map(entry => entry.priority),
+      entries.map(entry => entry.nextFetchAt)
+    ]);
+  }
+
+  async update(entry: FrontierEntry): Promise<void> {
+    await this.pool.query(`
+      UPDATE crawl_frontier
+      SET status = $3, next_fetch_at = $4, attempts = $5, external_id = $6, last_error = $7, updated_at = NOW()
+      WHERE connector_id = $1 AND url = $2
+    `, [
+      this.connectorId,
+      entry.url,
+      entry.status,
+      entry.nextFetchAt,
+      entry.attempts,
+      entry.externalId || null,
+      entry.lastError || null
+    ]);
+  }
+
+  async clear(): Promise<void> {
+    await this.pool.query('DELETE FROM crawl_frontier WHERE connector_id = $1', [this.connectorId]);
+  }
+}
@@ -8,5 +8,20 @@ export * from './base';
 export * from './manager';
 export * from './routes';
 export * from './web-spider';
+export * from './sitemap';
+export * from './frontier';
+export * from './page-fetcher';
 export * from './folder';
+export * from './file-extractor';
+export * from './archive';
+export * from './mail';
+export * from './file-formats';
+export * from './processing';
 export * from './nostr';
+export * from './rest';
+export * from './rest-mapping';
+export * from './sql';
+export * from './schedule';
+export * from './run-events';
+export * from './queue';
+export * from './scheduler';
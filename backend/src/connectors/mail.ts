@@ -0,0 +1,253 @@
+/**
+ * Email Parsing
+ * A small MIME reader for .eml files and mbox exports: headers, the text
+ * body and attachments
+ */
+
+import * as cheerio from 'cheerio';
+
+const MAX_MIME_DEPTH = 10;
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface ParsedEmail {
+  subject?: string;
+  from?: string;
+  to: string[];
+  cc: string[];
+  date?: Date;
+  messageId?: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+interface MimeBody {
+  text: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * Split raw message text (latin1, so bytes survive) into unfolded headers
+ * with lower-case names and the body
+ */
+function splitMessage(raw: string): { headers: Map<string, string>; body: string } {
+  const match = raw.match(/^\r?\n/) || raw.match(/\r?\n\r?\n/);
+  const headerText = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : '';
+
+  const headers = new Map<string, string>();
+  const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins (trace headers repeat)
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return { headers, body };
+}
+
+function decodeCharset(bytes: Buffer, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf-8');
+  }
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+  const softBreaksRemoved = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < softBreaksRemoved.length; i++) {
+    const ch = softBreaksRemoved[i];
+    const hex = softBreaksRemoved.slice(i + 1, i + 3);
+    if (ch === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(softBreaksRemoved.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function decodeTransfer(body: string, encoding: string = ''): Buffer {
+  switch (encoding.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded words (=?charset?B|Q?text?=) in a header value.
+ * Header bytes were read as latin1; plain 8-bit values are taken as UTF-8.
+ */
+export function decodeHeader(value: string): string {
+  const words = value.replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1');
+  const decoded = words.replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+    const bytes = encoding.toUpperCase() === 'B'
+      ? Buffer.from(text, 'base64')
+      : decodeQuotedPrintable(text.replace(/_/g, ' '));
+    return decodeCharset(bytes, charset);
+  });
+  return /[\x80-\xff]/.test(decoded) && decoded === words
+    ? decodeCharset(Buffer.from(decoded, 'latin1'))
+    : decoded;
+}
+
+/**
+ * Split a structured header such as Content-Type into its value and
+ * parameters (RFC 2231 `name*=charset''value` included)
+ */
+function parseHeaderParams(header: string = ''): { value: string; params: Record<string, string> } {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+  for (const part of rest.join(';').match(/[^;=\s]+\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g) || []) {
+    const eq = part.indexOf('=');
+    let name = part.slice(0, eq).trim().toLowerCase();
+    let paramValue = part.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1').replace(/\\(.)/g, '$1');
+    if (name.endsWith('*')) {
+      name = name.slice(0, -1);
+      const match = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+      if (match) {
+        const bytes = Buffer.from(match[2].replace(/%([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+        paramValue = decodeCharset(bytes, match[1] || 'utf-8');
+      }
+    }
+    params[name] = decodeHeader(paramValue);
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+/**
+ * Split an address list on commas outside quotes and angle brackets
+ */
+function parseAddressList(header?: string): string[] {
+  if (!header) return [];
+  const addresses: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (const ch of decodeHeader(header)) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === '<' && !quoted) angle = true;
+    else if (ch === '>' && !quoted) angle = false;
+    if (ch === ',' && !quoted && !angle) {
+      if (current.trim()) addresses.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) addresses.push(current.trim());
+  return addresses;
+}
+
+function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style, head').remove();
+  $('br').replaceWith('\n');
+  $('p, div, li, tr, h1, h2, h3, h4, h5, h6').append('\n');
+  return $.root().text().replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+}
+
+function readPart(headers: Map<string, string>, body: string, result: MimeBody, depth: number): void {
+  const contentType = parseHeaderParams(headers.get('content-type') || 'text/plain');
+  const disposition = parseHeaderParams(headers.get('content-disposition'));
+  const filename = disposition.params.filename || contentType.params.name;
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary && depth < MAX_MIME_DEPTH) {
+    const delimiter = `--${contentType.params.boundary}`.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const closing = body.search(new RegExp(`(?:^|\\n)${delimiter}--`));
+    const inner = closing === -1 ? body : body.slice(0, closing);
+    // The first section is the preamble
+    const sections = inner.split(new RegExp(`(?:^|\\r?\\n)${delimiter}[ \\t]*(?:\\r?\\n|$)`));
+    for (const section of sections.slice(1)) {
+      const part = splitMessage(section);
+      readPart(part.headers, part.body, result, depth + 1);
+    }
+    return;
+  }
+
+  const data = decodeTransfer(body, headers.get('content-transfer-encoding'));
+
+  const isAttachment = disposition.value === 'attachment' || !!filename || contentType.value === 'message/rfc822';
+  if (isAttachment) {
+    result.attachments.push({
+      filename: filename || (contentType.value === 'message/rfc822' ? 'attached-message.eml' : 'attachment'),
+      contentType: contentType.value,
+      data
+    });
+  } else if (contentType.value === 'text/plain' && !result.text) {
+    result.text = decodeCharset(data, contentType.params.charset);
+  } else if (contentType.value === 'text/html' && !result.html) {
+    result.html = decodeCharset(data, contentType.params.charset);
+  }
+}
+
+/**
+ * Parse one RFC 822 message
+ */
+export function parseEmail(raw: Buffer): ParsedEmail {
+  const { headers, body } = splitMessage(raw.toString('latin1'));
+  const mime: MimeBody = { text: '', html: '', attachments: [] };
+  readPart(headers, body, mime, 0);
+
+  const dateHeader = headers.get('date');
+  const date = dateHeader ? new Date(dateHeader) : undefined;
+  const subject = headers.get('subject');
+  const from = headers.get('from');
+
+  return {
+    subject: subject ? decodeHeader(subject) : undefined,
+    from: from ? decodeHeader(from) : undefined,
+    to: parseAddressList(headers.get('to')),
+    cc: parseAddressList(headers.get('cc')),
+    date: date && !isNaN(date.getTime()) ? date : undefined,
+    messageId: headers.get('message-id')?.replace(/^<|>$/g, ''),
+    text: (mime.text || (mime.html ? htmlToText(mime.html) : '')).trim(),
+    attachments: mime.attachments
+  };
+}
+
+/**
+ * Split an mbox file into its messages, undoing ">From " quoting
+ */
+export function splitMbox(raw: Buffer): Buffer[] {
+  const lines = raw.toString('latin1').split(/\r?\n/);
+  const messages: Buffer[] = [];
+  let current: string[] | null = null;
+
+  const flush = () => {
+    if (current && current.some(line => line.trim())) {
+      messages.push(Buffer.from(current.join('\n'), 'latin1'));
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('From ') && (i === 0 || lines[i - 1] === '')) {
+      flush();
+      current = [];
+      continue;
+    }
+    if (current) {
+      current.push(line.replace(/^>(>*From )/, '$1'));
+    }
+  }
+  flush();
+
+  return messages;
+}
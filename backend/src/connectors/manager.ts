@@ -8,14 +8,37 @@ import { v4 as uuidv4 } from 'uuid';
 import {
   Connector,
   ConnectorConfig,
+  ConnectorJob,
+  ConnectorJobTrigger,
   ConnectorRun,
+  RunDocumentOutcome,
+  RunLogLine,
+  ConnectorSchedule,
   ConnectorStatus,
-  ExtractedDocument
+  ConnectorSyncHooks,
+  DeletionMode,
+  ExtractedDocument,
+  RemovedDocument
 } from './types';
 import { BaseConnector } from './base';
 import { WebSpiderConnector } from './web-spider';
 import { FolderConnector } from './folder';
 import { NostrConnector } from './nostr';
+import { RestConnector } from './rest';
+import { SqlConnector } from './sql';
+import { ConnectorJobQueue } from './queue';
+import { PgCrawlFrontierStore } from './frontier';
+import { PgNostrEventStore } from '../templates/nostr/lifecycle';
+import { nextRunTime } from './schedule';
+import { PgRunLogStore, RunEventHub, RunEventStream, runSummary } from './run-events';
+import { DocumentAcl, resolveDocumentAcl } from '../search/access';
+import { languageToTsConfig } from '../search/text-search';
+import { indexDocumentChunks } from '../search/chunks';
+import { getActiveEmbeddingSpace } from '../embeddings/space';
+
+const HEARTBEAT_INTERVAL_MS = Number(process.env.CONNECTOR_JOB_HEARTBEAT_MS || 30_000);
+// How long documents gone upstream stay tombstoned (hidden, restorable) before they are purged
+const TOMBSTONE_GRACE_HOURS = Number(process.env.DOCUMENT_TOMBSTONE_GRACE_HOURS || 168);
 
 // Type for webhook manager to avoid circular imports
 interface WebhookEmitter {
@@ -28,10 +51,15 @@ export class ConnectorManager {
   private runningConnectors: Map<string, BaseConnector> = new Map();
   private runStatuses: Map<string, ConnectorRun> = new Map();
   private webhookEmitter?: WebhookEmitter;
+  private jobQueue: ConnectorJobQueue;
+  private runEvents: RunEventHub = new RunEventHub();
+  private runLogs: PgRunLogStore;
 
   constructor(pool: Pool, generateEmbedding: (text: string) => Promise<number[]>) {
     this.pool = pool;
     this.generateEmbedding = generateEmbedding;
+    this.jobQueue = new ConnectorJobQueue(pool);
+    this.runLogs = new PgRunLogStore(pool);
   }
 
   /**
@@ -48,8 +76,8 @@ export class ConnectorManager {
     const result = await this.pool.query(`
       SELECT c.id, c.name, c.description, c.connector_type, c.config,
              c.portal_url, c.item_url_template, c.search_url_template, c.edit_url_template,
-             c.is_active, c.created_at, c.updated_at,
-             (SELECT COUNT(*) FROM documents WHERE source_id = c.id) as document_count,
+             c.is_active, c.created_at, c.updated_at, c.schedule, c.next_run_at,
+             (SELECT COUNT(*) FROM documents WHERE source_id = c.id AND deleted_at IS NULL) as document_count,
              (SELECT MAX(completed_at) FROM connector_runs WHERE connector_id = c.id) as last_run_at,
              (SELECT status FROM connector_runs WHERE connector_id = c.id ORDER BY started_at DESC LIMIT 1) as last_run_status
       FROM connectors c
@@ -65,7 +93,7 @@ export class ConnectorManager {
   async getConnector(id: string): Promise<Connector | null> {
     const result = await this.pool.query(`
       SELECT c.*,
-             (SELECT COUNT(*) FROM documents WHERE source_id = c.id) as document_count
+             (SELECT COUNT(*) FROM documents WHERE source_id = c.id AND deleted_at IS NULL) as document_count
       FROM connectors c
       WHERE c.id = $1
     `, [id]);
@@ -83,15 +111,26 @@ export class ConnectorManager {
   async createConnector(
     name: string,
     description: string | null,
-    config: ConnectorConfig
+    config: ConnectorConfig,
+    schedule: ConnectorSchedule | null = null
   ): Promise<Connector> {
     const id = uuidv4();
     
     const result = await this.pool.query(`
-      INSERT INTO connectors (id, name, description, connector_type, config, is_active, created_at, updated_at)
-      VALUES ($1, $2, $3, $4, $5, true, NOW(), NOW())
+      INSERT INTO connectors (
+        id, name, description, connector_type, config, is_active, schedule, next_run_at, created_at, updated_at
+      )
+      VALUES ($1, $2, $3, $4, $5, true, $6, $7, NOW(), NOW())
       RETURNING *
-    `, [id, name, description, config.type, JSON.stringify(config)]);
+    `, [
+      id,
+      name,
+      description,
+      config.type,
+      JSON.stringify(config),
+      schedule ? JSON.stringify(schedule) : null,
+      schedule ? nextRunTime(schedule, new Date()) : null
+    ]);
 
     return this.rowToConnector(result.rows[0]);
   }
@@ -106,6 +145,7 @@ export class ConnectorManager {
       description?: string | null;
       config?: ConnectorConfig;
       isActive?: boolean;
+      schedule?: ConnectorSchedule | null;   // null removes the schedule
     }
   ): Promise<Connector | null> {
     const current = await this.getConnector(id);
@@ -119,6 +159,8 @@ export class ConnectorManager {
           description = COALESCE($3, description),
           config = COALESCE($4, config),
           is_active = COALESCE($5, is_active),
+          schedule = CASE WHEN $6 THEN $7::jsonb ELSE schedule END,
+          next_run_at = CASE WHEN $6 THEN $8::timestamptz ELSE next_run_at END,
           updated_at = NOW()
       WHERE id = $1
       RETURNING *
@@ -127,7 +169,10 @@ export class ConnectorManager {
       updates.name,
       updates.description,
       updates.config ? JSON.stringify(updates.config) : null,
-      updates.isActive
+      updates.isActive,
+      updates.schedule !== undefined,
+      updates.schedule ? JSON.stringify(updates.schedule) : null,
+      updates.schedule ? nextRunTime(updates.schedule, new Date()) : null
     ]);
 
     return result.rows.length > 0 ? this.rowToConnector(result.rows[0]) : null;
@@ -150,47 +195,194 @@ export class ConnectorManager {
   }
 
   /**
-   * Run a connector
+   * Run a connector now on this instance. Fails when any instance is
+   * already running it. `deletions` overrides the configured deletion mode
+   * for this run (e.g. 'dry-run' to report what would be removed).
    */
-  async runConnector(id: string): Promise<ConnectorRun> {
-    const connector = await this.getConnector(id);
+  async runConnector(
+    id: string,
+    trigger: ConnectorJobTrigger = 'manual',
+    options: { deletions?: DeletionMode } = {}
+  ): Promise<ConnectorRun> {
+    let connector = await this.getConnector(id);
     if (!connector) {
       throw new Error('Connector not found');
     }
 
+    if (options.deletions) {
+      connector = { ...connector, config: { ...connector.config, deletions: options.deletions } };
+    }
+
     if (this.runningConnectors.has(id)) {
       throw new Error('Connector is already running');
     }
 
+    const job = await this.jobQueue.claimForConnector(id, trigger);
+    if (!job) {
+      throw new Error('Connector is already running');
+    }
+
+    return this.startRun(connector, job);
+  }
+
+  /**
+   * Run a job claimed from the queue by the scheduler
+   */
+  async runQueuedJob(job: ConnectorJob): Promise<ConnectorRun | null> {
+    const connector = await this.getConnector(job.connectorId);
+    if (!connector || !connector.isActive) {
+      await this.jobQueue.finish(job.id, 'cancelled', undefined, connector ? 'Connector is inactive' : 'Connector not found');
+      return null;
+    }
+
+    if (this.runningConnectors.has(connector.id)) {
+      await this.jobQueue.finish(job.id, 'cancelled', undefined, 'Connector is already running');
+      return null;
+    }
+
+    return this.startRun(connector, job);
+  }
+
+  /**
+   * Number of connectors running on this instance
+   */
+  getRunningCount(): number {
+    return this.runningConnectors.size;
+  }
+
+  getJobQueue(): ConnectorJobQueue {
+    return this.jobQueue;
+  }
+
+  private async startRun(connector: Connector, job: ConnectorJob): Promise<ConnectorRun> {
+    const id = connector.id;
+
     // Create connector instance based on type
     let connectorInstance: BaseConnector;
-    
-    switch (connector.config.type) {
-      case 'web':
-        connectorInstance = new WebSpiderConnector(connector);
-        break;
-      case 'folder':
-        connectorInstance = new FolderConnector(connector);
-        break;
-      case 'nostr':
-        connectorInstance = new NostrConnector(connector);
-        break;
-      default:
-        throw new Error(`Unsupported connector type: ${connector.config.type}`);
+
+    try {
+      switch (connector.config.type) {
+        case 'web':
+          connectorInstance = new WebSpiderConnector(connector);
+          break;
+        case 'folder':
+          connectorInstance = new FolderConnector(connector);
+          break;
+        case 'nostr':
+          connectorInstance = new NostrConnector(connector);
+          break;
+        case 'rest':
+          connectorInstance = new RestConnector(connector);
+          break;
+        case 'sql':
+          connectorInstance = new SqlConnector(connector);
+          break;
+        default:
+          throw new Error(`Unsupported connector type: ${(connector.config as ConnectorConfig).type}`);
+      }
+    } catch (error) {
+      await this.jobQueue.finish(job.id, 'failed', undefined, (error as Error).message);
+      throw error;
     }
 
+    const syncHooks = this.createSyncHooks(connector);
+    connectorInstance.setSyncHooks(syncHooks);
+
+    // Keep the queue lock alive; other instances requeue jobs without heartbeats
+    const heartbeat = setInterval(() => {
+      this.jobQueue.heartbeat(job.id).catch(console.error);
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    // Live events of this run; opened on 'start', when the run id is known
+    let events: RunEventStream | null = null;
+    const indexing: Set<Promise<void>> = new Set();
+
     // Set up event handlers
-    connectorInstance.on('document', async (doc: ExtractedDocument) => {
-      await this.indexDocument(connector.id, doc);
+    connectorInstance.on('document', (doc: ExtractedDocument) => {
+      const task = this.indexDocument(connector.id, doc, connector.config.acl)
+        .then(({ documentId, added }) => ({
+          externalId: doc.externalId,
+          title: doc.title,
+          url: doc.url,
+          status: added ? 'added' : 'updated',
+          documentId
+        } as RunDocumentOutcome))
+        .catch(error => {
+          console.error(`Failed to index ${doc.externalId}:`, error);
+          return {
+            externalId: doc.externalId,
+            title: doc.title,
+            url: doc.url,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error)
+          } as RunDocumentOutcome;
+        })
+        .then(outcome => {
+          events?.publish('document', outcome);
+        })
+        .finally(() => indexing.delete(task));
+      indexing.add(task);
     });
 
     connectorInstance.on('progress', (run: ConnectorRun) => {
       this.runStatuses.set(id, run);
+      events?.publish('progress', runSummary(run));
+    });
+
+    connectorInstance.on('log', (line: string) => {
+      if (!events) return;
+      const event = events.publish('log', { line });
+      this.runLogs.append(id, events.runId, event.id, line);
+    });
+
+    // Failures are recorded on the run; without a listener 'error' would throw
+    connectorInstance.on('error', (error: Error) => {
+      console.error(`Connector ${id} failed:`, error.message);
+    });
+
+    // File watcher deletions, which arrive outside of a run: a file's
+    // document and the documents unpacked from it, except those in keep
+    connectorInstance.on('delete', (externalId: string, keep: string[] = []) => {
+      if ((connector.config.deletions || 'tombstone') !== 'tombstone') return;
+      Promise.all([
+        keep.includes(externalId) ? [] : syncHooks.removeDocuments([externalId]),
+        syncHooks.removeDocumentsByPrefix(`${externalId}/`, keep)
+      ]).catch(console.error);
+    });
+
+    connectorInstance.on('start', (run: ConnectorRun) => {
+      events = this.runEvents.open(id, run.id);
+      events.publish('start', runSummary(run));
+
+      if (this.webhookEmitter) {
+        this.webhookEmitter.emit('connector.started', {
+          connector_id: id,
+          connector_name: connector.name,
+          connector_type: connector.config.type,
+          run_id: run.id,
+          job_id: job.id,
+          trigger: job.trigger
+        }).catch(console.error);
+      }
     });
 
     connectorInstance.on('complete', async (run: ConnectorRun) => {
-      await this.saveRunHistory(id, run);
-      this.runningConnectors.delete(id);
+      clearInterval(heartbeat);
+      try {
+        // Documents emitted at the end of the run may still be indexing
+        await Promise.all(indexing);
+        await this.runLogs.flush();
+        await this.saveRunHistory(id, run);
+      } finally {
+        this.runningConnectors.delete(id);
+        const jobStatus = run.status === 'completed' ? 'completed' : run.status === 'stopped' ? 'cancelled' : 'failed';
+        await this.jobQueue.finish(job.id, jobStatus, run.id, run.errorMessage).catch(console.error);
+        if (events) {
+          events.publish('complete', runSummary(run));
+          this.runEvents.retire(run.id);
+        }
+      }
 
       // Emit webhook event for connector completion
       if (this.webhookEmitter) {
@@ -204,6 +396,7 @@ export class ConnectorManager {
           documents_added: run.documentsAdded,
           documents_updated: run.documentsUpdated,
           documents_removed: run.documentsRemoved,
+          stats: run.stats,
           error_message: run.errorMessage
         }).catch(console.error);
       }
@@ -256,36 +449,193 @@ export class ConnectorManager {
       LIMIT $2
     `, [id, limit]);
 
+    return result.rows.map(row => this.rowToRun(row));
+  }
+
+  /**
+   * A finished run from the history
+   */
+  async getRun(connectorId: string, runId: string): Promise<ConnectorRun | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM connector_runs WHERE connector_id = $1 AND id = $2',
+      [connectorId, runId]
+    );
+    return result.rows[0] ? this.rowToRun(result.rows[0]) : null;
+  }
+
+  /**
+   * Live event stream of a run in progress on this instance (or one that
+   * finished recently)
+   */
+  getRunEvents(connectorId: string, runId: string): RunEventStream | null {
+    const stream = this.runEvents.get(runId);
+    return stream && stream.connectorId === connectorId ? stream : null;
+  }
+
+  /**
+   * Id of the connector's most recent run on this instance
+   */
+  getLatestRunId(connectorId: string): string | null {
+    return this.runEvents.latestRunId(connectorId);
+  }
+
+  /**
+   * A page of a run's full log. Lines still waiting to be written are
+   * flushed first.
+   */
+  async getRunLogs(connectorId: string, runId: string, after: number, limit: number, before?: number): Promise<RunLogLine[]> {
+    await this.runLogs.flush();
+    return this.runLogs.page(connectorId, runId, after, limit, before);
+  }
+
+  /**
+   * State and document bookkeeping a connector keeps between runs
+   */
+  private createSyncHooks(connector: Connector): ConnectorSyncHooks {
+    const connectorId = connector.id;
+    const hooks: ConnectorSyncHooks = {
+      loadState: async () => {
+        const result = await this.pool.query(
+          'SELECT state FROM connector_sync_state WHERE connector_id = $1',
+          [connectorId]
+        );
+        return result.rows[0]?.state || null;
+      },
+      saveState: async (state) => {
+        await this.pool.query(`
+          INSERT INTO connector_sync_state (connector_id, state, updated_at)
+          VALUES ($1, $2, NOW())
+          ON CONFLICT (connector_id) DO UPDATE SET state = EXCLUDED.state, updated_at = NOW()
+        `, [connectorId, JSON.stringify(state)]);
+      },
+      listExternalIds: async () => {
+        const result = await this.pool.query(
+          'SELECT external_id FROM documents WHERE source_id = $1 AND external_id IS NOT NULL AND deleted_at IS NULL',
+          [connectorId]
+        );
+        return result.rows.map(row => row.external_id);
+      },
+      removeDocuments: async (externalIds, dryRun = false) => {
+        const result = dryRun
+          ? await this.pool.query(`
+              SELECT id, external_id, title, url FROM documents
+              WHERE source_id = $1 AND external_id = ANY($2) AND deleted_at IS NULL
+            `, [connectorId, externalIds])
+          : await this.pool.query(`
+              UPDATE documents SET deleted_at = NOW()
+              WHERE source_id = $1 AND external_id = ANY($2) AND deleted_at IS NULL
+              RETURNING id, external_id, title, url
+            `, [connectorId, externalIds]);
+
+        const removed: RemovedDocument[] = result.rows.map(row => ({
+          externalId: row.external_id,
+          documentId: row.id,
+          title: row.title,
+          url: row.url || undefined
+        }));
+
+        if (!dryRun && this.webhookEmitter) {
+          const purgeAfter = new Date(Date.now() + TOMBSTONE_GRACE_HOURS * 3_600_000).toISOString();
+          for (const doc of removed) {
+            this.webhookEmitter.emit('document.deleted', {
+              document_id: doc.documentId,
+              external_id: doc.externalId,
+              title: doc.title,
+              url: doc.url,
+              source_id: connectorId,
+              connector_name: connector.name,
+              tombstoned: true,
+              purge_after: purgeAfter
+            }).catch(console.error);
+          }
+        }
+
+        return removed;
+      },
+      removeDocumentsByPrefix: async (prefix, keep = []) => {
+        const result = await this.pool.query(`
+          SELECT external_id FROM documents
+          WHERE source_id = $1 AND starts_with(external_id, $2) AND deleted_at IS NULL
+            AND external_id <> ALL($3)
+        `, [connectorId, prefix, keep]);
+        if (result.rows.length === 0) return [];
+        return hooks.removeDocuments(result.rows.map(row => row.external_id));
+      },
+      loadItemStates: async () => {
+        const result = await this.pool.query(
+          'SELECT item_key, state FROM connector_item_state WHERE connector_id = $1',
+          [connectorId]
+        );
+        return new Map(result.rows.map(row => [row.item_key, row.state]));
+      },
+      saveItemState: async (key, state) => {
+        await this.pool.query(`
+          INSERT INTO connector_item_state (connector_id, item_key, state, updated_at)
+          VALUES ($1, $2, $3, NOW())
+          ON CONFLICT (connector_id, item_key) DO UPDATE SET state = EXCLUDED.state, updated_at = NOW()
+        `, [connectorId, key, JSON.stringify(state)]);
+      },
+      frontier: new PgCrawlFrontierStore(this.pool, connectorId),
+      nostrEvents: new PgNostrEventStore(this.pool, connectorId)
+    };
+    return hooks;
+  }
+
+  /**
+   * Documents of a connector that are tombstoned and awaiting purge
+   */
+  async listTombstones(connectorId: string, limit: number = 100): Promise<Record<string, any>[]> {
+    const result = await this.pool.query(`
+      SELECT id, external_id, title, url, deleted_at,
+             deleted_at + ($2 * INTERVAL '1 hour') AS purge_after
+      FROM documents
+      WHERE source_id = $1 AND deleted_at IS NOT NULL
+      ORDER BY deleted_at DESC
+      LIMIT $3
+    `, [connectorId, TOMBSTONE_GRACE_HOURS, limit]);
+
     return result.rows.map(row => ({
-      id: row.id,
-      connectorId: row.connector_id,
-      status: row.status,
-      startedAt: row.started_at,
-      completedAt: row.completed_at,
-      documentsAdded: row.documents_added,
-      documentsUpdated: row.documents_updated,
-      documentsRemoved: row.documents_removed,
-      progress: row.progress,
-      totalItems: row.total_items,
-      processedItems: row.processed_items,
-      errorMessage: row.error_message,
-      log: row.log || []
+      documentId: row.id,
+      externalId: row.external_id,
+      title: row.title,
+      url: row.url,
+      deletedAt: row.deleted_at,
+      purgeAfter: row.purge_after
     }));
   }
 
   /**
-   * Index a document
+   * Permanently delete documents tombstoned longer than the grace period.
+   * Returns the number purged.
    */
-  private async indexDocument(sourceId: string, doc: ExtractedDocument): Promise<void> {
+  async purgeTombstones(): Promise<number> {
+    const result = await this.pool.query(`
+      DELETE FROM documents
+      WHERE deleted_at IS NOT NULL AND deleted_at < NOW() - ($1 * INTERVAL '1 hour')
+    `, [TOMBSTONE_GRACE_HOURS]);
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Index a document. Its ACL combines what the source reported with the
+   * connector's acl setting.
+   */
+  private async indexDocument(
+    sourceId: string,
+    doc: ExtractedDocument,
+    connectorAcl?: DocumentAcl
+  ): Promise<{ documentId: string; added: boolean }> {
     const embedding = await this.generateEmbedding(`${doc.title} ${doc.content}`);
     const vectorStr = `[${embedding.join(',')}]`;
+    const acl = resolveDocumentAcl(doc.acl, connectorAcl);
 
-    await this.pool.query(`
+    const result = await this.pool.query(`
       INSERT INTO documents (
         id, source_id, external_id, title, content, url, 
-        attributes, embedding, content_type, created_at, updated_at
+        attributes, embedding, embedding_model, content_type, language_config,
+        acl_public, acl_users, acl_groups, created_at, updated_at
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8::vector, $9::content_type, NOW(), NOW())
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8::vector, $9, $10::content_type, $11::regconfig, $12, $13, $14, NOW(), NOW())
       ON CONFLICT (source_id, external_id) 
       DO UPDATE SET
         title = EXCLUDED.title,
@@ -293,8 +643,15 @@ export class ConnectorManager {
         url = EXCLUDED.url,
         attributes = EXCLUDED.attributes,
         embedding = EXCLUDED.embedding,
+        embedding_model = EXCLUDED.embedding_model,
         content_type = EXCLUDED.content_type,
+        language_config = EXCLUDED.language_config,
+        acl_public = EXCLUDED.acl_public,
+        acl_users = EXCLUDED.acl_users,
+        acl_groups = EXCLUDED.acl_groups,
+        deleted_at = NULL,
         updated_at = NOW()
+      RETURNING id, (xmax = 0) AS added
     `, [
       uuidv4(),
       sourceId,
@@ -304,8 +661,17 @@ export class ConnectorManager {
       doc.url || null,
       doc.attributes ? JSON.stringify(doc.attributes) : null,
       vectorStr,
+      getActiveEmbeddingSpace().modelId,
       doc.content_type || null,
+      languageToTsConfig(doc.language || doc.attributes?.language),
+      acl.public,
+      acl.users,
+      acl.groups
     ]);
+
+    const row = result.rows[0];
+    await indexDocumentChunks(this.pool, row.id, doc.title, doc.content, this.generateEmbedding);
+    return { documentId: row.id, added: row.added };
   }
 
   /**
@@ -317,9 +683,9 @@ export class ConnectorManager {
         INSERT INTO connector_runs (
           id, connector_id, status, started_at, completed_at,
           documents_added, documents_updated, documents_removed,
-          progress, total_items, processed_items, error_message, log
+          progress, total_items, processed_items, error_message, log, deletion_report, stats
         )
-        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
       `, [
         run.id,
         connectorId,
@@ -333,7 +699,9 @@ export class ConnectorManager {
         run.totalItems,
         run.processedItems,
         run.errorMessage,
-        JSON.stringify(run.log)
+        JSON.stringify(run.log),
+        run.deletionReport ? JSON.stringify(run.deletionReport) : null,
+        run.stats ? JSON.stringify(run.stats) : null
       ]);
     } catch (error: any) {
       const schemaMismatch = error?.code === '42703';
@@ -394,6 +762,26 @@ export class ConnectorManager {
     return result.rows.length > 0;
   }
 
+  private rowToRun(row: any): ConnectorRun {
+    return {
+      id: row.id,
+      connectorId: row.connector_id,
+      status: row.status,
+      startedAt: row.started_at,
+      completedAt: row.completed_at,
+      documentsAdded: row.documents_added,
+      documentsUpdated: row.documents_updated,
+      documentsRemoved: row.documents_removed,
+      progress: row.progress,
+      totalItems: row.total_items,
+      processedItems: row.processed_items,
+      errorMessage: row.error_message,
+      log: row.log || [],
+      deletionReport: row.deletion_report || undefined,
+      stats: row.stats || undefined
+    };
+  }
+
   /**
    * Convert database row to Connector object
    */
@@ -413,7 +801,10 @@ export class ConnectorManager {
       portalUrl: row.portal_url,
       itemUrlTemplate: row.item_url_template,
       searchUrlTemplate: row.search_url_template,
-      editUrlTemplate: row.edit_url_template
+      editUrlTemplate: row.edit_url_template,
+      // Scheduling
+      schedule: row.schedule || null,
+      nextRunAt: row.next_run_at || undefined
     };
   }
 }
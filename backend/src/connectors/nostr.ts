@@ -9,6 +9,8 @@ import { SimplePool, Event, Filter } from 'nostr-tools';
 import { parseNostrEvent, normalizeNostrEvent } from '../templates/nostr/parser';
 import { getSearchableKinds } from '../templates/nostr/kinds';
 import { kindToContentType } from '../services/contentTypeMapper';
+import { verifyNostrEvent, verifyNostrEvents, deferVerification, EventRejection } from '../templates/nostr/verify';
+import { DELETION_KIND, eventAddress, latestVersions } from '../templates/nostr/lifecycle';
 
 export class NostrConnector extends BaseConnector {
   private pool: SimplePool;
@@ -18,6 +20,9 @@ export class NostrConnector extends BaseConnector {
     super(connector);
     this.config = connector.config as NostrConnectorConfig;
     this.pool = new SimplePool();
+    // Verify here rather than in the pool, so rejections are counted and logged
+    this.pool.verifyEvent = deferVerification;
+    this.pool.trackRelays = true;
   }
 
   protected async execute(): Promise<void> {
@@ -51,24 +56,45 @@ export class NostrConnector extends BaseConnector {
       });
     }
 
+    // Deletion requests (NIP-09) for what the filter matches
+    const deletions: Filter = { kinds: [DELETION_KIND] };
+    if (filter.authors) deletions.authors = filter.authors;
+    if (since) deletions.since = since;
+    if (until) deletions.until = until;
+    if (limit) deletions.limit = limit;
+
     this.log(`Connecting to ${relays.length} relay(s)`);
     this.log(`Filter: ${JSON.stringify(filter)}`);
 
     if (subscribeMode) {
       // Live subscription mode
-      await this.subscribe(relays, filter);
+      await this.subscribe(relays, [filter, deletions]);
     } else {
       // One-time sync mode
-      await this.sync(relays, filter);
+      await this.sync(relays, [filter, deletions]);
     }
   }
 
+  /**
+   * Relays cap and prune what they return, so an event missing from a sync
+   * is no evidence that it was deleted
+   */
+  protected isFullSync(): boolean {
+    return false;
+  }
+
   /**
    * One-time sync: fetch events and close
    */
-  private async sync(relays: string[], filter: Filter): Promise<void> {
+  private async sync(relays: string[], filters: Filter[]): Promise<void> {
     try {
-      const events = await this.pool.querySync(relays, [filter] as any);
+      const fetched = (await Promise.all(filters.map(filter => this.pool.querySync(relays, filter)))).flat();
+      const { valid, rejected } = await verifyNostrEvents(fetched);
+      for (const { event, reason } of rejected) this.rejectEvent(event, reason);
+
+      // Deletion requests first, then only the newest version of replaceable events
+      const events = latestVersions(valid).sort((a, b) =>
+        Number(b.kind === DELETION_KIND) - Number(a.kind === DELETION_KIND));
       
       this.log(`Fetched ${events.length} events`);
       this.updateProgress(0, events.length);
@@ -79,11 +105,7 @@ export class NostrConnector extends BaseConnector {
       for (const event of events) {
         if (!this.shouldContinue()) break;
 
-        const doc = this.processEvent(event);
-        if (doc) {
-          this.emitDocument(doc);
-          indexed++;
-        }
+        if (await this.handleEvent(event)) indexed++;
 
         processed++;
         this.updateProgress(processed, events.length, event.id.slice(0, 8));
@@ -101,15 +123,16 @@ export class NostrConnector extends BaseConnector {
   /**
    * Live subscription mode
    */
-  private async subscribe(relays: string[], filter: Filter): Promise<void> {
+  private async subscribe(relays: string[], filters: Filter[]): Promise<void> {
     this.log('Starting live subscription...');
 
     let eventCount = 0;
     let indexedCount = 0;
+    // Events are handled one at a time, in arrival order
+    let handling: Promise<void> = Promise.resolve();
 
-    const sub = this.pool.subscribeMany(
-      relays,
-      [filter] as any,
+    const sub = this.pool.subscribeMap(
+      relays.flatMap(url => filters.map(filter => ({ url, filter }))),
       {
         onevent: (event: Event) => {
           if (!this.shouldContinue()) {
@@ -118,13 +141,19 @@ export class NostrConnector extends BaseConnector {
           }
 
           eventCount++;
-          const doc = this.processEvent(event);
-          
-          if (doc) {
-            this.emitDocument(doc);
-            indexedCount++;
+          const verification = verifyNostrEvent(event);
+          if (!verification.valid) {
+            this.rejectEvent(event, verification.reason!);
+            return;
           }
 
+          handling = handling
+            .then(() => this.handleEvent(event))
+            .then(indexed => {
+              if (indexed) indexedCount++;
+            })
+            .catch(error => this.log(`Failed to handle event ${event.id}: ${(error as Error).message}`));
+
           if (eventCount % 10 === 0) {
             this.log(`Received ${eventCount} events, indexed ${indexedCount}`);
           }
@@ -144,9 +173,56 @@ export class NostrConnector extends BaseConnector {
     }
 
     sub.close();
+    await handling;
     this.log(`Subscription closed. Total: ${eventCount} events, ${indexedCount} indexed`);
   }
 
+  /**
+   * Apply a deletion request, or emit the event's document unless the author
+   * deleted it or a newer version is already indexed. Returns whether a
+   * document was emitted.
+   */
+  private async handleEvent(event: Event): Promise<boolean> {
+    const store = this.syncHooks?.nostrEvents;
+
+    if (event.kind === DELETION_KIND) {
+      const hidden = store ? await store.applyDeletion(event) : 0;
+      if (hidden > 0) {
+        this.countStat('documentsDeleted', hidden);
+        this.log(`Deletion request ${event.id.slice(0, 8)} hid ${hidden} document(s)`);
+      }
+      return false;
+    }
+
+    const doc = this.processEvent(event);
+    if (!doc) return false;
+
+    if (store) {
+      const outcome = await store.admitConnectorEvent(event, doc.externalId, doc);
+      if (outcome === 'stale') {
+        this.countStat('versionsSuperseded');
+        return false;
+      }
+      if (outcome === 'deleted') {
+        this.countStat('eventsDeleted');
+        return false;
+      }
+    }
+
+    this.emitDocument(doc);
+    return true;
+  }
+
+  /**
+   * Count and log an event with a bad id or signature, naming the relays
+   * that served it
+   */
+  private rejectEvent(event: Event, reason: EventRejection): void {
+    this.countStat('eventsRejected');
+    const relays = Array.from(this.pool.seenOn.get(event?.id)?.values() || []).map(relay => relay.url);
+    this.log(`Rejected event ${String(event?.id).slice(0, 8)} (${reason}) from ${relays.join(', ') || 'unknown relay'}`);
+  }
+
   /**
    * Process a single Nostr event
    */
@@ -159,7 +235,7 @@ export class NostrConnector extends BaseConnector {
       
       const contentType = kindToContentType(event.kind);
       return {
-        externalId: normalized.externalId,
+        externalId: eventAddress(event) || normalized.externalId,
         title: normalized.title,
         content: normalized.content,
         url: normalized.url,
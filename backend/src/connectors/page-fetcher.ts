@@ -0,0 +1,157 @@
+/**
+ * Page Fetchers
+ * How the web spider downloads a page: plain HTTP, or a headless Chromium
+ * (Playwright) for sites that render their content with JavaScript
+ */
+
+import type { Browser, BrowserContext } from 'playwright';
+
+const USER_AGENT = 'BeaconSearchBot/1.0 (+https://github.com/beacon-search)';
+const DEFAULT_RENDER_TIMEOUT_MS = 30_000;
+
+// Dynamic import for the optional browser
+let playwright: typeof import('playwright') | null = null;
+
+async function loadPlaywright(): Promise<typeof import('playwright')> {
+  if (!playwright) {
+    try {
+      playwright = await import('playwright');
+    } catch {
+      throw new Error('playwright not installed. Browser rendering disabled.');
+    }
+  }
+  return playwright;
+}
+
+export interface FetchedPage {
+  status: number;
+  statusText: string;
+  url: string;                         // After redirects
+  headers: Record<string, string>;     // Lower-case names
+  body: string;                        // Empty unless the page is HTML
+}
+
+export interface PageFetcher {
+  readonly name: string;
+  fetch(url: string, headers?: Record<string, string>): Promise<FetchedPage>;
+  close(): Promise<void>;
+}
+
+export interface BrowserFetcherOptions {
+  waitForSelector?: string;
+  timeoutMs?: number;
+}
+
+export function isHtmlContentType(contentType: string): boolean {
+  return contentType.includes('text/html') || contentType.includes('application/xhtml');
+}
+
+/**
+ * Plain HTTP with redirects followed. Supports conditional request headers.
+ */
+export class HttpPageFetcher implements PageFetcher {
+  readonly name = 'http';
+
+  async fetch(url: string, headers: Record<string, string> = {}): Promise<FetchedPage> {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+        ...headers
+      },
+      redirect: 'follow'
+    });
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      responseHeaders[name.toLowerCase()] = value;
+    });
+
+    let body = '';
+    if (response.ok && isHtmlContentType(responseHeaders['content-type'] || '')) {
+      body = await response.text();
+    } else {
+      await response.body?.cancel();
+    }
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      url: response.url || url,
+      headers: responseHeaders,
+      body
+    };
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+/**
+ * Headless Chromium via Playwright. The browser starts on first use and is
+ * shared by all pages of a run until close().
+ */
+export class BrowserPageFetcher implements PageFetcher {
+  readonly name = 'browser';
+  private options: BrowserFetcherOptions;
+  private browser: Browser | null = null;
+  private context: BrowserContext | null = null;
+
+  constructor(options: BrowserFetcherOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Start the browser, so a missing Playwright install is reported up front
+   */
+  async launch(): Promise<void> {
+    if (this.context) return;
+
+    const { chromium } = await loadPlaywright();
+    const browser = await chromium.launch({
+      headless: true,
+      executablePath: process.env.BROWSER_EXECUTABLE_PATH || undefined
+    });
+    this.browser = browser;
+    this.context = await browser.newContext({ userAgent: USER_AGENT });
+  }
+
+  async fetch(url: string): Promise<FetchedPage> {
+    await this.launch();
+
+    const timeout = this.options.timeoutMs || DEFAULT_RENDER_TIMEOUT_MS;
+    const page = await this.context!.newPage();
+    try {
+      const response = await page.goto(url, { waitUntil: 'networkidle', timeout });
+
+      if (this.options.waitForSelector) {
+        // Render what is there if the selector never shows up
+        await page.waitForSelector(this.options.waitForSelector, { timeout }).catch(() => undefined);
+      }
+
+      const headers: Record<string, string> = response ? await response.allHeaders() : {};
+      const contentType = headers['content-type'] || 'text/html';
+      const status = response ? response.status() : 200;
+
+      return {
+        status,
+        statusText: response ? response.statusText() : 'OK',
+        url: page.url(),
+        headers: { ...headers, 'content-type': contentType },
+        body: status < 400 && isHtmlContentType(contentType) ? await page.content() : ''
+      };
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  async close(): Promise<void> {
+    const browser = this.browser;
+    this.browser = null;
+    this.context = null;
+    if (browser) {
+      await browser.close().catch(() => undefined);
+    }
+  }
+}
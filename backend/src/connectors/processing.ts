@@ -0,0 +1,149 @@
+/**
+ * Connector Content Processing
+ * Runs files picked up by connectors through the processing pipeline
+ * (OCR, language detection, translation, AI description and transcription)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getConfig } from '../processors/config';
+import { processFile, processText, ProcessingOptions, ProcessingResult } from '../processors/pipeline';
+
+// A PDF with less text than this is treated as scanned and OCR'd
+const MIN_TEXT_LAYER_LENGTH = 50;
+
+export const MEDIA_FILE_TYPES = [
+  '.png', '.jpg', '.jpeg', '.gif', '.webp', '.bmp', '.tiff', '.tif',
+  '.mp3', '.wav', '.m4a', '.ogg', '.flac', '.aac',
+  '.mp4', '.mkv', '.avi', '.mov', '.webm'
+];
+
+export interface ProcessableFile {
+  path?: string;               // On disk; otherwise `data` goes through a temp file
+  data: Buffer;
+  extension: string;
+}
+
+export interface ProcessedContent {
+  content: string;
+  language?: string;
+  attributes: Record<string, any>;
+  steps: string[];             // One line per pipeline step, for the run log
+}
+
+export function isMediaExtension(extension: string): boolean {
+  return MEDIA_FILE_TYPES.includes(extension);
+}
+
+/**
+ * Whether a connector processes its files: its own setting, else the
+ * global AUTO_PROCESS default
+ */
+export function autoProcessEnabled(setting?: boolean): boolean {
+  return setting ?? getConfig().autoProcess;
+}
+
+/**
+ * Media files and scanned PDFs need the file pipeline; anything with
+ * extracted text only needs language detection and translation
+ */
+export function needsFileProcessing(extension: string, extractedText: string): boolean {
+  return isMediaExtension(extension) || (extension === '.pdf' && extractedText.trim().length < MIN_TEXT_LAYER_LENGTH);
+}
+
+async function processData(file: ProcessableFile, options: ProcessingOptions): Promise<ProcessingResult> {
+  if (file.path) {
+    return processFile(file.path, options);
+  }
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beacon-connector-'));
+  try {
+    const tempPath = path.join(dir, `file${file.extension}`);
+    fs.writeFileSync(tempPath, file.data);
+    return await processFile(tempPath, options);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function describeSteps(result: ProcessingResult): string[] {
+  const steps: string[] = [];
+
+  if (result.ocr) {
+    steps.push(result.ocr.success
+      ? `ocr: ${result.ocr.text.trim().length} chars, ${Math.round(result.ocr.confidence)}% confidence`
+      : `ocr failed: ${result.ocr.error || 'no text'}`);
+  }
+  if (result.aiDescription) {
+    steps.push(result.aiDescription.success
+      ? `${result.aiDescription.mediaType === 'image' ? 'description' : 'transcription'}: ${result.aiDescription.provider}`
+      : `${result.aiDescription.mediaType === 'image' ? 'description' : 'transcription'} failed: ${result.aiDescription.error || 'no output'}`);
+  }
+  if (result.detectedLanguage) {
+    steps.push(`language: ${result.detectedLanguage}`);
+  }
+  if (result.translation) {
+    steps.push(result.translation.success
+      ? `translation: ${result.detectedLanguage} -> ${result.translation.targetLanguage} (${result.translation.provider})`
+      : `translation failed: ${result.translation.error || 'no output'}`);
+  }
+  if (result.error) {
+    steps.push(result.error);
+  }
+
+  return steps;
+}
+
+/**
+ * Run a file through the pipeline. `extractedText` is what the connector
+ * read itself; it is kept when the pipeline produces nothing better.
+ */
+export async function processConnectorFile(
+  file: ProcessableFile,
+  extractedText: string,
+  options: ProcessingOptions = {}
+): Promise<ProcessedContent> {
+  const fileProcessing = needsFileProcessing(file.extension, extractedText);
+  const result = fileProcessing
+    ? await processData(file, options)
+    : await processText(extractedText, options);
+
+  const translated = result.processingSteps.includes('translation_completed');
+
+  let content = extractedText;
+  if (fileProcessing && result.processedContent.trim().length > extractedText.trim().length) {
+    content = result.processedContent;
+  } else if (!fileProcessing && translated) {
+    content = `${result.processedContent}\n\n[Original (${result.detectedLanguage})]: ${extractedText}`;
+  }
+
+  const language = result.detectedLanguage && result.detectedLanguage !== 'und' ? result.detectedLanguage : undefined;
+  const attributes: Record<string, any> = {
+    processingSteps: result.processingSteps,
+    processingTime: result.processingTime
+  };
+  if (result.ocr?.success) {
+    attributes.ocrText = result.ocr.text;
+    attributes.ocrConfidence = result.ocr.confidence;
+  }
+  if (language) {
+    attributes.detectedLanguage = language;
+  }
+  if (translated && result.translation) {
+    attributes.translation = {
+      text: result.translation.translatedText,
+      sourceLanguage: language,
+      targetLanguage: result.translation.targetLanguage,
+      provider: result.translation.provider
+    };
+  }
+  if (result.aiDescription?.success) {
+    attributes.aiDescription = result.aiDescription.description;
+  }
+  if (result.error) {
+    attributes.processingError = result.error;
+  }
+
+  return { content, language, attributes, steps: describeSteps(result) };
+}
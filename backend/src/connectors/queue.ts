@@ -0,0 +1,175 @@
+/**
+ * Connector Job Queue
+ * Postgres-backed queue of connector runs. Jobs are claimed with
+ * FOR UPDATE SKIP LOCKED, so several backend instances can share one queue
+ * without running the same connector twice.
+ */
+
+import { Pool } from 'pg';
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { ConnectorJob, ConnectorJobStatus, ConnectorJobTrigger } from './types';
+
+// A running job whose owner has not sent a heartbeat for this long is presumed dead
+const LOCK_TIMEOUT_MS = Number(process.env.CONNECTOR_JOB_LOCK_TIMEOUT_MS || 5 * 60_000);
+const MAX_ATTEMPTS = Number(process.env.CONNECTOR_JOB_MAX_ATTEMPTS || 3);
+
+export class ConnectorJobQueue {
+  private pool: Pool;
+  readonly instanceId: string;
+
+  constructor(pool: Pool, instanceId: string = `${os.hostname()}:${process.pid}:${uuidv4().slice(0, 8)}`) {
+    this.pool = pool;
+    this.instanceId = instanceId;
+  }
+
+  /**
+   * Queue a run. Returns null when the connector already has a queued or
+   * running job.
+   */
+  async enqueue(
+    connectorId: string,
+    trigger: ConnectorJobTrigger,
+    scheduledFor: Date = new Date()
+  ): Promise<ConnectorJob | null> {
+    const result = await this.pool.query(`
+      INSERT INTO connector_jobs (connector_id, status, triggered_by, scheduled_for)
+      VALUES ($1, 'queued', $2, $3)
+      ON CONFLICT (connector_id) WHERE status IN ('queued', 'running') DO NOTHING
+      RETURNING *
+    `, [connectorId, trigger, scheduledFor]);
+
+    return result.rows[0] ? this.rowToJob(result.rows[0]) : null;
+  }
+
+  /**
+   * Claim the oldest due job of any connector for this instance
+   */
+  async claimNext(): Promise<ConnectorJob | null> {
+    const result = await this.pool.query(`
+      UPDATE connector_jobs
+      SET status = 'running', locked_by = $1, locked_at = NOW(), heartbeat_at = NOW(),
+          started_at = NOW(), attempts = attempts + 1
+      WHERE id = (
+        SELECT id FROM connector_jobs
+        WHERE status = 'queued' AND scheduled_for <= NOW()
+        ORDER BY scheduled_for
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *
+    `, [this.instanceId]);
+
+    return result.rows[0] ? this.rowToJob(result.rows[0]) : null;
+  }
+
+  /**
+   * Claim a job for one connector right now: its queued job if there is one,
+   * otherwise a new job. Returns null when the connector is already running.
+   */
+  async claimForConnector(connectorId: string, trigger: ConnectorJobTrigger): Promise<ConnectorJob | null> {
+    const queued = await this.pool.query(`
+      UPDATE connector_jobs
+      SET status = 'running', locked_by = $2, locked_at = NOW(), heartbeat_at = NOW(),
+          started_at = NOW(), attempts = attempts + 1
+      WHERE id = (
+        SELECT id FROM connector_jobs
+        WHERE connector_id = $1 AND status = 'queued'
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `, [connectorId, this.instanceId]);
+
+    if (queued.rows[0]) {
+      return this.rowToJob(queued.rows[0]);
+    }
+
+    const created = await this.pool.query(`
+      INSERT INTO connector_jobs (
+        connector_id, status, triggered_by, scheduled_for, attempts,
+        locked_by, locked_at, heartbeat_at, started_at
+      )
+      VALUES ($1, 'running', $2, NOW(), 1, $3, NOW(), NOW(), NOW())
+      ON CONFLICT (connector_id) WHERE status IN ('queued', 'running') DO NOTHING
+      RETURNING *
+    `, [connectorId, trigger, this.instanceId]);
+
+    return created.rows[0] ? this.rowToJob(created.rows[0]) : null;
+  }
+
+  /**
+   * Keep this instance's lock on a running job alive
+   */
+  async heartbeat(jobId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE connector_jobs SET heartbeat_at = NOW() WHERE id = $1 AND locked_by = $2 AND status = 'running'`,
+      [jobId, this.instanceId]
+    );
+  }
+
+  async finish(
+    jobId: string,
+    status: Exclude<ConnectorJobStatus, 'queued' | 'running'>,
+    runId?: string,
+    errorMessage?: string
+  ): Promise<void> {
+    await this.pool.query(`
+      UPDATE connector_jobs
+      SET status = $2, run_id = COALESCE($3, run_id), error_message = $4,
+          completed_at = NOW(), locked_by = NULL
+      WHERE id = $1 AND status IN ('queued', 'running')
+    `, [jobId, status, runId || null, errorMessage || null]);
+  }
+
+  /**
+   * Requeue running jobs whose instance stopped sending heartbeats; jobs that
+   * already used all attempts fail instead. Returns the number recovered.
+   */
+  async recoverStale(): Promise<number> {
+    const failed = await this.pool.query(`
+      UPDATE connector_jobs
+      SET status = 'failed', completed_at = NOW(), locked_by = NULL,
+          error_message = 'Instance ' || COALESCE(locked_by, 'unknown') || ' stopped responding'
+      WHERE status = 'running'
+        AND heartbeat_at < NOW() - ($1 * INTERVAL '1 millisecond')
+        AND attempts >= $2
+    `, [LOCK_TIMEOUT_MS, MAX_ATTEMPTS]);
+
+    const requeued = await this.pool.query(`
+      UPDATE connector_jobs
+      SET status = 'queued', triggered_by = 'retry', scheduled_for = NOW(),
+          locked_by = NULL, locked_at = NULL, heartbeat_at = NULL
+      WHERE status = 'running'
+        AND heartbeat_at < NOW() - ($1 * INTERVAL '1 millisecond')
+    `, [LOCK_TIMEOUT_MS]);
+
+    return (failed.rowCount || 0) + (requeued.rowCount || 0);
+  }
+
+  async listJobs(connectorId: string, limit: number = 20): Promise<ConnectorJob[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM connector_jobs WHERE connector_id = $1 ORDER BY created_at DESC LIMIT $2',
+      [connectorId, limit]
+    );
+    return result.rows.map(row => this.rowToJob(row));
+  }
+
+  private rowToJob(row: any): ConnectorJob {
+    return {
+      id: row.id,
+      connectorId: row.connector_id,
+      status: row.status,
+      trigger: row.triggered_by,
+      scheduledFor: row.scheduled_for,
+      attempts: row.attempts,
+      lockedBy: row.locked_by || undefined,
+      lockedAt: row.locked_at || undefined,
+      heartbeatAt: row.heartbeat_at || undefined,
+      runId: row.run_id || undefined,
+      errorMessage: row.error_message || undefined,
+      createdAt: row.created_at,
+      startedAt: row.started_at || undefined,
+      completedAt: row.completed_at || undefined
+    };
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * REST Template Mapping
+ * Evaluates the JSONPath-style expressions, ${...} placeholders and field
+ * mappings used by the integrations/*.yaml templates
+ */
+
+import * as cheerio from 'cheerio';
+import { ExtractedDocument } from './types';
+import { MappingConfig } from '../wizard/types';
+import { parseDocumentAcl } from '../search/access';
+
+const PLACEHOLDER = /\$\{([^}]+)\}/g;
+
+// Keys of the standard mapping fields; anything else becomes an attribute
+const STANDARD_FIELDS = new Set([
+  'id', 'title', 'content', 'content_type', 'url', 'author', 'modified', 'created', 'document_type', 'attributes', 'acl'
+]);
+
+/**
+ * Read a path such as `$.a.b[0].c`, `$.labels[*].name` or `data.items` from a
+ * value. `[*]` maps the rest of the path over an array. A key that exists
+ * verbatim (e.g. `@odata.nextLink`) wins over dotted traversal.
+ */
+export function getPath(value: any, path: string): any {
+  if (value === null || value === undefined || !path) return undefined;
+  if (typeof value === 'object' && !Array.isArray(value) && path in value) {
+    return value[path];
+  }
+
+  const normalized = path.replace(/^\$\.?/, '');
+  if (!normalized) return value;
+
+  const tokens = normalized.match(/[^.[\]]+|\[(\d+|\*)\]/g) || [];
+  return walk(value, tokens);
+}
+
+function walk(value: any, tokens: string[]): any {
+  let current = value;
+  for (let i = 0; i < tokens.length; i++) {
+    if (current === null || current === undefined) return undefined;
+    const token = tokens[i];
+
+    if (token === '[*]') {
+      if (!Array.isArray(current)) return undefined;
+      const rest = tokens.slice(i + 1);
+      return current
+        .map(item => walk(item, rest))
+        .flat()
+        .filter(item => item !== undefined && item !== null);
+    }
+
+    const index = token.match(/^\[(\d+)\]$/);
+    current = index ? current[Number(index[1])] : current[token];
+  }
+  return current;
+}
+
+/**
+ * Replace ${name} from variables and ${$.path} from the record.
+ * Returns null when a placeholder cannot be resolved.
+ */
+export function interpolate(template: string, variables: Record<string, any>, record?: any): string | null {
+  let unresolved = false;
+  const result = template.replace(PLACEHOLDER, (_match, expr: string) => {
+    const key = expr.trim();
+    const value = key.startsWith('$') ? getPath(record, key) : variables[key];
+    if (value === undefined || value === null || value === '') {
+      unresolved = true;
+      return '';
+    }
+    return String(value);
+  });
+  return unresolved ? null : result;
+}
+
+/**
+ * Interpolate every string in params/body; entries that reference an
+ * unresolved placeholder (e.g. `${query}` outside of search) are dropped.
+ */
+export function interpolateDeep(value: any, variables: Record<string, any>): any {
+  if (typeof value === 'string') {
+    return value.includes('${') ? interpolate(value, variables) ?? undefined : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateDeep(item, variables)).filter(item => item !== undefined);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const resolved = interpolateDeep(item, variables);
+      if (resolved !== undefined) result[key] = resolved;
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Evaluate one mapping expression: a path (`$.title`), alternatives
+ * (`$.a || $.b`), a template (`${base_url}/x/${$.id}`) or a literal.
+ */
+export function evaluateExpression(expr: any, record: any, variables: Record<string, any> = {}): any {
+  if (typeof expr !== 'string') return expr;
+  if (expr === '') return '';
+
+  if (expr.includes('||')) {
+    for (const alternative of expr.split('||')) {
+      const value = evaluateExpression(alternative.trim(), record, variables);
+      if (value !== undefined && value !== null && value !== '') return value;
+    }
+    return undefined;
+  }
+
+  if (expr.includes('${')) {
+    return interpolate(expr, variables, record) ?? undefined;
+  }
+
+  if (expr.startsWith('$')) {
+    return getPath(record, expr);
+  }
+
+  return expr;
+}
+
+function asText(value: any): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(asText).filter(Boolean).join('\n');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function htmlToText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  return $.root().text().replace(/\s+/g, ' ').trim();
+}
+
+function toDate(value: any): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  // Unix seconds (Slack ts, Discourse) vs. milliseconds vs. ISO strings
+  const numeric = typeof value === 'number' ? value : /^\d+(\.\d+)?$/.test(String(value)) ? Number(value) : NaN;
+  const date = Number.isNaN(numeric) ? new Date(value) : new Date(numeric < 1e12 ? numeric * 1000 : numeric);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Map one API record to an ExtractedDocument, its external id being
+ * `<idPrefix>:<id>` when a prefix is given. Returns null when the
+ * record has no id.
+ */
+export function mapRecord(
+  mapping: MappingConfig,
+  record: any,
+  variables: Record<string, any> = {},
+  idPrefix?: string
+): ExtractedDocument | null {
+  const id = evaluateExpression(mapping.id, record, variables);
+  if (id === undefined || id === null || id === '') return null;
+
+  const format = asText(evaluateExpression(mapping.content_type, record, variables)).toLowerCase();
+  const rawContent = asText(evaluateExpression(mapping.content, record, variables));
+  const content = format === 'html' ? htmlToText(rawContent) : rawContent;
+
+  const rawTitle = asText(evaluateExpression(mapping.title, record, variables));
+  const title = (format === 'html' ? htmlToText(rawTitle) : rawTitle) || String(id);
+
+  const attributes: Record<string, any> = {};
+  for (const [key, expr] of Object.entries(mapping as unknown as Record<string, any>)) {
+    if (STANDARD_FIELDS.has(key)) continue;
+    const value = evaluateExpression(expr, record, variables);
+    if (value !== undefined) attributes[key] = value;
+  }
+  for (const [key, expr] of Object.entries(mapping.attributes || {})) {
+    const value = evaluateExpression(expr, record, variables);
+    if (value !== undefined) attributes[key] = value;
+  }
+
+  const author = evaluateExpression(mapping.author, record, variables);
+  const created = toDate(evaluateExpression(mapping.created, record, variables));
+  const modified = toDate(evaluateExpression(mapping.modified, record, variables));
+  const documentType = evaluateExpression(mapping.document_type, record, variables);
+
+  if (author !== undefined) attributes.author = author;
+  if (documentType !== undefined) attributes.document_type = documentType;
+  if (format) attributes.format = format;
+  if (created) attributes.created = created.toISOString();
+
+  const url = evaluateExpression(mapping.url, record, variables);
+  const acl = mapping.acl ? parseDocumentAcl({
+    users: evaluateExpression(mapping.acl.users, record, variables),
+    groups: evaluateExpression(mapping.acl.groups, record, variables),
+    public: evaluateExpression(mapping.acl.public, record, variables)
+  }) : undefined;
+
+  return {
+    externalId: idPrefix ? `${idPrefix}:${id}` : String(id),
+    title,
+    content,
+    url: typeof url === 'string' && url ? url : undefined,
+    attributes,
+    lastModified: modified,
+    ...(acl ? { acl } : {})
+  };
+}
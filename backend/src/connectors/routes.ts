@@ -5,8 +5,11 @@
 
 import { Router, Request, Response } from 'express';
 import { ConnectorManager } from './manager';
-import { ConnectorConfig, WebConnectorConfig, FolderConnectorConfig } from './types';
+import { ConnectorConfig, ConnectorRun, WebConnectorConfig, FolderConnectorConfig, RunEvent, RunLogLine } from './types';
 import { WebhookManager } from '../webhooks';
+import { validateSchedule } from './schedule';
+import { EXTRACTABLE_FILE_TYPES } from './file-extractor';
+import { RunEventStream, logLineEvent, openEventStream, runSummary, writeEvent } from './run-events';
 
 export function createConnectorRoutes(manager: ConnectorManager, webhookManager?: WebhookManager): Router {
   const router = Router();
@@ -60,7 +63,7 @@ export function createConnectorRoutes(manager: ConnectorManager, webhookManager?
    */
   router.post('/', async (req: Request, res: Response) => {
     try {
-      const { name, description, config } = req.body;
+      const { name, description, config, schedule } = req.body;
 
       // Validate required fields
       if (!name || !config || !config.type) {
@@ -75,7 +78,12 @@ export function createConnectorRoutes(manager: ConnectorManager, webhookManager?
         return res.status(400).json({ error: validationError });
       }
 
-      const connector = await manager.createConnector(name, description || null, config);
+      const scheduleError = schedule ? validateSchedule(schedule) : null;
+      if (scheduleError) {
+        return res.status(400).json({ error: scheduleError });
+      }
+
+      const connector = await manager.createConnector(name, description || null, config, schedule || null);
       res.status(201).json(connector);
     } catch (error) {
       console.error('Error creating connector:', error);
@@ -89,7 +97,7 @@ export function createConnectorRoutes(manager: ConnectorManager, webhookManager?
    */
   router.put('/:id', async (req: Request, res: Response) => {
     try {
-      const { name, description, config, isActive } = req.body;
+      const { name, description, config, isActive, schedule } = req.body;
 
       // Validate config if provided
       if (config) {
@@ -99,11 +107,18 @@ export function createConnectorRoutes(manager: ConnectorManager, webhookManager?
         }
       }
 
+      // schedule: null removes it, omitted keeps it
+      const scheduleError = schedule ? validateSchedule(schedule) : null;
+      if (scheduleError) {
+        return res.status(400).json({ error: scheduleError });
+      }
+
       const connector = await manager.updateConnector(req.params.id, {
         name,
         description,
         config,
-        isActive
+        isActive,
+        schedule
       });
 
       if (!connector) {
@@ -138,23 +153,17 @@ export function createConnectorRoutes(manager: ConnectorManager, webhookManager?
 
   /**
    * POST /api/connectors/:id/run
-   * Start a connector run
+   * Start a connector run (connector.started is emitted by the manager).
+   * Body { "deletions": "dry-run" } reports removals without applying them.
    */
   router.post('/:id/run', async (req: Request, res: Response) => {
     try {
-      const connector = await manager.getConnector(req.params.id);
-      const run = await manager.runConnector(req.params.id);
-
-      // Emit webhook event (non-blocking)
-      if (webhookManager && connector) {
-        webhookManager.emit('connector.started', {
-          connector_id: req.params.id,
-          connector_name: connector.name,
-          connector_type: connector.config.type,
-          run_id: run.id
-        }).catch(console.error);
+      const deletions = req.body?.deletions;
+      if (deletions !== undefined && !DELETION_MODES.includes(deletions)) {
+        return res.status(400).json({ error: 'deletions must be tombstone, dry-run or off' });
       }
 
+      const run = await manager.runConnector(req.params.id, 'manual', { deletions });
       res.json(run);
     } catch (error) {
       console.error('Error running connector:', error);
@@ -230,6 +239,93 @@ export function createConnectorRoutes(manager: ConnectorManager, webhookManager?
     }
   });
 
+  /**
+   * GET /api/connectors/:id/runs/:runId/events
+   * Server-Sent Events for a run: start, progress, log, document (per-document
+   * outcome) and a final complete, after which the stream ends. A reconnecting
+   * client sends Last-Event-ID (or ?lastEventId=) and receives what it missed.
+   * :runId may be "latest".
+   */
+  router.get('/:id/runs/:runId/events', async (req: Request, res: Response) => {
+    try {
+      const connectorId = req.params.id;
+      const runId = await resolveRunId(manager, connectorId, req.params.runId);
+      const lastEventId = parseInt((req.get('Last-Event-ID') || req.query.lastEventId) as string) || 0;
+      const stream = runId ? manager.getRunEvents(connectorId, runId) : null;
+
+      if (stream) {
+        return streamLiveRun(res, manager, stream, lastEventId);
+      }
+
+      // Not running here: replay the stored log, following it while the run
+      // continues on another instance
+      const run = runId ? await manager.getRun(connectorId, runId) : null;
+      const logs = runId ? await manager.getRunLogs(connectorId, runId, lastEventId, RUN_LOG_PAGE_MAX) : [];
+      if (!runId || (!run && logs.length === 0 && lastEventId === 0)) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+      streamStoredRun(res, manager, connectorId, runId, lastEventId, logs, run);
+    } catch (error) {
+      console.error('Error streaming run events:', error);
+      if (!res.headersSent) res.status(500).json({ error: 'Failed to stream run events' });
+      else res.end();
+    }
+  });
+
+  /**
+   * GET /api/connectors/:id/runs/:runId/logs?after=0&limit=500
+   * Full log of a run, paged by line seq. :runId may be "latest".
+   */
+  router.get('/:id/runs/:runId/logs', async (req: Request, res: Response) => {
+    try {
+      const runId = await resolveRunId(manager, req.params.id, req.params.runId);
+      if (!runId) {
+        return res.status(404).json({ error: 'Run not found' });
+      }
+      const after = Math.max(parseInt(req.query.after as string) || 0, 0);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 500, 1), RUN_LOG_PAGE_MAX);
+      const lines = await manager.getRunLogs(req.params.id, runId, after, limit);
+      res.json({
+        runId,
+        lines,
+        nextAfter: lines.length === limit ? lines[lines.length - 1].seq : null
+      });
+    } catch (error) {
+      console.error('Error getting run logs:', error);
+      res.status(500).json({ error: 'Failed to get run logs' });
+    }
+  });
+
+  /**
+   * GET /api/connectors/:id/tombstones
+   * Documents gone upstream that are hidden from search and awaiting purge
+   */
+  router.get('/:id/tombstones', async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const tombstones = await manager.listTombstones(req.params.id, limit);
+      res.json(tombstones);
+    } catch (error) {
+      console.error('Error listing tombstones:', error);
+      res.status(500).json({ error: 'Failed to list tombstones' });
+    }
+  });
+
+  /**
+   * GET /api/connectors/:id/jobs
+   * Queued, running and finished jobs (manual and scheduled runs)
+   */
+  router.get('/:id/jobs', async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const jobs = await manager.getJobQueue().listJobs(req.params.id, limit);
+      res.json(jobs);
+    } catch (error) {
+      console.error('Error listing jobs:', error);
+      res.status(500).json({ error: 'Failed to list jobs' });
+    }
+  });
+
   /**
    * PUT /api/connectors/:id/templates
    * Update URL templates for source portal launching
@@ -259,6 +355,120 @@ export function createConnectorRoutes(manager: ConnectorManager, webhookManager?
   return router;
 }
 
+const RUN_LOG_PAGE_MAX = 1000;
+const STORED_RUN_POLL_MS = 2000;
+
+async function resolveRunId(manager: ConnectorManager, connectorId: string, runId: string): Promise<string | null> {
+  if (runId !== 'latest') return runId;
+  const latest = manager.getLatestRunId(connectorId);
+  if (latest) return latest;
+  const [lastRun] = await manager.getRunHistory(connectorId, 1);
+  return lastRun ? lastRun.id : null;
+}
+
+/**
+ * Stream a run held in memory. Events published while the replay is being
+ * sent are queued and sent after it; log lines that already left the replay
+ * buffer are read back from the log table.
+ */
+async function streamLiveRun(
+  res: Response,
+  manager: ConnectorManager,
+  stream: RunEventStream,
+  lastEventId: number
+): Promise<void> {
+  const stopHeartbeat = openEventStream(res);
+  let lastSent = lastEventId;
+  let replaying = true;
+  const queued: RunEvent[] = [];
+
+  const send = (event: RunEvent) => {
+    if (event.id <= lastSent || res.writableEnded) return;
+    lastSent = event.id;
+    writeEvent(res, event);
+    if (event.type === 'complete') res.end();
+  };
+  const onEvent = (event: RunEvent) => {
+    if (replaying) queued.push(event);
+    else send(event);
+  };
+
+  stream.on('event', onEvent);
+  res.on('close', () => {
+    stream.off('event', onEvent);
+    stopHeartbeat();
+  });
+
+  try {
+    if (lastEventId + 1 < stream.oldestBufferedId) {
+      const missed = await manager.getRunLogs(stream.connectorId, stream.runId, lastEventId, stream.oldestBufferedId, stream.oldestBufferedId);
+      missed.forEach(line => send(logLineEvent(line)));
+    }
+  } finally {
+    stream.since(lastSent).forEach(send);
+    queued.forEach(send);
+    replaying = false;
+    // Reconnected after the last event
+    if (stream.isComplete && !res.writableEnded) res.end();
+  }
+}
+
+/**
+ * Stream a run from the log table until its history row appears
+ */
+function streamStoredRun(
+  res: Response,
+  manager: ConnectorManager,
+  connectorId: string,
+  runId: string,
+  lastEventId: number,
+  logs: RunLogLine[],
+  run: ConnectorRun | null
+): void {
+  const stopHeartbeat = openEventStream(res);
+  let lastSent = lastEventId;
+  let timer: NodeJS.Timeout | null = null;
+
+  const sendLines = (lines: RunLogLine[]) => {
+    for (const line of lines) {
+      writeEvent(res, logLineEvent(line));
+      lastSent = line.seq;
+    }
+  };
+  const finish = (finished: ConnectorRun) => {
+    writeEvent(res, { id: lastSent + 1, type: 'complete', data: runSummary(finished) });
+    res.end();
+  };
+
+  res.on('close', () => {
+    if (timer) clearTimeout(timer);
+    stopHeartbeat();
+  });
+
+  sendLines(logs);
+  if (run && logs.length < RUN_LOG_PAGE_MAX) {
+    return finish(run);
+  }
+
+  const poll = async () => {
+    try {
+      const lines = await manager.getRunLogs(connectorId, runId, lastSent, RUN_LOG_PAGE_MAX);
+      sendLines(lines);
+      if (lines.length < RUN_LOG_PAGE_MAX) {
+        const finished = await manager.getRun(connectorId, runId);
+        if (finished) return finish(finished);
+      }
+      if (!res.writableEnded) timer = setTimeout(poll, lines.length === RUN_LOG_PAGE_MAX ? 0 : STORED_RUN_POLL_MS);
+    } catch (error) {
+      console.error('Error following run log:', error);
+      res.end();
+    }
+  };
+  timer = setTimeout(poll, logs.length === RUN_LOG_PAGE_MAX ? 0 : STORED_RUN_POLL_MS);
+}
+
+const DELETION_MODES = ['tombstone', 'dry-run', 'off'];
+
 /**
  * Validate connector configuration
  */
@@ -267,6 +477,15 @@ function validateConfig(config: any): string | null {
     return 'Config type is required';
   }
 
+  if (config.deletions !== undefined && !DELETION_MODES.includes(config.deletions)) {
+    return 'deletions must be tombstone, dry-run or off';
+  }
+
+  const aclError = validateAclConfig(config.acl);
+  if (aclError) {
+    return aclError;
+  }
+
   switch (config.type) {
     case 'web':
       return validateWebConfig(config);
@@ -276,11 +495,31 @@ function validateConfig(config: any): string | null {
       return validateSqlConfig(config);
     case 'nostr':
       return validateNostrConfig(config);
+    case 'rest':
+      return validateRestConfig(config);
     default:
       return `Unknown connector type: ${config.type}`;
   }
 }
 
+function validateAclConfig(acl: any): string | null {
+  if (acl === undefined || acl === null) {
+    return null;
+  }
+  if (typeof acl !== 'object' || Array.isArray(acl)) {
+    return 'acl must be an object with public, users and groups';
+  }
+  if (acl.public !== undefined && typeof acl.public !== 'boolean') {
+    return 'acl.public must be a boolean';
+  }
+  for (const key of ['users', 'groups']) {
+    if (acl[key] !== undefined && (!Array.isArray(acl[key]) || !acl[key].every((item: any) => typeof item === 'string'))) {
+      return `acl.${key} must be an array of strings`;
+    }
+  }
+  return null;
+}
+
 function validateWebConfig(config: any): string | null {
   if (!config.seedUrl) {
     return 'Seed URL is required for web connector';
@@ -304,6 +543,26 @@ function validateWebConfig(config: any): string | null {
     return 'Rate limit must be between 100ms and 60000ms';
   }
 
+  if (config.fetcher !== undefined && !['http', 'browser', 'auto'].includes(config.fetcher)) {
+    return 'fetcher must be one of: http, browser, auto';
+  }
+
+  if (config.render !== undefined) {
+    if (typeof config.render !== 'object' || config.render === null) {
+      return 'render must be an object';
+    }
+    const { timeoutMs, minContentLength, waitForSelector } = config.render;
+    if (timeoutMs !== undefined && (timeoutMs < 1000 || timeoutMs > 120000)) {
+      return 'render.timeoutMs must be between 1000 and 120000';
+    }
+    if (minContentLength !== undefined && (minContentLength < 0 || minContentLength > 100000)) {
+      return 'render.minContentLength must be between 0 and 100000';
+    }
+    if (waitForSelector !== undefined && typeof waitForSelector !== 'string') {
+      return 'render.waitForSelector must be a string';
+    }
+  }
+
   return null;
 }
 
@@ -316,10 +575,9 @@ function validateFolderConfig(config: any): string | null {
     return 'File types array is required for folder connector';
   }
 
-  const validExtensions = ['.txt', '.md', '.pdf', '.docx', '.html', '.htm'];
   for (const ext of config.fileTypes) {
-    if (!validExtensions.includes(ext.toLowerCase())) {
-      return `Invalid file type: ${ext}. Supported: ${validExtensions.join(', ')}`;
+    if (!EXTRACTABLE_FILE_TYPES.includes(ext.toLowerCase())) {
+      return `Invalid file type: ${ext}. Supported: ${EXTRACTABLE_FILE_TYPES.join(', ')}`;
     }
   }
 
@@ -339,6 +597,36 @@ function validateSqlConfig(config: any): string | null {
     return 'Data query is required for SQL connector';
   }
 
+  if (config.dialect !== undefined && !['postgres', 'mysql', 'sqlite'].includes(config.dialect)) {
+    return 'Dialect must be postgres, mysql or sqlite';
+  }
+
+  if (config.batchSize !== undefined && (config.batchSize < 1 || config.batchSize > 10000)) {
+    return 'Batch size must be between 1 and 10000';
+  }
+
+  return null;
+}
+
+function validateRestConfig(config: any): string | null {
+  if (!config.template && !config.definition) {
+    return 'Template id or inline definition is required for rest connector';
+  }
+
+  if (config.credentials !== undefined && (typeof config.credentials !== 'object' || Array.isArray(config.credentials))) {
+    return 'Credentials must be an object';
+  }
+
+  if (config.endpoints !== undefined) {
+    if (!Array.isArray(config.endpoints) || config.endpoints.some((e: any) => typeof e !== 'string')) {
+      return 'Endpoints must be an array of endpoint names';
+    }
+  }
+
+  if (config.maxItems !== undefined && (!Number.isInteger(config.maxItems) || config.maxItems < 1)) {
+    return 'Max items must be a positive integer';
+  }
+
   return null;
 }
 
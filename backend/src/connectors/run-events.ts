@@ -0,0 +1,219 @@
+/**
+ * Run Events
+ * Live event stream of each connector run (progress, log lines, document
+ * outcomes) with a replay buffer for reconnecting clients, and the store that
+ * keeps every log line of a run.
+ */
+
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import { Pool } from 'pg';
+import { ConnectorRun, RunEvent, RunEventType, RunLogLine } from './types';
+
+const RUN_EVENT_BUFFER = Number(process.env.CONNECTOR_RUN_EVENT_BUFFER || 1000);
+const RUN_EVENT_RETENTION_MS = Number(process.env.CONNECTOR_RUN_EVENT_RETENTION_MINUTES || 10) * 60_000;
+const LOG_FLUSH_INTERVAL_MS = 1000;
+const LOG_FLUSH_BATCH = 200;
+const SSE_HEARTBEAT_MS = 15_000;
+
+/**
+ * A run without its log, as sent in start, progress and complete events
+ */
+export function runSummary(run: ConnectorRun): Omit<ConnectorRun, 'log'> {
+  const { log, ...summary } = run;
+  return summary;
+}
+
+/**
+ * Events of one run. Subscribers get every new event through 'event'; the
+ * most recent events are kept for replay.
+ */
+export class RunEventStream extends EventEmitter {
+  readonly runId: string;
+  readonly connectorId: string;
+  private buffer: RunEvent[] = [];
+  private bufferSize: number;
+  private nextId = 1;
+  private completed = false;
+
+  constructor(runId: string, connectorId: string, bufferSize: number = RUN_EVENT_BUFFER) {
+    super();
+    this.setMaxListeners(0);
+    this.runId = runId;
+    this.connectorId = connectorId;
+    this.bufferSize = bufferSize;
+  }
+
+  get isComplete(): boolean {
+    return this.completed;
+  }
+
+  /**
+   * Id of the oldest event still in the buffer (the next id when empty)
+   */
+  get oldestBufferedId(): number {
+    return this.buffer.length > 0 ? this.buffer[0].id : this.nextId;
+  }
+
+  publish(type: RunEventType, data: Record<string, any>): RunEvent {
+    const event: RunEvent = { id: this.nextId++, type, data };
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.bufferSize);
+    }
+    if (type === 'complete') this.completed = true;
+    this.emit('event', event);
+    return event;
+  }
+
+  /**
+   * Buffered events after the given id
+   */
+  since(lastEventId: number): RunEvent[] {
+    return this.buffer.filter(event => event.id > lastEventId);
+  }
+}
+
+/**
+ * Streams of the runs in progress on this instance, and of recently finished
+ * ones for a while so late reconnects still replay from memory
+ */
+export class RunEventHub {
+  private streams: Map<string, RunEventStream> = new Map();
+  private latestRuns: Map<string, string> = new Map();
+
+  open(connectorId: string, runId: string): RunEventStream {
+    const stream = new RunEventStream(runId, connectorId);
+    this.streams.set(runId, stream);
+    this.latestRuns.set(connectorId, runId);
+    return stream;
+  }
+
+  get(runId: string): RunEventStream | null {
+    return this.streams.get(runId) || null;
+  }
+
+  latestRunId(connectorId: string): string | null {
+    return this.latestRuns.get(connectorId) || null;
+  }
+
+  /**
+   * Drop a finished run's stream once the retention period has passed
+   */
+  retire(runId: string, retentionMs: number = RUN_EVENT_RETENTION_MS): void {
+    setTimeout(() => {
+      const stream = this.streams.get(runId);
+      if (!stream) return;
+      this.streams.delete(runId);
+      if (this.latestRuns.get(stream.connectorId) === runId) {
+        this.latestRuns.delete(stream.connectorId);
+      }
+    }, retentionMs).unref();
+  }
+}
+
+interface PendingLogLine {
+  connectorId: string;
+  runId: string;
+  seq: number;
+  line: string;
+}
+
+/**
+ * Full run logs in connector_run_logs. Lines are written in batches; flush()
+ * resolves once everything appended so far is stored.
+ */
+export class PgRunLogStore {
+  private pool: Pool;
+  private pending: PendingLogLine[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  append(connectorId: string, runId: string, seq: number, line: string): void {
+    this.pending.push({ connectorId, runId, seq, line });
+    if (this.pending.length >= LOG_FLUSH_BATCH) {
+      this.flush().catch(console.error);
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush().catch(console.error), LOG_FLUSH_INTERVAL_MS);
+      this.timer.unref();
+    }
+  }
+
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const batch = this.pending;
+    this.pending = [];
+    if (batch.length > 0) {
+      // Chained so batches are written in order
+      this.writing = this.writing.then(() => this.write(batch)).catch(error => {
+        console.error(`Failed to store ${batch.length} connector log line(s):`, error);
+      });
+    }
+    return this.writing;
+  }
+
+  /**
+   * Lines with seq > after (and < before, when given), oldest first
+   */
+  async page(connectorId: string, runId: string, after: number, limit: number, before?: number): Promise<RunLogLine[]> {
+    const result = await this.pool.query(`
+      SELECT seq, line, created_at FROM connector_run_logs
+      WHERE run_id = $1 AND connector_id = $2 AND seq > $3 AND ($4::int IS NULL OR seq < $4)
+      ORDER BY seq
+      LIMIT $5
+    `, [runId, connectorId, after, before ?? null, limit]);
+
+    return result.rows.map(row => ({
+      seq: row.seq,
+      line: row.line,
+      createdAt: row.created_at
+    }));
+  }
+
+  private async write(batch: PendingLogLine[]): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO connector_run_logs (run_id, seq, connector_id, line)
+      SELECT * FROM unnest($1::uuid[], $2::int[], $3::uuid[], $4::text[])
+      ON CONFLICT (run_id, seq) DO NOTHING
+    `, [
+      batch.map(entry => entry.runId),
+      batch.map(entry => entry.seq),
+      batch.map(entry => entry.connectorId),
+      batch.map(entry => entry.line)
+    ]);
+  }
+}
+
+/**
+ * Switch a response to text/event-stream. Comments are sent periodically so
+ * proxies keep the connection open; the returned function stops them.
+ */
+export function openEventStream(res: Response): () => void {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 3000\n\n');
+
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+  heartbeat.unref();
+  return () => clearInterval(heartbeat);
+}
+
+export function writeEvent(res: Response, event: RunEvent): void {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+}
+
+export function logLineEvent(line: RunLogLine): RunEvent {
+  return { id: line.seq, type: 'log', data: { line: line.line } };
+}
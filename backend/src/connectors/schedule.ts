@@ -0,0 +1,102 @@
+/**
+ * Connector Schedules
+ * Next-run computation for cron and "every N minutes" schedules, and the
+ * catch-up decision for runs that were missed while no instance was up
+ */
+
+import { parseExpression } from 'cron-parser';
+import { ConnectorSchedule } from './types';
+
+const MAX_INTERVAL_MINUTES = 60 * 24 * 366;
+
+/**
+ * Returns an error message, or null when the schedule is valid
+ */
+export function validateSchedule(schedule: any): string | null {
+  if (typeof schedule !== 'object' || Array.isArray(schedule)) {
+    return 'Schedule must be an object';
+  }
+
+  const hasCron = schedule.cron !== undefined && schedule.cron !== null && schedule.cron !== '';
+  const hasInterval = schedule.intervalMinutes !== undefined && schedule.intervalMinutes !== null;
+  if (hasCron === hasInterval) {
+    return 'Schedule needs exactly one of cron or intervalMinutes';
+  }
+
+  if (hasInterval) {
+    const minutes = schedule.intervalMinutes;
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_INTERVAL_MINUTES) {
+      return `intervalMinutes must be an integer between 1 and ${MAX_INTERVAL_MINUTES}`;
+    }
+  }
+
+  if (schedule.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+    } catch {
+      return `Unknown timezone: ${schedule.timezone}`;
+    }
+  }
+
+  if (hasCron) {
+    try {
+      parseExpression(String(schedule.cron), { tz: schedule.timezone });
+    } catch (error) {
+      return `Invalid cron expression: ${(error as Error).message}`;
+    }
+  }
+
+  if (schedule.catchUp !== undefined && !['once', 'skip'].includes(schedule.catchUp)) {
+    return 'catchUp must be once or skip';
+  }
+
+  return null;
+}
+
+/**
+ * The first run strictly after `after`
+ */
+export function nextRunTime(schedule: ConnectorSchedule, after: Date): Date {
+  if (schedule.intervalMinutes) {
+    return new Date(after.getTime() + schedule.intervalMinutes * 60_000);
+  }
+
+  const expression = parseExpression(schedule.cron as string, {
+    currentDate: after,
+    tz: schedule.timezone
+  });
+  return expression.next().toDate();
+}
+
+export interface ScheduledRunPlan {
+  enqueue: boolean;
+  missed: boolean;     // The due time passed more than the grace period ago
+  nextRunAt: Date;
+}
+
+/**
+ * Decide what to do with a connector whose next run was due at `dueAt`.
+ * A run counts as missed when the scheduler only notices it more than
+ * `graceMs` late; any number of missed runs collapses into at most one job.
+ */
+export function planScheduledRun(
+  schedule: ConnectorSchedule,
+  dueAt: Date,
+  now: Date,
+  graceMs: number
+): ScheduledRunPlan {
+  const missed = now.getTime() - dueAt.getTime() > graceMs;
+  const enqueue = !missed || (schedule.catchUp || 'once') === 'once';
+
+  let nextRunAt: Date;
+  if (schedule.intervalMinutes) {
+    // Stay on the original cadence instead of drifting by the scheduler's delay
+    const period = schedule.intervalMinutes * 60_000;
+    const elapsed = Math.floor((now.getTime() - dueAt.getTime()) / period) + 1;
+    nextRunAt = new Date(dueAt.getTime() + elapsed * period);
+  } else {
+    nextRunAt = nextRunTime(schedule, now);
+  }
+
+  return { enqueue, missed, nextRunAt };
+}
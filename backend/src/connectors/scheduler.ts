@@ -0,0 +1,136 @@
+/**
+ * Connector Scheduler
+ * Turns due schedules into queued jobs and runs queued jobs on this
+ * instance. Any number of instances can run a scheduler against one database.
+ */
+
+import { Pool } from 'pg';
+import { ConnectorManager } from './manager';
+import { ConnectorJobQueue } from './queue';
+import { planScheduledRun, nextRunTime } from './schedule';
+import { ConnectorSchedule } from './types';
+
+const POLL_INTERVAL_MS = Number(process.env.CONNECTOR_SCHEDULER_POLL_MS || 30_000);
+const CONCURRENCY = Number(process.env.CONNECTOR_SCHEDULER_CONCURRENCY || 2);
+
+export class ConnectorScheduler {
+  private pool: Pool;
+  private manager: ConnectorManager;
+  private queue: ConnectorJobQueue;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(pool: Pool, manager: ConnectorManager) {
+    this.pool = pool;
+    this.manager = manager;
+    this.queue = manager.getJobQueue();
+  }
+
+  start(): void {
+    if (this.timer) return;
+    console.log(`⏰ Connector scheduler started (${this.queue.instanceId}, every ${POLL_INTERVAL_MS / 1000}s)`);
+    this.timer = setInterval(() => this.tick(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One scheduler pass: recover dead jobs, purge expired tombstones, queue
+   * due schedules, start queued jobs
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const recovered = await this.queue.recoverStale();
+      if (recovered > 0) {
+        console.log(`Recovered ${recovered} connector jobs from unresponsive instances`);
+      }
+
+      const purged = await this.manager.purgeTombstones();
+      if (purged > 0) {
+        console.log(`Purged ${purged} tombstoned documents past their grace period`);
+      }
+
+      await this.enqueueDueSchedules();
+
+      while (this.manager.getRunningCount() < CONCURRENCY) {
+        const job = await this.queue.claimNext();
+        if (!job) break;
+
+        console.log(`Starting ${job.trigger} job ${job.id} for connector ${job.connectorId}`);
+        await this.manager.runQueuedJob(job).catch(error => {
+          console.error(`Connector job ${job.id} failed to start:`, error);
+        });
+      }
+    } catch (error) {
+      console.error('Connector scheduler error:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Queue a job for every active connector whose next run is due and move
+   * its next_run_at forward. Row locks keep two schedulers from queueing the
+   * same slot twice.
+   */
+  private async enqueueDueSchedules(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const due = await client.query(`
+        SELECT id, name, schedule, next_run_at FROM connectors
+        WHERE is_active = true AND schedule IS NOT NULL
+          AND (next_run_at IS NULL OR next_run_at <= NOW())
+        FOR UPDATE SKIP LOCKED
+      `);
+
+      const now = new Date();
+      for (const row of due.rows) {
+        const schedule = row.schedule as ConnectorSchedule;
+
+        let nextRunAt: Date;
+        try {
+          if (!row.next_run_at) {
+            // Scheduled before next_run_at was tracked: start counting from now
+            nextRunAt = nextRunTime(schedule, now);
+          } else {
+            const plan = planScheduledRun(schedule, row.next_run_at, now, POLL_INTERVAL_MS * 2);
+            nextRunAt = plan.nextRunAt;
+
+            if (plan.enqueue) {
+              const job = await this.queue.enqueue(row.id, plan.missed ? 'catch_up' : 'schedule', row.next_run_at);
+              if (!job) {
+                console.log(`Skipping scheduled run of ${row.name}: previous run still active`);
+              }
+            } else {
+              console.log(`Skipping missed run of ${row.name} (catch-up policy: skip)`);
+            }
+          }
+        } catch (error) {
+          console.error(`Invalid schedule for connector ${row.name}:`, (error as Error).message);
+          nextRunAt = new Date(now.getTime() + 24 * 60 * 60_000);
+        }
+
+        await client.query('UPDATE connectors SET next_run_at = $2 WHERE id = $1', [row.id, nextRunAt]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
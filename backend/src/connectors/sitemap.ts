@@ -0,0 +1,94 @@
+/**
+ * Sitemap Discovery
+ * Reads sitemap.xml files and sitemap indexes (plain or gzipped)
+ */
+
+import * as cheerio from 'cheerio';
+import { gunzipSync } from 'zlib';
+
+const MAX_SITEMAP_FILES = 50;
+
+export interface SitemapEntry {
+  url: string;
+  lastModified?: Date;
+}
+
+export interface ParsedSitemap {
+  urls: SitemapEntry[];
+  sitemaps: string[];          // Child sitemaps of a sitemap index
+}
+
+/**
+ * Parse a <urlset> or <sitemapindex> document
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const result: ParsedSitemap = { urls: [], sitemaps: [] };
+
+  $('sitemapindex > sitemap > loc').each((_, element) => {
+    const loc = $(element).text().trim();
+    if (loc) result.sitemaps.push(loc);
+  });
+
+  $('urlset > url').each((_, element) => {
+    const loc = $(element).children('loc').text().trim();
+    if (!loc) return;
+
+    const lastmod = $(element).children('lastmod').text().trim();
+    const lastModified = lastmod ? new Date(lastmod) : undefined;
+    result.urls.push({
+      url: loc,
+      lastModified: lastModified && !isNaN(lastModified.getTime()) ? lastModified : undefined
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Fetch the given sitemaps, following sitemap indexes, and return up to
+ * `limit` page entries. Unreachable or malformed sitemaps are skipped.
+ */
+export async function fetchSitemapEntries(
+  sitemapUrls: string[],
+  limit: number,
+  log: (message: string) => void = () => undefined
+): Promise<SitemapEntry[]> {
+  const pending = [...sitemapUrls];
+  const fetched = new Set<string>();
+  const entries = new Map<string, SitemapEntry>();
+
+  while (pending.length > 0 && entries.size < limit && fetched.size < MAX_SITEMAP_FILES) {
+    const sitemapUrl = pending.shift()!;
+    if (fetched.has(sitemapUrl)) continue;
+    fetched.add(sitemapUrl);
+
+    try {
+      const response = await fetch(sitemapUrl, {
+        headers: { 'User-Agent': 'BeaconSearchBot/1.0' }
+      });
+      if (!response.ok) {
+        log(`Sitemap ${sitemapUrl} returned HTTP ${response.status}`);
+        continue;
+      }
+
+      let body = Buffer.from(await response.arrayBuffer());
+      // Gzip magic bytes: .xml.gz files are often served without Content-Encoding
+      if (body[0] === 0x1f && body[1] === 0x8b) {
+        body = gunzipSync(body);
+      }
+
+      const parsed = parseSitemap(body.toString('utf-8'));
+      pending.push(...parsed.sitemaps);
+      for (const entry of parsed.urls) {
+        if (entries.size >= limit) break;
+        if (!entries.has(entry.url)) entries.set(entry.url, entry);
+      }
+      log(`Sitemap ${sitemapUrl}: ${parsed.urls.length} pages, ${parsed.sitemaps.length} child sitemaps`);
+    } catch (error) {
+      log(`Failed to read sitemap ${sitemapUrl}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return [...entries.values()];
+}
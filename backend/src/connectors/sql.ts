@@ -0,0 +1,328 @@
+/**
+ * SQL Connector
+ * Streams rows from Postgres, MySQL or SQLite, maps columns to documents,
+ * syncs incrementally on a watermark column and removes deleted rows
+ */
+
+import { Client } from 'pg';
+import Cursor from 'pg-cursor';
+import { BaseConnector } from './base';
+import { Connector, ExtractedDocument, SqlColumnMapping, SqlConnectorConfig, SqlDialect } from './types';
+import { parseDocumentAcl } from '../search/access';
+
+const DEFAULT_BATCH_SIZE = 500;
+const DEFAULT_INITIAL_WATERMARK = '1970-01-01 00:00:00';
+
+// Dynamic imports for optional drivers
+let mysql: any = null;
+let sqlite: any = null;
+
+async function loadMysql() {
+  if (!mysql) {
+    try {
+      mysql = await import('mysql2');
+    } catch {
+      throw new Error('mysql2 not installed. MySQL support disabled.');
+    }
+  }
+  return mysql;
+}
+
+async function loadSqlite() {
+  if (!sqlite) {
+    try {
+      sqlite = (await import('better-sqlite3')).default;
+    } catch {
+      throw new Error('better-sqlite3 not installed. SQLite support disabled.');
+    }
+  }
+  return sqlite;
+}
+
+/**
+ * A connection that yields rows one at a time without buffering the result
+ */
+interface SqlSource {
+  stream(sql: string, params: any[], batchSize: number): AsyncIterable<Record<string, any>>;
+  close(): Promise<void>;
+}
+
+export function detectSqlDialect(connectionString: string): SqlDialect {
+  const lower = connectionString.toLowerCase();
+  if (/^postgres(ql)?:\/\//.test(lower)) return 'postgres';
+  if (/^(mysql|mariadb):\/\//.test(lower)) return 'mysql';
+  if (lower.startsWith('sqlite:') || /\.(db|sqlite3?)$/.test(lower)) return 'sqlite';
+  throw new Error('Cannot infer SQL dialect from the connection string; set config.dialect');
+}
+
+/**
+ * Rewrite :name parameters to the dialect's placeholders. Quoted strings and
+ * Postgres ::casts are left alone.
+ */
+export function bindNamedParams(
+  sql: string,
+  params: Record<string, any>,
+  dialect: SqlDialect
+): { text: string; values: any[] } {
+  const values: any[] = [];
+  const text = sql.replace(/'(?:[^']|'')*'|"[^"]*"|::|:([A-Za-z_]\w*)/g, (match, name?: string) => {
+    if (!name) return match;
+    if (!(name in params)) {
+      throw new Error(`No value for query parameter :${name}`);
+    }
+    values.push(params[name]);
+    return dialect === 'postgres' ? `$${values.length}` : '?';
+  });
+  return { text, values };
+}
+
+function sqlitePath(connectionString: string): string {
+  return connectionString.replace(/^sqlite:(\/\/)?/i, '') || ':memory:';
+}
+
+async function openSource(dialect: SqlDialect, connectionString: string): Promise<SqlSource> {
+  switch (dialect) {
+    case 'postgres': {
+      const client = new Client({ connectionString });
+      await client.connect();
+      return {
+        async *stream(sql, params, batchSize) {
+          // Server-side cursor: only batchSize rows are held in memory
+          const cursor = client.query(new Cursor(sql, params));
+          try {
+            for (;;) {
+              const rows = await cursor.read(batchSize);
+              if (rows.length === 0) break;
+              yield* rows;
+            }
+          } finally {
+            await cursor.close();
+          }
+        },
+        close: () => client.end()
+      };
+    }
+
+    case 'mysql': {
+      const driver = await loadMysql();
+      const connection = driver.createConnection(connectionString);
+      return {
+        async *stream(sql, params, batchSize) {
+          // Unbuffered query: rows arrive as the server sends them
+          const rows = connection.query(sql, params).stream({ highWaterMark: batchSize });
+          try {
+            for await (const row of rows) {
+              yield row;
+            }
+          } finally {
+            rows.destroy();
+          }
+        },
+        close: () => new Promise<void>(resolve => connection.end(() => resolve()))
+      };
+    }
+
+    case 'sqlite': {
+      const Database = await loadSqlite();
+      const db = new Database(sqlitePath(connectionString), { readonly: true, fileMustExist: true });
+      return {
+        async *stream(sql, params) {
+          yield* db.prepare(sql).iterate(...params);
+        },
+        close: async () => db.close()
+      };
+    }
+  }
+}
+
+function compareWatermarks(a: any, b: any): number {
+  const toComparable = (value: any) => value instanceof Date ? value.getTime() : value;
+  const left = toComparable(a);
+  const right = toComparable(b);
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+}
+
+export interface SqlWatermarkState {
+  watermark?: string | number;
+  watermarkType?: 'date';
+}
+
+/**
+ * Watermark as saved in the connector state. Date values are marked so they
+ * are bound back as Dates: the driver then formats them in the same zone it
+ * parsed the column in, instead of comparing a UTC string against local
+ * `timestamp`/`DATETIME` values.
+ */
+export function serializeWatermark(value: any): SqlWatermarkState {
+  if (value instanceof Date) return { watermark: value.toISOString(), watermarkType: 'date' };
+  if (typeof value === 'bigint') return { watermark: value.toString() };
+  return { watermark: value };
+}
+
+// Watermarks saved before their type was recorded: Dates were saved with toISOString()
+const LEGACY_DATE_WATERMARK = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/;
+
+/**
+ * The :last_run value for a saved watermark
+ */
+export function restoreWatermark(state: SqlWatermarkState, dialect: SqlDialect): any {
+  const { watermark, watermarkType } = state;
+  if (watermark === undefined) return undefined;
+  // SQLite has no date type and cannot bind Dates; its values are strings
+  if (dialect === 'sqlite') return watermark;
+  if (watermarkType === 'date' || (typeof watermark === 'string' && LEGACY_DATE_WATERMARK.test(watermark))) {
+    return new Date(watermark);
+  }
+  return watermark;
+}
+
+/**
+ * Map a result row to a document using the configured columns
+ */
+export function mapSqlRow(row: Record<string, any>, columns: SqlColumnMapping = {}, watermarkColumn?: string): ExtractedDocument | null {
+  const idColumn = columns.id || 'id';
+  const id = row[idColumn];
+  if (id === undefined || id === null || id === '') return null;
+
+  const titleColumn = columns.title || 'title';
+  const contentColumns = Array.isArray(columns.content) ? columns.content : [columns.content || 'content'];
+  const modifiedColumn = columns.lastModified || watermarkColumn;
+  const aclColumns = [columns.aclUsers, columns.aclGroups, columns.aclPublic];
+  const mapped = new Set([idColumn, titleColumn, ...contentColumns, columns.url, columns.language, ...aclColumns].filter(Boolean) as string[]);
+
+  const attributeColumns = columns.attributes || Object.keys(row).filter(column => !mapped.has(column));
+  const attributes: Record<string, any> = {};
+  for (const column of attributeColumns) {
+    const value = row[column];
+    if (value === undefined) continue;
+    attributes[column] = value instanceof Date ? value.toISOString() : typeof value === 'bigint' ? value.toString() : value;
+  }
+
+  const content = contentColumns
+    .map(column => row[column])
+    .filter(value => value !== undefined && value !== null && value !== '')
+    .map(String)
+    .join('\n\n');
+
+  const modified = modifiedColumn ? row[modifiedColumn] : undefined;
+  const lastModified = modified instanceof Date ? modified : modified ? new Date(modified) : undefined;
+
+  const acl = parseDocumentAcl({
+    users: columns.aclUsers ? row[columns.aclUsers] : undefined,
+    groups: columns.aclGroups ? row[columns.aclGroups] : undefined,
+    public: columns.aclPublic ? row[columns.aclPublic] : undefined
+  });
+
+  return {
+    externalId: String(id),
+    title: row[titleColumn] ? String(row[titleColumn]) : String(id),
+    content,
+    url: columns.url && row[columns.url] ? String(row[columns.url]) : undefined,
+    attributes,
+    lastModified: lastModified && !Number.isNaN(lastModified.getTime()) ? lastModified : undefined,
+    language: columns.language && row[columns.language] ? String(row[columns.language]) : undefined,
+    ...(acl ? { acl } : {})
+  };
+}
+
+export class SqlConnector extends BaseConnector {
+  private config: SqlConnectorConfig;
+
+  constructor(connector: Connector) {
+    super(connector);
+    this.config = connector.config as SqlConnectorConfig;
+  }
+
+  protected async execute(): Promise<void> {
+    const dialect = this.config.dialect || detectSqlDialect(this.config.connectionString);
+    const batchSize = this.config.batchSize || DEFAULT_BATCH_SIZE;
+    const state = (await this.syncHooks?.loadState()) || {};
+    const lastRun = restoreWatermark(state, dialect) ?? this.config.initialWatermark ?? DEFAULT_INITIAL_WATERMARK;
+
+    this.log(`Connecting to ${dialect} source`);
+    const source = await openSource(dialect, this.config.connectionString);
+
+    try {
+      // Deleted-row detection first: the id list is small and tells us the total
+      const liveIds = await this.collectIds(source, dialect, batchSize);
+      this.log(`Metadata query returned ${liveIds.size} rows`);
+
+      if (this.config.watermarkColumn) {
+        this.log(`Incremental sync on ${this.config.watermarkColumn} > ${serializeWatermark(lastRun).watermark}`);
+      }
+
+      const { text, values } = bindNamedParams(this.config.dataQuery, { last_run: lastRun }, dialect);
+      // Every row is newer than lastRun, so the run's maximum is the next watermark
+      let watermark: any;
+      let processed = 0;
+
+      for await (const row of source.stream(text, values, batchSize)) {
+        if (!this.shouldContinue()) break;
+
+        const doc = mapSqlRow(row, this.config.columns, this.config.watermarkColumn);
+        if (doc) {
+          this.emitDocument(doc);
+        }
+
+        const rowWatermark = this.config.watermarkColumn ? row[this.config.watermarkColumn] : undefined;
+        if (rowWatermark !== undefined && rowWatermark !== null &&
+            (watermark === undefined || compareWatermarks(rowWatermark, watermark) > 0)) {
+          watermark = rowWatermark;
+        }
+
+        processed++;
+        if (processed % batchSize === 0) {
+          this.updateProgress(processed, Math.max(liveIds.size, processed), doc?.externalId);
+        }
+      }
+
+      this.updateProgress(processed, Math.max(liveIds.size, processed));
+      this.log(`Indexed ${processed} rows`);
+
+      if (!this.shouldContinue()) return;
+
+      await this.removeDeletedRows(liveIds);
+
+      if (this.syncHooks && this.config.watermarkColumn && watermark !== undefined) {
+        const saved = serializeWatermark(watermark);
+        const { watermarkType, ...rest } = state;
+        await this.syncHooks.saveState({ ...rest, ...saved });
+        this.log(`Saved watermark: ${saved.watermark}`);
+      }
+    } finally {
+      await source.close().catch(error => this.log(`Error closing connection: ${error.message}`));
+    }
+  }
+
+  private async collectIds(source: SqlSource, dialect: SqlDialect, batchSize: number): Promise<Set<string>> {
+    const idColumn = this.config.columns?.id || 'id';
+    const { text, values } = bindNamedParams(this.config.metadataQuery, {}, dialect);
+    const ids = new Set<string>();
+
+    for await (const row of source.stream(text, values, batchSize)) {
+      // The id column, or the first column of an id-only query
+      const id = idColumn in row ? row[idColumn] : Object.values(row)[0];
+      if (id !== undefined && id !== null) ids.add(String(id));
+    }
+    return ids;
+  }
+
+  private async removeDeletedRows(liveIds: Set<string>): Promise<void> {
+    if (!this.syncHooks) return;
+
+    if (liveIds.size === 0) {
+      // An empty id list is far more often a wrong query, a permissions
+      // change or an empty replica than every row being deleted
+      this.log('Skipping deletion check: the metadata query returned no rows');
+      return;
+    }
+
+    const indexed = await this.syncHooks.listExternalIds();
+    const deleted = indexed.filter(id => !liveIds.has(id));
+    if (deleted.length === 0) return;
+
+    this.log(`${deleted.length} indexed rows no longer exist`);
+    await this.removeDocuments(deleted);
+  }
+}
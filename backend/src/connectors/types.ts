@@ -1,21 +1,50 @@
 /**
  * Connector Types for Beacon Search
- * Supports: sql, web, folder connector types
+ * Supports: sql, web, folder, nostr and rest (integration template) connector types
  */
 
-export type ConnectorType = 'sql' | 'web' | 'folder' | 'nostr';
+import { IntegrationTemplate } from '../wizard/types';
+import { DocumentAcl } from '../search/access';
+import type { NostrConnectorEventStore } from '../templates/nostr/lifecycle';
+
+export type ConnectorType = 'sql' | 'web' | 'folder' | 'nostr' | 'rest';
 
 export type ConnectorStatus = 'idle' | 'running' | 'completed' | 'failed' | 'stopped';
 
 export interface BaseConnectorConfig {
   type: ConnectorType;
+  deletions?: DeletionMode;        // Documents gone upstream (default: tombstone)
+  acl?: DocumentAcl;               // Permissions of every document; combined with those the source reports
+}
+
+// tombstone: hide now, purge after the grace period; dry-run: only report; off: keep
+export type DeletionMode = 'tombstone' | 'dry-run' | 'off';
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+export interface SqlColumnMapping {
+  id?: string;                     // Default: id
+  title?: string;                  // Default: title
+  content?: string | string[];     // Default: content; several columns are joined with blank lines
+  url?: string;
+  lastModified?: string;           // Default: the watermark column
+  language?: string;
+  aclUsers?: string;               // Array or comma-separated list of users allowed to see the row
+  aclGroups?: string;              // Same for groups
+  aclPublic?: string;              // Boolean; rows with users or groups are otherwise restricted
+  attributes?: string[];           // Default: every column not mapped above
 }
 
 export interface SqlConnectorConfig extends BaseConnectorConfig {
   type: 'sql';
-  connectionString: string;
-  metadataQuery: string;
-  dataQuery: string;
+  connectionString: string;        // postgres://..., mysql://..., sqlite:///path/to/file.db
+  dialect?: SqlDialect;            // Inferred from connectionString when omitted
+  metadataQuery: string;           // Ids of every live row; indexed rows missing here are removed
+  dataQuery: string;               // Rows to index; may reference :last_run
+  columns?: SqlColumnMapping;
+  watermarkColumn?: string;        // e.g. updated_at; its highest value becomes :last_run next time
+  initialWatermark?: string | number;  // :last_run on the first run (default 1970-01-01 00:00:00)
+  batchSize?: number;              // Rows fetched per cursor read (default 500)
 }
 
 export interface WebConnectorConfig extends BaseConnectorConfig {
@@ -28,6 +57,21 @@ export interface WebConnectorConfig extends BaseConnectorConfig {
   maxPages: number;
   includePatterns?: string[];
   excludePatterns?: string[];
+  useSitemaps?: boolean;          // Discover pages from robots.txt Sitemap: lines and /sitemap.xml (default true)
+  fetcher?: WebFetcherMode;       // Default 'http'
+  render?: WebRenderOptions;
+}
+
+/**
+ * How the web spider downloads pages: plain HTTP, a headless browser for
+ * every page, or HTTP with a browser retry for pages that come back thin
+ */
+export type WebFetcherMode = 'http' | 'browser' | 'auto';
+
+export interface WebRenderOptions {
+  waitForSelector?: string;       // Wait for this element before reading the page
+  timeoutMs?: number;             // Navigation and selector timeout (default 30000)
+  minContentLength?: number;      // 'auto': render pages with less extracted text (default 200)
 }
 
 export interface FolderConnectorConfig extends BaseConnectorConfig {
@@ -37,6 +81,7 @@ export interface FolderConnectorConfig extends BaseConnectorConfig {
   fileTypes: string[];
   watchForChanges: boolean;
   excludePatterns?: string[];
+  autoProcess?: boolean;           // OCR / translate / describe files; default: AUTO_PROCESS
 }
 
 export interface NostrConnectorConfig extends BaseConnectorConfig {
@@ -51,7 +96,24 @@ export interface NostrConnectorConfig extends BaseConnectorConfig {
   subscribeMode?: boolean;
 }
 
-export type ConnectorConfig = SqlConnectorConfig | WebConnectorConfig | FolderConnectorConfig | NostrConnectorConfig;
+export interface RestConnectorConfig extends BaseConnectorConfig {
+  type: 'rest';
+  template?: string;                           // integrations/*.yaml id, e.g. 'gitea'
+  definition?: Partial<IntegrationTemplate>;   // Inline template, merged over the loaded one
+  credentials?: Record<string, string>;        // Values for the template's auth fields
+  variables?: Record<string, string>;          // Other ${...} placeholders (owner, repo, space_id...)
+  endpoints?: string[];                        // Endpoints to ingest (default: every resolvable list endpoint)
+  mappings?: Record<string, string>;           // Endpoint -> mapping name when the template has several
+  maxItems?: number;
+  maxPagesPerEndpoint?: number;
+}
+
+export type ConnectorConfig =
+  | SqlConnectorConfig
+  | WebConnectorConfig
+  | FolderConnectorConfig
+  | NostrConnectorConfig
+  | RestConnectorConfig;
 
 export interface Connector {
   id: string;
@@ -69,6 +131,47 @@ export interface Connector {
   itemUrlTemplate?: string;
   searchUrlTemplate?: string;
   editUrlTemplate?: string;
+  // Scheduling
+  schedule?: ConnectorSchedule | null;
+  nextRunAt?: Date;
+}
+
+/**
+ * When a connector runs on its own. Exactly one of cron or intervalMinutes.
+ */
+export interface ConnectorSchedule {
+  cron?: string;                   // 5- or 6-field cron expression, e.g. "0 3 * * *"
+  intervalMinutes?: number;        // "every N minutes"
+  timezone?: string;               // IANA zone for cron (default: server zone)
+  catchUp?: ScheduleCatchUpPolicy; // What to do with a run missed while no instance was up
+}
+
+// once: run a single catch-up job for any number of missed runs; skip: wait for the next slot
+export type ScheduleCatchUpPolicy = 'once' | 'skip';
+
+export type ConnectorJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type ConnectorJobTrigger = 'manual' | 'schedule' | 'catch_up' | 'retry';
+
+/**
+ * A queued or executed connector run. At most one job per connector is
+ * queued or running at a time, across all backend instances.
+ */
+export interface ConnectorJob {
+  id: string;
+  connectorId: string;
+  status: ConnectorJobStatus;
+  trigger: ConnectorJobTrigger;
+  scheduledFor: Date;
+  attempts: number;
+  lockedBy?: string;
+  lockedAt?: Date;
+  heartbeatAt?: Date;
+  runId?: string;
+  errorMessage?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
 }
 
 export interface ConnectorRun {
@@ -87,6 +190,57 @@ export interface ConnectorRun {
   processedItems?: number;
   errorMessage?: string;
   log: string[];
+  deletionReport?: DeletionReport;
+  stats?: Record<string, number>;  // Connector-specific counters, e.g. pagesUnchanged
+}
+
+/**
+ * Live event of a connector run, streamed to clients as Server-Sent Events.
+ * Ids increase by one per event within a run.
+ */
+export type RunEventType = 'start' | 'progress' | 'log' | 'document' | 'complete';
+
+export interface RunEvent {
+  id: number;
+  type: RunEventType;
+  data: Record<string, any>;
+}
+
+/**
+ * Outcome of indexing one emitted document
+ */
+export interface RunDocumentOutcome {
+  externalId: string;
+  title: string;
+  url?: string;
+  status: 'added' | 'updated' | 'failed';
+  documentId?: string;
+  error?: string;
+}
+
+/**
+ * Persisted log line of a run; seq is the id of its 'log' event
+ */
+export interface RunLogLine {
+  seq: number;
+  line: string;
+  createdAt: Date;
+}
+
+/**
+ * Documents a run removed (or, in dry-run mode, would have removed)
+ */
+export interface DeletionReport {
+  dryRun: boolean;
+  count: number;
+  documents: RemovedDocument[];    // The first DELETION_REPORT_LIMIT
+}
+
+export interface RemovedDocument {
+  externalId: string;
+  documentId?: string;
+  title?: string;
+  url?: string;
 }
 
 export interface ExtractedDocument {
@@ -97,6 +251,47 @@ export interface ExtractedDocument {
   attributes?: Record<string, any>;
   lastModified?: Date;
   content_type?: string;
+  language?: string;             // ISO code or text search config name; falls back to attributes.language
+  acl?: DocumentAcl;             // Permissions read from the source; documents without one are public
+}
+
+/**
+ * Persistence a connector can use between runs (provided by ConnectorManager)
+ */
+export interface ConnectorSyncHooks {
+  loadState(): Promise<Record<string, any> | null>;
+  saveState(state: Record<string, any>): Promise<void>;
+  listExternalIds(): Promise<string[]>;                  // Live (not tombstoned) documents only
+  removeDocuments(externalIds: string[], dryRun?: boolean): Promise<RemovedDocument[]>;
+  removeDocumentsByPrefix(prefix: string, keep?: string[]): Promise<RemovedDocument[]>;  // Live documents under an id prefix
+  loadItemStates(): Promise<Map<string, Record<string, any>>>;
+  saveItemState(key: string, state: Record<string, any>): Promise<void>;
+  frontier?: CrawlFrontierStore;
+  nostrEvents?: NostrConnectorEventStore;            // Nostr deletions and replaceable-event versions
+}
+
+/**
+ * Crawl frontier: every URL a web crawl pass has discovered
+ */
+export type FrontierStatus = 'queued' | 'done' | 'failed' | 'skipped';
+
+export interface FrontierEntry {
+  url: string;                 // Canonical URL
+  host: string;
+  depth: number;
+  priority: number;            // Higher is fetched first within a host
+  status: FrontierStatus;
+  nextFetchAt: Date;
+  attempts: number;
+  externalId?: string;         // Document the URL produced, if any
+  lastError?: string;
+}
+
+export interface CrawlFrontierStore {
+  load(): Promise<FrontierEntry[]>;
+  add(entries: FrontierEntry[]): Promise<void>;    // Ignores URLs already present
+  update(entry: FrontierEntry): Promise<void>;
+  clear(): Promise<void>;
 }
 
 export interface ConnectorEvents {
@@ -3,26 +3,53 @@
  * Crawls websites starting from a seed URL
  */
 
+import { createHash } from 'crypto';
 import { BaseConnector } from './base';
-import { Connector, WebConnectorConfig, ExtractedDocument } from './types';
+import { Connector, WebConnectorConfig, WebFetcherMode, ExtractedDocument } from './types';
+import { fetchSitemapEntries } from './sitemap';
+import { CrawlFrontier, canonicalizeCrawlUrl } from './frontier';
+import { BrowserPageFetcher, FetchedPage, HttpPageFetcher, isHtmlContentType } from './page-fetcher';
 import * as cheerio from 'cheerio';
 
+const DEFAULT_MIN_CONTENT_LENGTH = 200;
+
 interface RobotsTxt {
   disallowed: string[];
   crawlDelay?: number;
+  sitemaps: string[];
+}
+
+/**
+ * What the last crawl learned about a URL, kept between runs
+ */
+interface PageState {
+  externalId: string;
+  etag?: string;
+  lastModified?: string;       // Last-Modified header, sent back as If-Modified-Since
+  contentHash: string;
+  links: string[];             // Replayed when the page is not downloaded again
+  fetchedAt: string;
 }
 
-interface QueueItem {
-  url: string;
-  depth: number;
+interface PageResult {
+  fetched: boolean;            // False when the page was not requested at all
+  externalId?: string;         // The document the URL is indexed as
 }
 
+// 404/410: the page is gone, as opposed to a transient fetch failure
+class PageGoneError extends Error {}
+
 export class WebSpiderConnector extends BaseConnector {
   private config: WebConnectorConfig;
-  private visited: Set<string> = new Set();
-  private queue: QueueItem[] = [];
-  private robotsTxt: RobotsTxt | null = null;
+  private frontier: CrawlFrontier = new CrawlFrontier(null);
+  private robotsByHost: Map<string, RobotsTxt | null> = new Map();
   private baseDomain: string = '';
+  private truncated = false;
+  private pageStates: Map<string, PageState> = new Map();
+  private sitemapLastModified: Map<string, Date> = new Map();
+  private fetcherMode: WebFetcherMode = 'http';
+  private httpFetcher = new HttpPageFetcher();
+  private browserFetcher: BrowserPageFetcher | null = null;
 
   constructor(connector: Connector) {
     super(connector);
@@ -30,6 +57,21 @@ export class WebSpiderConnector extends BaseConnector {
   }
 
   protected async execute(): Promise<void> {
+    this.fetcherMode = this.config.fetcher || 'http';
+    this.browserFetcher = this.fetcherMode === 'http' ? null : new BrowserPageFetcher(this.config.render);
+    this.log(`Fetcher: ${this.fetcherMode}`);
+
+    try {
+      if (this.fetcherMode === 'browser') {
+        await this.browserFetcher!.launch();
+      }
+      await this.crawl();
+    } finally {
+      await this.browserFetcher?.close();
+    }
+  }
+
+  private async crawl(): Promise<void> {
     const seedUrl = new URL(this.config.seedUrl);
     this.baseDomain = seedUrl.hostname;
 
@@ -37,59 +79,187 @@ export class WebSpiderConnector extends BaseConnector {
     this.log(`Max depth: ${this.config.maxDepth}, Max pages: ${this.config.maxPages}`);
     this.log(`Same domain only: ${this.config.sameDomainOnly}`);
 
-    if (this.config.respectRobotsTxt) {
-      await this.fetchRobotsTxt(seedUrl.origin);
+    const seed = canonicalizeCrawlUrl(this.config.seedUrl);
+    if (!seed) {
+      throw new Error(`Invalid seed URL: ${this.config.seedUrl}`);
     }
 
-    this.queue.push({ url: this.config.seedUrl, depth: 0 });
-    this.visited.clear();
+    this.truncated = false;
+    this.robotsByHost.clear();
+    this.sitemapLastModified.clear();
+    this.frontier = new CrawlFrontier(this.syncHooks?.frontier || null, message => this.log(message));
+    await this.loadPageStates();
+
+    const useSitemaps = this.config.useSitemaps !== false;
+    const robots = this.config.respectRobotsTxt || useSitemaps
+      ? await this.fetchRobotsTxt(seedUrl.origin)
+      : null;
+    if (this.config.respectRobotsTxt) {
+      this.robotsByHost.set(seedUrl.host, robots);
+    }
 
     let processedCount = 0;
+    const resumed = await this.frontier.open(seed);
+    if (resumed.length > 0) {
+      for (const entry of resumed) {
+        if (entry.status === 'done' || entry.status === 'failed') processedCount++;
+        // Pages fetched before the interruption still count as found upstream
+        if (entry.externalId) this.markSeen(entry.externalId);
+      }
+      this.log(`Resuming crawl: ${processedCount} pages already fetched, ${this.frontier.pendingCount} queued`);
+    } else {
+      await this.frontier.add([seed], 0);
+    }
+
+    if (useSitemaps) {
+      await this.queueSitemapPages(robots?.sitemaps.length ? robots.sitemaps : [`${seedUrl.origin}/sitemap.xml`]);
+    }
 
-    while (this.queue.length > 0 && this.shouldContinue()) {
+    while (this.shouldContinue()) {
       if (processedCount >= this.config.maxPages) {
         this.log(`Reached max pages limit: ${this.config.maxPages}`);
+        this.truncated = true;
         break;
       }
 
-      const item = this.queue.shift()!;
-      
-      if (this.visited.has(item.url)) {
+      const pick = this.frontier.next();
+      if (!pick) break;
+      if (!pick.entry) {
+        // Every host with queued pages is cooling down; wake up often enough to notice a stop
+        await this.sleep(Math.min(pick.waitMs, 1000));
         continue;
       }
 
-      if (this.robotsTxt && this.isDisallowed(item.url)) {
-        this.log(`Skipping (robots.txt): ${item.url}`);
+      const entry = pick.entry;
+      const hostRobots = await this.robotsFor(entry.url);
+      if (hostRobots && this.isDisallowed(entry.url, hostRobots)) {
+        this.log(`Skipping (robots.txt): ${entry.url}`);
+        await this.frontier.finish(entry, 'skipped');
         continue;
       }
 
-      this.visited.add(item.url);
       processedCount++;
 
       this.updateProgress(
         processedCount,
-        Math.min(this.config.maxPages, processedCount + this.queue.length),
-        item.url
+        Math.min(this.config.maxPages, processedCount + this.frontier.pendingCount),
+        entry.url
       );
 
+      const delay = hostRobots?.crawlDelay ? hostRobots.crawlDelay * 1000 : this.config.rateLimit;
       try {
-        await this.processUrl(item.url, item.depth);
+        const result = await this.processUrl(entry.url, entry.depth);
+        if (result.fetched) this.frontier.cooldown(entry.host, delay);
+        await this.frontier.finish(entry, 'done', { externalId: result.externalId });
       } catch (error) {
-        this.log(`Error processing ${item.url}: ${error instanceof Error ? error.message : String(error)}`);
+        const message = error instanceof Error ? error.message : String(error);
+        this.log(`Error processing ${entry.url}: ${message}`);
+        this.frontier.cooldown(entry.host, delay);
+
+        if (error instanceof PageGoneError) {
+          await this.frontier.finish(entry, 'failed', { error: message });
+        } else {
+          // Keep the indexed copy of a page that failed transiently
+          entry.externalId = this.pageStates.get(entry.url)?.externalId || this.urlToId(entry.url);
+          this.markSeen(entry.externalId);
+          if (await this.frontier.retry(entry, message)) {
+            processedCount--;
+          }
+        }
       }
+    }
+
+    // A finished pass, complete or cut off by maxPages, is not resumed
+    if (!this.shouldStop) {
+      await this.frontier.close();
+    }
+
+    const stats = this.currentRun?.stats || {};
+    this.log(
+      `Spider complete. Processed ${processedCount} pages ` +
+      `(${stats.pagesNew || 0} new, ${stats.pagesChanged || 0} changed, ${stats.pagesUnchanged || 0} unchanged).`
+    );
+  }
 
-      if (this.queue.length > 0 && this.shouldContinue()) {
-        const delay = this.robotsTxt?.crawlDelay 
-          ? this.robotsTxt.crawlDelay * 1000 
-          : this.config.rateLimit;
-        await this.sleep(delay);
+  protected isFullSync(): boolean {
+    return !this.truncated;
+  }
+
+  /**
+   * Load what earlier runs stored per URL. States whose document is no
+   * longer indexed are dropped so those pages get indexed again.
+   */
+  private async loadPageStates(): Promise<void> {
+    this.pageStates = new Map();
+    if (!this.syncHooks) return;
+
+    try {
+      const [states, indexed] = await Promise.all([
+        this.syncHooks.loadItemStates(),
+        this.syncHooks.listExternalIds()
+      ]);
+      const live = new Set(indexed);
+      for (const [url, state] of states) {
+        if (live.has(state.externalId)) {
+          this.pageStates.set(url, state as PageState);
+        }
       }
+      this.log(`Loaded crawl state for ${this.pageStates.size} pages`);
+    } catch (error) {
+      this.log(`Failed to load crawl state, fetching every page: ${error instanceof Error ? error.message : String(error)}`);
     }
+  }
 
-    this.log(`Spider complete. Processed ${processedCount} pages.`);
+  private async savePageState(url: string, state: PageState): Promise<void> {
+    if (!this.syncHooks) return;
+    try {
+      await this.syncHooks.saveItemState(url, state);
+    } catch (error) {
+      this.log(`Failed to save crawl state for ${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
 
-  private async fetchRobotsTxt(origin: string): Promise<void> {
+  /**
+   * Queue the pages listed in the site's sitemaps, subject to the same rules
+   * as discovered links
+   */
+  private async queueSitemapPages(sitemapUrls: string[]): Promise<void> {
+    const entries = await fetchSitemapEntries(sitemapUrls, this.config.maxPages, message => this.log(message));
+
+    const urls: string[] = [];
+    for (const entry of entries) {
+      const url = canonicalizeCrawlUrl(entry.url);
+      if (!url) continue;
+
+      if (entry.lastModified) {
+        this.sitemapLastModified.set(url, entry.lastModified);
+      }
+      if (this.shouldQueueLink(url)) {
+        urls.push(url);
+      }
+    }
+
+    await this.frontier.add(urls, 0);
+    if (entries.length > 0) {
+      this.log(`Queued ${urls.length} pages from sitemaps`);
+    }
+  }
+
+  /**
+   * robots.txt rules for the URL's host, fetched on first use. Null when
+   * robots.txt is not respected or the host has none.
+   */
+  private async robotsFor(urlStr: string): Promise<RobotsTxt | null> {
+    if (!this.config.respectRobotsTxt) return null;
+
+    const url = new URL(urlStr);
+    if (!this.robotsByHost.has(url.host)) {
+      this.robotsByHost.set(url.host, await this.fetchRobotsTxt(url.origin));
+    }
+    return this.robotsByHost.get(url.host) || null;
+  }
+
+  private async fetchRobotsTxt(origin: string): Promise<RobotsTxt | null> {
     try {
       const robotsUrl = `${origin}/robots.txt`;
       this.log(`Fetching robots.txt from: ${robotsUrl}`);
@@ -100,30 +270,38 @@ export class WebSpiderConnector extends BaseConnector {
 
       if (!response.ok) {
         this.log('No robots.txt found or inaccessible');
-        return;
+        return null;
       }
 
       const text = await response.text();
-      this.robotsTxt = this.parseRobotsTxt(text);
+      const robots = this.parseRobotsTxt(text);
       
-      this.log(`Robots.txt parsed: ${this.robotsTxt.disallowed.length} disallowed paths`);
-      if (this.robotsTxt.crawlDelay) {
-        this.log(`Crawl-delay: ${this.robotsTxt.crawlDelay}s`);
+      this.log(`Robots.txt parsed: ${robots.disallowed.length} disallowed paths, ${robots.sitemaps.length} sitemaps`);
+      if (robots.crawlDelay) {
+        this.log(`Crawl-delay: ${robots.crawlDelay}s`);
       }
+      return robots;
     } catch (error) {
       this.log(`Failed to fetch robots.txt: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
     }
   }
 
   private parseRobotsTxt(text: string): RobotsTxt {
-    const result: RobotsTxt = { disallowed: [] };
+    const result: RobotsTxt = { disallowed: [], sitemaps: [] };
     let inUserAgentBlock = false;
 
     const lines = text.split('\n');
     for (const line of lines) {
       const trimmed = line.trim().toLowerCase();
       
-      if (trimmed.startsWith('user-agent:')) {
+      // Sitemap lines apply to every user agent
+      if (trimmed.startsWith('sitemap:')) {
+        const sitemap = line.substring(line.indexOf(':') + 1).trim();
+        if (sitemap) {
+          result.sitemaps.push(sitemap);
+        }
+      } else if (trimmed.startsWith('user-agent:')) {
         const agent = trimmed.substring('user-agent:'.length).trim();
         inUserAgentBlock = agent === '*' || agent.includes('beaconsearchbot');
       } else if (inUserAgentBlock) {
@@ -144,14 +322,12 @@ export class WebSpiderConnector extends BaseConnector {
     return result;
   }
 
-  private isDisallowed(urlStr: string): boolean {
-    if (!this.robotsTxt) return false;
-
+  private isDisallowed(urlStr: string, robots: RobotsTxt): boolean {
     try {
       const url = new URL(urlStr);
       const path = url.pathname;
 
-      for (const disallowed of this.robotsTxt.disallowed) {
+      for (const disallowed of robots.disallowed) {
         if (disallowed === '/') return true;
         if (path.startsWith(disallowed)) return true;
         if (disallowed.includes('*')) {
@@ -166,65 +342,167 @@ export class WebSpiderConnector extends BaseConnector {
     return false;
   }
 
-  private async processUrl(urlStr: string, depth: number): Promise<void> {
+  /**
+   * Crawl one URL. The page is not downloaded when its sitemap entry shows
+   * no change since the last crawl.
+   */
+  private async processUrl(urlStr: string, depth: number): Promise<PageResult> {
+    const stored = this.pageStates.get(urlStr);
+
+    const listedAt = this.sitemapLastModified.get(urlStr);
+    if (stored && listedAt && listedAt <= new Date(stored.fetchedAt)) {
+      this.log(`Unchanged per sitemap [depth=${depth}]: ${urlStr}`);
+      await this.keepUnchanged(stored, depth);
+      return { fetched: false, externalId: stored.externalId };
+    }
+
     this.log(`Processing [depth=${depth}]: ${urlStr}`);
 
-    const response = await fetch(urlStr, {
-      headers: {
-        'User-Agent': 'BeaconSearchBot/1.0 (+https://github.com/beacon-search)',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
-      },
-      redirect: 'follow'
-    });
+    const headers: Record<string, string> = {};
+    if (stored?.etag) headers['If-None-Match'] = stored.etag;
+    if (stored?.lastModified) headers['If-Modified-Since'] = stored.lastModified;
+
+    const fetcher = this.browserFetcher && this.fetcherMode === 'browser' ? this.browserFetcher : this.httpFetcher;
+    const response = await fetcher.fetch(urlStr, headers);
+
+    if (response.status === 304 && stored) {
+      await this.keepUnchanged(stored, depth);
+      await this.savePageState(urlStr, { ...stored, fetchedAt: new Date().toISOString() });
+      return { fetched: true, externalId: stored.externalId };
+    }
 
-    if (!response.ok) {
+    if (response.status === 404 || response.status === 410) {
+      throw new PageGoneError(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    if (response.status < 200 || response.status >= 300) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
-    const contentType = response.headers.get('content-type') || '';
-    if (!contentType.includes('text/html') && !contentType.includes('application/xhtml')) {
+    const contentType = response.headers['content-type'] || '';
+    if (!isHtmlContentType(contentType)) {
       this.log(`Skipping non-HTML content: ${contentType}`);
-      return;
+      return { fetched: true };
     }
 
-    const html = await response.text();
-    const $ = cheerio.load(html);
+    let page = response;
+    let parsed = this.parsePage(page);
+    let rendered = fetcher.name === 'browser';
+
+    if (this.fetcherMode === 'auto' && parsed.content.length < (this.config.render?.minContentLength ?? DEFAULT_MIN_CONTENT_LENGTH)) {
+      const renderedPage = await this.renderThinPage(urlStr);
+      if (renderedPage) {
+        const renderedParsed = this.parsePage(renderedPage);
+        if (renderedParsed.content.length > parsed.content.length) {
+          this.log(`Rendered with browser (${parsed.content.length} -> ${renderedParsed.content.length} chars): ${urlStr}`);
+          page = renderedPage;
+          parsed = renderedParsed;
+          rendered = true;
+        }
+      }
+    }
 
-    const title = this.extractTitle($);
-    const content = this.extractContent($);
-    const finalUrl = response.url;
+    const finalUrl = page.url;
+    const { title, content, links } = parsed;
 
     if (!content || content.length < 50) {
       this.log(`Skipping page with insufficient content: ${urlStr}`);
-      return;
+      return { fetched: true };
     }
 
-    const doc: ExtractedDocument = {
-      externalId: this.urlToId(finalUrl),
-      title: title || this.extractTitleFromUrl(finalUrl),
-      content,
-      url: finalUrl,
-      attributes: {
-        crawlDepth: depth,
-        contentLength: content.length,
-        crawledAt: new Date().toISOString()
-      },
-      lastModified: new Date()
+    const externalId = this.urlToId(finalUrl);
+    const contentHash = createHash('sha256').update(`${title}\n${content}`).digest('hex');
+    const lastModifiedHeader = response.headers['last-modified'];
+    const state: PageState = {
+      externalId,
+      // A rendered page can change while its HTML shell does not, so it is
+      // always fetched again; the content hash still avoids re-embedding it
+      etag: rendered ? undefined : response.headers['etag'],
+      lastModified: rendered ? undefined : lastModifiedHeader,
+      contentHash,
+      links,
+      fetchedAt: new Date().toISOString()
     };
 
-    this.emitDocument(doc);
+    if (stored && stored.externalId === externalId && stored.contentHash === contentHash) {
+      // Served again, but the text is the same: skip re-embedding
+      this.log(`Content unchanged: ${urlStr}`);
+      this.markSeen(externalId);
+      this.countStat('pagesUnchanged');
+    } else {
+      const headerDate = lastModifiedHeader ? new Date(lastModifiedHeader) : null;
+      const doc: ExtractedDocument = {
+        externalId,
+        title: title || this.extractTitleFromUrl(finalUrl),
+        content,
+        url: finalUrl,
+        attributes: {
+          crawlDepth: depth,
+          contentLength: content.length,
+          crawledAt: state.fetchedAt,
+          ...(rendered ? { rendered: true } : {})
+        },
+        lastModified: headerDate && !isNaN(headerDate.getTime()) ? headerDate : listedAt || new Date()
+      };
+
+      this.emitDocument(doc, !!stored);
+      this.countStat(stored ? 'pagesChanged' : 'pagesNew');
+    }
 
-    if (depth < this.config.maxDepth) {
-      const links = this.extractLinks($, finalUrl);
-      
-      for (const link of links) {
-        if (this.shouldQueueLink(link)) {
-          this.queue.push({ url: link, depth: depth + 1 });
-        }
+    await this.savePageState(urlStr, state);
+    await this.queueLinks(links, depth);
+    return { fetched: true, externalId };
+  }
+
+  private parsePage(page: FetchedPage): { title: string; content: string; links: string[] } {
+    const $ = cheerio.load(page.body);
+    const links = this.extractLinks($, page.url);
+    const title = this.extractTitle($);
+    const content = this.extractContent($);
+    return { title, content, links };
+  }
+
+  /**
+   * 'auto' mode: load a page whose static HTML had too little text in the
+   * browser. Returns null if rendering fails or is unavailable.
+   */
+  private async renderThinPage(urlStr: string): Promise<FetchedPage | null> {
+    if (!this.browserFetcher) return null;
+
+    try {
+      const page = await this.browserFetcher.fetch(urlStr);
+      return page.status >= 200 && page.status < 300 && page.body ? page : null;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (message.includes('playwright not installed')) {
+        this.log(`${message} Thin pages are indexed from their static HTML.`);
+        this.browserFetcher = null;
+      } else {
+        this.log(`Browser rendering failed for ${urlStr}: ${message}`);
       }
+      return null;
     }
   }
 
+  /**
+   * Keep the indexed copy of a page that has not changed and follow the
+   * links it had when it was last downloaded
+   */
+  private async keepUnchanged(stored: PageState, depth: number): Promise<void> {
+    this.markSeen(stored.externalId);
+    this.countStat('pagesUnchanged');
+    await this.queueLinks(stored.links || [], depth);
+  }
+
+  private async queueLinks(links: string[], depth: number): Promise<void> {
+    if (depth >= this.config.maxDepth) return;
+
+    const urls = links
+      .map(link => canonicalizeCrawlUrl(link))
+      .filter((url): url is string => !!url && this.shouldQueueLink(url));
+    await this.frontier.add([...new Set(urls)], depth + 1);
+  }
+
   private extractTitle($: cheerio.CheerioAPI): string {
     const ogTitle = $('meta[property="og:title"]').attr('content');
     if (ogTitle) return ogTitle.trim();
@@ -279,16 +557,9 @@ export class WebSpiderConnector extends BaseConnector {
       const href = $(element).attr('href');
       if (!href) return;
 
-      try {
-        const absoluteUrl = new URL(href, baseUrl);
-        if (!['http:', 'https:'].includes(absoluteUrl.protocol)) return;
-        absoluteUrl.hash = '';
-        const normalizedUrl = absoluteUrl.href;
-        if (!links.includes(normalizedUrl)) {
-          links.push(normalizedUrl);
-        }
-      } catch {
-        // Invalid URL, skip
+      const normalizedUrl = canonicalizeCrawlUrl(href, baseUrl);
+      if (normalizedUrl && !links.includes(normalizedUrl)) {
+        links.push(normalizedUrl);
       }
     });
 
@@ -296,8 +567,7 @@ export class WebSpiderConnector extends BaseConnector {
   }
 
   private shouldQueueLink(urlStr: string): boolean {
-    if (this.visited.has(urlStr)) return false;
-    if (this.queue.some(item => item.url === urlStr)) return false;
+    if (this.frontier.has(urlStr)) return false;
 
     try {
       const url = new URL(urlStr);
@@ -0,0 +1,10 @@
+/**
+ * Embeddings Module
+ * Export embedding providers, the active embedding space and re-embedding jobs
+ */
+
+export * from './types';
+export * from './providers';
+export * from './space';
+export * from './jobs';
+export * from './routes';
@@ -0,0 +1,251 @@
+/**
+ * Re-embedding Jobs
+ * Background, resumable re-embedding of documents and chunks with the active
+ * embedding provider. Progress is persisted per batch, so a restarted server
+ * continues an interrupted job from its last document.
+ */
+
+import { Pool } from 'pg';
+import { indexDocumentChunks } from '../search/chunks';
+import { getActiveEmbeddingSpace, vectorIndexStatements } from './space';
+import { EmbeddingJob, EmbeddingProvider } from './types';
+
+const BATCH_SIZE = Number(process.env.EMBEDDING_JOB_BATCH_SIZE || 50);
+
+// Documents whose document-level vector or chunks are missing or from another model
+const STALE_DOCUMENT_SQL = `(
+  d.embedding IS NULL
+  OR d.embedding_model IS DISTINCT FROM $1
+  OR EXISTS (SELECT 1 FROM document_chunks c WHERE c.document_id = d.id AND c.embedding_model IS DISTINCT FROM $1)
+  OR (COALESCE(d.content, '') <> '' AND NOT EXISTS (SELECT 1 FROM document_chunks c WHERE c.document_id = d.id))
+)`;
+
+export class EmbeddingJobManager {
+  private pool: Pool;
+  private provider: EmbeddingProvider;
+  private running = new Set<string>();
+
+  constructor(pool: Pool, provider: EmbeddingProvider) {
+    this.pool = pool;
+    this.provider = provider;
+  }
+
+  /**
+   * Create the vector indexes for the active model (idempotent)
+   */
+  async ensureVectorIndexes(): Promise<void> {
+    for (const statement of vectorIndexStatements()) {
+      try {
+        await this.pool.query(statement);
+      } catch (error) {
+        // e.g. more dimensions than the index type supports; search still works, unindexed
+        console.warn(`Could not create vector index for ${this.provider.modelId}:`, (error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * Vector counts per model and the current job
+   */
+  async getStatus(): Promise<Record<string, any>> {
+    const [documents, chunks, stale, activeJob] = await Promise.all([
+      this.pool.query(`
+        SELECT embedding_model AS model, COUNT(*)::int AS count
+        FROM documents WHERE embedding IS NOT NULL
+        GROUP BY embedding_model ORDER BY count DESC
+      `),
+      this.pool.query(`
+        SELECT embedding_model AS model, COUNT(*)::int AS count
+        FROM document_chunks WHERE embedding IS NOT NULL
+        GROUP BY embedding_model ORDER BY count DESC
+      `),
+      this.pool.query(`SELECT COUNT(*)::int AS count FROM documents d WHERE ${STALE_DOCUMENT_SQL}`, [this.provider.modelId]),
+      this.getActiveJob()
+    ]);
+
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+      modelId: this.provider.modelId,
+      dimensions: this.provider.dimensions,
+      ready: this.provider.isReady(),
+      documentsByModel: documents.rows,
+      chunksByModel: chunks.rows,
+      staleDocuments: stale.rows[0]?.count || 0,
+      activeJob
+    };
+  }
+
+  async listJobs(limit = 20): Promise<EmbeddingJob[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM embedding_jobs ORDER BY created_at DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(row => this.rowToJob(row));
+  }
+
+  async getJob(id: string): Promise<EmbeddingJob | null> {
+    const result = await this.pool.query('SELECT * FROM embedding_jobs WHERE id = $1', [id]);
+    return result.rows[0] ? this.rowToJob(result.rows[0]) : null;
+  }
+
+  async getActiveJob(): Promise<EmbeddingJob | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM embedding_jobs WHERE status IN ('pending', 'running') ORDER BY created_at DESC LIMIT 1`
+    );
+    return result.rows[0] ? this.rowToJob(result.rows[0]) : null;
+  }
+
+  /**
+   * Start re-embedding everything that is stale for the active model.
+   * Returns the already active job instead of starting a second one.
+   */
+  async startJob(): Promise<{ job: EmbeddingJob; created: boolean }> {
+    const active = await this.getActiveJob();
+    if (active) {
+      if (!this.running.has(active.id)) this.runInBackground(active.id);
+      return { job: active, created: false };
+    }
+
+    const total = await this.pool.query(
+      `SELECT COUNT(*)::int AS count FROM documents d WHERE ${STALE_DOCUMENT_SQL}`,
+      [this.provider.modelId]
+    );
+
+    const result = await this.pool.query(
+      `INSERT INTO embedding_jobs (target_model, status, total_documents)
+       VALUES ($1, 'pending', $2)
+       RETURNING *`,
+      [this.provider.modelId, total.rows[0]?.count || 0]
+    );
+
+    const job = this.rowToJob(result.rows[0]);
+    this.runInBackground(job.id);
+    return { job, created: true };
+  }
+
+  async cancelJob(id: string): Promise<EmbeddingJob | null> {
+    const result = await this.pool.query(
+      `UPDATE embedding_jobs SET status = 'cancelled', completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'running')
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] ? this.rowToJob(result.rows[0]) : this.getJob(id);
+  }
+
+  /**
+   * Continue jobs left pending/running by a previous process. Jobs for a
+   * different model than the active one cannot continue and are failed.
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    const result = await this.pool.query(
+      `SELECT * FROM embedding_jobs WHERE status IN ('pending', 'running') ORDER BY created_at`
+    );
+
+    for (const row of result.rows) {
+      const job = this.rowToJob(row);
+      if (job.targetModel !== this.provider.modelId) {
+        await this.finishJob(job.id, 'failed', `Embedding model changed to ${this.provider.modelId}`);
+        continue;
+      }
+      console.log(`Resuming embedding job ${job.id} (${job.processedDocuments}/${job.totalDocuments})`);
+      this.runInBackground(job.id);
+    }
+  }
+
+  private runInBackground(jobId: string): void {
+    this.run(jobId).catch(error => console.error(`Embedding job ${jobId} crashed:`, error));
+  }
+
+  private async run(jobId: string): Promise<void> {
+    if (this.running.has(jobId)) return;
+    this.running.add(jobId);
+
+    try {
+      await this.pool.query(
+        `UPDATE embedding_jobs SET status = 'running', started_at = COALESCE(started_at, NOW()), updated_at = NOW()
+         WHERE id = $1 AND status IN ('pending', 'running')`,
+        [jobId]
+      );
+
+      for (;;) {
+        const job = await this.getJob(jobId);
+        if (!job || job.status !== 'running') return;
+
+        const batch = await this.pool.query(
+          `SELECT d.id, d.title, d.content FROM documents d
+           WHERE ${STALE_DOCUMENT_SQL} AND ($2::uuid IS NULL OR d.id > $2::uuid)
+           ORDER BY d.id
+           LIMIT $3`,
+          [job.targetModel, job.lastDocumentId, BATCH_SIZE]
+        );
+        if (!batch.rows.length) break;
+
+        let processed = 0;
+        let failed = 0;
+        for (const doc of batch.rows) {
+          try {
+            await this.reembedDocument(doc);
+            processed++;
+          } catch (error) {
+            failed++;
+            console.error(`Failed to re-embed document ${doc.id}:`, (error as Error).message);
+          }
+        }
+
+        await this.pool.query(
+          `UPDATE embedding_jobs
+           SET processed_documents = processed_documents + $2,
+               failed_documents = failed_documents + $3,
+               last_document_id = $4,
+               updated_at = NOW()
+           WHERE id = $1`,
+          [jobId, processed, failed, batch.rows[batch.rows.length - 1].id]
+        );
+      }
+
+      await this.ensureVectorIndexes();
+      await this.finishJob(jobId, 'completed');
+    } catch (error) {
+      await this.finishJob(jobId, 'failed', (error as Error).message).catch(console.error);
+      throw error;
+    } finally {
+      this.running.delete(jobId);
+    }
+  }
+
+  private async reembedDocument(doc: { id: string; title: string; content: string }): Promise<void> {
+    const embedding = await this.provider.embed(`${doc.title} ${doc.content}`);
+    await this.pool.query(
+      'UPDATE documents SET embedding = $1::vector, embedding_model = $2 WHERE id = $3',
+      [`[${embedding.join(',')}]`, getActiveEmbeddingSpace().modelId, doc.id]
+    );
+    await indexDocumentChunks(this.pool, doc.id, doc.title, doc.content || '', text => this.provider.embed(text));
+  }
+
+  private async finishJob(jobId: string, status: 'completed' | 'failed', errorMessage?: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE embedding_jobs SET status = $2, error_message = $3, completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1 AND status IN ('pending', 'running')`,
+      [jobId, status, errorMessage || null]
+    );
+  }
+
+  private rowToJob(row: any): EmbeddingJob {
+    return {
+      id: row.id,
+      targetModel: row.target_model,
+      status: row.status,
+      totalDocuments: row.total_documents,
+      processedDocuments: row.processed_documents,
+      failedDocuments: row.failed_documents,
+      lastDocumentId: row.last_document_id,
+      errorMessage: row.error_message,
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at
+    };
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Embedding Providers
+ * Local transformers.js, Ollama and OpenAI-compatible HTTP embedding backends
+ */
+
+import { EmbeddingProvider, EmbeddingProviderConfig, EmbeddingProviderName } from './types';
+
+const DEFAULT_MODELS: Record<EmbeddingProviderName, { model: string; dimensions: number }> = {
+  local: { model: 'Xenova/all-MiniLM-L6-v2', dimensions: 384 },
+  ollama: { model: 'nomic-embed-text', dimensions: 768 },
+  openai: { model: 'text-embedding-3-small', dimensions: 1536 }
+};
+
+export const DEFAULT_EMBEDDING_MODEL_ID = `local:${DEFAULT_MODELS.local.model}`;
+
+/**
+ * L2-normalise so cosine similarity equals the dot product for every provider
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  abstract readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  protected config: EmbeddingProviderConfig;
+  protected ready = false;
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.config = config;
+    this.model = config.model;
+    this.dimensions = config.dimensions;
+  }
+
+  get modelId(): string {
+    return `${this.name}:${this.model}`;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = await this.embedRaw(text);
+    if (vector.length !== this.dimensions) {
+      throw new Error(
+        `Embedding model ${this.modelId} returned ${vector.length} dimensions, expected ${this.dimensions} (set EMBEDDING_DIMENSIONS)`
+      );
+    }
+    this.ready = true;
+    return normalize(vector);
+  }
+
+  async warmup(): Promise<void> {
+    await this.embed('warmup');
+  }
+
+  protected abstract embedRaw(text: string): Promise<number[]>;
+
+  protected async postJson(url: string, body: any, headers: Record<string, string> = {}): Promise<any> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs || 30000);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal
+      });
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`${this.name} embedding request failed: HTTP ${response.status} ${detail.slice(0, 200)}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * transformers.js running in-process (default)
+ */
+export class LocalEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'local' as const;
+  private extractor: Promise<any> | null = null;
+
+  protected async embedRaw(text: string): Promise<number[]> {
+    if (!this.extractor) {
+      console.log(`Loading embedding model ${this.model}...`);
+      // Loaded on first use so remote providers never pull in onnxruntime/sharp
+      this.extractor = import('@xenova/transformers')
+        .then(({ pipeline }) => pipeline('feature-extraction', this.model))
+        .then(model => {
+          console.log('Embedding model loaded!');
+          return model;
+        });
+      this.extractor.catch(() => { this.extractor = null; });
+    }
+    const model = await this.extractor;
+    const output = await model(text, { pooling: 'mean', normalize: true });
+    return Array.from(output.data as ArrayLike<number>);
+  }
+}
+
+/**
+ * Ollama /api/embed
+ */
+export class OllamaEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'ollama' as const;
+
+  protected async embedRaw(text: string): Promise<number[]> {
+    const baseUrl = (this.config.baseUrl || 'http://localhost:11434').replace(/\/$/, '');
+    const data = await this.postJson(`${baseUrl}/api/embed`, { model: this.model, input: text });
+    const vector = data?.embeddings?.[0] || data?.embedding;
+    if (!Array.isArray(vector)) throw new Error('Ollama returned no embedding');
+    return vector;
+  }
+}
+
+/**
+ * Any OpenAI-compatible /v1/embeddings endpoint (OpenAI, vLLM, LM Studio, TEI, ...)
+ */
+export class OpenAICompatibleEmbeddingProvider extends BaseEmbeddingProvider {
+  readonly name = 'openai' as const;
+
+  protected async embedRaw(text: string): Promise<number[]> {
+    const baseUrl = (this.config.baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const headers: Record<string, string> = this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {};
+    const body: Record<string, any> = { model: this.model, input: text };
+    // text-embedding-3-* can shorten vectors server-side
+    if (this.model.startsWith('text-embedding-3')) body.dimensions = this.dimensions;
+
+    const data = await this.postJson(`${baseUrl}/embeddings`, body, headers);
+    const vector = data?.data?.[0]?.embedding;
+    if (!Array.isArray(vector)) throw new Error('Embedding endpoint returned no embedding');
+    return vector;
+  }
+}
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config);
+    case 'openai':
+      return new OpenAICompatibleEmbeddingProvider(config);
+    case 'local':
+      return new LocalEmbeddingProvider(config);
+    default:
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+  }
+}
+
+/**
+ * EMBEDDING_PROVIDER, EMBEDDING_MODEL, EMBEDDING_DIMENSIONS, EMBEDDING_API_URL,
+ * EMBEDDING_API_KEY (falls back to OPENAI_API_KEY), EMBEDDING_TIMEOUT_MS
+ */
+export function getEmbeddingConfigFromEnv(): EmbeddingProviderConfig {
+  const requested = (process.env.EMBEDDING_PROVIDER || 'local').toLowerCase();
+  const provider: EmbeddingProviderName = requested === 'ollama' || requested === 'openai' ? requested : 'local';
+  const defaults = DEFAULT_MODELS[provider];
+  const model = process.env.EMBEDDING_MODEL || defaults.model;
+
+  return {
+    provider,
+    model,
+    dimensions: Number(process.env.EMBEDDING_DIMENSIONS) || defaults.dimensions,
+    baseUrl: process.env.EMBEDDING_API_URL || (provider === 'ollama' ? process.env.OLLAMA_URL : undefined),
+    apiKey: process.env.EMBEDDING_API_KEY || (provider === 'openai' ? process.env.OPENAI_API_KEY : undefined),
+    timeoutMs: Number(process.env.EMBEDDING_TIMEOUT_MS || 30000)
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Embedding Routes
+ * Active model status and re-embedding jobs (requires the admin scope)
+ */
+
+import { Router, Request, Response } from 'express';
+import { EmbeddingJobManager } from './jobs';
+
+export function createEmbeddingRoutes(manager: EmbeddingJobManager): Router {
+  const router = Router();
+
+  /**
+   * GET /api/embeddings
+   * Active provider/model, vector counts per model and the running job
+   */
+  router.get('/', async (req: Request, res: Response) => {
+    try {
+      res.json(await manager.getStatus());
+    } catch (error) {
+      console.error('Error getting embedding status:', error);
+      res.status(500).json({ error: 'Failed to get embedding status' });
+    }
+  });
+
+  /**
+   * GET /api/embeddings/jobs
+   */
+  router.get('/jobs', async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      res.json(await manager.listJobs(limit));
+    } catch (error) {
+      console.error('Error listing embedding jobs:', error);
+      res.status(500).json({ error: 'Failed to list embedding jobs' });
+    }
+  });
+
+  /**
+   * POST /api/embeddings/jobs
+   * Re-embed every document and chunk not yet embedded with the active model
+   */
+  router.post('/jobs', async (req: Request, res: Response) => {
+    try {
+      const { job, created } = await manager.startJob();
+      res.status(created ? 202 : 200).json(job);
+    } catch (error) {
+      console.error('Error starting embedding job:', error);
+      res.status(500).json({ error: 'Failed to start embedding job' });
+    }
+  });
+
+  /**
+   * GET /api/embeddings/jobs/:id
+   */
+  router.get('/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const job = await manager.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Embedding job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error getting embedding job:', error);
+      res.status(500).json({ error: 'Failed to get embedding job' });
+    }
+  });
+
+  /**
+   * POST /api/embeddings/jobs/:id/cancel
+   */
+  router.post('/jobs/:id/cancel', async (req: Request, res: Response) => {
+    try {
+      const job = await manager.cancelJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Embedding job not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error cancelling embedding job:', error);
+      res.status(500).json({ error: 'Failed to cancel embedding job' });
+    }
+  });
+
+  return router;
+}
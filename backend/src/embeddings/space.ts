@@ -0,0 +1,70 @@
+/**
+ * Active Embedding Space
+ * The model every query vector comes from. Vector SQL is scoped to rows whose
+ * embedding_model matches it, so vectors from different models never meet in
+ * one similarity computation.
+ */
+
+import { DEFAULT_EMBEDDING_MODEL_ID } from './providers';
+
+export interface EmbeddingSpace {
+  modelId: string;
+  dimensions: number;
+}
+
+let activeSpace: EmbeddingSpace = { modelId: DEFAULT_EMBEDDING_MODEL_ID, dimensions: 384 };
+
+export function setActiveEmbeddingSpace(space: EmbeddingSpace): void {
+  if (!Number.isInteger(space.dimensions) || space.dimensions <= 0) {
+    throw new Error(`Invalid embedding dimensions: ${space.dimensions}`);
+  }
+  activeSpace = { ...space };
+}
+
+export function getActiveEmbeddingSpace(): EmbeddingSpace {
+  return activeSpace;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function column(name: string, alias?: string): string {
+  return alias ? `${alias}.${name}` : name;
+}
+
+/**
+ * Predicate limiting rows to vectors from the active model
+ */
+export function vectorScopeSql(alias?: string): string {
+  return `${column('embedding', alias)} IS NOT NULL AND ${column('embedding_model', alias)} = ${quoteLiteral(activeSpace.modelId)}`;
+}
+
+/**
+ * Cosine distance to a bound query vector. The cast matches the per-model
+ * expression index created by ensureVectorIndexes.
+ */
+export function vectorDistanceSql(paramRef: string, alias?: string): string {
+  const dims = activeSpace.dimensions;
+  return `(${column('embedding', alias)}::vector(${dims}) <=> ${paramRef}::vector(${dims}))`;
+}
+
+/**
+ * Index name for a model, e.g. idx_documents_embedding_local_xenova_all_minilm_l6_v2
+ */
+export function vectorIndexName(table: string, modelId: string): string {
+  const slug = modelId.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return `idx_${table}_embedding_${slug}`.slice(0, 63);
+}
+
+/**
+ * CREATE INDEX statements for the active model on documents and document_chunks
+ */
+export function vectorIndexStatements(): string[] {
+  const { modelId, dimensions } = activeSpace;
+  return ['documents', 'document_chunks'].map(table => `
+    CREATE INDEX IF NOT EXISTS ${vectorIndexName(table, modelId)}
+    ON ${table} USING hnsw ((embedding::vector(${dimensions})) vector_cosine_ops)
+    WHERE embedding_model = ${quoteLiteral(modelId)}
+  `);
+}
@@ -0,0 +1,43 @@
+/**
+ * Embedding Types
+ */
+
+export type EmbeddingProviderName = 'local' | 'ollama' | 'openai';
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  /** `${name}:${model}` - stored in embedding_model next to every vector */
+  readonly modelId: string;
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+  /** Warm up (load weights, check the endpoint). Optional. */
+  warmup?(): Promise<void>;
+  isReady(): boolean;
+}
+
+export type EmbeddingJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface EmbeddingJob {
+  id: string;
+  targetModel: string;
+  status: EmbeddingJobStatus;
+  totalDocuments: number;
+  processedDocuments: number;
+  failedDocuments: number;
+  lastDocumentId: string | null;
+  errorMessage: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  updatedAt: Date | null;
+  completedAt: Date | null;
+}
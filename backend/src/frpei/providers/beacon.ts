@@ -3,6 +3,10 @@ import { rewriteQuery } from '../../search/query-rewrite';
 import { FrpeiRetrieveRequest } from '../types';
 import { createCandidate, mapDocumentTypeToContentType, truncateSnippet } from '../utils';
 import { FrpeiProvider, ProviderContext, ProviderSearchResult } from './provider';
+import { textMatchSql, textRankSql } from '../../search/text-search';
+import { vectorDistanceSql, vectorScopeSql } from '../../embeddings/space';
+import { liveDocumentSql } from '../../search/filters';
+import { documentAccessSql } from '../../search/access';
 
 function sanitizeTsqueryToken(term: string): string | null {
   const cleaned = term.toLowerCase().replace(/[^a-z0-9]+/g, '');
@@ -40,40 +44,45 @@ export class BeaconProvider implements FrpeiProvider {
     let queryText = '';
     let params: any[] = [];
 
+    // Documents the identity may not see never become candidates
+    const access = documentAccessSql(context.identity, 3);
+    const accessClause = access.sql ? `AND ${access.sql}` : '';
+    const outerAccess = documentAccessSql(context.identity, 4, 'd');
+
     if (mode === 'vector') {
       const embedding = await context.generateEmbedding(vectorQueryText);
       const vectorStr = `[${embedding.join(',')}]`;
-      params = [vectorStr, limit];
+      params = [vectorStr, limit, ...access.params];
       queryText = `
         SELECT id, title, content, url, source_id, document_type, attributes, last_modified, created_at,
-          1 - (embedding <=> $1::vector) as score
+          1 - ${vectorDistanceSql('$1')} as score
         FROM documents
-        WHERE embedding IS NOT NULL
-        ORDER BY embedding <=> $1::vector
+        WHERE ${vectorScopeSql()} AND ${liveDocumentSql()} ${accessClause}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $2
       `;
     } else if (mode === 'text') {
-      params = [textQueryText, limit];
+      params = [textQueryText, limit, ...access.params];
       queryText = `
         SELECT id, title, content, url, source_id, document_type, attributes, last_modified, created_at,
-          ts_rank(to_tsvector('english', content || ' ' || title), to_tsquery('english', $1)) as score
+          ${textRankSql('$1')} as score
         FROM documents
-        WHERE to_tsvector('english', content || ' ' || title) @@ to_tsquery('english', $1)
+        WHERE ${textMatchSql('$1')} AND ${liveDocumentSql()} ${accessClause}
         ORDER BY score DESC
         LIMIT $2
       `;
     } else {
       const embedding = await context.generateEmbedding(vectorQueryText);
       const vectorStr = `[${embedding.join(',')}]`;
-      params = [vectorStr, textQueryText, limit];
+      params = [vectorStr, textQueryText, limit, ...outerAccess.params];
       queryText = `
         WITH vector_scores AS (
-          SELECT id, 1 - (embedding <=> $1::vector) as vscore
+          SELECT id, 1 - ${vectorDistanceSql('$1')} as vscore
           FROM documents
-          WHERE embedding IS NOT NULL
+          WHERE ${vectorScopeSql()} AND ${liveDocumentSql()}
         ),
         text_scores AS (
-          SELECT id, ts_rank(to_tsvector('english', content || ' ' || title), to_tsquery('english', $2)) as tscore
+          SELECT id, ${textRankSql('$2')} as tscore
           FROM documents
         )
         SELECT d.id, d.title, d.content, d.url, d.source_id, d.document_type, d.attributes, d.last_modified, d.created_at,
@@ -81,6 +90,7 @@ export class BeaconProvider implements FrpeiProvider {
         FROM documents d
         LEFT JOIN vector_scores v ON d.id = v.id
         LEFT JOIN text_scores t ON d.id = t.id
+        WHERE ${liveDocumentSql('d')} ${outerAccess.sql ? `AND ${outerAccess.sql}` : ''}
         ORDER BY score DESC
         LIMIT $3
       `;
@@ -1,9 +1,11 @@
 import { Pool } from 'pg';
 import { FrpeiRetrieveRequest, FrpeiCandidate, ProviderName, TrustTier } from '../types';
+import { SearchIdentity } from '../../search/access';
 
 export interface ProviderContext {
   pool: Pool;
   generateEmbedding: (text: string) => Promise<number[]>;
+  identity: SearchIdentity;        // Who the retrieval runs as; local documents are trimmed to it
 }
 
 export interface ProviderSearchResult {
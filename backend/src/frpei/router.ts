@@ -23,6 +23,7 @@ import { BeaconProvider } from './providers/beacon';
 import { MediaProvider } from './providers/media';
 import { SearxngProvider } from './providers/searxng';
 import { FrpeiProvider, ProviderContext } from './providers/provider';
+import { ANONYMOUS_IDENTITY, SearchIdentity, identityCacheKey } from '../search/access';
 
 function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
   let timer: NodeJS.Timeout;
@@ -60,10 +61,14 @@ export class FrpeiRouter {
     });
   }
 
-  async retrieve(request: FrpeiRetrieveRequest): Promise<FrpeiRetrieveResponse> {
+  /**
+   * Retrieve from the requested providers. Local (beacon) results are
+   * trimmed to what the identity may see; the cache is kept per identity.
+   */
+  async retrieve(request: FrpeiRetrieveRequest, identity: SearchIdentity = ANONYMOUS_IDENTITY): Promise<FrpeiRetrieveResponse> {
     this.metrics.recordRequest();
     const requestId = uuidv4();
-    const cacheKey = this.buildCacheKey(request);
+    const cacheKey = this.buildCacheKey(request, identity);
     const useCache = request.enableCache !== false;
 
     if (useCache) {
@@ -80,13 +85,13 @@ export class FrpeiRouter {
     }
 
     const providerNames = this.resolveProviders(request);
-    const providerResults = await Promise.all(providerNames.map(name => this.executeProvider(name, request)));
+    const providerResults = await Promise.all(providerNames.map(name => this.executeProvider(name, request, identity)));
 
     let candidates = providerResults.flatMap(result => result.items);
     const errors = providerResults.filter(result => result.error).map(result => `${result.provider}: ${result.error}`);
 
     if (!candidates.length && !providerNames.includes('beacon')) {
-      const fallback = await this.executeProvider('beacon', request);
+      const fallback = await this.executeProvider('beacon', request, identity);
       candidates = fallback.items;
       providerResults.push(fallback);
       if (fallback.error) errors.push(`beacon: ${fallback.error}`);
@@ -168,7 +173,11 @@ export class FrpeiRouter {
     return providers;
   }
 
-  private async executeProvider(providerName: string, request: FrpeiRetrieveRequest): Promise<ProviderExecutionResult> {
+  private async executeProvider(
+    providerName: string,
+    request: FrpeiRetrieveRequest,
+    identity: SearchIdentity
+  ): Promise<ProviderExecutionResult> {
     const provider = this.providers.get(providerName);
     if (!provider) {
       return {
@@ -191,7 +200,8 @@ export class FrpeiRouter {
 
     const context: ProviderContext = {
       pool: this.pool,
-      generateEmbedding: this.generateEmbedding
+      generateEmbedding: this.generateEmbedding,
+      identity
     };
 
     const timeoutMs = request.timeoutMs ? Math.min(request.timeoutMs, provider.timeoutMs) : provider.timeoutMs;
@@ -224,9 +234,9 @@ export class FrpeiRouter {
     }
   }
 
-  private buildCacheKey(request: FrpeiRetrieveRequest): string {
+  private buildCacheKey(request: FrpeiRetrieveRequest, identity: SearchIdentity): string {
     const providers = (request.providers || []).join(',');
     const types = (request.types || []).join(',');
-    return [request.query, request.limit, request.mode, providers, types, request.expand].join('|');
+    return [request.query, request.limit, request.mode, providers, types, request.expand, identityCacheKey(identity)].join('|');
   }
 }
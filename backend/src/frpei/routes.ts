@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import { FrpeiRouter } from './router';
+import { searchIdentityFromRequest } from '../search/access';
 import {
   FrpeiEnrichRequest,
   FrpeiExplainRequest,
@@ -18,7 +19,7 @@ export function createFrpeiRoutes(pool: Pool, generateEmbedding: (text: string)
     try {
       const payload = req.body as FrpeiRetrieveRequest;
       if (!payload?.query) return res.status(400).json({ error: 'query is required' });
-      const response = await frpei.retrieve(payload);
+      const response = await frpei.retrieve(payload, searchIdentityFromRequest(req));
       return res.json(response);
     } catch (error) {
       return res.status(500).json({ error: 'FRPEI retrieve failed', message: error instanceof Error ? error.message : String(error) });
@@ -29,7 +30,7 @@ export function createFrpeiRoutes(pool: Pool, generateEmbedding: (text: string)
     try {
       const payload = req.body as FrpeiRetrieveRequest;
       if (!payload?.query) return res.status(400).json({ error: 'query is required' });
-      const response = await frpei.retrieve(payload);
+      const response = await frpei.retrieve(payload, searchIdentityFromRequest(req));
       return res.json(response);
     } catch (error) {
       return res.status(500).json({ error: 'FRPEI ingest failed', message: error instanceof Error ? error.message : String(error) });
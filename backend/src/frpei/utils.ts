@@ -6,15 +6,27 @@ const TRACKING_PARAMS = new Set([
   'gclid', 'fbclid', 'ref', 'source', 'spm', 'igshid'
 ]);
 
+export function isTrackingParam(key: string): boolean {
+  return TRACKING_PARAMS.has(key.toLowerCase());
+}
+
+/**
+ * Remove tracking query parameters in place. Also used by the web
+ * connector's crawl frontier, with its own notion of tracking.
+ */
+export function stripTrackingParams(parsed: URL, isTracking: (key: string) => boolean = isTrackingParam): URL {
+  [...parsed.searchParams.keys()].forEach(key => {
+    if (isTracking(key)) {
+      parsed.searchParams.delete(key);
+    }
+  });
+  return parsed;
+}
+
 export function normalizeUrl(url?: string): string | undefined {
   if (!url) return undefined;
   try {
-    const parsed = new URL(url);
-    [...parsed.searchParams.keys()].forEach(key => {
-      if (TRACKING_PARAMS.has(key.toLowerCase())) {
-        parsed.searchParams.delete(key);
-      }
-    });
+    const parsed = stripTrackingParams(new URL(url));
     const normalized = parsed.toString();
     return normalized.replace(/\/$/, '');
   } catch {
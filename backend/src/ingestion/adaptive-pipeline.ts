@@ -2,9 +2,11 @@ import { Filter as NostrFilter, Event as NostrEvent } from 'nostr-tools';
 import { Pool } from 'pg';
 import { RelayManager } from './relay-manager';
 import { DocumentTypeClassifier } from './document-classifier';
-import { ContentExtractorFactory } from './content-extractor';
+import { ContentExtractorFactory, toEventDocument } from './content-extractor';
 import { AntiSpamFilter } from './spam-filter';
+import { PgNostrEventStore, DELETION_KIND } from '../templates/nostr/lifecycle';
 import { AdaptiveRelayCrawler } from './relay-discovery';
+import { PgRelayRegistry } from './relay-registry';
 
 /**
  * Adaptive pipeline that discovers new relays as it crawls
@@ -14,13 +16,17 @@ export class AdaptiveIngestionPipeline {
   private classifier: DocumentTypeClassifier;
   private spamFilter: AntiSpamFilter;
   private db: Pool;
+  private events: PgNostrEventStore;
   private crawler: AdaptiveRelayCrawler;
+  private registry: PgRelayRegistry;
   
   constructor(initialRelays: string[], db: Pool) {
-    this.relayManager = new RelayManager(initialRelays);
+    this.registry = new PgRelayRegistry(db);
+    this.relayManager = new RelayManager(initialRelays, this.registry);
     this.classifier = new DocumentTypeClassifier();
     this.spamFilter = new AntiSpamFilter();
     this.db = db;
+    this.events = new PgNostrEventStore(db);
     this.crawler = new AdaptiveRelayCrawler(initialRelays);
   }
   
@@ -87,10 +93,16 @@ export class AdaptiveIngestionPipeline {
         if (newRelays.length > 0) {
           newRelaysThisBatch += newRelays.length;
           
-          // Add new relays to RelayManager (async, don't block on failures)
-          for (const relayUrl of newRelays) {
+          // Register new relays and add them to RelayManager (don't block on failures)
+          for (const relay of newRelays) {
             try {
-              await this.relayManager.discoverRelayInfo(relayUrl);
+              const registered = await this.registry.add(relay.url, {
+                source: relay.source,
+                discoveredFrom: relay.discoveredFrom,
+              });
+              // Relays removed or disabled in the registry stay out of the query pool
+              if (!registered || !registered.relay.enabled) continue;
+              await this.relayManager.discoverRelayInfo(relay.url);
             } catch (error) {
               // Silently skip relays that fail discovery
               // They won't be added to the query pool
@@ -99,6 +111,12 @@ export class AdaptiveIngestionPipeline {
         }
         
         try {
+          // Deletion requests hide their targets instead of being indexed
+          if (event.kind === DELETION_KIND) {
+            await this.events.applyDeletion(event);
+            continue;
+          }
+          
           const docType = this.classifier.classify(event);
           
           if (docType.priority < 3) {
@@ -115,8 +133,9 @@ export class AdaptiveIngestionPipeline {
             continue;
           }
           
-          await this.indexEvent(event, extracted);
-          totalIndexed++;
+          // Older versions of replaceable events only go to the history table
+          const outcome = await this.events.indexEvent(event, toEventDocument(event, extracted));
+          if (outcome === 'indexed' || outcome === 'updated') totalIndexed++;
           
         } catch (error) {
           console.error(`Error processing event ${event.id}:`, error);
@@ -174,7 +193,7 @@ export class AdaptiveIngestionPipeline {
     
     // Now fetch other content types
     console.log('🚀 PHASE 2: Comprehensive content crawl');
-    const kinds = [1, 30023, 30024, 30402, 30040, 1063, 30311];
+    const kinds = [1, 30023, 30024, 30402, 30040, 1063, 30311, 5]; // Then deletion requests
     
     const results: Record<number, any> = {};
     let grandTotal = 0;
@@ -229,70 +248,6 @@ export class AdaptiveIngestionPipeline {
     };
   }
   
-  private async indexEvent(event: NostrEvent, extracted: any): Promise<void> {
-    const client = await this.db.connect();
-    
-    try {
-      await client.query('BEGIN');
-      
-      const documentResult = await client.query(
-        `INSERT INTO documents (
-          title, content, url, document_type, 
-          last_modified, attributes
-        ) VALUES ($1, $2, $3, $4, $5, $6)
-        ON CONFLICT (source_id, external_id) 
-        WHERE source_id IS NOT NULL AND external_id IS NOT NULL
-        DO UPDATE SET
-          title = EXCLUDED.title,
-          content = EXCLUDED.content,
-          updated_at = NOW()
-        RETURNING id`,
-        [
-          extracted.title || `Nostr Event ${event.kind}`,
-          extracted.body,
-          extracted.metadata.url || null,
-          `nostr_kind_${event.kind}`,
-          new Date(event.created_at * 1000),
-          JSON.stringify({
-            ...extracted.metadata,
-            tags: extracted.tags,
-            quality_score: extracted.quality_score,
-          }),
-        ]
-      );
-      
-      const documentId = documentResult.rows[0].id;
-      
-      await client.query(
-        `INSERT INTO nostr_events (
-          document_id, event_id, pubkey, kind, event_created_at,
-          tags, event_metadata, quality_score
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        ON CONFLICT (event_id) DO UPDATE SET
-          quality_score = EXCLUDED.quality_score,
-          indexed_at = NOW()`,
-        [
-          documentId,
-          event.id,
-          event.pubkey,
-          event.kind,
-          new Date(event.created_at * 1000),
-          JSON.stringify(extracted.tags),
-          JSON.stringify(extracted.metadata),
-          extracted.quality_score,
-        ]
-      );
-      
-      await client.query('COMMIT');
-      
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
-  }
-  
   cleanup(): void {
     this.relayManager.close();
     this.spamFilter.cleanup();
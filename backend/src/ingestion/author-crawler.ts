@@ -1,9 +1,20 @@
 import { Filter as NostrFilter, Event as NostrEvent } from 'nostr-tools';
 import { Pool } from 'pg';
 import { RelayManager } from './relay-manager';
+import { PgRelayRegistry } from './relay-registry';
 import { DocumentTypeClassifier } from './document-classifier';
-import { ContentExtractorFactory } from './content-extractor';
+import { ContentExtractorFactory, toEventDocument } from './content-extractor';
 import { AntiSpamFilter } from './spam-filter';
+import { PgNostrEventStore, DELETION_KIND, latestVersions } from '../templates/nostr/lifecycle';
+import { PgOutboxStore, RELAY_LIST_KIND, coverageRows, parseRelayList } from './outbox';
+
+// Relays queried per author: their write relays first, then popular relays
+const OUTBOX_MAX_RELAYS = Number(process.env.NOSTR_OUTBOX_MAX_RELAYS || 4);
+const FALLBACK_RELAYS = Number(process.env.NOSTR_OUTBOX_FALLBACK_RELAYS || 5);
+const RELAY_LIST_MAX_AGE_HOURS = Number(process.env.NOSTR_RELAY_LIST_MAX_AGE_HOURS || 24);
+
+// fetchWithRateLimit caps a request at the relay's burst size (50 events)
+const RELAY_LIST_BATCH = 50;
 
 interface AuthorStats {
   pubkey: string;
@@ -21,23 +32,26 @@ export class AuthorCrawler {
   private classifier: DocumentTypeClassifier;
   private spamFilter: AntiSpamFilter;
   private db: Pool;
+  private events: PgNostrEventStore;
+  private outbox: PgOutboxStore;
+  private registry: PgRelayRegistry;
+  private fallbackRelays: string[];
   private authors: Map<string, AuthorStats> = new Map();
+  private writeRelays: Map<string, string[]> = new Map(); // NIP-65 outbox per author
   
   constructor(relays: string[], db: Pool) {
-    this.relayManager = new RelayManager(relays);
+    this.registry = new PgRelayRegistry(db);
+    this.relayManager = new RelayManager(relays, this.registry);
+    this.fallbackRelays = relays;
     this.classifier = new DocumentTypeClassifier();
     this.spamFilter = new AntiSpamFilter();
     this.db = db;
+    this.events = new PgNostrEventStore(db);
+    this.outbox = new PgOutboxStore(db);
   }
   
   async initialize(): Promise<void> {
-    const relays = [
-      'wss://relay.damus.io',
-      'wss://nos.lol',
-      'wss://nostr.mom',
-      'wss://relay.primal.net',
-      'wss://nostr.wine',
-    ];
+    const relays = this.relayManager.relayUrls();
     
     console.log('Discovering relay capabilities...');
     
@@ -99,17 +113,68 @@ export class AuthorCrawler {
   }
   
   /**
-   * Fetch ALL events from a specific author
+   * Look up authors' NIP-65 write relays. Relay lists that were never
+   * fetched or are stale are fetched first and stored.
+   */
+  async resolveWriteRelays(pubkeys: string[]): Promise<Map<string, string[]>> {
+    const unknown = pubkeys.filter(pubkey => !this.writeRelays.has(pubkey));
+    
+    if (unknown.length > 0) {
+      const stale = await this.outbox.staleAuthors(unknown, RELAY_LIST_MAX_AGE_HOURS);
+      // Relays that collect everyone's kind 10002 lists, asked alongside the crawl relays
+      const indexers = stale.length > 0 ? await this.registry.pickRelayListIndexers() : [];
+      const sources = this.relayManager.rankRelays([...indexers, ...this.fallbackRelays]).slice(0, 3);
+      
+      for (let i = 0; i < stale.length; i += RELAY_LIST_BATCH) {
+        const chunk = stale.slice(i, i + RELAY_LIST_BATCH);
+        const filter: NostrFilter = { kinds: [RELAY_LIST_KIND], authors: chunk };
+        const events = await this.relayManager.fetchWithRateLimit(sources, filter, RELAY_LIST_BATCH);
+        
+        for (const event of latestVersions(events)) {
+          const list = parseRelayList(event);
+          if (list && chunk.includes(list.pubkey)) {
+            await this.outbox.saveRelayList(list);
+            for (const url of list.write) {
+              await this.registry.add(url, { source: 'nip65_list', discoveredFrom: list.eventId });
+            }
+          }
+        }
+        await this.outbox.markFetched(chunk);
+      }
+      
+      const stored = await this.outbox.writeRelays(unknown);
+      for (const [pubkey, relays] of stored) {
+        this.writeRelays.set(pubkey, relays);
+      }
+    }
+    
+    return new Map(pubkeys.map(pubkey => [pubkey, this.writeRelays.get(pubkey) || []]));
+  }
+  
+  /**
+   * Fetch ALL events from a specific author, from their write relays first
+   * and from popular relays when those have nothing (or the author has no
+   * relay list). Records which relays returned the author's events.
    */
   async fetchAuthorHistory(
     pubkey: string,
-    kinds: number[] = [1, 30023, 30024]
-  ): Promise<{ total: number; indexed: number }> {
+    kinds: number[] = [1, 30023, 30024, 5]
+  ): Promise<{ total: number; indexed: number; outbox: boolean; fallback: boolean }> {
     let until = Math.floor(Date.now() / 1000);
     let totalFetched = 0;
     let totalIndexed = 0;
     let hasMore = true;
     
+    const writeRelays = (await this.resolveWriteRelays([pubkey])).get(pubkey) || [];
+    const outbox = this.relayManager.rankRelays(writeRelays).slice(0, OUTBOX_MAX_RELAYS);
+    const fallback = this.relayManager
+      .rankRelays(this.fallbackRelays.filter(url => !outbox.includes(url)))
+      .slice(0, FALLBACK_RELAYS);
+    
+    let relays = outbox.length > 0 ? outbox : fallback;
+    let usedFallback = outbox.length === 0;
+    const idsByRelay = new Map<string, Set<string>>();
+    
     while (hasMore) {
       const filter: NostrFilter = {
         authors: [pubkey],
@@ -118,8 +183,14 @@ export class AuthorCrawler {
         until: until,
       };
       
-      const relays = this.relayManager.selectRelays(filter, 5);
-      const events = await this.relayManager.fetchWithRateLimit(relays, filter, 500);
+      let events = await this.fetchFromRelays(relays, filter, idsByRelay);
+      
+      // Nothing (more) on the write relays: older history may still be on popular relays
+      if (events.length === 0 && !usedFallback && fallback.length > 0) {
+        usedFallback = true;
+        relays = fallback;
+        events = await this.fetchFromRelays(relays, filter, idsByRelay);
+      }
       
       if (events.length === 0) {
         hasMore = false;
@@ -130,6 +201,12 @@ export class AuthorCrawler {
       
       for (const event of events) {
         try {
+          // Deletion requests hide their targets instead of being indexed
+          if (event.kind === DELETION_KIND) {
+            await this.events.applyDeletion(event);
+            continue;
+          }
+          
           const docType = this.classifier.classify(event);
           
           if (docType.priority < 3) {
@@ -145,8 +222,9 @@ export class AuthorCrawler {
             continue;
           }
           
-          await this.indexEvent(event, extracted);
-          totalIndexed++;
+          // Older versions of replaceable events only go to the history table
+          const outcome = await this.events.indexEvent(event, toEventDocument(event, extracted));
+          if (outcome === 'indexed' || outcome === 'updated') totalIndexed++;
           
         } catch (error) {
           // Skip errors
@@ -165,7 +243,37 @@ export class AuthorCrawler {
       }
     }
     
-    return { total: totalFetched, indexed: totalIndexed };
+    try {
+      await this.outbox.recordCoverage(coverageRows(pubkey, writeRelays, idsByRelay));
+    } catch (error) {
+      console.error(`Error recording relay coverage for ${pubkey}:`, error);
+    }
+    
+    return { total: totalFetched, indexed: totalIndexed, outbox: outbox.length > 0, fallback: usedFallback };
+  }
+  
+  /**
+   * Query relays one at a time so every event can be attributed to the
+   * relays that returned it
+   */
+  private async fetchFromRelays(
+    relays: string[],
+    filter: NostrFilter,
+    idsByRelay: Map<string, Set<string>>
+  ): Promise<NostrEvent[]> {
+    const events = new Map<string, NostrEvent>();
+    
+    for (const relay of relays) {
+      const batch = await this.relayManager.fetchWithRateLimit([relay], filter, 500);
+      
+      if (!idsByRelay.has(relay)) idsByRelay.set(relay, new Set());
+      for (const event of batch) {
+        idsByRelay.get(relay)!.add(event.id);
+        events.set(event.id, event);
+      }
+    }
+    
+    return [...events.values()];
   }
   
   /**
@@ -182,11 +290,17 @@ export class AuthorCrawler {
     // Discover popular authors
     const authors = await this.discoverPopularAuthors(50);
     
+    // Resolve everyone's write relays up front, in batches
+    const writeRelays = await this.resolveWriteRelays(authors);
+    const withRelayList = authors.filter(pubkey => writeRelays.get(pubkey)!.length > 0).length;
+    console.log(`📬 ${withRelayList}/${authors.length} authors have a NIP-65 relay list\n`);
+    
     console.log('🚀 Crawling full history for top 50 authors...\n');
     
     let grandTotal = 0;
     let grandIndexed = 0;
     let processedAuthors = 0;
+    let fallbackAuthors = 0;
     
     for (const pubkey of authors) {
       const authorInfo = this.authors.get(pubkey)!;
@@ -198,6 +312,7 @@ export class AuthorCrawler {
       grandTotal += result.total;
       grandIndexed += result.indexed;
       processedAuthors++;
+      if (result.fallback) fallbackAuthors++;
       
       console.log(`  → Fetched ${result.total}, Indexed ${result.indexed} (Total: ${grandIndexed})\n`);
       
@@ -220,6 +335,10 @@ export class AuthorCrawler {
     console.log(`Total Indexed: ${grandIndexed} events`);
     console.log(`Rate: ${(grandIndexed / (duration / 1000)).toFixed(1)} events/sec`);
     console.log(`\nAverage per author: ${(grandIndexed / processedAuthors).toFixed(0)} events`);
+    console.log(`Authors needing popular relays: ${fallbackAuthors}/${processedAuthors}`);
+    
+    const coverage = await this.outbox.coverageReport();
+    console.log(`Relays needed to cover ${coverage.authors} authors: ${coverage.cover.join(', ') || 'none'}`);
     console.log('='.repeat(60));
     
     return {
@@ -227,73 +346,12 @@ export class AuthorCrawler {
       authors: processedAuthors,
       totalFetched: grandTotal,
       totalIndexed: grandIndexed,
+      authorsWithRelayList: withRelayList,
+      fallbackAuthors,
+      coverRelays: coverage.cover,
     };
   }
   
-  private async indexEvent(event: NostrEvent, extracted: any): Promise<void> {
-    const client = await this.db.connect();
-    
-    try {
-      await client.query('BEGIN');
-      
-      const documentResult = await client.query(
-        `INSERT INTO documents (
-          title, content, url, document_type, 
-          last_modified, attributes
-        ) VALUES ($1, $2, $3, $4, $5, $6)
-        ON CONFLICT (source_id, external_id) 
-        WHERE source_id IS NOT NULL AND external_id IS NOT NULL
-        DO UPDATE SET
-          title = EXCLUDED.title,
-          content = EXCLUDED.content,
-          updated_at = NOW()
-        RETURNING id`,
-        [
-          extracted.title || `Nostr Event ${event.kind}`,
-          extracted.body,
-          extracted.metadata.url || null,
-          `nostr_kind_${event.kind}`,
-          new Date(event.created_at * 1000),
-          JSON.stringify({
-            ...extracted.metadata,
-            tags: extracted.tags,
-            quality_score: extracted.quality_score,
-          }),
-        ]
-      );
-      
-      const documentId = documentResult.rows[0].id;
-      
-      await client.query(
-        `INSERT INTO nostr_events (
-          document_id, event_id, pubkey, kind, event_created_at,
-          tags, event_metadata, quality_score
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        ON CONFLICT (event_id) DO UPDATE SET
-          quality_score = EXCLUDED.quality_score,
-          indexed_at = NOW()`,
-        [
-          documentId,
-          event.id,
-          event.pubkey,
-          event.kind,
-          new Date(event.created_at * 1000),
-          JSON.stringify(extracted.tags),
-          JSON.stringify(extracted.metadata),
-          extracted.quality_score,
-        ]
-      );
-      
-      await client.query('COMMIT');
-      
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
-  }
-  
   cleanup(): void {
     this.relayManager.close();
     this.spamFilter.cleanup();
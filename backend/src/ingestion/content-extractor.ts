@@ -1,5 +1,7 @@
 import { Event as NostrEvent } from 'nostr-tools';
 import { DocumentType } from './document-classifier';
+import { NostrEventDocument } from '../templates/nostr/lifecycle';
+import { kindToContentType } from '../services/contentTypeMapper';
 
 export interface ExtractedContent {
   title?: string;
@@ -144,3 +146,24 @@ export class ContentExtractorFactory {
     return new TextExtractor();
   }
 }
+
+/**
+ * Document and nostr_events fields for an extracted event
+ */
+export function toEventDocument(event: NostrEvent, extracted: ExtractedContent): NostrEventDocument {
+  return {
+    title: extracted.title || `Nostr Event ${event.kind}`,
+    content: extracted.body,
+    url: extracted.metadata.url || null,
+    documentType: `nostr_kind_${event.kind}`,
+    contentType: kindToContentType(event.kind),
+    attributes: {
+      ...extracted.metadata,
+      tags: extracted.tags,
+      quality_score: extracted.quality_score,
+    },
+    tags: extracted.tags,
+    metadata: extracted.metadata,
+    qualityScore: extracted.quality_score,
+  };
+}
@@ -0,0 +1,99 @@
+/**
+ * Firehose Routes
+ * Status of the live Nostr ingestion service, as JSON and as Prometheus metrics
+ */
+
+import { Router, Request, Response } from 'express';
+import { NostrFirehose, FirehoseStatus, FirehoseTotals } from './firehose';
+
+const TOTAL_HELP: Record<keyof FirehoseTotals, string> = {
+  received: 'Events received from relays',
+  duplicates: 'Events already received from another relay',
+  rejected: 'Events rejected for a bad id or signature',
+  indexed: 'Events indexed as new documents',
+  updated: 'Events that replaced an indexed version',
+  superseded: 'Older versions of replaceable events that were archived or skipped',
+  deleted: 'Events hidden by deletion requests',
+  filtered: 'Events filtered as spam',
+  skipped: 'Events of kinds that are not indexed',
+  errors: 'Events that failed to index',
+  batches: 'Batches written'
+};
+
+function labels(values: Record<string, string>): string {
+  const pairs = Object.entries(values).map(([key, value]) =>
+    `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Render a status snapshot in the Prometheus text exposition format
+ */
+export function renderFirehoseMetrics(status: FirehoseStatus): string {
+  const lines: string[] = [];
+  const metric = (name: string, type: 'counter' | 'gauge', help: string, samples: Array<[Record<string, string>, number]>) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [sampleLabels, value] of samples) lines.push(`${name}${labels(sampleLabels)} ${value}`);
+  };
+
+  metric('beacon_nostr_firehose_up', 'gauge', 'Whether the firehose is running', [[{}, status.running ? 1 : 0]]);
+  metric('beacon_nostr_firehose_paused', 'gauge', 'Whether relays are paused until the write queue drains', [[{}, status.paused ? 1 : 0]]);
+  metric('beacon_nostr_firehose_pending_events', 'gauge', 'Events waiting to be written', [[{}, status.pending]]);
+  metric('beacon_nostr_firehose_events_per_second', 'gauge', 'Events received per second over the last minute', [[{}, status.eventsPerSecond]]);
+  metric('beacon_nostr_firehose_writes_per_second', 'gauge', 'Events indexed, updated or deleted per second over the last minute', [[{}, status.writesPerSecond]]);
+  metric('beacon_nostr_firehose_flush_errors_total', 'counter', 'Batches that could not be written', [[{}, status.flushErrors]]);
+
+  for (const [key, help] of Object.entries(TOTAL_HELP) as Array<[keyof FirehoseTotals, string]>) {
+    metric(`beacon_nostr_firehose_${key}_total`, 'counter', help, [[{}, status.totals[key]]]);
+  }
+
+  const relays = status.relays;
+  metric('beacon_nostr_firehose_relay_live', 'gauge', 'Whether the relay subscription is past EOSE',
+    relays.map(relay => [{ relay: relay.url }, relay.state === 'live' ? 1 : 0]));
+  metric('beacon_nostr_firehose_relay_demoted', 'gauge', 'Whether the relay is demoted for serving invalid events',
+    relays.map(relay => [{ relay: relay.url }, relay.demoted ? 1 : 0]));
+  metric('beacon_nostr_firehose_relay_lag_seconds', 'gauge', 'Seconds the relay checkpoint trails the clock',
+    relays.filter(relay => relay.lagSeconds !== null).map(relay => [{ relay: relay.url }, relay.lagSeconds!]));
+  metric('beacon_nostr_firehose_relay_reconnects_total', 'counter', 'Reconnections to the relay',
+    relays.map(relay => [{ relay: relay.url }, relay.reconnects]));
+  metric('beacon_nostr_firehose_relay_received_total', 'counter', 'Events received from the relay',
+    relays.map(relay => [{ relay: relay.url }, relay.received]));
+  metric('beacon_nostr_firehose_relay_duplicates_total', 'counter', 'Events from the relay already received elsewhere',
+    relays.map(relay => [{ relay: relay.url }, relay.duplicates]));
+  metric('beacon_nostr_firehose_relay_rejected_total', 'counter', 'Events from the relay rejected for a bad id or signature',
+    relays.map(relay => [{ relay: relay.url }, relay.rejected]));
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * firehose is null when the service is disabled on this instance
+ */
+export function createFirehoseRoutes(firehose: NostrFirehose | null): Router {
+  const router = Router();
+
+  /**
+   * GET /api/nostr/firehose
+   * Per-relay state, checkpoints and lag, and overall throughput
+   */
+  router.get('/', (req: Request, res: Response) => {
+    if (!firehose) {
+      return res.status(404).json({ error: 'Nostr firehose is not enabled (NOSTR_FIREHOSE_ENABLED=true)' });
+    }
+    res.json(firehose.status());
+  });
+
+  /**
+   * GET /api/nostr/firehose/metrics
+   * The same figures in the Prometheus text format
+   */
+  router.get('/metrics', (req: Request, res: Response) => {
+    if (!firehose) {
+      return res.status(404).type('text/plain').send('Nostr firehose is not enabled\n');
+    }
+    res.type('text/plain; version=0.0.4').send(renderFirehoseMetrics(firehose.status()));
+  });
+
+  return router;
+}
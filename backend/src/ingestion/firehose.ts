@@ -0,0 +1,694 @@
+/**
+ * Nostr Firehose
+ * Long-running subscriptions across a relay set that keep the index current.
+ * Each relay resumes from its own checkpoint, reconnects with backoff after
+ * a drop, and feeds one deduplicated queue that is written in batches.
+ */
+
+import { SimplePool, Filter as NostrFilter, Event as NostrEvent } from 'nostr-tools';
+import { Pool } from 'pg';
+import '../templates/nostr/websocket';
+import { RelayManager } from './relay-manager';
+import { PgRelayRegistry, RelayObservation, RelayObservationStore } from './relay-registry';
+import { DocumentTypeClassifier } from './document-classifier';
+import { ContentExtractorFactory, toEventDocument } from './content-extractor';
+import { AntiSpamFilter } from './spam-filter';
+import { PgNostrEventStore, DELETION_KIND, latestVersions } from '../templates/nostr/lifecycle';
+import { verifyNostrEvent, deferVerification } from '../templates/nostr/verify';
+
+const DEFAULT_KINDS = [1, 30023, 30024, 30402, 30040, 1063, 30311, DELETION_KIND];
+
+const BATCH_SIZE = Number(process.env.NOSTR_FIREHOSE_BATCH_SIZE || 200);
+const FLUSH_INTERVAL_MS = Number(process.env.NOSTR_FIREHOSE_FLUSH_MS || 2000);
+const MAX_PENDING = Number(process.env.NOSTR_FIREHOSE_MAX_PENDING || 10_000);
+const LOOKBACK_SECONDS = Number(process.env.NOSTR_FIREHOSE_LOOKBACK_SECONDS || 3600);
+const OVERLAP_SECONDS = Number(process.env.NOSTR_FIREHOSE_OVERLAP_SECONDS || 60);
+const BACKOFF_MS = Number(process.env.NOSTR_FIREHOSE_BACKOFF_MS || 1000);
+const BACKOFF_MAX_MS = Number(process.env.NOSTR_FIREHOSE_BACKOFF_MAX_MS || 300_000);
+const EOSE_TIMEOUT_MS = Number(process.env.NOSTR_FIREHOSE_EOSE_TIMEOUT_MS || 30_000);
+const DEDUPE_SIZE = Number(process.env.NOSTR_FIREHOSE_DEDUPE_SIZE || 100_000);
+// Writes an event that fails on its own gets before it is given up on
+const MAX_WRITE_ATTEMPTS = Number(process.env.NOSTR_FIREHOSE_MAX_WRITE_ATTEMPTS || 3);
+const RATE_WINDOW_MS = 60_000;
+const SPAM_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * syncing: subscribed, replaying stored events since the checkpoint
+ * live: past EOSE, receiving new events as they are published
+ * backoff: waiting to reconnect after a drop or a demotion
+ * paused: disconnected until the write queue drains
+ */
+export type FirehoseRelayState = 'syncing' | 'live' | 'backoff' | 'paused' | 'stopped';
+
+export interface FirehoseRelayStatus {
+  url: string;
+  state: FirehoseRelayState;
+  since: number | null;           // Checkpoint, unix seconds; null until first saved
+  lagSeconds: number | null;      // How far the checkpoint trails the clock
+  lastEventAt: string | null;
+  liveSince: string | null;
+  attempts: number;               // Failed connections since the relay was last live
+  reconnects: number;
+  nextRetryAt: string | null;
+  lastError: string | null;
+  demoted: boolean;
+  received: number;
+  duplicates: number;
+  rejected: number;
+}
+
+export interface FirehoseTotals {
+  received: number;
+  duplicates: number;             // Already received from another relay
+  rejected: number;               // Bad id or signature
+  indexed: number;
+  updated: number;
+  superseded: number;             // Older versions of replaceable events
+  deleted: number;
+  filtered: number;               // Spam
+  skipped: number;                // Kinds not worth indexing
+  errors: number;
+  batches: number;
+}
+
+export interface FirehoseStatus {
+  running: boolean;
+  startedAt: string | null;
+  kinds: number[];
+  pending: number;
+  paused: boolean;
+  eventsPerSecond: number;        // Received, over the last minute
+  writesPerSecond: number;        // Indexed, updated or deleted, over the last minute
+  lastFlushAt: string | null;
+  lastFlushMs: number | null;
+  flushErrors: number;
+  totals: FirehoseTotals;
+  relays: FirehoseRelayStatus[];
+}
+
+export interface FirehoseCheckpoint {
+  relayUrl: string;
+  since: number;
+  eventsReceived: number;         // Received since the previous save
+}
+
+export interface FirehoseCheckpointStore {
+  load(): Promise<Map<string, number>>;
+  save(checkpoints: FirehoseCheckpoint[]): Promise<void>;
+}
+
+export type FirehoseSubscriber = Pick<SimplePool, 'subscribeMap' | 'close'>;
+type Subscription = ReturnType<SimplePool['subscribeMap']>;
+export type FirehoseEventStore = Pick<PgNostrEventStore, 'applyDeletion' | 'indexEvent'>;
+export type FirehoseRelayRegistry = RelayObservationStore & Pick<PgRelayRegistry, 'pickRelays'>;
+
+export interface NostrFirehoseOptions {
+  relays?: string[];
+  kinds?: number[];
+  batchSize?: number;
+  flushIntervalMs?: number;
+  subscriber?: FirehoseSubscriber;
+  events?: FirehoseEventStore;
+  checkpoints?: FirehoseCheckpointStore;
+  registry?: FirehoseRelayRegistry;
+}
+
+interface RelayWorker {
+  url: string;
+  state: FirehoseRelayState;
+  since: number | null;
+  generation: number;             // Bumped on every (re)subscribe; stale callbacks are ignored
+  caughtUp: boolean;
+  subscription: Subscription | null;
+  retryTimer: NodeJS.Timeout | null;
+  nextRetryAt: number | null;
+  liveSince: number | null;
+  lastEventAt: number | null;
+  lastError: string | null;
+  attempts: number;
+  reconnects: number;
+  received: number;
+  duplicates: number;
+  rejected: number;
+  unsaved: number;
+  subscribedAt: number | null;
+  reported: { received: number; duplicates: number; rejected: number }; // Counts already sent to the registry
+}
+
+/**
+ * Parse NOSTR_FIREHOSE_RELAYS / NOSTR_FIREHOSE_KINDS style lists
+ */
+export function parseFirehoseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Exponential backoff with jitter, so relays that dropped together do not
+ * reconnect in lockstep
+ */
+export function backoffDelay(attempt: number, baseMs = BACKOFF_MS, maxMs = BACKOFF_MAX_MS): number {
+  const delay = baseMs * 2 ** Math.max(0, attempt - 1);
+  return Math.round(Math.min(maxMs, delay * (0.8 + Math.random() * 0.4)));
+}
+
+export class PgFirehoseCheckpointStore implements FirehoseCheckpointStore {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  async load(): Promise<Map<string, number>> {
+    const result = await this.pool.query('SELECT relay_url, since FROM nostr_firehose_checkpoints');
+    return new Map(result.rows.map(row => [row.relay_url, Number(row.since)]));
+  }
+
+  async save(checkpoints: FirehoseCheckpoint[]): Promise<void> {
+    if (checkpoints.length === 0) return;
+
+    await this.pool.query(`
+      INSERT INTO nostr_firehose_checkpoints (relay_url, since, events_received)
+      SELECT * FROM UNNEST($1::text[], $2::bigint[], $3::bigint[])
+      ON CONFLICT (relay_url) DO UPDATE SET
+        since = GREATEST(nostr_firehose_checkpoints.since, EXCLUDED.since),
+        events_received = nostr_firehose_checkpoints.events_received + EXCLUDED.events_received,
+        updated_at = NOW()
+    `, [
+      checkpoints.map(c => c.relayUrl),
+      checkpoints.map(c => c.since),
+      checkpoints.map(c => c.eventsReceived)
+    ]);
+  }
+}
+
+export class NostrFirehose {
+  private relayManager: RelayManager;
+  private classifier: DocumentTypeClassifier;
+  private spamFilter: AntiSpamFilter;
+  private subscriber: FirehoseSubscriber;
+  private events: FirehoseEventStore;
+  private checkpoints: FirehoseCheckpointStore;
+  private registry: FirehoseRelayRegistry;
+  private kinds: number[];
+  private batchSize: number;
+  private flushIntervalMs: number;
+
+  private workers = new Map<string, RelayWorker>();
+  private seen = new Set<string>();   // Recently queued event ids, oldest first
+  private pending: NostrEvent[] = [];
+  private failedAttempts = new Map<string, number>();  // By event id, for events waiting for a retry
+  private flushing: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private running = false;
+  private paused = false;
+  private startedAt: number | null = null;
+  private lastFlushAt: number | null = null;
+  private lastFlushMs: number | null = null;
+  private lastCleanupAt = Date.now();
+  private flushErrors = 0;
+  private samples: Array<{ at: number; received: number; written: number }> = [];
+  private totals: FirehoseTotals = {
+    received: 0, duplicates: 0, rejected: 0, indexed: 0, updated: 0, superseded: 0,
+    deleted: 0, filtered: 0, skipped: 0, errors: 0, batches: 0
+  };
+
+  /**
+   * Without relays in the options or NOSTR_FIREHOSE_RELAYS, start() takes
+   * the best-scoring relays from the registry
+   */
+  constructor(pool: Pool, options: NostrFirehoseOptions = {}) {
+    const relays = options.relays || parseFirehoseList(process.env.NOSTR_FIREHOSE_RELAYS);
+    const kinds = parseFirehoseList(process.env.NOSTR_FIREHOSE_KINDS).map(Number).filter(Number.isInteger);
+
+    this.kinds = options.kinds || (kinds.length > 0 ? kinds : DEFAULT_KINDS);
+    this.batchSize = options.batchSize || BATCH_SIZE;
+    this.flushIntervalMs = options.flushIntervalMs || FLUSH_INTERVAL_MS;
+    this.registry = options.registry || new PgRelayRegistry(pool);
+    this.relayManager = new RelayManager(relays, this.registry);
+    this.classifier = new DocumentTypeClassifier();
+    this.spamFilter = new AntiSpamFilter();
+    this.events = options.events || new PgNostrEventStore(pool);
+    this.checkpoints = options.checkpoints || new PgFirehoseCheckpointStore(pool);
+
+    if (options.subscriber) {
+      this.subscriber = options.subscriber;
+    } else {
+      // Events are verified in receive() and counted against the relay that sent them
+      const subscriber = new SimplePool();
+      subscriber.verifyEvent = deferVerification;
+      this.subscriber = subscriber;
+    }
+
+    for (const url of relays) this.addWorker(url);
+  }
+
+  /**
+   * Load checkpoints and subscribe to every relay
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+
+    if (this.workers.size === 0) {
+      const relays = await this.registry.pickRelays();
+      this.relayManager.addRelays(relays);
+      for (const url of relays) this.addWorker(url);
+    }
+
+    const saved = await this.checkpoints.load();
+    this.running = true;
+    this.startedAt = Date.now();
+    this.recordSample();
+
+    console.log(`🔥 Nostr firehose started (${this.workers.size} relays, kinds ${this.kinds.join(', ')})`);
+    this.flushTimer = setInterval(() => this.flush(), this.flushIntervalMs);
+    this.flushTimer.unref();
+
+    for (const worker of this.workers.values()) {
+      worker.since = saved.get(worker.url) ?? null;
+      this.connect(worker);
+    }
+  }
+
+  /**
+   * Close every subscription and write what is queued. Anything that cannot
+   * be written is refetched on the next start, since checkpoints only move
+   * past events that were stored.
+   */
+  async stop(): Promise<void> {
+    if (!this.running) return;
+    this.running = false;
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    for (const worker of this.workers.values()) {
+      this.disconnect(worker);
+      worker.state = 'stopped';
+    }
+    this.subscriber.close([...this.workers.keys()]);
+
+    await this.flushing;
+    await this.flush();
+    console.log('Nostr firehose stopped');
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Write queued events, then advance the checkpoint of every relay that was
+   * live when the batch was taken
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.writeBatch().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  status(): FirehoseStatus {
+    const now = Date.now();
+    const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+
+    return {
+      running: this.running,
+      startedAt: iso(this.startedAt),
+      kinds: this.kinds,
+      pending: this.pending.length,
+      paused: this.paused,
+      eventsPerSecond: this.rate('received'),
+      writesPerSecond: this.rate('written'),
+      lastFlushAt: iso(this.lastFlushAt),
+      lastFlushMs: this.lastFlushMs,
+      flushErrors: this.flushErrors,
+      totals: { ...this.totals },
+      relays: [...this.workers.values()].map(worker => ({
+        url: worker.url,
+        state: worker.state,
+        since: worker.since,
+        lagSeconds: worker.since === null ? null : Math.max(0, Math.floor(now / 1000) - worker.since),
+        lastEventAt: iso(worker.lastEventAt),
+        liveSince: iso(worker.liveSince),
+        attempts: worker.attempts,
+        reconnects: worker.reconnects,
+        nextRetryAt: iso(worker.nextRetryAt),
+        lastError: worker.lastError,
+        demoted: this.relayManager.isDemoted(worker.url),
+        received: worker.received,
+        duplicates: worker.duplicates,
+        rejected: worker.rejected
+      }))
+    };
+  }
+
+  private addWorker(url: string): void {
+    this.workers.set(url, {
+      url, state: 'stopped', since: null, generation: 0, caughtUp: false,
+      subscription: null, retryTimer: null, nextRetryAt: null, liveSince: null,
+      lastEventAt: null, lastError: null, attempts: 0, reconnects: 0,
+      received: 0, duplicates: 0, rejected: 0, unsaved: 0,
+      subscribedAt: null, reported: { received: 0, duplicates: 0, rejected: 0 }
+    });
+  }
+
+  private connect(worker: RelayWorker): void {
+    if (!this.running || this.paused) return;
+
+    // Resubscribe a little before the checkpoint to cover clock skew between
+    // relays; the overlap is dropped again as duplicates or stale versions
+    const since = worker.since ?? Math.floor(Date.now() / 1000) - LOOKBACK_SECONDS;
+    const filter: NostrFilter = { kinds: this.kinds, since: Math.max(0, since - OVERLAP_SECONDS) };
+    const generation = ++worker.generation;
+    const current = () => generation === worker.generation;
+
+    worker.state = 'syncing';
+    worker.caughtUp = false;
+    worker.subscribedAt = Date.now();
+    worker.subscription = this.subscriber.subscribeMap([{ url: worker.url, filter }], {
+      maxWait: EOSE_TIMEOUT_MS,
+      onevent: event => {
+        if (current()) this.receive(worker, event);
+      },
+      // SimplePool reports EOSE just before closing a subscription that
+      // failed to connect, so wait a tick to see whether it is still open
+      oneose: () => {
+        queueMicrotask(() => {
+          if (current()) this.caughtUp(worker);
+        });
+      },
+      onclose: reasons => {
+        if (current()) this.dropped(worker, reasons.join('; ') || 'connection closed');
+      }
+    });
+  }
+
+  private disconnect(worker: RelayWorker): void {
+    worker.generation++;
+    worker.caughtUp = false;
+    worker.liveSince = null;
+    if (worker.retryTimer) {
+      clearTimeout(worker.retryTimer);
+      worker.retryTimer = null;
+      worker.nextRetryAt = null;
+    }
+    if (worker.subscription) {
+      worker.subscription.close();
+      worker.subscription = null;
+    }
+  }
+
+  private caughtUp(worker: RelayWorker): void {
+    worker.caughtUp = true;
+    worker.state = 'live';
+    worker.attempts = 0;
+    worker.liveSince = Date.now();
+    worker.lastError = null;
+    // Time to replay everything since the checkpoint
+    this.recordObservation(worker.url, { ok: true, latencyMs: worker.liveSince - (worker.subscribedAt ?? worker.liveSince) });
+  }
+
+  private dropped(worker: RelayWorker, reason: string): void {
+    this.disconnect(worker);
+    // Drop the socket too, so the next attempt opens a fresh connection
+    this.subscriber.close([worker.url]);
+    worker.lastError = reason;
+    this.recordObservation(worker.url, { ok: false, error: reason });
+    this.scheduleRetry(worker, backoffDelay(worker.attempts + 1));
+  }
+
+  private scheduleRetry(worker: RelayWorker, delayMs: number): void {
+    if (!this.running) return;
+
+    worker.attempts++;
+    worker.state = 'backoff';
+    worker.nextRetryAt = Date.now() + delayMs;
+    console.warn(`Firehose lost ${worker.url} (${worker.lastError}), reconnecting in ${Math.round(delayMs / 1000)}s`);
+
+    worker.retryTimer = setTimeout(() => {
+      worker.retryTimer = null;
+      worker.nextRetryAt = null;
+      worker.reconnects++;
+      this.connect(worker);
+    }, delayMs);
+    worker.retryTimer.unref();
+  }
+
+  private receive(worker: RelayWorker, event: NostrEvent): void {
+    worker.received++;
+    worker.unsaved++;
+    worker.lastEventAt = Date.now();
+    this.totals.received++;
+
+    // Verify before deduplicating, so a forged copy cannot shadow the real event
+    const verification = verifyNostrEvent(event);
+    if (!verification.valid) {
+      worker.rejected++;
+      this.totals.rejected++;
+      this.relayManager.recordInvalidEvents(worker.url, [verification.reason!]);
+
+      if (this.relayManager.isDemoted(worker.url)) {
+        const demotedUntil = this.relayManager.getStats()[worker.url].health.demotedUntil;
+        this.disconnect(worker);
+        worker.lastError = 'demoted for serving invalid events';
+        this.scheduleRetry(worker, Math.max(0, demotedUntil - Date.now()));
+      }
+      return;
+    }
+
+    if (this.seen.has(event.id)) {
+      worker.duplicates++;
+      this.totals.duplicates++;
+      return;
+    }
+    this.seen.add(event.id);
+    if (this.seen.size > DEDUPE_SIZE) {
+      const oldest = this.seen.values().next().value;
+      if (oldest !== undefined) this.seen.delete(oldest);
+    }
+
+    this.pending.push(event);
+    if (this.pending.length >= MAX_PENDING) {
+      this.pause();
+    } else if (this.pending.length >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Stop reading while writes are failing or falling behind. Paused relays
+   * are not caught up, so their checkpoints stay put and they resume from
+   * them once the queue drains.
+   */
+  private pause(): void {
+    if (this.paused) return;
+    this.paused = true;
+    console.warn(`Firehose paused with ${this.pending.length} events waiting to be written`);
+
+    for (const worker of this.workers.values()) {
+      if (worker.state === 'stopped') continue;
+      this.disconnect(worker);
+      worker.state = 'paused';
+    }
+  }
+
+  private resume(): void {
+    if (!this.paused || this.pending.length >= MAX_PENDING / 2) return;
+    this.paused = false;
+    console.log('Firehose resumed');
+
+    for (const worker of this.workers.values()) {
+      if (worker.state === 'paused') this.connect(worker);
+    }
+  }
+
+  private async writeBatch(): Promise<void> {
+    const batch = this.pending.splice(0);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    // Everything a live relay sent before this point is in the batch
+    const live = [...this.workers.values()].filter(worker => worker.caughtUp);
+    const started = Date.now();
+
+    let retrying = 0;
+    if (batch.length > 0) {
+      try {
+        retrying = this.retryLater(await this.writeEvents(batch));
+      } catch (error) {
+        // The store is unreachable: keep the batch and the old checkpoints
+        this.pending.unshift(...batch);
+        this.flushErrors++;
+        console.error(`Firehose could not write ${batch.length} events, retrying:`, error);
+        if (this.pending.length >= MAX_PENDING) this.pause();
+        return;
+      }
+      this.totals.batches++;
+      this.lastFlushAt = Date.now();
+      this.lastFlushMs = this.lastFlushAt - started;
+    }
+
+    // Events waiting for a retry may have come from any live relay, so every
+    // checkpoint stays put until they are written
+    if (retrying === 0) {
+      const checkpoints = live.map(worker => ({ relayUrl: worker.url, since: nowSeconds, eventsReceived: worker.unsaved }));
+      try {
+        await this.checkpoints.save(checkpoints);
+        for (const worker of live) {
+          worker.since = Math.max(worker.since ?? 0, nowSeconds);
+          worker.unsaved = 0;
+        }
+      } catch (error) {
+        console.error('Firehose could not save checkpoints:', error);
+      }
+    }
+
+    await this.reportEvents();
+    this.recordSample();
+    this.resume();
+
+    if (Date.now() - this.lastCleanupAt > SPAM_CLEANUP_INTERVAL_MS) {
+      this.spamFilter.cleanup();
+      this.lastCleanupAt = Date.now();
+    }
+  }
+
+  /**
+   * Queue events that failed on their own for the next flush. Returns how
+   * many were queued; events out of attempts are given up on and forgotten
+   * as seen, so a relay that delivers them again gets them another try.
+   */
+  private retryLater(failed: NostrEvent[]): number {
+    const retry = failed.filter(event => {
+      const attempts = (this.failedAttempts.get(event.id) || 0) + 1;
+      if (attempts < MAX_WRITE_ATTEMPTS) {
+        this.failedAttempts.set(event.id, attempts);
+        return true;
+      }
+      console.error(`Firehose gave up on event ${event.id} after ${attempts} failed writes`);
+      this.failedAttempts.delete(event.id);
+      this.seen.delete(event.id);
+      return false;
+    });
+
+    this.pending.unshift(...retry);
+    if (retry.length > 0) console.warn(`Firehose will retry ${retry.length} events that failed to write`);
+    return retry.length;
+  }
+
+  /**
+   * Send each relay's event counts since the last report to the registry.
+   * Events no other relay delivered first count as unique.
+   */
+  private async reportEvents(): Promise<void> {
+    await Promise.all([...this.workers.values()].map(async worker => {
+      const { reported } = worker;
+      const received = worker.received - reported.received;
+      const duplicates = worker.duplicates - reported.duplicates;
+      const rejected = worker.rejected - reported.rejected;
+      if (received === 0) return;
+
+      worker.reported = { received: worker.received, duplicates: worker.duplicates, rejected: worker.rejected };
+      await this.recordObservation(worker.url, {
+        events: received - rejected,
+        invalid: rejected,
+        unique: received - rejected - duplicates
+      });
+    }));
+  }
+
+  /**
+   * Relay health is best effort: a registry outage only loses the observation
+   */
+  private async recordObservation(url: string, observation: RelayObservation): Promise<void> {
+    try {
+      await this.registry.recordObservation(url, observation);
+    } catch (error) {
+      console.error(`Firehose could not record relay health for ${url}:`, error);
+    }
+  }
+
+  /**
+   * Deletions first, then the newest version of each replaceable event.
+   * Returns the events that failed on their own; a batch where every write
+   * fails is treated as the store being down.
+   */
+  private async writeEvents(batch: NostrEvent[]): Promise<NostrEvent[]> {
+    const deletions = batch.filter(event => event.kind === DELETION_KIND);
+    const others = batch.filter(event => event.kind !== DELETION_KIND);
+    const latest = latestVersions(others);
+    this.totals.superseded += others.length - latest.length;
+
+    const failed: NostrEvent[] = [];
+    let lastError: unknown = null;
+    const toWrite = [...deletions, ...latest];
+
+    for (const event of toWrite) {
+      try {
+        await this.writeEvent(event);
+      } catch (error) {
+        failed.push(event);
+        lastError = error;
+        this.totals.errors++;
+        console.error(`Error processing event ${event.id}:`, error);
+      }
+    }
+
+    if (toWrite.length > 0 && failed.length === toWrite.length) {
+      throw lastError;
+    }
+    // Written, or superseded by a newer version
+    for (const event of batch) {
+      if (!failed.includes(event)) this.failedAttempts.delete(event.id);
+    }
+    return failed;
+  }
+
+  private async writeEvent(event: NostrEvent): Promise<void> {
+    if (event.kind === DELETION_KIND) {
+      this.totals.deleted += await this.events.applyDeletion(event);
+      return;
+    }
+
+    const docType = this.classifier.classify(event);
+    if (docType.priority < 3) {
+      this.totals.skipped++;
+      return;
+    }
+
+    const extracted = ContentExtractorFactory.create(docType).extract(event);
+    if (this.spamFilter.check(event, extracted).isSpam) {
+      this.totals.filtered++;
+      return;
+    }
+
+    const outcome = await this.events.indexEvent(event, toEventDocument(event, extracted));
+    if (outcome === 'indexed') this.totals.indexed++;
+    else if (outcome === 'updated') this.totals.updated++;
+    else if (outcome === 'stale') this.totals.superseded++;
+    else this.totals.deleted++;
+  }
+
+  private written(): number {
+    return this.totals.indexed + this.totals.updated + this.totals.deleted;
+  }
+
+  private recordSample(): void {
+    const now = Date.now();
+    this.samples.push({ at: now, received: this.totals.received, written: this.written() });
+    // Keep one sample older than the window as the baseline
+    while (this.samples.length > 2 && now - this.samples[1].at >= RATE_WINDOW_MS) {
+      this.samples.shift();
+    }
+  }
+
+  private rate(field: 'received' | 'written'): number {
+    const baseline = this.samples[0];
+    if (!baseline) return 0;
+
+    const elapsed = (Date.now() - baseline.at) / 1000;
+    const current = field === 'received' ? this.totals.received : this.written();
+    return elapsed > 0 ? Math.round(((current - baseline[field]) / elapsed) * 10) / 10 : 0;
+  }
+}
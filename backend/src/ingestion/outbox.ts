@@ -0,0 +1,258 @@
+/**
+ * Outbox Routing (NIP-65)
+ * Authors publish to the write relays in their kind 10002 relay list. The
+ * author crawler queries those first and records which relays actually
+ * returned each author's events.
+ */
+
+import { Event as NostrEvent } from 'nostr-tools';
+import { Pool } from 'pg';
+import { normalizeRelayUrl } from './relay-discovery';
+
+export const RELAY_LIST_KIND = 10002;
+
+export interface RelayList {
+  pubkey: string;
+  eventId: string;
+  createdAt: number;
+  write: string[];
+  read: string[];
+}
+
+export interface RelayCoverage {
+  relayUrl: string;
+  pubkey: string;
+  isWriteRelay: boolean;
+  eventsFound: number;
+  uniqueEvents: number;
+}
+
+export interface RelayCoverageSummary {
+  relayUrl: string;
+  authors: number;              // Authors the relay returned events for
+  soleSourceAuthors: number;    // Authors no other relay returned events for
+  writeListAuthors: number;     // Authors listing the relay as a write relay
+  events: number;
+  uniqueEvents: number;
+}
+
+export interface RelayCoverageReport {
+  authors: number;              // Authors at least one relay returned events for
+  relays: RelayCoverageSummary[];
+  cover: string[];              // Fewest relays that still reach every one of those authors
+}
+
+/**
+ * Parse a kind 10002 relay list. An "r" tag without a marker is both a
+ * read and a write relay.
+ */
+export function parseRelayList(event: NostrEvent): RelayList | null {
+  if (event.kind !== RELAY_LIST_KIND) return null;
+
+  const write = new Set<string>();
+  const read = new Set<string>();
+  for (const tag of event.tags) {
+    if (tag[0] !== 'r' || !tag[1]) continue;
+    const url = normalizeRelayUrl(tag[1]);
+    if (!url) continue;
+
+    if (tag[2] !== 'read') write.add(url);
+    if (tag[2] !== 'write') read.add(url);
+  }
+
+  return {
+    pubkey: event.pubkey,
+    eventId: event.id,
+    createdAt: event.created_at,
+    write: [...write],
+    read: [...read]
+  };
+}
+
+/**
+ * Greedy set cover over the relays that returned events: repeatedly take
+ * the relay that reaches the most authors not reached yet
+ */
+export function relayCover(coverage: Array<Pick<RelayCoverage, 'relayUrl' | 'pubkey' | 'eventsFound'>>): string[] {
+  const authorsByRelay = new Map<string, Set<string>>();
+  const uncovered = new Set<string>();
+  for (const row of coverage) {
+    if (row.eventsFound <= 0) continue;
+    if (!authorsByRelay.has(row.relayUrl)) authorsByRelay.set(row.relayUrl, new Set());
+    authorsByRelay.get(row.relayUrl)!.add(row.pubkey);
+    uncovered.add(row.pubkey);
+  }
+
+  const cover: string[] = [];
+  while (uncovered.size > 0) {
+    let best: string | null = null;
+    let bestGain = 0;
+    for (const relayUrl of [...authorsByRelay.keys()].sort()) {
+      let gain = 0;
+      for (const pubkey of authorsByRelay.get(relayUrl)!) if (uncovered.has(pubkey)) gain++;
+      if (gain > bestGain) {
+        best = relayUrl;
+        bestGain = gain;
+      }
+    }
+    if (!best) break;
+
+    cover.push(best);
+    for (const pubkey of authorsByRelay.get(best)!) uncovered.delete(pubkey);
+    authorsByRelay.delete(best);
+  }
+
+  return cover;
+}
+
+/**
+ * Coverage rows for one author from the event ids each relay returned
+ */
+export function coverageRows(
+  pubkey: string,
+  writeRelays: string[],
+  idsByRelay: Map<string, Set<string>>
+): RelayCoverage[] {
+  const sources = new Map<string, number>();
+  for (const ids of idsByRelay.values()) {
+    for (const id of ids) sources.set(id, (sources.get(id) || 0) + 1);
+  }
+
+  return [...idsByRelay].map(([relayUrl, ids]) => {
+    let uniqueEvents = 0;
+    for (const id of ids) if (sources.get(id) === 1) uniqueEvents++;
+    return { relayUrl, pubkey, isWriteRelay: writeRelays.includes(relayUrl), eventsFound: ids.size, uniqueEvents };
+  });
+}
+
+export class PgOutboxStore {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Authors whose relay list was never fetched or was fetched more than
+   * maxAgeHours ago
+   */
+  async staleAuthors(pubkeys: string[], maxAgeHours: number): Promise<string[]> {
+    if (pubkeys.length === 0) return [];
+
+    const result = await this.pool.query(`
+      SELECT pubkey FROM nostr_relay_lists
+      WHERE pubkey = ANY($1) AND fetched_at > NOW() - make_interval(hours => $2)
+    `, [pubkeys, maxAgeHours]);
+    const fresh = new Set(result.rows.map(row => row.pubkey));
+    return pubkeys.filter(pubkey => !fresh.has(pubkey));
+  }
+
+  /**
+   * Write relays per author; authors without a list map to an empty array
+   */
+  async writeRelays(pubkeys: string[]): Promise<Map<string, string[]>> {
+    const relays = new Map<string, string[]>(pubkeys.map(pubkey => [pubkey, []]));
+    if (pubkeys.length === 0) return relays;
+
+    const result = await this.pool.query(
+      'SELECT pubkey, write_relays FROM nostr_relay_lists WHERE pubkey = ANY($1)',
+      [pubkeys]
+    );
+    for (const row of result.rows) relays.set(row.pubkey, row.write_relays || []);
+    return relays;
+  }
+
+  /**
+   * Store a relay list unless a newer one is already stored
+   */
+  async saveRelayList(list: RelayList): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO nostr_relay_lists (pubkey, event_id, event_created_at, write_relays, read_relays)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (pubkey) DO UPDATE SET
+        event_id = EXCLUDED.event_id,
+        event_created_at = EXCLUDED.event_created_at,
+        write_relays = EXCLUDED.write_relays,
+        read_relays = EXCLUDED.read_relays
+      WHERE nostr_relay_lists.event_created_at IS NULL
+         OR nostr_relay_lists.event_created_at < EXCLUDED.event_created_at
+    `, [list.pubkey, list.eventId, list.createdAt, list.write, list.read]);
+  }
+
+  /**
+   * Record that these authors' relay lists were looked up, so the lookup is
+   * not repeated until it is stale. Authors without a list get an empty entry.
+   */
+  async markFetched(pubkeys: string[]): Promise<void> {
+    if (pubkeys.length === 0) return;
+
+    await this.pool.query(`
+      INSERT INTO nostr_relay_lists (pubkey)
+      SELECT UNNEST($1::text[])
+      ON CONFLICT (pubkey) DO UPDATE SET fetched_at = NOW()
+    `, [pubkeys]);
+  }
+
+  async recordCoverage(rows: RelayCoverage[]): Promise<void> {
+    if (rows.length === 0) return;
+
+    await this.pool.query(`
+      INSERT INTO nostr_relay_coverage (relay_url, pubkey, is_write_relay, events_found, unique_events, crawled_at)
+      SELECT *, NOW() FROM UNNEST($1::text[], $2::text[], $3::boolean[], $4::int[], $5::int[])
+      ON CONFLICT (relay_url, pubkey) DO UPDATE SET
+        is_write_relay = EXCLUDED.is_write_relay,
+        events_found = EXCLUDED.events_found,
+        unique_events = EXCLUDED.unique_events,
+        crawled_at = NOW()
+    `, [
+      rows.map(row => row.relayUrl),
+      rows.map(row => row.pubkey),
+      rows.map(row => row.isWriteRelay),
+      rows.map(row => row.eventsFound),
+      rows.map(row => row.uniqueEvents)
+    ]);
+  }
+
+  /**
+   * Per-relay coverage of the crawled authors and the smallest relay set
+   * that still reaches all of them
+   */
+  async coverageReport(): Promise<RelayCoverageReport> {
+    const result = await this.pool.query(`
+      SELECT relay_url, pubkey, is_write_relay, events_found, unique_events
+      FROM nostr_relay_coverage
+    `);
+    const rows: RelayCoverage[] = result.rows.map(row => ({
+      relayUrl: row.relay_url,
+      pubkey: row.pubkey,
+      isWriteRelay: row.is_write_relay,
+      eventsFound: row.events_found,
+      uniqueEvents: row.unique_events
+    }));
+
+    const sources = new Map<string, number>();
+    for (const row of rows) {
+      if (row.eventsFound > 0) sources.set(row.pubkey, (sources.get(row.pubkey) || 0) + 1);
+    }
+
+    const summaries = new Map<string, RelayCoverageSummary>();
+    for (const row of rows) {
+      let summary = summaries.get(row.relayUrl);
+      if (!summary) {
+        summary = { relayUrl: row.relayUrl, authors: 0, soleSourceAuthors: 0, writeListAuthors: 0, events: 0, uniqueEvents: 0 };
+        summaries.set(row.relayUrl, summary);
+      }
+      if (row.eventsFound > 0) summary.authors++;
+      if (row.eventsFound > 0 && sources.get(row.pubkey) === 1) summary.soleSourceAuthors++;
+      if (row.isWriteRelay) summary.writeListAuthors++;
+      summary.events += row.eventsFound;
+      summary.uniqueEvents += row.uniqueEvents;
+    }
+
+    return {
+      authors: sources.size,
+      relays: [...summaries.values()].sort((a, b) => b.authors - a.authors || a.relayUrl.localeCompare(b.relayUrl)),
+      cover: relayCover(rows)
+    };
+  }
+}
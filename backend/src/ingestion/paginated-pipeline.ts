@@ -1,30 +1,29 @@
 import { Filter as NostrFilter, Event as NostrEvent } from 'nostr-tools';
 import { Pool } from 'pg';
 import { RelayManager } from './relay-manager';
+import { PgRelayRegistry } from './relay-registry';
 import { DocumentTypeClassifier } from './document-classifier';
-import { ContentExtractorFactory } from './content-extractor';
+import { ContentExtractorFactory, toEventDocument } from './content-extractor';
 import { AntiSpamFilter } from './spam-filter';
+import { PgNostrEventStore, DELETION_KIND } from '../templates/nostr/lifecycle';
 
 export class PaginatedIngestionPipeline {
   private relayManager: RelayManager;
   private classifier: DocumentTypeClassifier;
   private spamFilter: AntiSpamFilter;
   private db: Pool;
+  private events: PgNostrEventStore;
   
   constructor(relays: string[], db: Pool) {
-    this.relayManager = new RelayManager(relays);
+    this.relayManager = new RelayManager(relays, new PgRelayRegistry(db));
     this.classifier = new DocumentTypeClassifier();
     this.spamFilter = new AntiSpamFilter();
     this.db = db;
+    this.events = new PgNostrEventStore(db);
   }
   
   async initialize(): Promise<void> {
-    const relays = [
-      'wss://relay.damus.io',
-      'wss://nos.lol',
-      'wss://relay.nostr.band',
-      'wss://nostr.mom',
-    ];
+    const relays = this.relayManager.relayUrls();
     
     console.log('Discovering relay capabilities...');
     
@@ -75,6 +74,12 @@ export class PaginatedIngestionPipeline {
       // Process events
       for (const event of events) {
         try {
+          // Deletion requests hide their targets instead of being indexed
+          if (event.kind === DELETION_KIND) {
+            await this.events.applyDeletion(event);
+            continue;
+          }
+          
           const docType = this.classifier.classify(event);
           
           if (docType.priority < 3) {
@@ -94,8 +99,9 @@ export class PaginatedIngestionPipeline {
           }
           
           // Index
-          await this.indexEvent(event, extracted);
-          totalIndexed++;
+          // Older versions of replaceable events only go to the history table
+          const outcome = await this.events.indexEvent(event, toEventDocument(event, extracted));
+          if (outcome === 'indexed' || outcome === 'updated') totalIndexed++;
           
         } catch (error) {
           console.error(`Error processing event ${event.id}:`, error);
@@ -135,7 +141,7 @@ export class PaginatedIngestionPipeline {
    */
   async fetchAllHistory(): Promise<any> {
     const startTime = Date.now();
-    const kinds = [1, 30023, 30024, 30402, 30040, 1063, 30311]; // All interesting kinds
+    const kinds = [1, 30023, 30024, 30402, 30040, 1063, 30311, 5]; // All interesting kinds, then deletion requests
     
     console.log('\n' + '='.repeat(60));
     console.log('COMPREHENSIVE HISTORICAL CRAWL');
@@ -183,72 +189,6 @@ export class PaginatedIngestionPipeline {
     };
   }
   
-  private async indexEvent(event: NostrEvent, extracted: any): Promise<void> {
-    const client = await this.db.connect();
-    
-    try {
-      await client.query('BEGIN');
-      
-      // 1. Insert into documents table
-      const documentResult = await client.query(
-        `INSERT INTO documents (
-          title, content, url, document_type, 
-          last_modified, attributes
-        ) VALUES ($1, $2, $3, $4, $5, $6)
-        ON CONFLICT (source_id, external_id) 
-        WHERE source_id IS NOT NULL AND external_id IS NOT NULL
-        DO UPDATE SET
-          title = EXCLUDED.title,
-          content = EXCLUDED.content,
-          updated_at = NOW()
-        RETURNING id`,
-        [
-          extracted.title || `Nostr Event ${event.kind}`,
-          extracted.body,
-          extracted.metadata.url || null,
-          `nostr_kind_${event.kind}`,
-          new Date(event.created_at * 1000),
-          JSON.stringify({
-            ...extracted.metadata,
-            tags: extracted.tags,
-            quality_score: extracted.quality_score,
-          }),
-        ]
-      );
-      
-      const documentId = documentResult.rows[0].id;
-      
-      // 2. Insert into nostr_events table
-      await client.query(
-        `INSERT INTO nostr_events (
-          document_id, event_id, pubkey, kind, event_created_at,
-          tags, event_metadata, quality_score
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-        ON CONFLICT (event_id) DO UPDATE SET
-          quality_score = EXCLUDED.quality_score,
-          indexed_at = NOW()`,
-        [
-          documentId,
-          event.id,
-          event.pubkey,
-          event.kind,
-          new Date(event.created_at * 1000),
-          JSON.stringify(extracted.tags),
-          JSON.stringify(extracted.metadata),
-          extracted.quality_score,
-        ]
-      );
-      
-      await client.query('COMMIT');
-      
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
-  }
-  
   cleanup(): void {
     this.relayManager.close();
     this.spamFilter.cleanup();
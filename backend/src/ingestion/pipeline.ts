@@ -1,10 +1,11 @@
 import { Filter as NostrFilter, Event as NostrEvent } from 'nostr-tools';
 import { Pool } from 'pg';
 import { RelayManager } from './relay-manager';
+import { PgRelayRegistry } from './relay-registry';
 import { DocumentTypeClassifier } from './document-classifier';
-import { ContentExtractorFactory } from './content-extractor';
+import { ContentExtractorFactory, toEventDocument } from './content-extractor';
 import { AntiSpamFilter } from './spam-filter';
-import { kindToContentType } from '../services/contentTypeMapper';
+import { PgNostrEventStore, DELETION_KIND } from '../templates/nostr/lifecycle';
 
 export interface IngestionStrategy {
   name: string;
@@ -21,6 +22,8 @@ export interface IngestionResult {
     fetched: number;
     indexed: number;
     filtered: number;
+    superseded: number;   // Older versions of replaceable events, kept as history only
+    deleted: number;      // Documents hidden by deletion requests, or refused as deleted
     errors: number;
     byKind: Record<number, { fetched: number; indexed: number; filtered: number }>;
   };
@@ -70,6 +73,7 @@ export const STRATEGIES = {
       { kinds: [30024], limit: 5000 }, // Drafts
       { kinds: [30402, 30040], limit: 5000 }, // Structured content
       { kinds: [1063, 30311], limit: 3000 }, // Media metadata
+      { kinds: [5], limit: 5000 }, // Deletion requests
     ],
     batchSize: 500,
     estimatedEvents: 73000,
@@ -85,22 +89,19 @@ export class IngestionPipeline {
   private classifier: DocumentTypeClassifier;
   private spamFilter: AntiSpamFilter;
   private db: Pool;
+  private events: PgNostrEventStore;
   
   constructor(relays: string[], db: Pool) {
-    this.relayManager = new RelayManager(relays);
+    this.relayManager = new RelayManager(relays, new PgRelayRegistry(db));
     this.classifier = new DocumentTypeClassifier();
     this.spamFilter = new AntiSpamFilter();
     this.db = db;
+    this.events = new PgNostrEventStore(db);
   }
   
   async initialize(): Promise<void> {
     // Discover relay capabilities
-    const relays = [
-      'wss://relay.damus.io',
-      'wss://nos.lol',
-      'wss://relay.nostr.band',
-      'wss://nostr.mom',
-    ];
+    const relays = this.relayManager.relayUrls();
     
     console.log('Discovering relay capabilities...');
     
@@ -117,6 +118,8 @@ export class IngestionPipeline {
       fetched: 0,
       indexed: 0,
       filtered: 0,
+      superseded: 0,
+      deleted: 0,
       errors: 0,
       byKind: {} as Record<number, { fetched: number; indexed: number; filtered: number }>,
     };
@@ -163,6 +166,12 @@ export class IngestionPipeline {
         stats.byKind[event.kind].fetched++;
         
         try {
+          // Deletion requests hide their targets instead of being indexed
+          if (event.kind === DELETION_KIND) {
+            stats.deleted += await this.events.applyDeletion(event);
+            continue;
+          }
+          
           // 1. Classify document type
           const docType = this.classifier.classify(event);
           
@@ -190,8 +199,17 @@ export class IngestionPipeline {
             continue;
           }
           
-          // 4. Index the content
-          await this.indexEvent(event, extracted);
+          // 4. Index the content (only the newest version of replaceable events)
+          const outcome = await this.events.indexEvent(event, toEventDocument(event, extracted));
+          
+          if (outcome === 'stale') {
+            stats.superseded++;
+            continue;
+          }
+          if (outcome === 'deleted') {
+            stats.deleted++;
+            continue;
+          }
           
           stats.indexed++;
           stats.byKind[event.kind].indexed++;
@@ -225,6 +243,8 @@ export class IngestionPipeline {
     console.log(`Fetched: ${stats.fetched} events`);
     console.log(`Indexed: ${stats.indexed} events`);
     console.log(`Filtered: ${stats.filtered} spam (${((stats.filtered / stats.fetched) * 100).toFixed(1)}%)`);
+    console.log(`Superseded: ${stats.superseded} older versions`);
+    console.log(`Deleted: ${stats.deleted} by their authors`);
     console.log(`Errors: ${stats.errors}`);
     console.log(`Rate: ${(stats.indexed / (duration / 1000)).toFixed(1)} events/sec`);
     console.log('\nBy Event Kind:');
@@ -245,76 +265,6 @@ export class IngestionPipeline {
     };
   }
   
-  private async indexEvent(event: NostrEvent, extracted: any): Promise<void> {
-    const client = await this.db.connect();
-    const contentType = kindToContentType(event.kind);
-    
-    try {
-      await client.query('BEGIN');
-      
-      // 1. Insert into documents table
-      const documentResult = await client.query(
-        `INSERT INTO documents (
-          title, content, url, document_type, 
-          last_modified, attributes, content_type
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7::content_type)
-        ON CONFLICT (source_id, external_id) 
-        WHERE source_id IS NOT NULL AND external_id IS NOT NULL
-        DO UPDATE SET
-          title = EXCLUDED.title,
-          content = EXCLUDED.content,
-          updated_at = NOW()
-        RETURNING id`,
-        [
-          extracted.title || `Nostr Event ${event.kind}`,
-          extracted.body,
-          extracted.metadata.url || null,
-          `nostr_kind_${event.kind}`,
-          new Date(event.created_at * 1000),
-          JSON.stringify({
-            ...extracted.metadata,
-            tags: extracted.tags,
-            quality_score: extracted.quality_score,
-          }),
-          contentType,
-        ]
-      );
-      
-      const documentId = documentResult.rows[0].id;
-      
-      // 2. Insert into nostr_events table
-      await client.query(
-        `INSERT INTO nostr_events (
-          document_id, event_id, pubkey, kind, event_created_at,
-          tags, event_metadata, quality_score, content_type
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::content_type)
-        ON CONFLICT (event_id) DO UPDATE SET
-          quality_score = EXCLUDED.quality_score,
-          content_type = EXCLUDED.content_type,
-          indexed_at = NOW()`,
-        [
-          documentId,
-          event.id,
-          event.pubkey,
-          event.kind,
-          new Date(event.created_at * 1000),
-          JSON.stringify(extracted.tags),
-          JSON.stringify(extracted.metadata),
-          extracted.quality_score,
-          contentType,
-        ]
-      );
-      
-      await client.query('COMMIT');
-      
-    } catch (error) {
-      await client.query('ROLLBACK');
-      throw error;
-    } finally {
-      client.release();
-    }
-  }
-  
   cleanup(): void {
     this.relayManager.close();
     this.spamFilter.cleanup();
@@ -7,6 +7,46 @@ export interface DiscoveredRelay {
   firstSeen: number;
 }
 
+/**
+ * Normalize relay URL (remove trailing slash, lowercase); null for
+ * anything that is not a public ws:// or wss:// URL
+ */
+export function normalizeRelayUrl(url: string): string | null {
+  try {
+    // Clean up the URL
+    url = url.trim().toLowerCase();
+    
+    // Must start with ws:// or wss://
+    if (!url.startsWith('ws://') && !url.startsWith('wss://')) {
+      return null;
+    }
+    
+    // Remove trailing slash
+    if (url.endsWith('/')) {
+      url = url.slice(0, -1);
+    }
+    
+    // Basic validation - should have a domain
+    const parsed = new URL(url);
+    if (!parsed.hostname) {
+      return null;
+    }
+    
+    // Skip localhost/private IPs for public crawling
+    if (parsed.hostname === 'localhost' || 
+        parsed.hostname.startsWith('127.') ||
+        parsed.hostname.startsWith('192.168.') ||
+        parsed.hostname.startsWith('10.')) {
+      return null;
+    }
+    
+    return url;
+    
+  } catch {
+    return null; // Invalid URL
+  }
+}
+
 export class RelayDiscovery {
   private discovered: Map<string, DiscoveredRelay> = new Map();
   private processed: Set<string> = new Set(); // Event IDs we've already processed
@@ -27,7 +67,7 @@ export class RelayDiscovery {
     if (event.kind === 10002) {
       for (const tag of event.tags) {
         if (tag[0] === 'r' && tag[1]) {
-          const url = this.normalizeRelayUrl(tag[1]);
+          const url = normalizeRelayUrl(tag[1]);
           if (url && !this.discovered.has(url)) {
             const relay: DiscoveredRelay = {
               url,
@@ -45,7 +85,7 @@ export class RelayDiscovery {
     // 2. Check for relay tags in any event (NIP-01 "r" tag)
     for (const tag of event.tags) {
       if (tag[0] === 'r' && tag[1]) {
-        const url = this.normalizeRelayUrl(tag[1]);
+        const url = normalizeRelayUrl(tag[1]);
         if (url && !this.discovered.has(url)) {
           const relay: DiscoveredRelay = {
             url,
@@ -65,7 +105,7 @@ export class RelayDiscovery {
     
     if (matches) {
       for (const match of matches) {
-        const url = this.normalizeRelayUrl(match);
+        const url = normalizeRelayUrl(match);
         if (url && !this.discovered.has(url)) {
           const relay: DiscoveredRelay = {
             url,
@@ -82,45 +122,6 @@ export class RelayDiscovery {
     return relays;
   }
   
-  /**
-   * Normalize relay URL (remove trailing slash, lowercase)
-   */
-  private normalizeRelayUrl(url: string): string | null {
-    try {
-      // Clean up the URL
-      url = url.trim().toLowerCase();
-      
-      // Must start with ws:// or wss://
-      if (!url.startsWith('ws://') && !url.startsWith('wss://')) {
-        return null;
-      }
-      
-      // Remove trailing slash
-      if (url.endsWith('/')) {
-        url = url.slice(0, -1);
-      }
-      
-      // Basic validation - should have a domain
-      const parsed = new URL(url);
-      if (!parsed.hostname) {
-        return null;
-      }
-      
-      // Skip localhost/private IPs for public crawling
-      if (parsed.hostname === 'localhost' || 
-          parsed.hostname.startsWith('127.') ||
-          parsed.hostname.startsWith('192.168.') ||
-          parsed.hostname.startsWith('10.')) {
-        return null;
-      }
-      
-      return url;
-      
-    } catch {
-      return null; // Invalid URL
-    }
-  }
-  
   /**
    * Get all discovered relays (sorted by discovery time)
    */
@@ -141,7 +142,7 @@ export class RelayDiscovery {
    * Check if a relay has already been discovered
    */
   hasRelay(url: string): boolean {
-    const normalized = this.normalizeRelayUrl(url);
+    const normalized = normalizeRelayUrl(url);
     return normalized ? this.discovered.has(normalized) : false;
   }
   
@@ -187,16 +188,16 @@ export class AdaptiveRelayCrawler {
   }
   
   /**
-   * Process an event and extract any relay URLs
+   * Process an event and return the relays it mentions that were not known yet
    */
-  processEvent(event: NostrEvent): string[] {
+  processEvent(event: NostrEvent): DiscoveredRelay[] {
     const newRelays = this.discovery.extractRelays(event);
-    const added: string[] = [];
+    const added: DiscoveredRelay[] = [];
     
     for (const relay of newRelays) {
       if (!this.discoveredRelays.has(relay.url)) {
         this.discoveredRelays.add(relay.url);
-        added.push(relay.url);
+        added.push(relay);
         console.log(`🔍 Discovered new relay: ${relay.url} (via ${relay.source})`);
       }
     }
@@ -1,6 +1,13 @@
 import { SimplePool, Filter as NostrFilter, Event as NostrEvent } from 'nostr-tools';
-import fetch from 'node-fetch';
-import 'websocket-polyfill';
+import '../templates/nostr/websocket';
+import { verifyNostrEvents, deferVerification } from '../templates/nostr/verify';
+import { RelayInfo, RelayObservation, RelayObservationStore, fetchRelayInfo } from './relay-registry';
+
+// Invalid events a relay may serve before it is demoted, and for how long
+const DEMOTE_AFTER_INVALID = Number(process.env.NOSTR_RELAY_DEMOTE_AFTER_INVALID || 3);
+const DEMOTION_MINUTES = Number(process.env.NOSTR_RELAY_DEMOTION_MINUTES || 60);
+// Event ids remembered to tell which relay delivered an event first
+const DELIVERED_MEMORY = 100_000;
 
 interface RelayConfig {
   url: string;
@@ -14,33 +21,16 @@ interface RelayConfig {
     maxFilterSize: number;
     maxSubscriptionsPerClient: number;
     requireAuth: boolean;
+    requirePayment: boolean;
+    maxLimit: number | null;      // NIP-11 max_limit: most events one request returns
   };
   health: {
     lastSuccess: number;
     failureCount: number;
     averageLatencyMs: number;
-  };
-}
-
-interface RelayInfo {
-  name?: string;
-  description?: string;
-  pubkey?: string;
-  contact?: string;
-  supported_nips?: number[];
-  software?: string;
-  version?: string;
-  limitation?: {
-    max_message_length?: number;
-    max_subscriptions?: number;
-    max_filters?: number;
-    max_limit?: number;
-    max_subid_length?: number;
-    max_event_tags?: number;
-    max_content_length?: number;
-    min_pow_difficulty?: number;
-    auth_required?: boolean;
-    payment_required?: boolean;
+    invalidEvents: number;        // Events rejected for a bad id or signature
+    demotions: number;
+    demotedUntil: number;         // Not selected before this time (0: never demoted)
   };
 }
 
@@ -48,9 +38,19 @@ export class RelayManager {
   private pool: SimplePool;
   private configs: Map<string, RelayConfig> = new Map();
   private requestCounts: Map<string, number[]> = new Map(); // Track requests per second
+  private strikes: Map<string, number> = new Map(); // Invalid events since the last demotion
+  private delivered: Set<string> = new Set(); // Recently fetched event ids, oldest first
+  private registry: RelayObservationStore | null;
   
-  constructor(relayUrls: string[]) {
+  /**
+   * With a registry, NIP-11 documents, request outcomes and demotions are
+   * persisted so later runs can pick relays by score
+   */
+  constructor(relayUrls: string[], registry?: RelayObservationStore) {
+    this.registry = registry || null;
     this.pool = new SimplePool();
+    // Events are verified per relay in fetchWithRateLimit
+    this.pool.verifyEvent = deferVerification;
     
     // Initialize configs with defaults
     for (const url of relayUrls) {
@@ -71,11 +71,16 @@ export class RelayManager {
         maxFilterSize: 100,
         maxSubscriptionsPerClient: 10,
         requireAuth: false,
+        requirePayment: false,
+        maxLimit: null,
       },
       health: {
         lastSuccess: Date.now(),
         failureCount: 0,
         averageLatencyMs: 0,
+        invalidEvents: 0,
+        demotions: 0,
+        demotedUntil: 0,
       },
     };
   }
@@ -90,20 +95,7 @@ export class RelayManager {
         this.configs.set(url, this.createDefaultConfig(url));
       }
       
-      const httpUrl = url.replace('wss://', 'https://').replace('ws://', 'http://');
-      
-      const response = await fetch(httpUrl, {
-        headers: {
-          'Accept': 'application/nostr+json',
-        },
-      });
-      
-      if (!response.ok) {
-        console.warn(`Failed to fetch relay info for ${url}: ${response.status}`);
-        return;
-      }
-      
-      const info: RelayInfo = await response.json();
+      const info: RelayInfo = await fetchRelayInfo(url);
       const config = this.configs.get(url)!;
       
       // Update config based on relay info
@@ -116,8 +108,16 @@ export class RelayManager {
         
         config.policies.requireAuth = 
           info.limitation.auth_required || false;
+        
+        config.policies.requirePayment = 
+          info.limitation.payment_required || false;
+        
+        config.policies.maxLimit = 
+          info.limitation.max_limit || null;
       }
       
+      await this.registry?.saveRelayInfo(url, info);
+      
       console.log(`✓ Discovered info for ${url}:`, {
         software: info.software,
         nips: info.supported_nips?.slice(0, 10),
@@ -147,32 +147,45 @@ export class RelayManager {
         const config = this.configs.get(relayUrl)!;
         const startTime = Date.now();
         
-        // Fetch events
-        const batch = await this.pool.querySync(
-          [relayUrl],
-          { ...filter, limit: Math.min(batchSize, config.rateLimit.burstSize) }
-        );
+        // Fetch events, never asking for more than the relay will return
+        const limit = Math.min(batchSize, config.rateLimit.burstSize, config.policies.maxLimit || Infinity);
+        const batch = await this.pool.querySync([relayUrl], { ...filter, limit });
         
         const latency = Date.now() - startTime;
         
+        // Drop events whose id or signature does not check out
+        const { valid, rejected } = await verifyNostrEvents(batch);
+        if (rejected.length > 0) {
+          this.recordInvalidEvents(relayUrl, rejected.map(r => r.reason));
+        }
+        
         // Update health metrics
         config.health.lastSuccess = Date.now();
         config.health.failureCount = 0;
         config.health.averageLatencyMs = 
           (config.health.averageLatencyMs * 0.9) + (latency * 0.1); // Exponential moving average
         
-        events.push(...batch);
+        events.push(...valid);
         
         // Track request for rate limiting
         this.trackRequest(relayUrl);
         
-        console.log(`Fetched ${batch.length} events from ${relayUrl} (${latency}ms)`);
+        await this.report(relayUrl, {
+          ok: true,
+          latencyMs: latency,
+          events: valid.length,
+          invalid: rejected.length,
+          unique: this.countFirstDeliveries(valid),
+        });
+        
+        console.log(`Fetched ${valid.length} events from ${relayUrl} (${latency}ms)`);
         
       } catch (error) {
         const config = this.configs.get(relayUrl)!;
         config.health.failureCount++;
         
         console.error(`Error fetching from ${relayUrl}:`, error);
+        await this.report(relayUrl, { ok: false, error: (error as Error).message });
         
         // Exponential backoff on repeated failures
         if (config.health.failureCount > 3) {
@@ -191,6 +204,76 @@ export class RelayManager {
     return [...new Map(events.map(e => [e.id, e])).values()];
   }
   
+  /**
+   * Count events a relay served with a bad id or signature, demoting the
+   * relay once it has served DEMOTE_AFTER_INVALID of them
+   */
+  recordInvalidEvents(relayUrl: string, reasons: string[]): void {
+    if (!this.configs.has(relayUrl)) {
+      this.configs.set(relayUrl, this.createDefaultConfig(relayUrl));
+    }
+    const config = this.configs.get(relayUrl)!;
+    config.health.invalidEvents += reasons.length;
+    
+    const counts: Record<string, number> = {};
+    for (const reason of reasons) counts[reason] = (counts[reason] || 0) + 1;
+    console.warn(`Rejected ${reasons.length} invalid events from ${relayUrl}:`, counts);
+    
+    const strikes = (this.strikes.get(relayUrl) || 0) + reasons.length;
+    if (strikes < DEMOTE_AFTER_INVALID) {
+      this.strikes.set(relayUrl, strikes);
+      return;
+    }
+    
+    this.strikes.set(relayUrl, 0);
+    config.health.demotions++;
+    config.health.demotedUntil = Date.now() + DEMOTION_MINUTES * 60 * 1000;
+    console.warn(
+      `Demoted ${relayUrl} until ${new Date(config.health.demotedUntil).toISOString()} ` +
+      `(${config.health.invalidEvents} invalid events served)`
+    );
+    
+    this.registry?.demote(relayUrl, new Date(config.health.demotedUntil)).catch(error => {
+      console.error(`Failed to record demotion of ${relayUrl}:`, error);
+    });
+  }
+  
+  /**
+   * Count the events no relay delivered earlier, remembering their ids
+   */
+  private countFirstDeliveries(events: NostrEvent[]): number {
+    let first = 0;
+    for (const event of events) {
+      if (this.delivered.has(event.id)) continue;
+      first++;
+      this.delivered.add(event.id);
+      if (this.delivered.size > DELIVERED_MEMORY) {
+        this.delivered.delete(this.delivered.values().next().value!);
+      }
+    }
+    return first;
+  }
+  
+  /**
+   * Persist a request outcome; a registry outage must not stop the crawl
+   */
+  private async report(relayUrl: string, observation: RelayObservation): Promise<void> {
+    if (!this.registry) return;
+    try {
+      await this.registry.recordObservation(relayUrl, observation);
+    } catch (error) {
+      console.error(`Failed to record relay health for ${relayUrl}:`, error);
+    }
+  }
+  
+  /**
+   * Whether a relay is currently demoted for serving invalid events
+   */
+  isDemoted(relayUrl: string): boolean {
+    const config = this.configs.get(relayUrl);
+    return !!config && config.health.demotedUntil > Date.now();
+  }
+  
   /**
    * Track request timestamp for rate limiting
    */
@@ -237,19 +320,49 @@ export class RelayManager {
   }
   
   /**
-   * Select best relays for a given filter
+   * Start tracking relays that were not configured up front, such as an
+   * author's NIP-65 write relays
    */
-  selectRelays(filter: NostrFilter, maxRelays: number = 3): string[] {
-    const allRelays = Array.from(this.configs.entries());
+  addRelays(relayUrls: string[]): void {
+    for (const url of relayUrls) {
+      if (!this.configs.has(url)) {
+        this.configs.set(url, this.createDefaultConfig(url));
+      }
+    }
+  }
+  
+  /**
+   * Order relays by health, best first. Demoted relays and relays that
+   * require auth or payment are only kept when no other relay is left.
+   */
+  rankRelays(relayUrls: string[]): string[] {
+    this.addRelays(relayUrls);
+    const candidates = relayUrls.map(url => [url, this.configs.get(url)!] as [string, RelayConfig]);
     
-    // Sort by health score (lower failure count, lower latency = better)
-    allRelays.sort(([, a], [, b]) => {
-      const scoreA = a.health.failureCount * 1000 + a.health.averageLatencyMs;
-      const scoreB = b.health.failureCount * 1000 + b.health.averageLatencyMs;
-      return scoreA - scoreB;
-    });
+    const trusted = candidates.filter(([url, config]) =>
+      !this.isDemoted(url) && !config.policies.requireAuth && !config.policies.requirePayment);
+    const ranked = trusted.length > 0 ? trusted : candidates;
+    
+    // Fewer failures and invalid events, lower latency = better
+    const score = (config: RelayConfig) =>
+      (config.health.failureCount + config.health.invalidEvents) * 1000 + config.health.averageLatencyMs;
+    ranked.sort(([, a], [, b]) => score(a) - score(b));
     
-    return allRelays.slice(0, maxRelays).map(([url]) => url);
+    return ranked.map(([url]) => url);
+  }
+  
+  /**
+   * Every relay this manager tracks
+   */
+  relayUrls(): string[] {
+    return Array.from(this.configs.keys());
+  }
+  
+  /**
+   * Select best relays for a given filter
+   */
+  selectRelays(filter: NostrFilter, maxRelays: number = 3): string[] {
+    return this.rankRelays(Array.from(this.configs.keys())).slice(0, maxRelays);
   }
   
   /**
@@ -265,6 +378,7 @@ export class RelayManager {
       
       stats[url] = {
         health: config.health,
+        demoted: this.isDemoted(url),
         currentRate: recentRequests.length,
         maxRate: config.rateLimit.maxEventsPerSecond,
       };
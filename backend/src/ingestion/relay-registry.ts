@@ -0,0 +1,347 @@
+/**
+ * Relay Registry
+ * Every relay the pipelines know about, persisted with its NIP-11 document
+ * and the health observed while crawling it. Pipelines pick relays by score.
+ */
+
+import fetch from 'node-fetch';
+import { Pool } from 'pg';
+import { normalizeRelayUrl } from './relay-discovery';
+
+// Relays a pipeline picks when it is not told how many
+const PICK_COUNT = Number(process.env.NOSTR_RELAY_PICK_COUNT || 5);
+const NIP11_TIMEOUT_MS = Number(process.env.NOSTR_RELAY_NIP11_TIMEOUT_MS || 10_000);
+
+export type RelaySource = 'seed' | 'manual' | 'observed' | 'event_content' | 'relay_tag' | 'nip65_list' | 'nip65_indexer';
+
+/**
+ * NIP-11 relay information document
+ */
+export interface RelayInfo {
+  name?: string;
+  description?: string;
+  pubkey?: string;
+  contact?: string;
+  supported_nips?: number[];
+  software?: string;
+  version?: string;
+  limitation?: {
+    max_message_length?: number;
+    max_subscriptions?: number;
+    max_filters?: number;
+    max_limit?: number;
+    max_subid_length?: number;
+    max_event_tags?: number;
+    max_content_length?: number;
+    min_pow_difficulty?: number;
+    auth_required?: boolean;
+    payment_required?: boolean;
+  };
+}
+
+export interface RelayRecord {
+  url: string;
+  enabled: boolean;
+  source: RelaySource;
+  discoveredFrom: string | null;
+  nip11: RelayInfo | null;
+  nip11FetchedAt: Date | null;
+  maxLimit: number | null;
+  authRequired: boolean;
+  paymentRequired: boolean;
+  requests: number;
+  failures: number;
+  avgLatencyMs: number | null;
+  eventsReceived: number;
+  invalidEvents: number;
+  uniqueEvents: number;
+  errorRate: number | null;       // failures / requests
+  invalidRate: number | null;     // invalid / (valid + invalid) events
+  uniqueYield: number | null;     // unique / valid events
+  score: number;
+  demotedUntil: Date | null;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What one request to a relay showed. Leave `ok` out to report events
+ * without counting a request, as the firehose does for its subscriptions.
+ */
+export interface RelayObservation {
+  ok?: boolean;
+  latencyMs?: number;
+  error?: string;
+  events?: number;      // Valid events received
+  invalid?: number;     // Events rejected for a bad id or signature
+  unique?: number;      // Valid events no other relay delivered first
+}
+
+/**
+ * The part of the registry the relay manager and firehose report to
+ */
+export type RelayObservationStore = Pick<PgRelayRegistry, 'recordObservation' | 'saveRelayInfo' | 'demote'>;
+
+type RelayStats = Pick<RelayRecord,
+  'requests' | 'failures' | 'avgLatencyMs' | 'eventsReceived' | 'invalidEvents' | 'uniqueEvents'>;
+
+/**
+ * Score in [0, 1], higher is better. Reliability and valid events dominate;
+ * latency and unique-event yield break ties between healthy relays. Rates are
+ * smoothed so a relay with no history scores in the middle (0.375).
+ */
+export function relayScore(stats: RelayStats): number {
+  const reliability = (stats.requests - stats.failures + 1) / (stats.requests + 2);
+  const validity = (stats.eventsReceived + 1) / (stats.eventsReceived + stats.invalidEvents + 1);
+  const speed = stats.avgLatencyMs === null ? 0.5 : 1000 / (1000 + stats.avgLatencyMs);
+  const novelty = (stats.uniqueEvents + 1) / (stats.eventsReceived + 2);
+
+  return reliability * validity ** 4 * (0.5 + 0.3 * speed + 0.2 * novelty);
+}
+
+/**
+ * Fetch a relay's NIP-11 information document
+ */
+export async function fetchRelayInfo(url: string): Promise<RelayInfo> {
+  const httpUrl = url.replace('wss://', 'https://').replace('ws://', 'http://');
+  const response = await fetch(httpUrl, {
+    headers: { 'Accept': 'application/nostr+json' },
+    timeout: NIP11_TIMEOUT_MS,
+  });
+
+  if (!response.ok) {
+    throw new Error(`NIP-11 request failed: ${response.status}`);
+  }
+  return await response.json() as RelayInfo;
+}
+
+function toRecord(row: any): RelayRecord {
+  const stats: RelayStats = {
+    requests: Number(row.requests),
+    failures: Number(row.failures),
+    avgLatencyMs: row.avg_latency_ms === null ? null : Number(row.avg_latency_ms),
+    eventsReceived: Number(row.events_received),
+    invalidEvents: Number(row.invalid_events),
+    uniqueEvents: Number(row.unique_events)
+  };
+  const seen = stats.eventsReceived + stats.invalidEvents;
+
+  return {
+    url: row.url,
+    enabled: row.enabled,
+    source: row.source,
+    discoveredFrom: row.discovered_from,
+    nip11: row.nip11,
+    nip11FetchedAt: row.nip11_fetched_at,
+    maxLimit: row.max_limit,
+    authRequired: row.auth_required,
+    paymentRequired: row.payment_required,
+    ...stats,
+    errorRate: stats.requests > 0 ? stats.failures / stats.requests : null,
+    invalidRate: seen > 0 ? stats.invalidEvents / seen : null,
+    uniqueYield: stats.eventsReceived > 0 ? stats.uniqueEvents / stats.eventsReceived : null,
+    score: Number(row.score),
+    demotedUntil: row.demoted_until,
+    lastSuccessAt: row.last_success_at,
+    lastFailureAt: row.last_failure_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class PgRelayRegistry {
+  private pool: Pool;
+
+  constructor(pool: Pool) {
+    this.pool = pool;
+  }
+
+  /**
+   * Relays, best score first
+   */
+  async list(options: { enabled?: boolean; limit?: number } = {}): Promise<RelayRecord[]> {
+    const result = await this.pool.query(`
+      SELECT * FROM nostr_relays
+      WHERE removed_at IS NULL AND ($1::boolean IS NULL OR enabled = $1)
+      ORDER BY score DESC, url
+      LIMIT $2
+    `, [options.enabled ?? null, options.limit ?? null]);
+    return result.rows.map(toRecord);
+  }
+
+  async get(url: string): Promise<RelayRecord | null> {
+    const result = await this.pool.query('SELECT * FROM nostr_relays WHERE url = $1 AND removed_at IS NULL', [url]);
+    return result.rows.length > 0 ? toRecord(result.rows[0]) : null;
+  }
+
+  /**
+   * Register a relay. Returns null when the URL is not a public relay URL or
+   * the relay was removed, and the stored record unchanged when the relay is
+   * already registered. Only a manual registration brings back a removed relay.
+   */
+  async add(
+    url: string,
+    options: { source?: RelaySource; discoveredFrom?: string; enabled?: boolean } = {}
+  ): Promise<{ relay: RelayRecord; created: boolean } | null> {
+    const normalized = normalizeRelayUrl(url);
+    if (!normalized) return null;
+
+    const inserted = await this.pool.query(`
+      INSERT INTO nostr_relays (url, source, discovered_from, enabled)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (url) DO UPDATE SET
+        source = EXCLUDED.source,
+        discovered_from = EXCLUDED.discovered_from,
+        enabled = EXCLUDED.enabled,
+        removed_at = NULL,
+        updated_at = NOW()
+      WHERE nostr_relays.removed_at IS NOT NULL AND EXCLUDED.source = 'manual'
+      RETURNING *
+    `, [normalized, options.source || 'manual', options.discoveredFrom || null, options.enabled ?? true]);
+    if (inserted.rows.length > 0) {
+      return { relay: toRecord(inserted.rows[0]), created: true };
+    }
+
+    const existing = await this.get(normalized);
+    return existing ? { relay: existing, created: false } : null;
+  }
+
+  async update(url: string, changes: { enabled?: boolean }): Promise<RelayRecord | null> {
+    const result = await this.pool.query(`
+      UPDATE nostr_relays SET enabled = COALESCE($2, enabled), updated_at = NOW()
+      WHERE url = $1 AND removed_at IS NULL
+      RETURNING *
+    `, [url, changes.enabled ?? null]);
+    return result.rows.length > 0 ? toRecord(result.rows[0]) : null;
+  }
+
+  /**
+   * Remove a relay. The row is kept, hidden, so that pipelines still
+   * connected to the relay do not register it again as observed.
+   */
+  async remove(url: string): Promise<boolean> {
+    const result = await this.pool.query(`
+      UPDATE nostr_relays SET removed_at = NOW(), enabled = false, updated_at = NOW()
+      WHERE url = $1 AND removed_at IS NULL
+    `, [url]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * The best-scoring enabled relays the crawler can use: not demoted, and
+   * not requiring auth or payment. Relay-list indexers only serve metadata,
+   * so they are left out.
+   */
+  async pickRelays(count: number = PICK_COUNT, exclude: string[] = []): Promise<string[]> {
+    const urls = await this.usableRelays(`source <> 'nip65_indexer' AND url <> ALL($2)`, [count, exclude]);
+    if (urls.length === 0 && exclude.length === 0) {
+      throw new Error('No usable relays in the registry; add one with POST /api/nostr/relays');
+    }
+    return urls;
+  }
+
+  /**
+   * The best-scoring usable relays that collect everyone's NIP-65 relay lists
+   */
+  async pickRelayListIndexers(count: number = PICK_COUNT): Promise<string[]> {
+    return this.usableRelays(`source = 'nip65_indexer'`, [count]);
+  }
+
+  private async usableRelays(condition: string, params: [number, ...any[]]): Promise<string[]> {
+    const result = await this.pool.query(`
+      SELECT url FROM nostr_relays
+      WHERE enabled AND removed_at IS NULL AND NOT auth_required AND NOT payment_required
+        AND (demoted_until IS NULL OR demoted_until < NOW())
+        AND ${condition}
+      ORDER BY score DESC, url
+      LIMIT $1
+    `, params);
+    return result.rows.map(row => row.url);
+  }
+
+  /**
+   * Store a relay's NIP-11 document and the limitations the crawler honors
+   */
+  async saveRelayInfo(url: string, info: RelayInfo): Promise<RelayRecord> {
+    const result = await this.pool.query(`
+      INSERT INTO nostr_relays (url, source, nip11, nip11_fetched_at, max_limit, auth_required, payment_required)
+      VALUES ($1, 'observed', $2, NOW(), $3, $4, $5)
+      ON CONFLICT (url) DO UPDATE SET
+        nip11 = EXCLUDED.nip11,
+        nip11_fetched_at = NOW(),
+        max_limit = EXCLUDED.max_limit,
+        auth_required = EXCLUDED.auth_required,
+        payment_required = EXCLUDED.payment_required,
+        updated_at = NOW()
+      RETURNING *
+    `, [
+      url,
+      JSON.stringify(info),
+      info.limitation?.max_limit || null,
+      info.limitation?.auth_required || false,
+      info.limitation?.payment_required || false
+    ]);
+    return toRecord(result.rows[0]);
+  }
+
+  /**
+   * Fold one observation into a relay's counters and rescore it. Relays
+   * the registry has not seen yet are added as observed; removed relays
+   * stay removed and their counters untouched.
+   */
+  async recordObservation(url: string, observation: RelayObservation): Promise<void> {
+    const { ok, error } = observation;
+    const latency = ok && observation.latencyMs !== undefined ? observation.latencyMs : null;
+
+    await this.pool.query(
+      `INSERT INTO nostr_relays (url, source) VALUES ($1, 'observed') ON CONFLICT (url) DO NOTHING`,
+      [url]
+    );
+    const result = await this.pool.query(`
+      UPDATE nostr_relays SET
+        requests = requests + $2,
+        failures = failures + $3,
+        avg_latency_ms = CASE
+          WHEN $4::float8 IS NULL THEN avg_latency_ms
+          WHEN avg_latency_ms IS NULL THEN $4::float8
+          ELSE avg_latency_ms * 0.9 + $4::float8 * 0.1
+        END,
+        events_received = events_received + $5,
+        invalid_events = invalid_events + $6,
+        unique_events = unique_events + $7,
+        last_success_at = CASE WHEN $8::boolean IS TRUE THEN NOW() ELSE last_success_at END,
+        last_failure_at = CASE WHEN $8::boolean IS FALSE THEN NOW() ELSE last_failure_at END,
+        last_error = CASE WHEN $8::boolean IS FALSE THEN $9 ELSE last_error END,
+        updated_at = NOW()
+      WHERE url = $1 AND removed_at IS NULL
+      RETURNING *
+    `, [
+      url,
+      ok === undefined ? 0 : 1,
+      ok === false ? 1 : 0,
+      latency,
+      observation.events || 0,
+      observation.invalid || 0,
+      observation.unique || 0,
+      ok ?? null,
+      error || null
+    ]);
+    if (result.rows.length === 0) return; // Removed
+
+    await this.pool.query('UPDATE nostr_relays SET score = $2 WHERE url = $1', [url, relayScore(toRecord(result.rows[0]))]);
+  }
+
+  /**
+   * Keep a relay out of pickRelays until the given time
+   */
+  async demote(url: string, until: Date): Promise<void> {
+    await this.pool.query(`
+      INSERT INTO nostr_relays (url, source, demoted_until) VALUES ($1, 'observed', $2)
+      ON CONFLICT (url) DO UPDATE SET demoted_until = EXCLUDED.demoted_until, updated_at = NOW()
+    `, [url, until]);
+  }
+}
@@ -11,19 +11,11 @@
 
 import { Pool } from 'pg';
 import { AdaptiveIngestionPipeline } from './adaptive-pipeline';
+import { PgRelayRegistry } from './relay-registry';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-// Start with a small set of well-known relays
-// The crawler will discover many more as it runs
-const INITIAL_RELAYS = [
-  'wss://relay.damus.io',
-  'wss://nos.lol',
-  'wss://nostr.mom',
-  'wss://relay.nostr.band',
-];
-
 async function main() {
   const db = new Pool({
     connectionString: process.env.DATABASE_URL,
@@ -63,10 +55,13 @@ async function main() {
     console.log('ADAPTIVE NOSTR CRAWLER');
     console.log('Web-style discovery: Find relays → Crawl relays → Repeat');
     console.log('═'.repeat(60));
-    console.log(`Starting with ${INITIAL_RELAYS.length} seed relays`);
+    // Start from the best-scoring relays in the registry; the crawler
+    // registers the ones it discovers as it runs
+    const seedRelays = await new PgRelayRegistry(db).pickRelays();
+    console.log(`Starting with ${seedRelays.length} seed relays`);
     console.log('Will discover and crawl new relays as they appear in events\n');
     
-    const pipeline = new AdaptiveIngestionPipeline(INITIAL_RELAYS, db);
+    const pipeline = new AdaptiveIngestionPipeline(seedRelays, db);
     await pipeline.initialize();
     
     const result = await pipeline.fetchAllHistory();
@@ -9,18 +9,11 @@
 
 import { Pool } from 'pg';
 import { AuthorCrawler } from './author-crawler';
+import { PgRelayRegistry } from './relay-registry';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const RELAYS = [
-  'wss://relay.damus.io',
-  'wss://nos.lol',
-  'wss://nostr.mom',
-  'wss://relay.primal.net',
-  'wss://nostr.wine',
-];
-
 async function main() {
   const db = new Pool({
     connectionString: process.env.DATABASE_URL,
@@ -53,7 +46,9 @@ async function main() {
     
     console.log('✓ Database schema ready\n');
     
-    const crawler = new AuthorCrawler(RELAYS, db);
+    const relays = await new PgRelayRegistry(db).pickRelays();
+    console.log(`Using relays: ${relays.join(', ')}`);
+    const crawler = new AuthorCrawler(relays, db);
     await crawler.initialize();
     
     const result = await crawler.crawlPopularAuthors();
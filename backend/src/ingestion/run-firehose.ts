@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+// Polyfill for nostr-tools in Node.js environment
+(global as any).window = {
+  printer: {
+    maybe: (...args: any[]) => {
+      // Silently ignore printer calls in Node.js
+    }
+  }
+};
+
+import express from 'express';
+import { Pool } from 'pg';
+import dotenv from 'dotenv';
+import { NostrFirehose } from './firehose';
+import { createFirehoseRoutes } from './firehose-routes';
+
+dotenv.config();
+
+// Status and metrics are served on this port; keep it off the public network
+const STATUS_PORT = Number(process.env.NOSTR_FIREHOSE_PORT || 3002);
+
+async function main() {
+  const db = new Pool({
+    connectionString: process.env.DATABASE_URL,
+  });
+
+  await db.query('SELECT NOW()');
+  console.log('✓ Database connected');
+
+  const firehose = new NostrFirehose(db);
+  await firehose.start();
+
+  const app = express();
+  app.use('/firehose', createFirehoseRoutes(firehose));
+  const server = app.listen(STATUS_PORT, () => {
+    console.log(`   GET  http://localhost:${STATUS_PORT}/firehose - Status`);
+    console.log(`   GET  http://localhost:${STATUS_PORT}/firehose/metrics - Prometheus metrics`);
+  });
+
+  const shutdown = async (signal: string) => {
+    console.log(`\nReceived ${signal}, writing queued events and shutting down...`);
+    server.close();
+    await firehose.stop();
+    await db.end();
+    process.exit(0);
+  };
+
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch(error => {
+  console.error('Fatal error:', error);
+  process.exit(1);
+});
@@ -11,17 +11,11 @@
 
 import { Pool } from 'pg';
 import { PaginatedIngestionPipeline } from './paginated-pipeline';
+import { PgRelayRegistry } from './relay-registry';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const RELAYS = [
-  'wss://relay.damus.io',
-  'wss://nos.lol',
-  'wss://relay.nostr.band',
-  'wss://nostr.mom',
-];
-
 async function main() {
   // Connect to database
   const db = new Pool({
@@ -61,7 +55,9 @@ async function main() {
     console.log('✓ Database schema ready');
     
     // Initialize pipeline
-    const pipeline = new PaginatedIngestionPipeline(RELAYS, db);
+    const relays = await new PgRelayRegistry(db).pickRelays();
+    console.log(`Using relays: ${relays.join(', ')}`);
+    const pipeline = new PaginatedIngestionPipeline(relays, db);
     await pipeline.initialize();
     
     // Run full historical crawl
@@ -11,17 +11,11 @@
 
 import { Pool } from 'pg';
 import { IngestionPipeline, STRATEGIES } from './pipeline';
+import { PgRelayRegistry } from './relay-registry';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
-const RELAYS = [
-  'wss://relay.damus.io',
-  'wss://nos.lol',
-  'wss://relay.nostr.band',
-  'wss://nostr.mom',
-];
-
 async function main() {
   const args = process.argv.slice(2);
   const strategyName = args[0]?.toUpperCase() || 'RECENT_QUALITY';
@@ -73,7 +67,9 @@ async function main() {
     console.log('✓ Database schema ready');
     
     // Initialize pipeline
-    const pipeline = new IngestionPipeline(RELAYS, db);
+    const relays = await new PgRelayRegistry(db).pickRelays();
+    console.log(`Using relays: ${relays.join(', ')}`);
+    const pipeline = new IngestionPipeline(relays, db);
     await pipeline.initialize();
     
     // Run ingestion
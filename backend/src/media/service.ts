@@ -1,5 +1,7 @@
 import { Pool } from 'pg';
+import { getActiveEmbeddingSpace, vectorDistanceSql, vectorScopeSql } from '../embeddings/space';
 import { MediaRecommendationRequest, MediaSearchRequest, MediaType } from './types';
+import { textMatchSql, textRankSql } from '../search/text-search';
 
 const DOC_TYPE_MAP: Record<MediaType, string> = {
   podcast: 'podcast_transcript_chunk',
@@ -100,20 +102,20 @@ export class MediaService {
     if (mode === 'vector') {
       params = [vectorStr, docTypes, limit];
       queryText = `
-        SELECT id, title, content, url, attributes, document_type, 1 - (embedding <=> $1::vector) as score
+        SELECT id, title, content, url, attributes, document_type, 1 - ${vectorDistanceSql('$1')} as score
         FROM documents
-        WHERE document_type = ANY($2)
-        ORDER BY embedding <=> $1::vector
+        WHERE document_type = ANY($2) AND ${vectorScopeSql()}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $3
       `;
     } else if (mode === 'text') {
       params = [query, docTypes, limit];
       queryText = `
         SELECT id, title, content, url, attributes, document_type,
-          ts_rank(to_tsvector('english', content || ' ' || title), plainto_tsquery('english', $1)) as score
+          ${textRankSql('$1', { parser: 'plainto_tsquery' })} as score
         FROM documents
         WHERE document_type = ANY($2)
-          AND to_tsvector('english', content || ' ' || title) @@ plainto_tsquery('english', $1)
+          AND ${textMatchSql('$1', { parser: 'plainto_tsquery' })}
         ORDER BY score DESC
         LIMIT $3
       `;
@@ -121,12 +123,12 @@ export class MediaService {
       params = [vectorStr, query, docTypes, limit];
       queryText = `
         WITH vector_scores AS (
-          SELECT id, 1 - (embedding <=> $1::vector) as vscore
+          SELECT id, 1 - ${vectorDistanceSql('$1')} as vscore
           FROM documents
-          WHERE document_type = ANY($3)
+          WHERE document_type = ANY($3) AND ${vectorScopeSql()}
         ),
         text_scores AS (
-          SELECT id, ts_rank(to_tsvector('english', content || ' ' || title), plainto_tsquery('english', $2)) as tscore
+          SELECT id, ${textRankSql('$2', { parser: 'plainto_tsquery' })} as tscore
           FROM documents
           WHERE document_type = ANY($3)
         )
@@ -171,10 +173,10 @@ export class MediaService {
     const docsResult = await this.pool.query(`
       WITH vector_docs AS (
         SELECT id, title, content, url, attributes, document_type,
-               1 - (embedding <=> $1::vector) as vscore
+               1 - ${vectorDistanceSql('$1')} as vscore
         FROM documents
-        WHERE document_type = ANY($4)
-        ORDER BY embedding <=> $1::vector
+        WHERE document_type = ANY($4) AND ${vectorScopeSql()}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $5
       ),
       tag_matches AS (
@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { getActiveEmbeddingSpace, vectorDistanceSql, vectorScopeSql } from '../embeddings/space';
 import { NLPProcessor } from '../nlp';
 import { chunkTranscript } from '../podcasts/utils';
 import { parseSubtitleFromUrl } from '../tv/subtitles';
@@ -19,6 +20,7 @@ import { promisify } from 'util';
 import fs from 'fs/promises';
 import os from 'os';
 import path from 'path';
+import { textMatchSql, textRankSql } from '../search/text-search';
 
 const execFileAsync = promisify(execFile);
 
@@ -348,10 +350,10 @@ export class MovieService {
       const whereClause = buildWhere(1);
       params = [vectorStr, ...filters.map(f => f.value), limit];
       queryText = `
-        SELECT id, title, content, url, attributes, 1 - (embedding <=> $1::vector) as score
+        SELECT id, title, content, url, attributes, 1 - ${vectorDistanceSql('$1')} as score
         FROM documents
-        ${whereClause}
-        ORDER BY embedding <=> $1::vector
+        ${whereClause} AND ${vectorScopeSql()}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $${params.length}
       `;
     } else if (mode === 'text') {
@@ -359,10 +361,10 @@ export class MovieService {
       params = [query, ...filters.map(f => f.value), limit];
       queryText = `
         SELECT id, title, content, url, attributes,
-          ts_rank(to_tsvector('english', content || ' ' || title), plainto_tsquery('english', $1)) as score
+          ${textRankSql('$1', { parser: 'plainto_tsquery' })} as score
         FROM documents
         ${whereClause}
-          AND to_tsvector('english', content || ' ' || title) @@ plainto_tsquery('english', $1)
+          AND ${textMatchSql('$1', { parser: 'plainto_tsquery' })}
         ORDER BY score DESC
         LIMIT $${params.length}
       `;
@@ -371,12 +373,12 @@ export class MovieService {
       params = [vectorStr, query, ...filters.map(f => f.value), limit];
       queryText = `
         WITH vector_scores AS (
-          SELECT id, 1 - (embedding <=> $1::vector) as vscore
+          SELECT id, 1 - ${vectorDistanceSql('$1')} as vscore
           FROM documents
-          ${whereClause}
+          ${whereClause} AND ${vectorScopeSql()}
         ),
         text_scores AS (
-          SELECT id, ts_rank(to_tsvector('english', content || ' ' || title), plainto_tsquery('english', $2)) as tscore
+          SELECT id, ${textRankSql('$2', { parser: 'plainto_tsquery' })} as tscore
           FROM documents
           ${whereClause}
         )
@@ -420,10 +422,10 @@ export class MovieService {
     const docsResult = await this.pool.query(`
       WITH vector_docs AS (
         SELECT id, title, content, url, attributes,
-               1 - (embedding <=> $1::vector) as vscore
+               1 - ${vectorDistanceSql('$1')} as vscore
         FROM documents
-        WHERE document_type = 'movie_transcript_chunk'
-        ORDER BY embedding <=> $1::vector
+        WHERE document_type = 'movie_transcript_chunk' AND ${vectorScopeSql()}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $4
       ),
       tag_matches AS (
@@ -780,10 +782,10 @@ export class MovieService {
 
       const result = await this.pool.query(`
         INSERT INTO documents (
-          title, content, url, document_type, attributes, embedding, created_at, updated_at
-        ) VALUES ($1, $2, $3, 'movie_transcript_chunk', $4::jsonb, $5::vector, NOW(), NOW())
+          title, content, url, document_type, attributes, embedding, embedding_model, created_at, updated_at
+        ) VALUES ($1, $2, $3, 'movie_transcript_chunk', $4::jsonb, $5::vector, $6, NOW(), NOW())
         RETURNING id
-      `, [title, chunk.text, null, JSON.stringify(attributes), vectorStr]);
+      `, [title, chunk.text, null, JSON.stringify(attributes), vectorStr, getActiveEmbeddingSpace().modelId]);
 
       const documentId = result.rows[0].id;
       await this.storeMetadata(documentId, movieRecord, metadata, releaseYear, consensus.overallConfidence);
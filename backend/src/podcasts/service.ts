@@ -1,5 +1,6 @@
 import Parser from 'rss-parser';
 import { Pool } from 'pg';
+import { getActiveEmbeddingSpace, vectorDistanceSql, vectorScopeSql } from '../embeddings/space';
 import { v4 as uuidv4 } from 'uuid';
 import { NLPProcessor } from '../nlp';
 import {
@@ -355,10 +356,10 @@ export class PodcastService {
     const docsResult = await this.pool.query(`
       WITH vector_docs AS (
         SELECT id, title, content, url, attributes,
-               1 - (embedding <=> $1::vector) as vscore
+               1 - ${vectorDistanceSql('$1')} as vscore
         FROM documents
-        WHERE document_type = 'podcast_transcript_chunk'
-        ORDER BY embedding <=> $1::vector
+        WHERE document_type = 'podcast_transcript_chunk' AND ${vectorScopeSql()}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $4
       ),
       tag_matches AS (
@@ -682,10 +683,10 @@ export class PodcastService {
 
       const result = await this.pool.query(`
         INSERT INTO documents (
-          title, content, url, document_type, attributes, embedding, created_at, updated_at
-        ) VALUES ($1, $2, $3, 'podcast_transcript_chunk', $4::jsonb, $5::vector, NOW(), NOW())
+          title, content, url, document_type, attributes, embedding, embedding_model, created_at, updated_at
+        ) VALUES ($1, $2, $3, 'podcast_transcript_chunk', $4::jsonb, $5::vector, $6, NOW(), NOW())
         RETURNING id
-      `, [title, chunk.text, episode.episode_url, JSON.stringify(attributes), vectorStr]);
+      `, [title, chunk.text, episode.episode_url, JSON.stringify(attributes), vectorStr, getActiveEmbeddingSpace().modelId]);
 
       const documentId = result.rows[0].id;
 
@@ -7,12 +7,18 @@ import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
 import { getNostrSearchFacets, searchNostrEvents, NostrSearchFilters } from '../templates/nostr/search';
 import { NOSTR_KIND_REGISTRY, getKindsByCategory } from '../templates/nostr/kinds';
+import { liveDocumentSql } from '../search/filters';
+import { PgOutboxStore } from '../ingestion/outbox';
+import { PgRelayRegistry, fetchRelayInfo } from '../ingestion/relay-registry';
+import { normalizeRelayUrl } from '../ingestion/relay-discovery';
 
 export function createNostrRoutes(
   pool: Pool,
   generateEmbedding: (text: string) => Promise<number[]>
 ): Router {
   const router = Router();
+  const outbox = new PgOutboxStore(pool);
+  const relays = new PgRelayRegistry(pool);
 
   /**
    * Get Nostr event kinds registry
@@ -111,14 +117,14 @@ export function createNostrRoutes(
       
       // Try as event ID first
       let result = await pool.query(
-        `SELECT * FROM documents WHERE attributes->>'nostr' = 'true' AND id = $1`,
+        `SELECT * FROM documents WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()} AND id = $1`,
         [ref]
       );
 
       // Try as external ID (addressable reference)
       if (result.rows.length === 0) {
         result = await pool.query(
-          `SELECT * FROM documents WHERE attributes->>'nostr' = 'true' AND external_id = $1`,
+          `SELECT * FROM documents WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()} AND external_id = $1`,
           [ref]
         );
       }
@@ -134,6 +140,43 @@ export function createNostrRoutes(
     }
   });
 
+  /**
+   * Get the replaced versions of a replaceable or addressable event
+   * (address: kind:pubkey:d-tag)
+   */
+  router.get('/events/:address/versions', async (req: Request, res: Response) => {
+    try {
+      const { address } = req.params;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+      const current = await pool.query(
+        `SELECT event_id, event_created_at, deleted_at FROM nostr_events WHERE address = $1`,
+        [address]
+      );
+      const versions = await pool.query(
+        `SELECT event_id, pubkey, kind, event_created_at, title, content, superseded_by, superseded_at
+         FROM nostr_event_versions
+         WHERE address = $1
+         ORDER BY event_created_at DESC
+         LIMIT $2`,
+        [address, limit]
+      );
+
+      if (current.rows.length === 0 && versions.rows.length === 0) {
+        return res.status(404).json({ error: 'No versions found' });
+      }
+
+      res.json({
+        address,
+        current: current.rows[0] || null,
+        versions: versions.rows,
+      });
+    } catch (error) {
+      console.error('Nostr versions fetch error:', error);
+      res.status(500).json({ error: 'Failed to fetch event versions' });
+    }
+  });
+
   /**
    * Get events by author
    */
@@ -144,7 +187,7 @@ export function createNostrRoutes(
 
       const result = await pool.query(
         `SELECT * FROM documents 
-         WHERE attributes->>'nostr' = 'true' 
+         WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
            AND attributes->>'pubkey' = $1
          ORDER BY (attributes->'created_at')::int DESC
          LIMIT $2`,
@@ -172,7 +215,7 @@ export function createNostrRoutes(
 
       const result = await pool.query(
         `SELECT * FROM documents 
-         WHERE attributes->>'nostr' = 'true' 
+         WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
            AND attributes->'tags'->'topic' ? $1
          ORDER BY (attributes->'created_at')::int DESC
          LIMIT $2`,
@@ -190,13 +233,142 @@ export function createNostrRoutes(
     }
   });
 
+  /**
+   * Which relays the author crawler found each author's events on, and the
+   * fewest relays that still cover every crawled author
+   */
+  router.get('/relays/coverage', async (_req: Request, res: Response) => {
+    try {
+      res.json(await outbox.coverageReport());
+    } catch (error) {
+      console.error('Nostr relay coverage error:', error);
+      res.status(500).json({ error: 'Failed to fetch relay coverage' });
+    }
+  });
+
+  /**
+   * List registered relays, best score first
+   */
+  router.get('/relays', async (req: Request, res: Response) => {
+    try {
+      const enabled = req.query.enabled === undefined ? undefined : req.query.enabled === 'true';
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+      const results = await relays.list({ enabled, limit });
+
+      res.json({ count: results.length, relays: results });
+    } catch (error) {
+      console.error('Nostr relay list error:', error);
+      res.status(500).json({ error: 'Failed to list relays' });
+    }
+  });
+
+  /**
+   * Get a relay (url-encoded, e.g. wss%3A%2F%2Fnos.lol)
+   */
+  router.get('/relays/:url', async (req: Request, res: Response) => {
+    try {
+      const relay = await relays.get(normalizeRelayUrl(req.params.url) || req.params.url);
+      if (!relay) {
+        return res.status(404).json({ error: 'Relay not found' });
+      }
+      res.json(relay);
+    } catch (error) {
+      console.error('Nostr relay fetch error:', error);
+      res.status(500).json({ error: 'Failed to fetch relay' });
+    }
+  });
+
+  /**
+   * Register a relay
+   */
+  router.post('/relays', async (req: Request, res: Response) => {
+    try {
+      const { url, enabled } = req.body || {};
+      if (typeof url !== 'string') {
+        return res.status(400).json({ error: 'url is required' });
+      }
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'enabled must be a boolean' });
+      }
+
+      const result = await relays.add(url, { source: 'manual', enabled });
+      if (!result) {
+        return res.status(400).json({ error: 'url must be a public ws:// or wss:// relay URL' });
+      }
+      if (!result.created) {
+        return res.status(409).json({ error: 'Relay already registered', relay: result.relay });
+      }
+      res.status(201).json(result.relay);
+    } catch (error) {
+      console.error('Nostr relay create error:', error);
+      res.status(500).json({ error: 'Failed to register relay' });
+    }
+  });
+
+  /**
+   * Enable or disable a relay
+   */
+  router.patch('/relays/:url', async (req: Request, res: Response) => {
+    try {
+      const { enabled } = req.body || {};
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'enabled must be a boolean' });
+      }
+
+      const relay = await relays.update(normalizeRelayUrl(req.params.url) || req.params.url, { enabled });
+      if (!relay) {
+        return res.status(404).json({ error: 'Relay not found' });
+      }
+      res.json(relay);
+    } catch (error) {
+      console.error('Nostr relay update error:', error);
+      res.status(500).json({ error: 'Failed to update relay' });
+    }
+  });
+
+  router.delete('/relays/:url', async (req: Request, res: Response) => {
+    try {
+      const removed = await relays.remove(normalizeRelayUrl(req.params.url) || req.params.url);
+      if (!removed) {
+        return res.status(404).json({ error: 'Relay not found' });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error('Nostr relay delete error:', error);
+      res.status(500).json({ error: 'Failed to delete relay' });
+    }
+  });
+
+  /**
+   * Fetch the relay's NIP-11 document now and store its limitations
+   */
+  router.post('/relays/:url/refresh', async (req: Request, res: Response) => {
+    try {
+      const relay = await relays.get(normalizeRelayUrl(req.params.url) || req.params.url);
+      if (!relay) {
+        return res.status(404).json({ error: 'Relay not found' });
+      }
+
+      let info;
+      try {
+        info = await fetchRelayInfo(relay.url);
+      } catch (error) {
+        return res.status(502).json({ error: 'Failed to fetch NIP-11 document', details: (error as Error).message });
+      }
+      res.json(await relays.saveRelayInfo(relay.url, info));
+    } catch (error) {
+      console.error('Nostr relay refresh error:', error);
+      res.status(500).json({ error: 'Failed to refresh relay' });
+    }
+  });
+
   /**
    * Get statistics
    */
   router.get('/stats', async (_req: Request, res: Response) => {
     try {
       const totalResult = await pool.query(
-        `SELECT COUNT(*) FROM documents WHERE attributes->>'nostr' = 'true'`
+        `SELECT COUNT(*) FROM documents WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}`
       );
 
       const byKindResult = await pool.query(`
@@ -205,7 +377,7 @@ export function createNostrRoutes(
           attributes->>'kindName' as kind_name,
           COUNT(*) as count
         FROM documents
-        WHERE attributes->>'nostr' = 'true'
+        WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
         GROUP BY kind, kind_name
         ORDER BY count DESC
       `);
@@ -215,7 +387,7 @@ export function createNostrRoutes(
           attributes->>'kindCategory' as category,
           COUNT(*) as count
         FROM documents
-        WHERE attributes->>'nostr' = 'true'
+        WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
         GROUP BY category
         ORDER BY count DESC
       `);
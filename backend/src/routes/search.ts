@@ -5,6 +5,9 @@
 
 import { Router, Request, Response } from 'express';
 import { Pool } from 'pg';
+import { textMatchSql, textRankSql } from '../search/text-search';
+import { vectorDistanceSql, vectorScopeSql } from '../embeddings/space';
+import { liveDocumentSql } from '../search/filters';
 
 export function createSearchRoutes(
   pool: Pool,
@@ -34,7 +37,7 @@ export function createSearchRoutes(
         ? (req.query.content_type as string).split(',').map(s => s.trim()).filter(Boolean)
         : [];
 
-      const conditions: string[] = [];
+      const conditions: string[] = [liveDocumentSql()];
       const params: any[] = [];
 
       if (contentTypes.length > 0) {
@@ -53,12 +56,10 @@ export function createSearchRoutes(
 
         const result = await pool.query(
           `SELECT id, title, content, url, source_id, document_type, content_type, attributes,
-                  ts_rank(to_tsvector('english', COALESCE(content, '') || ' ' || COALESCE(title, '')),
-                          to_tsquery('english', $${qIdx})) as score
+                  ${textRankSql(`$${qIdx}`)} as score
            FROM documents
            ${whereClause}
-             ${whereClause ? 'AND' : 'WHERE'} to_tsvector('english', COALESCE(content, '') || ' ' || COALESCE(title, ''))
-               @@ to_tsquery('english', $${qIdx})
+             ${whereClause ? 'AND' : 'WHERE'} ${textMatchSql(`$${qIdx}`)}
            ORDER BY score DESC
            LIMIT $${limitIdx}`,
           params
@@ -76,11 +77,11 @@ export function createSearchRoutes(
 
         const result = await pool.query(
           `SELECT id, title, content, url, source_id, document_type, content_type, attributes,
-                  1 - (embedding <=> $${vIdx}::vector) as score
+                  1 - ${vectorDistanceSql(`$${vIdx}`)} as score
            FROM documents
            ${whereClause}
-             ${whereClause ? 'AND' : 'WHERE'} embedding IS NOT NULL
-           ORDER BY embedding <=> $${vIdx}::vector
+             ${whereClause ? 'AND' : 'WHERE'} ${vectorScopeSql()}
+           ORDER BY ${vectorDistanceSql(`$${vIdx}`)}
            LIMIT $${limitIdx}`,
           params
         );
@@ -103,13 +104,12 @@ export function createSearchRoutes(
 
         const result = await pool.query(
           `WITH vector_scores AS (
-             SELECT id, 1 - (embedding <=> $${vIdx}::vector) as vscore
+             SELECT id, 1 - ${vectorDistanceSql(`$${vIdx}`)} as vscore
              FROM documents
-             ${filterAndPrefix} embedding IS NOT NULL
+             ${filterAndPrefix} ${vectorScopeSql()}
            ),
            text_scores AS (
-             SELECT id, ts_rank(to_tsvector('english', COALESCE(content, '') || ' ' || COALESCE(title, '')),
-                                to_tsquery('english', $${tIdx})) as tscore
+             SELECT id, ${textRankSql(`$${tIdx}`)} as tscore
              FROM documents
              ${whereClause}
            )
@@ -12,6 +12,10 @@ import {
   extractTitle,
   isSpam
 } from '../services/quality';
+import { textMatchSql, textRankSql } from '../search/text-search';
+import { buildFilterSql, liveDocumentSql, parseSearchFilters } from '../search/filters';
+import { searchIdentityFromRequest } from '../search/access';
+import { vectorDistanceSql, vectorScopeSql } from '../embeddings/space';
 
 export function createUxRoutes(
   pool: Pool,
@@ -126,50 +130,33 @@ export function createUxRoutes(
    */
   router.get('/search/advanced', async (req: Request, res: Response) => {
     try {
-      const query = (req.query.q as string) || '';
+      const rawQuery = (req.query.q as string) || '';
       const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
       const offset = parseInt(req.query.offset as string) || 0;
       const mode = (req.query.mode as string) || 'hybrid';
 
-      // Filters
+      // Inline filters in q use the same grammar as /api/search
+      const { text: query, filters, rejected } = parseSearchFilters(rawQuery);
+
+      // Legacy query params map onto the same filters
       const tags = req.query.tags ? (req.query.tags as string).split(',') : [];
       const minQuality = parseFloat(req.query.minQuality as string) || 0.3;
       const hasMedia = req.query.hasMedia === 'true';
       const maxResults = parseInt(req.query.maxResults as string) || 1000;
 
-      // Build filter conditions
-      const conditions: string[] = [];
-      const params: any[] = [];
-      let paramIndex = 1;
-
-      // Quality filter
-      conditions.push(`quality_score >= $${paramIndex}`);
-      params.push(minQuality);
-      paramIndex++;
-
-      // Media filter
-      if (hasMedia) {
-        conditions.push(`has_media = true`);
+      tags.forEach(tag => filters.push({ field: 'tag', value: tag.trim().toLowerCase(), negated: false, raw: `tags=${tag}` }));
+      if (!filters.some(f => f.field === 'quality')) {
+        filters.push({ field: 'quality', value: String(minQuality), negated: false, raw: `minQuality=${minQuality}` });
       }
-
-      // Tag filter (AND logic)
-      if (tags.length > 0) {
-        conditions.push(`
-          id IN (
-            SELECT document_id 
-            FROM document_tags 
-            WHERE tag = ANY($${paramIndex})
-            GROUP BY document_id
-            HAVING COUNT(DISTINCT tag) = $${paramIndex + 1}
-          )
-        `);
-        params.push(tags, tags.length);
-        paramIndex += 2;
+      if (hasMedia) {
+        filters.push({ field: 'has', value: 'media', negated: false, raw: 'hasMedia=true' });
       }
 
-      const whereClause = conditions.length > 0
-        ? `WHERE ${conditions.join(' AND ')}`
-        : '';
+      // Same permission trimming as /api/search
+      const filterSql = buildFilterSql(filters, 1, undefined, searchIdentityFromRequest(req));
+      const params: any[] = [...filterSql.params];
+      const paramIndex = params.length + 1;
+      const whereClause = `WHERE ${liveDocumentSql()} AND ${filterSql.sql}`;
 
       let results;
 
@@ -182,10 +169,10 @@ export function createUxRoutes(
           WITH filtered_docs AS (
             SELECT id, title, content, url, source_id, document_type, 
                    quality_score, has_media, media_urls, created_at,
-                   1 - (embedding <=> $${paramIndex}::vector) as score
+                   1 - ${vectorDistanceSql(`$${paramIndex}`)} as score
             FROM documents
             ${whereClause}
-            AND embedding IS NOT NULL
+            AND ${vectorScopeSql()}
           )
           SELECT * FROM filtered_docs
           ORDER BY score DESC
@@ -203,11 +190,10 @@ export function createUxRoutes(
           WITH filtered_docs AS (
             SELECT id, title, content, url, source_id, document_type,
                    quality_score, has_media, media_urls, created_at,
-                   ts_rank(to_tsvector('english', title || ' ' || content), 
-                          to_tsquery('english', $${paramIndex})) as score
+                   ${textRankSql(`$${paramIndex}`)} as score
             FROM documents
             ${whereClause}
-            AND to_tsvector('english', title || ' ' || content) @@ to_tsquery('english', $${paramIndex})
+            AND ${textMatchSql(`$${paramIndex}`)}
           )
           SELECT * FROM filtered_docs
           ORDER BY score DESC
@@ -234,7 +220,7 @@ export function createUxRoutes(
       }
 
       // Get total count (capped for performance)
-      const countParams = params.slice(0, conditions.length > 0 ? paramIndex - 1 : 0);
+      const countParams = params.slice(0, paramIndex - 1);
       const countQuery = `
         SELECT COUNT(*) FROM (
           SELECT id FROM documents ${whereClause} LIMIT ${maxResults}
@@ -261,9 +247,9 @@ export function createUxRoutes(
       }
 
       res.json({
-        query,
+        query: rawQuery,
         mode,
-        filters: { tags, minQuality, hasMedia },
+        filters: { tags, minQuality, hasMedia, applied: filters, rejected },
         results: results.rows,
         total,
         limit,
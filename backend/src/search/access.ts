@@ -0,0 +1,167 @@
+/**
+ * Document Access Control
+ * Document ACLs (public flag, allowed users and groups), the identity a
+ * search runs as, and the SQL predicate that trims what it may not see
+ */
+
+import { Request } from 'express';
+import { hasScope } from '../auth/keys';
+import type { FilterSql } from './filters';
+
+/**
+ * Who may see a document. A document is visible when it is public, or when
+ * the searcher's user or one of their groups is listed.
+ */
+export interface DocumentAcl {
+  public?: boolean;
+  users?: string[];
+  groups?: string[];
+}
+
+/**
+ * ACL as stored on a document row (acl_public, acl_users, acl_groups)
+ */
+export interface StoredDocumentAcl {
+  public: boolean;
+  users: string[];
+  groups: string[];
+}
+
+/**
+ * The identity a search runs as. Unrestricted identities (admin keys that
+ * do not assert a user) see every document.
+ */
+export interface SearchIdentity {
+  user: string | null;
+  groups: string[];
+  unrestricted: boolean;
+}
+
+export const ANONYMOUS_IDENTITY: SearchIdentity = { user: null, groups: [], unrestricted: false };
+export const UNRESTRICTED_IDENTITY: SearchIdentity = { user: null, groups: [], unrestricted: true };
+
+export const USER_HEADER = 'x-beacon-user';
+export const GROUPS_HEADER = 'x-beacon-groups';
+
+/**
+ * Users and groups are compared case-insensitively. Accepts an array or a
+ * comma-separated string; anything else yields no principals.
+ */
+export function normalizePrincipals(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string' ? value.split(',') : [];
+  const principals = items
+    .filter(item => typeof item === 'string' || typeof item === 'number')
+    .map(item => String(item).trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(principals));
+}
+
+function parseFlag(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') {
+    const lowered = value.trim().toLowerCase();
+    if (['true', '1', 'yes'].includes(lowered)) return true;
+    if (['false', '0', 'no'].includes(lowered)) return false;
+  }
+  return undefined;
+}
+
+/**
+ * Read an ACL from loosely typed input (request bodies, source records).
+ * Returns undefined when it carries no permission information.
+ */
+export function parseDocumentAcl(value: { public?: unknown; users?: unknown; groups?: unknown } | undefined | null): DocumentAcl | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const acl: DocumentAcl = {};
+  const isPublic = parseFlag(value.public);
+  const users = normalizePrincipals(value.users);
+  const groups = normalizePrincipals(value.groups);
+  if (isPublic !== undefined) acl.public = isPublic;
+  if (users.length > 0) acl.users = users;
+  if (groups.length > 0) acl.groups = groups;
+  return Object.keys(acl).length > 0 ? acl : undefined;
+}
+
+/**
+ * Combine the permissions a source reports for a document with the
+ * connector's defaults. A document the source restricts to users or groups
+ * is not public unless the source says so; a connector configured as
+ * non-public keeps all of its documents restricted. Users and groups from
+ * both are allowed.
+ */
+export function resolveDocumentAcl(source?: DocumentAcl, defaults?: DocumentAcl): StoredDocumentAcl {
+  const fromSource = parseDocumentAcl(source);
+  const connectorPublic = defaults?.public ?? true;
+  const sourcePublic = fromSource ? fromSource.public ?? false : true;
+
+  return {
+    public: connectorPublic && sourcePublic,
+    users: normalizePrincipals([...(defaults?.users || []), ...(fromSource?.users || [])]),
+    groups: normalizePrincipals([...(defaults?.groups || []), ...(fromSource?.groups || [])])
+  };
+}
+
+/**
+ * The identity of a search request. The calling application asserts the end
+ * user with X-Beacon-User and X-Beacon-Groups; the assertion is trusted only
+ * from an authenticated key (or with authentication disabled). Admin keys
+ * without an assertion are unrestricted; anonymous callers see public
+ * documents only.
+ */
+export function searchIdentityFromRequest(req: Request): SearchIdentity {
+  const auth = req.auth;
+  if (auth?.anonymous) return ANONYMOUS_IDENTITY;
+
+  const user = normalizePrincipals(req.get(USER_HEADER))[0] || null;
+  const groups = normalizePrincipals(req.get(GROUPS_HEADER));
+  if (!user && groups.length === 0 && auth && hasScope(auth.scopes, 'admin')) {
+    return UNRESTRICTED_IDENTITY;
+  }
+  return { user, groups, unrestricted: false };
+}
+
+/**
+ * Stable key of an identity, for caches shared between searchers
+ */
+export function identityCacheKey(identity: SearchIdentity): string {
+  if (identity.unrestricted) return '*';
+  return `${identity.user || ''}|${[...identity.groups].sort().join(',')}`;
+}
+
+/**
+ * Predicate limiting documents to those the identity may see, or null when
+ * nothing is trimmed. `param` allocates a placeholder for a value.
+ */
+export function accessPredicate(
+  identity: SearchIdentity,
+  param: (value: any) => string,
+  alias?: string
+): string | null {
+  if (identity.unrestricted) return null;
+  const col = (name: string) => alias ? `${alias}.${name}` : name;
+
+  const conditions = [col('acl_public')];
+  if (identity.user) {
+    conditions.push(`${col('acl_users')} && ${param([identity.user])}::text[]`);
+  }
+  if (identity.groups.length > 0) {
+    conditions.push(`${col('acl_groups')} && ${param(identity.groups)}::text[]`);
+  }
+  return conditions.length === 1 ? conditions[0] : `(${conditions.join(' OR ')})`;
+}
+
+/**
+ * accessPredicate as a standalone fragment with placeholders from startIndex.
+ * sql is empty for unrestricted identities.
+ */
+export function documentAccessSql(identity: SearchIdentity, startIndex = 1, alias?: string): FilterSql {
+  const params: any[] = [];
+  const sql = accessPredicate(identity, value => {
+    params.push(value);
+    return `$${startIndex + params.length - 1}`;
+  }, alias);
+  return { sql: sql || '', params };
+}
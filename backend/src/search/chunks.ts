@@ -0,0 +1,191 @@
+/**
+ * Document Chunks
+ * Splits long documents into overlapping chunks with their own embeddings
+ * and builds the chunk-aware vector search SQL
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { chunkTranscript, TranscriptChunk } from '../podcasts/utils';
+import { getActiveEmbeddingSpace, vectorDistanceSql, vectorScopeSql } from '../embeddings/space';
+import { liveDocumentSql } from './filters';
+
+export interface ChunkingOptions {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export interface MatchedChunk {
+  index: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  score: number;
+}
+
+export const CHUNKING_DEFAULTS: ChunkingOptions = {
+  chunkSize: Number(process.env.DOCUMENT_CHUNK_SIZE || 1200),
+  chunkOverlap: Number(process.env.DOCUMENT_CHUNK_OVERLAP || 200)
+};
+
+// Chunk hits fetched per query before aggregating to documents
+const CHUNK_CANDIDATE_FACTOR = 4;
+
+/**
+ * Split text into chunks. Same paragraph packing as chunkTranscript, but
+ * paragraphs longer than chunkSize (PDF pages, HTML without breaks) are first
+ * split at sentence boundaries so no chunk grows unbounded.
+ */
+export function chunkDocument(content: string, options: ChunkingOptions = CHUNKING_DEFAULTS): TranscriptChunk[] {
+  const paragraphs = (content || '').replace(/\r/g, '').split(/\n{2,}/g);
+  const pieces: string[] = [];
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= options.chunkSize) {
+      pieces.push(paragraph);
+      continue;
+    }
+
+    let current = '';
+    for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+      if (current && (current + ' ' + sentence).length > options.chunkSize) {
+        pieces.push(current);
+        current = '';
+      }
+      if (sentence.length > options.chunkSize) {
+        // A single sentence longer than a chunk is hard-split
+        for (let i = 0; i < sentence.length; i += options.chunkSize) {
+          pieces.push(sentence.slice(i, i + options.chunkSize));
+        }
+        continue;
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) pieces.push(current);
+  }
+
+  return chunkTranscript(pieces.join('\n\n'), options.chunkSize, options.chunkOverlap);
+}
+
+/**
+ * Replace the chunks of a document. Each chunk is embedded with the document
+ * title so short chunks keep their context.
+ */
+export async function indexDocumentChunks(
+  db: Pool | PoolClient,
+  documentId: string,
+  title: string,
+  content: string,
+  generateEmbedding: (text: string) => Promise<number[]>,
+  options: ChunkingOptions = CHUNKING_DEFAULTS
+): Promise<number> {
+  const chunks = chunkDocument(content, options);
+
+  // Embed first so a failed embedding leaves the previous chunks in place
+  const embedded: { chunk: TranscriptChunk; vectorStr: string }[] = [];
+  for (const chunk of chunks) {
+    const embedding = await generateEmbedding(`${title} ${chunk.text}`);
+    embedded.push({ chunk, vectorStr: `[${embedding.join(',')}]` });
+  }
+
+  const { modelId } = getActiveEmbeddingSpace();
+  await db.query('DELETE FROM document_chunks WHERE document_id = $1', [documentId]);
+  for (const { chunk, vectorStr } of embedded) {
+    await db.query(
+      `INSERT INTO document_chunks (document_id, chunk_index, content, start_offset, end_offset, embedding, embedding_model)
+       VALUES ($1, $2, $3, $4, $5, $6::vector, $7)`,
+      [documentId, chunk.index, chunk.text, chunk.startOffset, chunk.endOffset, vectorStr, modelId]
+    );
+  }
+
+  return embedded.length;
+}
+
+/**
+ * CTEs `chunk_hits` and `best_chunks` (one row per document: its highest
+ * scoring chunk). filterClause is an "AND ..." fragment on alias d.
+ */
+export function bestChunksCte(vectorParam: string, limitParam: string, filterClause = ''): string {
+  return `chunk_hits AS (
+      SELECT c.document_id, c.chunk_index, c.content AS chunk_text, c.start_offset, c.end_offset,
+             1 - ${vectorDistanceSql(vectorParam, 'c')} AS cscore
+      FROM document_chunks c
+      JOIN documents d ON d.id = c.document_id
+      WHERE ${vectorScopeSql('c')} AND ${liveDocumentSql('d')} ${filterClause}
+      ORDER BY ${vectorDistanceSql(vectorParam, 'c')}
+      LIMIT ${limitParam} * ${CHUNK_CANDIDATE_FACTOR}
+    ),
+    best_chunks AS (
+      SELECT DISTINCT ON (document_id) *
+      FROM chunk_hits
+      ORDER BY document_id, cscore DESC
+    )`;
+}
+
+/**
+ * Columns exposing the best chunk of alias c, read back by takeMatchedChunk
+ */
+export function matchedChunkColumns(alias = 'c'): string {
+  return `${alias}.chunk_index AS matched_chunk_index, ${alias}.chunk_text AS matched_chunk_text,
+          ${alias}.start_offset AS matched_chunk_start, ${alias}.end_offset AS matched_chunk_end,
+          ${alias}.cscore AS matched_chunk_score`;
+}
+
+/**
+ * Chunk-aware vector search. A document scores the better of its
+ * document-level embedding and its best chunk, so documents indexed before
+ * chunking existed are still found. Filter fragments must share placeholders:
+ * `filterClause` on documents, `chunkFilterClause` on alias d.
+ */
+export function vectorSearchSql(
+  vectorParam: string,
+  limitParam: string,
+  filterClause = '',
+  chunkFilterClause = ''
+): string {
+  return `WITH ${bestChunksCte(vectorParam, limitParam, chunkFilterClause)},
+    doc_hits AS (
+      SELECT id, 1 - ${vectorDistanceSql(vectorParam)} AS dscore
+      FROM documents
+      WHERE ${vectorScopeSql()} AND ${liveDocumentSql()} ${filterClause}
+      ORDER BY ${vectorDistanceSql(vectorParam)}, id
+      LIMIT ${limitParam}
+    )
+    SELECT d.id, d.title, d.content, d.url, d.source_id, d.document_type, d.attributes,
+           GREATEST(h.dscore, c.cscore) AS score,
+           ${matchedChunkColumns('c')}
+    FROM documents d
+    LEFT JOIN doc_hits h ON h.id = d.id
+    LEFT JOIN best_chunks c ON c.document_id = d.id
+    WHERE h.id IS NOT NULL OR c.document_id IS NOT NULL
+    ORDER BY score DESC, d.id
+    LIMIT ${limitParam}`;
+}
+
+/**
+ * Move matched_chunk_* columns of a row into a `matchedChunk` object
+ */
+export function takeMatchedChunk<T extends Record<string, any>>(row: T): T & { matchedChunk?: MatchedChunk } {
+  const {
+    matched_chunk_index,
+    matched_chunk_text,
+    matched_chunk_start,
+    matched_chunk_end,
+    matched_chunk_score,
+    ...rest
+  } = row;
+
+  if (matched_chunk_index === undefined || matched_chunk_index === null) {
+    return rest as T;
+  }
+
+  return {
+    ...(rest as T),
+    matchedChunk: {
+      index: matched_chunk_index,
+      text: matched_chunk_text,
+      startOffset: matched_chunk_start,
+      endOffset: matched_chunk_end,
+      score: Number(matched_chunk_score)
+    }
+  };
+}
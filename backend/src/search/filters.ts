@@ -0,0 +1,209 @@
+/**
+ * Search Filter DSL
+ * Parses inline filters (author:, tag:, after:, before:, source:, type:,
+ * content_type:, attr.<path>:, has:, quality:) out of a query string and
+ * translates them into parameterised SQL predicates on documents
+ */
+
+import { nip19 } from 'nostr-tools';
+import { RejectedSearchFilter, SearchFilter, SearchFilterField } from './types';
+import { SearchIdentity, accessPredicate } from './access';
+
+const FILTER_FIELDS: SearchFilterField[] = [
+  'author', 'tag', 'after', 'before', 'source', 'type', 'content_type', 'has', 'quality'
+];
+
+// [-]key:value, [-]key:"quoted value", [-]attr.path.to.key:value
+const FILTER_PATTERN = /(^|\s)(-?)([a-z_]+(?:\.[A-Za-z0-9_.-]+)?):(?:"([^"]*)"|'([^']*)'|(\S+))/gi;
+
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?([T ][0-9:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+const HEX_PUBKEY_PATTERN = /^[0-9a-f]{64}$/;
+const ATTR_SEGMENT_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface ParsedSearchFilters {
+  text: string;
+  filters: SearchFilter[];
+  rejected: RejectedSearchFilter[];
+}
+
+export interface FilterSql {
+  sql: string;
+  params: any[];
+}
+
+/**
+ * Resolve npub / nprofile / hex into a hex pubkey. Other values (e.g. a
+ * display name from a web connector) are returned unchanged.
+ */
+function resolveAuthor(value: string): string {
+  const lowered = value.toLowerCase();
+  if (HEX_PUBKEY_PATTERN.test(lowered)) return lowered;
+  if (lowered.startsWith('npub1') || lowered.startsWith('nprofile1')) {
+    const decoded = nip19.decode(lowered);
+    if (decoded.type === 'npub') return decoded.data as string;
+    if (decoded.type === 'nprofile') return (decoded.data as { pubkey: string }).pubkey;
+  }
+  return value;
+}
+
+function validateFilter(field: SearchFilterField, value: string): string | null {
+  if (!value) return 'Empty filter value';
+  switch (field) {
+    case 'after':
+    case 'before':
+      return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? null : 'Expected a date (YYYY-MM-DD)';
+    case 'quality': {
+      const quality = Number(value);
+      return Number.isFinite(quality) && quality >= 0 && quality <= 1 ? null : 'Expected a number between 0 and 1';
+    }
+    case 'has':
+      return value.toLowerCase() === 'media' ? null : 'Only has:media is supported';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Split a raw query into filters and the remaining free text. Unknown
+ * prefixes (e.g. "https://...") are left in the text untouched.
+ */
+export function parseSearchFilters(query: string): ParsedSearchFilters {
+  const filters: SearchFilter[] = [];
+  const rejected: RejectedSearchFilter[] = [];
+
+  const text = (query || '').replace(FILTER_PATTERN, (match, lead: string, minus: string, key: string, dq?: string, sq?: string, bare?: string) => {
+    const lowerKey = key.toLowerCase();
+    const raw = match.trim();
+    const value = (dq ?? sq ?? bare ?? '').trim();
+    const negated = minus === '-';
+
+    if (lowerKey.startsWith('attr.')) {
+      const path = key.slice('attr.'.length).split('.');
+      if (!path.every(segment => ATTR_SEGMENT_PATTERN.test(segment))) {
+        rejected.push({ raw, reason: 'Invalid attribute path' });
+      } else if (!value) {
+        rejected.push({ raw, reason: 'Empty filter value' });
+      } else {
+        filters.push({ field: 'attr', path, value, negated, raw });
+      }
+      return lead;
+    }
+
+    if (!FILTER_FIELDS.includes(lowerKey as SearchFilterField)) {
+      return match;
+    }
+
+    const field = lowerKey as SearchFilterField;
+    const error = validateFilter(field, value);
+    if (error) {
+      rejected.push({ raw, reason: error });
+      return lead;
+    }
+
+    if (field === 'author') {
+      try {
+        filters.push({ field, value: resolveAuthor(value), negated, raw });
+      } catch {
+        rejected.push({ raw, reason: 'Invalid npub/nprofile' });
+      }
+      return lead;
+    }
+
+    filters.push({
+      field,
+      value: field === 'tag' || field === 'has' ? value.toLowerCase() : value,
+      negated,
+      raw
+    });
+    return lead;
+  });
+
+  return { text: text.replace(/\s+/g, ' ').trim(), filters, rejected };
+}
+
+/**
+ * Translate filters into SQL predicates joined with AND. Placeholders start
+ * at startIndex; calling twice with the same startIndex (e.g. once per CTE
+ * and once for an aliased outer query) yields identical params. With an
+ * identity, documents it may not see are trimmed as well.
+ */
+export function buildFilterSql(filters: SearchFilter[], startIndex = 1, alias?: string, access?: SearchIdentity): FilterSql {
+  const col = (name: string) => alias ? `${alias}.${name}` : name;
+  const params: any[] = [];
+  const param = (value: any) => {
+    params.push(value);
+    return `$${startIndex + params.length - 1}`;
+  };
+
+  const predicates = filters.map(filter => {
+    let predicate: string;
+
+    switch (filter.field) {
+      case 'author': {
+        const p = param(filter.value);
+        predicate = `(${col('attributes')}->>'pubkey' = ${p}
+          OR lower(${col('attributes')}->>'author') = lower(${p})
+          OR ${col('id')} IN (SELECT document_id FROM nostr_events WHERE pubkey = ${p}))`;
+        break;
+      }
+      case 'tag': {
+        const p = param(filter.value);
+        predicate = `(${col('attributes')}->'tags' ? ${p}
+          OR ${col('attributes')}->'tags'->'topic' ? ${p}
+          OR EXISTS (SELECT 1 FROM document_tags dt WHERE dt.document_id = ${col('id')} AND dt.tag = ${p}))`;
+        break;
+      }
+      case 'after':
+        predicate = `COALESCE(${col('last_modified')}, ${col('created_at')}) >= ${param(new Date(filter.value).toISOString())}`;
+        break;
+      case 'before':
+        predicate = `COALESCE(${col('last_modified')}, ${col('created_at')}) < ${param(new Date(filter.value).toISOString())}`;
+        break;
+      case 'source': {
+        const p = param(filter.value);
+        predicate = `${col('source_id')} IN (
+          SELECT id FROM connectors WHERE id::text = ${p} OR lower(name) = lower(${p}) OR connector_type = lower(${p}))`;
+        break;
+      }
+      case 'type':
+        predicate = `${col('document_type')} = ${param(filter.value)}`;
+        break;
+      case 'content_type':
+        predicate = `${col('content_type')}::text = ${param(filter.value)}`;
+        break;
+      case 'attr':
+        predicate = `${col('attributes')} #>> ${param(filter.path || [])}::text[] = ${param(filter.value)}`;
+        break;
+      case 'has':
+        predicate = `${col('has_media')} = true`;
+        break;
+      case 'quality':
+        predicate = `${col('quality_score')} >= ${param(Number(filter.value))}`;
+        break;
+    }
+
+    // Missing attributes evaluate to NULL; a negated filter must still keep those rows
+    return filter.negated ? `NOT COALESCE(${predicate}, false)` : predicate;
+  });
+
+  const accessSql = access ? accessPredicate(access, param, alias) : null;
+  if (accessSql) predicates.push(accessSql);
+
+  return { sql: predicates.join(' AND '), params };
+}
+
+/**
+ * Score for filter-only queries (no search terms). Increases with recency and
+ * does not depend on NOW(), so cursors stay valid across pages.
+ */
+export function recencyScoreSql(alias?: string): string {
+  const col = (name: string) => alias ? `${alias}.${name}` : name;
+  return `EXTRACT(EPOCH FROM COALESCE(${col('last_modified')}, ${col('created_at')})) / EXTRACT(EPOCH FROM TIMESTAMPTZ '2100-01-01')`;
+}
+
+/**
+ * Excludes tombstoned documents (gone upstream, awaiting purge) from search
+ */
+export function liveDocumentSql(alias?: string): string {
+  return `${alias ? `${alias}.` : ''}deleted_at IS NULL`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Result Fusion
+ * Reciprocal Rank Fusion (RRF) of independently ranked search legs
+ */
+
+export type HybridStrategy = 'linear' | 'rrf';
+
+export interface FusionLeg<T extends { id: any }> {
+  name: string;
+  weight: number;
+  results: T[];
+}
+
+export interface FusionOptions {
+  k: number;
+}
+
+export interface FusedResult<T> {
+  id: string;
+  doc: T;
+  score: number;
+  rawScore: number;
+  ranks: Record<string, number | null>;
+  legScores: Record<string, number | null>;
+}
+
+export const FUSION_DEFAULTS = {
+  strategy: (process.env.SEARCH_HYBRID_STRATEGY === 'rrf' ? 'rrf' : 'linear') as HybridStrategy,
+  k: Number(process.env.SEARCH_RRF_K || 60),
+  vectorWeight: Number(process.env.SEARCH_RRF_VECTOR_WEIGHT || 1),
+  textWeight: Number(process.env.SEARCH_RRF_TEXT_WEIGHT || 1)
+};
+
+/**
+ * Fuse ranked legs with RRF: score(d) = sum over legs of weight / (k + rank(d)).
+ * Ranks are 1-based. The returned score is normalised by the best achievable
+ * score (rank 1 in every leg) so it stays on the 0..1 scale the rest of the
+ * search pipeline (expansion boosts, triggers, WoT) expects; rawScore keeps
+ * the unnormalised RRF value.
+ */
+export function reciprocalRankFusion<T extends { id: any; score?: number }>(
+  legs: FusionLeg<T>[],
+  options: FusionOptions = { k: FUSION_DEFAULTS.k }
+): FusedResult<T>[] {
+  const k = Math.max(0, options.k);
+  const fused = new Map<string, FusedResult<T>>();
+  const maxScore = legs.reduce((sum, leg) => sum + Math.max(0, leg.weight) / (k + 1), 0);
+
+  for (const leg of legs) {
+    const weight = Math.max(0, leg.weight);
+
+    leg.results.forEach((doc, index) => {
+      const id = String(doc.id);
+      let entry = fused.get(id);
+      if (!entry) {
+        entry = {
+          id,
+          doc,
+          score: 0,
+          rawScore: 0,
+          ranks: Object.fromEntries(legs.map(l => [l.name, null])),
+          legScores: Object.fromEntries(legs.map(l => [l.name, null]))
+        };
+        fused.set(id, entry);
+      }
+
+      // A document listed twice in one leg keeps its best rank
+      if (entry.ranks[leg.name] !== null) return;
+
+      const rank = index + 1;
+      entry.ranks[leg.name] = rank;
+      entry.legScores[leg.name] = typeof doc.score === 'number' ? doc.score : Number(doc.score ?? 0);
+      entry.rawScore += weight / (k + rank);
+    });
+  }
+
+  return Array.from(fused.values())
+    .map(entry => ({ ...entry, score: maxScore > 0 ? entry.rawScore / maxScore : 0 }))
+    .sort((a, b) => b.rawScore - a.rawScore || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+}
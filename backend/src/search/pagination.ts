@@ -0,0 +1,94 @@
+/**
+ * Cursor Pagination for Search Results
+ * Opaque cursors encode the last (score, id) pair returned so deep pages are reproducible
+ */
+
+export interface SearchCursor {
+  score: number;
+  id: string;
+  position: number;
+}
+
+export interface PaginatedPage<T> {
+  results: T[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export const SEARCH_PAGINATION = {
+  minWindow: Number(process.env.SEARCH_MIN_WINDOW || 200),
+  maxWindow: Number(process.env.SEARCH_MAX_WINDOW || 1000),
+  countCap: Number(process.env.SEARCH_COUNT_CAP || 10000)
+};
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify({ s: cursor.score, i: cursor.id, p: cursor.position })).toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeCursor. Throws on malformed input so the
+ * route can answer 400 instead of silently restarting from page one.
+ */
+export function decodeCursor(value: string): SearchCursor {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    throw new Error('Invalid cursor');
+  }
+
+  if (!parsed || typeof parsed.s !== 'number' || !Number.isFinite(parsed.s) || typeof parsed.i !== 'string' || !parsed.i) {
+    throw new Error('Invalid cursor');
+  }
+
+  return {
+    score: parsed.s,
+    id: parsed.i,
+    position: Number.isInteger(parsed.p) && parsed.p >= 0 ? parsed.p : 0
+  };
+}
+
+/**
+ * Total order used by every search mode: score descending, then id ascending
+ */
+export function compareRanked(a: { score: number; id: any }, b: { score: number; id: any }): number {
+  if (b.score !== a.score) return b.score - a.score;
+  const aId = String(a.id);
+  const bId = String(b.id);
+  return aId < bId ? -1 : aId > bId ? 1 : 0;
+}
+
+/**
+ * Number of candidate rows to fetch from SQL before re-ranking, so the
+ * requested page still exists after trigger, expansion and plugin boosts.
+ */
+export function candidateWindow(limit: number, cursor?: SearchCursor | null): number {
+  const needed = (cursor?.position || 0) + limit + 1;
+  return Math.min(SEARCH_PAGINATION.maxWindow, Math.max(SEARCH_PAGINATION.minWindow, needed));
+}
+
+/**
+ * Sort ranked results and return the page that follows the cursor
+ */
+export function paginate<T extends { score: number; id: any }>(
+  ranked: T[],
+  limit: number,
+  cursor?: SearchCursor | null
+): PaginatedPage<T> {
+  const sorted = [...ranked].sort(compareRanked);
+  const remaining = cursor
+    ? sorted.filter(item => compareRanked(item, cursor) > 0)
+    : sorted;
+
+  const results = remaining.slice(0, limit);
+  const last = results[results.length - 1];
+  const position = (cursor?.position || 0) + results.length;
+  // Pages beyond the maximum candidate window cannot be served reproducibly
+  const hasMore = remaining.length > limit && position < SEARCH_PAGINATION.maxWindow && !!last;
+
+  return {
+    results,
+    hasMore,
+    nextCursor: hasMore ? encodeCursor({ score: last.score, id: String(last.id), position }) : null
+  };
+}
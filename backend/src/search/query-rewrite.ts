@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { parseSearchFilters } from './filters';
 import {
   AbbreviationExpansion,
   ConceptMatch,
@@ -347,7 +348,9 @@ export async function rewriteQuery(
 ): Promise<QueryRewriteResult> {
   const config = { ...DEFAULT_OPTIONS, ...options };
 
-  const normalized = normalizeQuery(query);
+  // Filters are pulled out before normalisation so their values keep their case
+  const { text, filters, rejected } = parseSearchFilters(query);
+  const normalized = normalizeQuery(text);
   const { phrases, remaining } = extractPhrases(normalized);
   const tokens = tokenize(remaining);
   const originalTerms = Array.from(new Set([...tokens, ...phrases]));
@@ -355,6 +358,8 @@ export async function rewriteQuery(
   const explanation: QueryRewriteExplanation = {
     originalQuery: query,
     normalizedQuery: normalized,
+    filters,
+    rejectedFilters: rejected,
     tokens,
     phrases,
     expandedTerms: [],
@@ -384,6 +389,7 @@ export async function rewriteQuery(
       finalTerms,
       vectorQuery,
       textQuery,
+      filters,
       explanation
     };
   }
@@ -463,6 +469,7 @@ export async function rewriteQuery(
     finalTerms,
     vectorQuery,
     textQuery,
+    filters,
     explanation
   };
 }
@@ -0,0 +1,245 @@
+/**
+ * Snippets and Highlights
+ * ts_headline fragments for text matches, best embedding-scored passages for
+ * vector matches, and a trimmed plain-text snippet for every result
+ */
+
+import { Pool } from 'pg';
+import { TextQueryConfig, rowTsQuerySql } from './text-search';
+
+export interface SnippetOptions {
+  fragments: number;
+  fragmentWords: number;
+  snippetLength: number;
+  maxWindows: number;
+  maxEmbeddings: number;
+}
+
+/**
+ * Passage embeddings still allowed in the current request
+ */
+export interface EmbeddingBudget {
+  remaining: number;
+}
+
+export interface SnippetContext {
+  textQuery?: string;
+  textConfig: TextQueryConfig;
+  queryEmbedding?: number[] | null;
+  embed: (text: string) => Promise<number[]>;
+  terms: string[];
+  options: SnippetOptions;
+}
+
+export const SNIPPET_DEFAULTS: SnippetOptions = {
+  fragments: Number(process.env.SEARCH_SNIPPET_FRAGMENTS || 3),
+  fragmentWords: Number(process.env.SEARCH_SNIPPET_FRAGMENT_WORDS || 30),
+  snippetLength: Number(process.env.SEARCH_SNIPPET_LENGTH || 240),
+  maxWindows: Number(process.env.SEARCH_SNIPPET_MAX_WINDOWS || 12),
+  // Per request: once spent, the remaining results are scored lexically
+  maxEmbeddings: Number(process.env.SEARCH_SNIPPET_MAX_EMBEDDINGS || 36)
+};
+
+// Control characters never appear in indexed text, so they are safe markers
+// to carry highlight positions until the fragment is HTML-escaped
+const MARK_START = '\u0001';
+const MARK_END = '\u0002';
+const FRAGMENT_DELIMITER = '\u0003';
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, ch => HTML_ESCAPES[ch]);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Options string for ts_headline
+ */
+export function headlineOptions(options: SnippetOptions): string {
+  const maxWords = Math.max(5, options.fragmentWords);
+  const minWords = Math.max(3, Math.floor(maxWords / 2));
+  return [
+    `StartSel="${MARK_START}"`,
+    `StopSel="${MARK_END}"`,
+    `MaxFragments=${Math.max(1, options.fragments)}`,
+    `MaxWords=${maxWords}`,
+    `MinWords=${minWords}`,
+    `FragmentDelimiter="${FRAGMENT_DELIMITER}"`
+  ].join(', ');
+}
+
+/**
+ * HTML-escape a marked fragment and turn the markers into <mark> tags
+ */
+export function renderHighlight(fragment: string): string {
+  return escapeHtml(fragment.trim())
+    .split(MARK_START).join('<mark>')
+    .split(MARK_END).join('</mark>');
+}
+
+function stripMarks(text: string): string {
+  return text.split(MARK_START).join('').split(MARK_END).join('');
+}
+
+/**
+ * Trim plain text to maxLength at a word boundary
+ */
+export function trimSnippet(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxLength) return clean;
+  const cut = clean.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+/**
+ * Wrap whole-word occurrences of query terms in highlight markers
+ */
+export function markTerms(text: string, terms: string[]): string {
+  const words = Array.from(new Set(terms.map(t => t.trim()).filter(t => t.length > 1)))
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp);
+  if (!words.length) return text;
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${words.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  return text.replace(pattern, `${MARK_START}$1${MARK_END}`);
+}
+
+/**
+ * Split content into passages of whole sentences, each up to maxWords words.
+ * Sentences longer than maxWords are cut into word chunks.
+ */
+export function sentenceWindows(content: string, maxWords: number, maxWindows: number): string[] {
+  const sentences = content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(s => s.trim())
+    .filter(Boolean);
+
+  const windows: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length) windows.push(current.join(' '));
+    current = [];
+  };
+
+  for (const sentence of sentences) {
+    const words = sentence.split(/\s+/);
+    if (words.length > maxWords) {
+      flush();
+      for (let i = 0; i < words.length; i += maxWords) {
+        windows.push(words.slice(i, i + maxWords).join(' '));
+      }
+      continue;
+    }
+    if (current.length + words.length > maxWords) flush();
+    current.push(...words);
+    if (windows.length >= maxWindows) break;
+  }
+  flush();
+
+  return windows.slice(0, maxWindows);
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Pick the passages containing the most distinct query terms, earlier
+ * passages first on ties
+ */
+export function lexicalPassages(windows: string[], terms: string[], count: number): string[] {
+  const words = Array.from(new Set(terms.map(t => t.trim().toLowerCase()).filter(t => t.length > 1)));
+  const patterns = words.map(word => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, 'iu'));
+
+  return windows
+    .map((text, index) => ({ text, index, score: patterns.filter(pattern => pattern.test(text)).length }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, count)
+    .map(s => s.text);
+}
+
+/**
+ * Pick the passages whose embeddings are closest to the query embedding.
+ * Embeddings are normalised, so the dot product is the cosine similarity.
+ * When the budget cannot cover every window, passages are picked lexically.
+ */
+export async function bestPassages(
+  content: string,
+  queryEmbedding: number[],
+  embed: (text: string) => Promise<number[]>,
+  options: SnippetOptions,
+  budget: EmbeddingBudget = { remaining: Infinity },
+  terms: string[] = []
+): Promise<string[]> {
+  const windows = sentenceWindows(content, options.fragmentWords, options.maxWindows);
+  if (windows.length <= options.fragments) return windows;
+  if (windows.length > budget.remaining) return lexicalPassages(windows, terms, options.fragments);
+  budget.remaining -= windows.length;
+
+  const scored: { text: string; score: number }[] = [];
+  for (const text of windows) {
+    scored.push({ text, score: dot(await embed(text), queryEmbedding) });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.fragments)
+    .map(s => s.text);
+}
+
+/**
+ * Attach `snippet` (plain text) and `highlights` (HTML with <mark>) to a page
+ * of results. Only the returned page is processed, never the candidate window.
+ */
+export async function attachSnippets(
+  pool: Pool,
+  results: any[],
+  context: SnippetContext
+): Promise<void> {
+  if (!results.length) return;
+
+  const { options } = context;
+  const headlines = new Map<string, string>();
+  const budget: EmbeddingBudget = { remaining: options.maxEmbeddings };
+
+  if (context.textQuery) {
+    const result = await pool.query(
+      `SELECT id, ts_headline(language_config, COALESCE(content, ''), ${rowTsQuerySql('$1', context.textConfig)}, $2) AS headline
+       FROM documents
+       WHERE id = ANY($3::uuid[])`,
+      [context.textQuery, headlineOptions(options), results.map(r => r.id)]
+    );
+    for (const row of result.rows) {
+      // Without a match ts_headline returns the start of the document unmarked
+      if (row.headline && row.headline.includes(MARK_START)) {
+        headlines.set(String(row.id), row.headline);
+      }
+    }
+  }
+
+  for (const doc of results) {
+    const content: string = doc.content || '';
+    let fragments: string[] = [];
+
+    const headline = headlines.get(String(doc.id));
+    if (headline) {
+      fragments = headline.split(FRAGMENT_DELIMITER).map(f => f.trim()).filter(Boolean);
+    } else if (context.queryEmbedding && content) {
+      // The chunk that matched is already the best region to look in
+      const passages = await bestPassages(
+        doc.matchedChunk?.text || content, context.queryEmbedding, context.embed, options, budget, context.terms
+      );
+      fragments = passages.map(p => markTerms(p, context.terms));
+    }
+
+    doc.highlights = fragments.map(renderHighlight);
+    doc.snippet = trimSnippet(fragments.length ? stripMarks(fragments[0]) : content, options.snippetLength);
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Full-Text Search Helpers
+ * SQL fragments for the persisted, weighted documents.search_vector column
+ * (title weight A, content weight B, tags weight C) and language config mapping
+ */
+
+import { Pool } from 'pg';
+
+/**
+ * Text search configurations shipped with PostgreSQL. Only names from this list
+ * are ever inlined into SQL.
+ */
+export const TEXT_SEARCH_CONFIGS = [
+  'simple', 'arabic', 'armenian', 'basque', 'catalan', 'danish', 'dutch', 'english',
+  'finnish', 'french', 'german', 'greek', 'hindi', 'hungarian', 'indonesian', 'irish',
+  'italian', 'lithuanian', 'nepali', 'norwegian', 'portuguese', 'romanian', 'russian',
+  'serbian', 'spanish', 'swedish', 'tamil', 'turkish', 'yiddish'
+] as const;
+
+export type TextSearchConfig = typeof TEXT_SEARCH_CONFIGS[number];
+
+// ISO 639-1 and 639-3 codes (as produced by franc / Nostr language tags)
+const LANGUAGE_CODES: Record<string, TextSearchConfig> = {
+  ar: 'arabic', ara: 'arabic',
+  hy: 'armenian', hye: 'armenian',
+  eu: 'basque', eus: 'basque',
+  ca: 'catalan', cat: 'catalan',
+  da: 'danish', dan: 'danish',
+  nl: 'dutch', nld: 'dutch',
+  en: 'english', eng: 'english',
+  fi: 'finnish', fin: 'finnish',
+  fr: 'french', fra: 'french',
+  de: 'german', deu: 'german',
+  el: 'greek', ell: 'greek',
+  hi: 'hindi', hin: 'hindi',
+  hu: 'hungarian', hun: 'hungarian',
+  id: 'indonesian', ind: 'indonesian',
+  ga: 'irish', gle: 'irish',
+  it: 'italian', ita: 'italian',
+  lt: 'lithuanian', lit: 'lithuanian',
+  ne: 'nepali', nep: 'nepali',
+  no: 'norwegian', nb: 'norwegian', nn: 'norwegian', nor: 'norwegian', nob: 'norwegian',
+  pt: 'portuguese', por: 'portuguese',
+  ro: 'romanian', ron: 'romanian',
+  ru: 'russian', rus: 'russian',
+  sr: 'serbian', srp: 'serbian',
+  es: 'spanish', spa: 'spanish',
+  sv: 'swedish', swe: 'swedish',
+  ta: 'tamil', tam: 'tamil',
+  tr: 'turkish', tur: 'turkish',
+  yi: 'yiddish', yid: 'yiddish'
+};
+
+function isTextSearchConfig(value: string): value is TextSearchConfig {
+  return (TEXT_SEARCH_CONFIGS as readonly string[]).includes(value);
+}
+
+export const DEFAULT_TEXT_SEARCH_CONFIG: TextSearchConfig = isTextSearchConfig(process.env.SEARCH_TEXT_CONFIG || '')
+  ? process.env.SEARCH_TEXT_CONFIG as TextSearchConfig
+  : 'english';
+
+/**
+ * Map a language name or ISO code to a PostgreSQL text search config.
+ * Unknown or undetermined languages fall back to the default config.
+ */
+export function languageToTsConfig(language?: string | null): TextSearchConfig {
+  if (!language) return DEFAULT_TEXT_SEARCH_CONFIG;
+  const lowered = language.trim().toLowerCase().split(/[-_]/)[0];
+  if (isTextSearchConfig(lowered)) return lowered;
+  return LANGUAGE_CODES[lowered] || DEFAULT_TEXT_SEARCH_CONFIG;
+}
+
+// How long the list of configs the corpus uses is cached
+const CORPUS_CONFIGS_TTL_MS = Number(process.env.SEARCH_TEXT_CONFIGS_TTL_MS || 600_000);
+
+type TsQueryParser = 'to_tsquery' | 'plainto_tsquery' | 'websearch_to_tsquery';
+
+/**
+ * Config(s) a query is parsed with: one when the searcher names the language,
+ * or every config the corpus uses, each document matched by the query parsed
+ * in its own language_config
+ */
+export type TextQueryConfig = TextSearchConfig | readonly TextSearchConfig[];
+
+let corpusConfigs: { configs: TextSearchConfig[]; loadedAt: number } | null = null;
+
+/**
+ * The text search configs indexed documents use
+ */
+export async function corpusTextConfigs(pool: Pool): Promise<TextSearchConfig[]> {
+  if (corpusConfigs && Date.now() - corpusConfigs.loadedAt < CORPUS_CONFIGS_TTL_MS) {
+    return corpusConfigs.configs;
+  }
+
+  const result = await pool.query('SELECT DISTINCT language_config::text AS config FROM documents');
+  const configs = result.rows.map(row => row.config).filter(isTextSearchConfig);
+  corpusConfigs = { configs: configs.length > 0 ? configs : [DEFAULT_TEXT_SEARCH_CONFIG], loadedAt: Date.now() };
+  return corpusConfigs.configs;
+}
+
+/**
+ * tsquery expression for a bound parameter, e.g. tsQuerySql('$2')
+ */
+export function tsQuerySql(
+  paramRef: string,
+  config: TextSearchConfig = DEFAULT_TEXT_SEARCH_CONFIG,
+  parser: TsQueryParser = 'to_tsquery'
+): string {
+  return `${parser}('${config}'::regconfig, ${paramRef})`;
+}
+
+/**
+ * tsquery expression for ranking or highlighting a row: parsed with the row's
+ * own language_config when the query has several configs
+ */
+export function rowTsQuerySql(
+  paramRef: string,
+  config: TextQueryConfig = DEFAULT_TEXT_SEARCH_CONFIG,
+  options: { alias?: string; parser?: TsQueryParser } = {}
+): string {
+  const parser = options.parser || 'to_tsquery';
+  if (typeof config === 'string') return tsQuerySql(paramRef, config, parser);
+  return `${parser}(${options.alias ? `${options.alias}.` : ''}language_config, ${paramRef})`;
+}
+
+/**
+ * Match predicate against the persisted search_vector (uses the GIN index).
+ * With several configs there is one arm per config, so each arm still can.
+ */
+export function textMatchSql(
+  paramRef: string,
+  options: { alias?: string; config?: TextQueryConfig; parser?: TsQueryParser } = {}
+): string {
+  const prefix = options.alias ? `${options.alias}.` : '';
+  const config = options.config ?? DEFAULT_TEXT_SEARCH_CONFIG;
+  if (typeof config === 'string') {
+    return `${prefix}search_vector @@ ${tsQuerySql(paramRef, config, options.parser)}`;
+  }
+
+  const arms = (config.length > 0 ? config : [DEFAULT_TEXT_SEARCH_CONFIG]).map(each =>
+    `(${prefix}language_config = '${each}'::regconfig AND ${prefix}search_vector @@ ${tsQuerySql(paramRef, each, options.parser)})`
+  );
+  return `(${arms.join(' OR ')})`;
+}
+
+/**
+ * Weighted rank against the persisted search_vector
+ */
+export function textRankSql(
+  paramRef: string,
+  options: { alias?: string; config?: TextQueryConfig; parser?: TsQueryParser } = {}
+): string {
+  const column = options.alias ? `${options.alias}.search_vector` : 'search_vector';
+  return `ts_rank(${column}, ${rowTsQuerySql(paramRef, options.config, options)})`;
+}
@@ -39,9 +39,43 @@ export interface AbbreviationExpansion {
   source: 'dictionary' | 'ontology';
 }
 
+export interface FusionExplanation {
+  strategy: 'linear' | 'rrf';
+  k?: number;
+  weights: { vector: number; text: number };
+  legHits?: { vector: number; text: number };
+}
+
+export type SearchFilterField =
+  | 'author'
+  | 'tag'
+  | 'after'
+  | 'before'
+  | 'source'
+  | 'type'
+  | 'content_type'
+  | 'attr'
+  | 'has'
+  | 'quality';
+
+export interface SearchFilter {
+  field: SearchFilterField;
+  value: string;
+  negated: boolean;
+  raw: string;
+  path?: string[];        // attr.<path> filters only
+}
+
+export interface RejectedSearchFilter {
+  raw: string;
+  reason: string;
+}
+
 export interface QueryRewriteExplanation {
   originalQuery: string;
   normalizedQuery: string;
+  filters: SearchFilter[];
+  rejectedFilters: RejectedSearchFilter[];
   tokens: string[];
   phrases: string[];
   expandedTerms: string[];
@@ -51,6 +85,7 @@ export interface QueryRewriteExplanation {
   fuzzyMatches: FuzzyMatch[];
   conceptMatches: ConceptMatch[];
   triggersApplied?: { name: string; pattern: string; actions: Record<string, any> }[];
+  fusion?: FusionExplanation;
   finalQuery: string;
   vectorQuery: string;
   textQuery: string;
@@ -62,6 +97,7 @@ export interface QueryRewriteResult {
   finalTerms: string[];
   vectorQuery: string;
   textQuery: string;
+  filters: SearchFilter[];
   explanation: QueryRewriteExplanation;
 }
 
@@ -5,6 +5,7 @@
 
 import { Pool } from 'pg';
 import { Router, Request, Response } from 'express';
+import { SearchIdentity, UNRESTRICTED_IDENTITY, documentAccessSql, searchIdentityFromRequest } from './search/access';
 
 // ============================================
 // Source System Detection
@@ -243,15 +244,16 @@ export class SourcePortalManager {
   /**
    * Get source URL for a document
    */
-  async getSourceUrl(documentId: string): Promise<string | null> {
+  async getSourceUrl(documentId: string, identity: SearchIdentity = UNRESTRICTED_IDENTITY): Promise<string | null> {
+    const access = documentAccessSql(identity, 2, 'd');
     const result = await this.pool.query(`
       SELECT d.url, d.external_id, d.source_id,
              c.config, c.connector_type,
              c.portal_url, c.item_url_template
       FROM documents d
       LEFT JOIN connectors c ON d.source_id = c.id
-      WHERE d.id = $1
-    `, [documentId]);
+      WHERE d.id = $1 ${access.sql ? `AND ${access.sql}` : ''}
+    `, [documentId, ...access.params]);
 
     if (result.rows.length === 0) {
       return null;
@@ -290,20 +292,26 @@ export class SourcePortalManager {
   }
 
   /**
-   * Get available launch actions for a document
+   * Get available launch actions for a document; null when the identity
+   * may not see it
    */
-  async getActions(documentId: string, query?: string): Promise<LaunchAction[]> {
+  async getActions(
+    documentId: string,
+    query?: string,
+    identity: SearchIdentity = UNRESTRICTED_IDENTITY
+  ): Promise<LaunchAction[] | null> {
+    const access = documentAccessSql(identity, 2, 'd');
     const result = await this.pool.query(`
       SELECT d.id, d.url, d.external_id, d.source_id, d.title,
              c.config, c.connector_type, c.name as connector_name,
              c.portal_url, c.item_url_template, c.search_url_template, c.edit_url_template
       FROM documents d
       LEFT JOIN connectors c ON d.source_id = c.id
-      WHERE d.id = $1
-    `, [documentId]);
+      WHERE d.id = $1 ${access.sql ? `AND ${access.sql}` : ''}
+    `, [documentId, ...access.params]);
 
     if (result.rows.length === 0) {
-      return [];
+      return null;
     }
 
     const doc = result.rows[0];
@@ -371,18 +379,19 @@ export class SourcePortalManager {
   /**
    * Get source system info for a document
    */
-  async getSourceInfo(documentId: string): Promise<{
+  async getSourceInfo(documentId: string, identity: SearchIdentity = UNRESTRICTED_IDENTITY): Promise<{
     sourceSystem: SourceSystem;
     connectorName?: string;
     portalUrl?: string;
   } | null> {
+    const access = documentAccessSql(identity, 2, 'd');
     const result = await this.pool.query(`
       SELECT d.url, d.source_id,
              c.config, c.connector_type, c.name as connector_name, c.portal_url
       FROM documents d
       LEFT JOIN connectors c ON d.source_id = c.id
-      WHERE d.id = $1
-    `, [documentId]);
+      WHERE d.id = $1 ${access.sql ? `AND ${access.sql}` : ''}
+    `, [documentId, ...access.params]);
 
     if (result.rows.length === 0) {
       return null;
@@ -437,7 +446,7 @@ export function createSourcePortalRoutes(portalManager: SourcePortalManager): Ro
   // Get source URL for a document
   router.get('/:id/source-url', async (req: Request, res: Response) => {
     try {
-      const url = await portalManager.getSourceUrl(req.params.id);
+      const url = await portalManager.getSourceUrl(req.params.id, searchIdentityFromRequest(req));
       
       if (!url) {
         return res.status(404).json({ error: 'Source URL not available' });
@@ -454,7 +463,10 @@ export function createSourcePortalRoutes(portalManager: SourcePortalManager): Ro
   router.get('/:id/actions', async (req: Request, res: Response) => {
     try {
       const query = req.query.q as string;
-      const actions = await portalManager.getActions(req.params.id, query);
+      const actions = await portalManager.getActions(req.params.id, query, searchIdentityFromRequest(req));
+      if (!actions) {
+        return res.status(404).json({ error: 'Document not found' });
+      }
       res.json(actions);
     } catch (error) {
       console.error('Error getting actions:', error);
@@ -465,7 +477,7 @@ export function createSourcePortalRoutes(portalManager: SourcePortalManager): Ro
   // Get source system info for a document
   router.get('/:id/source-info', async (req: Request, res: Response) => {
     try {
-      const info = await portalManager.getSourceInfo(req.params.id);
+      const info = await portalManager.getSourceInfo(req.params.id, searchIdentityFromRequest(req));
       
       if (!info) {
         return res.status(404).json({ error: 'Document not found' });
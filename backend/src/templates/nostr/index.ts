@@ -7,3 +7,5 @@ export * from './kinds';
 export * from './parser';
 export * from './wot';
 export * from './search';
+export * from './verify';
+export * from './lifecycle';
@@ -0,0 +1,456 @@
+/**
+ * Nostr Event Lifecycle
+ * Replaceable and addressable events (NIP-01) keep only their newest version
+ * searchable, with older versions in nostr_event_versions; deletion requests
+ * (NIP-09, kind 5) hide the events they target
+ */
+
+import { Pool, PoolClient } from 'pg';
+import { Event } from 'nostr-tools';
+import { verifyNostrEvent } from './verify';
+
+export const DELETION_KIND = 5;
+
+/**
+ * Kinds where only the latest event per pubkey and kind is kept
+ */
+export function isReplaceableKind(kind: number): boolean {
+  return kind === 0 || kind === 3 || (kind >= 10000 && kind < 20000);
+}
+
+/**
+ * Kinds where only the latest event per pubkey, kind and d tag is kept
+ */
+export function isAddressableKind(kind: number): boolean {
+  return kind >= 30000 && kind < 40000;
+}
+
+/**
+ * kind:pubkey:d-tag of a replaceable or addressable event (the d tag is empty
+ * for replaceable kinds), or null for regular events
+ */
+export function eventAddress(event: Pick<Event, 'kind' | 'pubkey' | 'tags'>): string | null {
+  if (isReplaceableKind(event.kind)) return `${event.kind}:${event.pubkey}:`;
+  if (!isAddressableKind(event.kind)) return null;
+  const dTag = event.tags.find(tag => tag[0] === 'd');
+  return `${event.kind}:${event.pubkey}:${dTag?.[1] || ''}`;
+}
+
+/**
+ * Whether candidate replaces current: the later created_at wins, and on a
+ * tie the lowest id
+ */
+export function isNewerVersion(
+  candidate: { id: string; created_at: number },
+  current: { id: string; created_at: number }
+): boolean {
+  if (candidate.created_at !== current.created_at) return candidate.created_at > current.created_at;
+  return candidate.id < current.id;
+}
+
+/**
+ * Keep the newest version of each replaceable or addressable event in a
+ * batch. Regular events pass through; order is preserved.
+ */
+export function latestVersions<T extends Event>(events: T[]): T[] {
+  const newest = new Map<string, T>();
+  for (const event of events) {
+    const address = eventAddress(event);
+    if (!address) continue;
+    const current = newest.get(address);
+    if (!current || isNewerVersion(event, current)) newest.set(address, event);
+  }
+  return events.filter(event => {
+    const address = eventAddress(event);
+    return !address || newest.get(address) === event;
+  });
+}
+
+/**
+ * What a kind 5 event asks to delete. Addresses of another author are
+ * dropped; event ids are checked against the author when applied.
+ */
+export interface DeletionRequest {
+  deletionId: string;
+  pubkey: string;
+  createdAt: number;             // Versions of an address up to this time are deleted
+  eventIds: string[];
+  addresses: string[];
+}
+
+export function parseDeletionRequest(event: Event): DeletionRequest | null {
+  if (event.kind !== DELETION_KIND) return null;
+
+  const eventIds = new Set<string>();
+  const addresses = new Set<string>();
+  for (const [name, value] of event.tags) {
+    if (!value) continue;
+    if (name === 'e' && value !== event.id) eventIds.add(value);
+    if (name === 'a' && value.split(':')[1] === event.pubkey) addresses.add(value);
+  }
+
+  if (eventIds.size === 0 && addresses.size === 0) return null;
+  return {
+    deletionId: event.id,
+    pubkey: event.pubkey,
+    createdAt: event.created_at,
+    eventIds: Array.from(eventIds),
+    addresses: Array.from(addresses)
+  };
+}
+
+/**
+ * Searchable form of an event, as written to documents and nostr_events
+ */
+export interface NostrEventDocument {
+  title: string;
+  content: string;
+  url?: string | null;
+  documentType: string;
+  contentType?: string | null;
+  attributes: Record<string, any>;
+  tags: any;
+  metadata: Record<string, any>;
+  qualityScore: number;
+}
+
+// indexed: new document; updated: re-indexed or replaced an older version;
+// stale: an indexed version is newer; deleted: the author deleted the event
+export type NostrEventOutcome = 'indexed' | 'updated' | 'stale' | 'deleted';
+
+/**
+ * The part of the store the Nostr connector uses (ConnectorSyncHooks.nostrEvents)
+ */
+export interface NostrConnectorEventStore {
+  applyDeletion(event: Event): Promise<number>;
+  admitConnectorEvent(
+    event: Event,
+    externalId: string,
+    doc: Pick<NostrEventDocument, 'title' | 'content'>
+  ): Promise<NostrEventOutcome>;
+}
+
+// Connector documents are matched by the event id or address, or the event id in attributes
+const CONNECTOR_DOCUMENT_MATCH = `
+  source_id = $1 AND deleted_at IS NULL
+  AND attributes->>'nostr' = 'true' AND attributes->>'pubkey' = $2
+  AND (external_id = ANY($3) OR attributes->>'eventId' = ANY($3)
+       OR (external_id = ANY($4) AND (attributes->>'created_at')::bigint <= $5))`;
+
+/**
+ * Versions, history and deletions in the nostr_events, nostr_event_versions
+ * and nostr_deletions tables. With a connector id, deletions also hide that
+ * connector's documents, which have no nostr_events rows.
+ */
+export class PgNostrEventStore implements NostrConnectorEventStore {
+  private pool: Pool;
+  private connectorId?: string;
+
+  constructor(pool: Pool, connectorId?: string) {
+    this.pool = pool;
+    this.connectorId = connectorId;
+  }
+
+  /**
+   * Record a deletion request and hide what it targets. The request is kept,
+   * so targets indexed later are refused too. Returns the number of
+   * documents hidden.
+   */
+  async applyDeletion(event: Event): Promise<number> {
+    const request = parseDeletionRequest(event);
+    if (!request) return 0;
+
+    const targets = [...request.eventIds, ...request.addresses];
+    await this.pool.query(`
+      INSERT INTO nostr_deletions (deletion_id, pubkey, target, deleted_before)
+      SELECT $1, $2, target, $3 FROM unnest($4::text[]) AS target
+      ON CONFLICT (deletion_id, target) DO NOTHING
+    `, [request.deletionId, request.pubkey, request.createdAt, targets]);
+
+    const events = await this.pool.query(`
+      UPDATE nostr_events SET deleted_at = NOW(), deleted_by = $1
+      WHERE pubkey = $2 AND deleted_at IS NULL
+        AND (event_id = ANY($3) OR (address = ANY($4) AND event_created_at <= $5))
+      RETURNING document_id
+    `, [request.deletionId, request.pubkey, request.eventIds, request.addresses, new Date(request.createdAt * 1000)]);
+
+    const documentIds = events.rows.map(row => row.document_id).filter(Boolean);
+    let hidden = 0;
+    if (documentIds.length > 0) {
+      const result = await this.pool.query(
+        'UPDATE documents SET deleted_at = NOW() WHERE id = ANY($1) AND deleted_at IS NULL',
+        [documentIds]
+      );
+      hidden += result.rowCount || 0;
+    }
+
+    if (this.connectorId) {
+      const result = await this.pool.query(
+        `UPDATE documents SET deleted_at = NOW() WHERE ${CONNECTOR_DOCUMENT_MATCH}`,
+        [this.connectorId, request.pubkey, request.eventIds, request.addresses, request.createdAt]
+      );
+      hidden += result.rowCount || 0;
+    }
+
+    return hidden;
+  }
+
+  /**
+   * Whether the author has asked to delete this event, by id or by address
+   */
+  async isDeleted(event: Event, client: Pool | PoolClient = this.pool): Promise<boolean> {
+    const result = await client.query(`
+      SELECT 1 FROM nostr_deletions
+      WHERE pubkey = $1 AND (target = $2 OR (target = $3 AND deleted_before >= $4))
+      LIMIT 1
+    `, [event.pubkey, event.id, eventAddress(event), event.created_at]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Index an event into documents and nostr_events. A newer version of a
+   * replaceable or addressable event takes over the document of the one it
+   * replaces, which moves to nostr_event_versions; an older one goes
+   * straight to nostr_event_versions.
+   */
+  async indexEvent(event: Event, doc: NostrEventDocument): Promise<NostrEventOutcome> {
+    const verification = verifyNostrEvent(event);
+    if (!verification.valid) {
+      throw new Error(`Refusing to index event ${event.id}: ${verification.reason}`);
+    }
+
+    const address = eventAddress(event);
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      if (await this.isDeleted(event, client)) {
+        await client.query('ROLLBACK');
+        return 'deleted';
+      }
+
+      const existing = await client.query(`
+        SELECT n.id, n.document_id, n.event_id, n.event_created_at, n.tags, n.event_metadata,
+               n.pubkey, n.kind, n.address, d.title, d.content
+        FROM nostr_events n
+        LEFT JOIN documents d ON d.id = n.document_id
+        WHERE n.event_id = $1 OR (n.address IS NOT NULL AND n.address = $2)
+        ORDER BY (n.event_id = $1) DESC
+        LIMIT 1
+        FOR UPDATE OF n
+      `, [event.id, address]);
+      const current = existing.rows[0];
+
+      let outcome: NostrEventOutcome;
+      if (!current) {
+        await this.insertEvent(client, event, doc, address);
+        outcome = 'indexed';
+      } else if (current.event_id === event.id) {
+        await this.updateEvent(client, current, event, doc, address);
+        outcome = 'updated';
+      } else if (isNewerVersion(event, { id: current.event_id, created_at: toUnix(current.event_created_at) })) {
+        await this.archiveVersion(client, {
+          eventId: current.event_id,
+          address: current.address,
+          pubkey: current.pubkey,
+          kind: current.kind,
+          createdAt: current.event_created_at,
+          title: current.title,
+          content: current.content,
+          tags: current.tags,
+          metadata: current.event_metadata
+        }, event.id);
+        await this.updateEvent(client, current, event, doc, address);
+        outcome = 'updated';
+      } else {
+        await this.archiveVersion(client, {
+          ...eventVersion(event, address!, doc),
+          tags: doc.tags,
+          metadata: doc.metadata
+        }, current.event_id);
+        outcome = 'stale';
+      }
+
+      await client.query('COMMIT');
+      return outcome;
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Decide whether a connector document for an event should be (re)indexed.
+   * Returns 'stale' when the connector holds a newer version, 'deleted' when
+   * the author deleted the event (hiding the connector's copy), and
+   * 'updated' otherwise, archiving the version the event replaces.
+   */
+  async admitConnectorEvent(event: Event, externalId: string, doc: Pick<NostrEventDocument, 'title' | 'content'>): Promise<NostrEventOutcome> {
+    if (!this.connectorId) throw new Error('admitConnectorEvent needs a connector id');
+    const address = eventAddress(event);
+
+    const existing = await this.pool.query(`
+      SELECT title, content, attributes FROM documents
+      WHERE source_id = $1 AND external_id = $2
+    `, [this.connectorId, externalId]);
+    const current = existing.rows[0];
+    const currentId = current?.attributes?.eventId;
+    const currentCreatedAt = Number(current?.attributes?.created_at);
+
+    if (address && currentId && currentId !== event.id
+      && !isNewerVersion(event, { id: currentId, created_at: currentCreatedAt })) {
+      await this.archiveVersion(this.pool, eventVersion(event, address, doc), currentId);
+      return 'stale';
+    }
+
+    if (await this.isDeleted(event)) {
+      await this.pool.query(
+        'UPDATE documents SET deleted_at = NOW() WHERE source_id = $1 AND external_id = $2 AND deleted_at IS NULL',
+        [this.connectorId, externalId]
+      );
+      return 'deleted';
+    }
+
+    if (address && currentId && currentId !== event.id) {
+      await this.archiveVersion(this.pool, {
+        eventId: currentId,
+        address,
+        pubkey: event.pubkey,
+        kind: event.kind,
+        createdAt: new Date(currentCreatedAt * 1000),
+        title: current.title,
+        content: current.content
+      }, event.id);
+    }
+    return current ? 'updated' : 'indexed';
+  }
+
+  private async archiveVersion(client: Pool | PoolClient, version: ArchivedVersion, supersededBy: string): Promise<void> {
+    await client.query(`
+      INSERT INTO nostr_event_versions (
+        event_id, address, pubkey, kind, event_created_at, title, content, tags, metadata, superseded_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (event_id) DO NOTHING
+    `, [
+      version.eventId,
+      version.address,
+      version.pubkey,
+      version.kind,
+      version.createdAt,
+      version.title,
+      version.content,
+      version.tags === undefined ? null : JSON.stringify(version.tags),
+      version.metadata === undefined ? null : JSON.stringify(version.metadata),
+      supersededBy
+    ]);
+  }
+
+  private async insertEvent(client: PoolClient, event: Event, doc: NostrEventDocument, address: string | null): Promise<void> {
+    const documentResult = await client.query(`
+      INSERT INTO documents (
+        title, content, url, document_type,
+        last_modified, attributes, content_type
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7::content_type)
+      RETURNING id
+    `, [
+      doc.title,
+      doc.content,
+      doc.url || null,
+      doc.documentType,
+      new Date(event.created_at * 1000),
+      JSON.stringify(doc.attributes),
+      doc.contentType || null
+    ]);
+
+    await client.query(`
+      INSERT INTO nostr_events (
+        document_id, event_id, pubkey, kind, event_created_at,
+        tags, event_metadata, quality_score, content_type, address
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9::content_type, $10)
+    `, [
+      documentResult.rows[0].id,
+      event.id,
+      event.pubkey,
+      event.kind,
+      new Date(event.created_at * 1000),
+      JSON.stringify(doc.tags),
+      JSON.stringify(doc.metadata),
+      doc.qualityScore,
+      doc.contentType || null,
+      address
+    ]);
+  }
+
+  private async updateEvent(
+    client: PoolClient,
+    current: Record<string, any>,
+    event: Event,
+    doc: NostrEventDocument,
+    address: string | null
+  ): Promise<void> {
+    await client.query(`
+      UPDATE documents SET
+        title = $2, content = $3, url = $4, last_modified = $5,
+        attributes = $6, content_type = $7::content_type,
+        deleted_at = NULL, updated_at = NOW()
+      WHERE id = $1
+    `, [
+      current.document_id,
+      doc.title,
+      doc.content,
+      doc.url || null,
+      new Date(event.created_at * 1000),
+      JSON.stringify(doc.attributes),
+      doc.contentType || null
+    ]);
+
+    await client.query(`
+      UPDATE nostr_events SET
+        event_id = $2, event_created_at = $3, tags = $4, event_metadata = $5,
+        quality_score = $6, content_type = $7::content_type, address = $8,
+        deleted_at = NULL, deleted_by = NULL, indexed_at = NOW()
+      WHERE id = $1
+    `, [
+      current.id,
+      event.id,
+      new Date(event.created_at * 1000),
+      JSON.stringify(doc.tags),
+      JSON.stringify(doc.metadata),
+      doc.qualityScore,
+      doc.contentType || null,
+      address
+    ]);
+  }
+}
+
+interface ArchivedVersion {
+  eventId: string;
+  address: string;
+  pubkey: string;
+  kind: number;
+  createdAt: Date;
+  title: string;
+  content: string;
+  tags?: any;
+  metadata?: Record<string, any>;
+}
+
+function eventVersion(event: Event, address: string, doc: { title: string; content: string }): ArchivedVersion {
+  return {
+    eventId: event.id,
+    address,
+    pubkey: event.pubkey,
+    kind: event.kind,
+    createdAt: new Date(event.created_at * 1000),
+    title: doc.title,
+    content: doc.content
+  };
+}
+
+function toUnix(value: Date | string | number): number {
+  return Math.floor(new Date(value).getTime() / 1000);
+}
@@ -364,6 +364,7 @@ export function normalizeNostrEvent(parsed: ParsedNostrEvent): {
     url: parsed.url,
     attributes: {
       nostr: true,
+      eventId: parsed.id,
       kind: parsed.kind,
       kindName: kindMeta?.name,
       kindCategory: kindMeta?.category,
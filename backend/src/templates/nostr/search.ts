@@ -5,6 +5,9 @@
 
 import { Pool } from 'pg';
 import { getKindMetadata, NOSTR_KIND_REGISTRY } from './kinds';
+import { textMatchSql, textRankSql } from '../../search/text-search';
+import { vectorDistanceSql, vectorScopeSql } from '../../embeddings/space';
+import { liveDocumentSql } from '../../search/filters';
 
 export interface NostrSearchFacets {
   kinds: Array<{ kind: number; name: string; count: number }>;
@@ -32,7 +35,7 @@ export async function getNostrSearchFacets(pool: Pool): Promise<NostrSearchFacet
       (attributes->'kind')::int as kind,
       COUNT(*) as count
     FROM documents
-    WHERE attributes->>'nostr' = 'true'
+    WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
     GROUP BY kind
     ORDER BY count DESC
   `);
@@ -52,7 +55,7 @@ export async function getNostrSearchFacets(pool: Pool): Promise<NostrSearchFacet
       attributes->'kindCategory' as category,
       COUNT(*) as count
     FROM documents
-    WHERE attributes->>'nostr' = 'true'
+    WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
     GROUP BY category
     ORDER BY count DESC
   `);
@@ -68,7 +71,7 @@ export async function getNostrSearchFacets(pool: Pool): Promise<NostrSearchFacet
       attributes->'pubkey' as pubkey,
       COUNT(*) as count
     FROM documents
-    WHERE attributes->>'nostr' = 'true'
+    WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
     GROUP BY pubkey
     ORDER BY count DESC
     LIMIT 20
@@ -85,7 +88,7 @@ export async function getNostrSearchFacets(pool: Pool): Promise<NostrSearchFacet
       jsonb_array_elements_text(attributes->'tags'->'topic') as tag,
       COUNT(*) as count
     FROM documents
-    WHERE attributes->>'nostr' = 'true'
+    WHERE attributes->>'nostr' = 'true' AND ${liveDocumentSql()}
       AND attributes->'tags'->'topic' IS NOT NULL
     GROUP BY tag
     ORDER BY count DESC
@@ -104,7 +107,8 @@ export async function getNostrSearchFacets(pool: Pool): Promise<NostrSearchFacet
  * Build SQL WHERE clause for Nostr search filters
  */
 export function buildNostrFilterClause(filters: NostrSearchFilters): { where: string; params: any[] } {
-  const conditions: string[] = ["attributes->>'nostr' = 'true'"];
+  // Tombstoned documents (including events deleted by their authors) are hidden
+  const conditions: string[] = ["attributes->>'nostr' = 'true'", liveDocumentSql()];
   const params: any[] = [];
   let paramIndex = 1;
 
@@ -164,11 +168,11 @@ export async function searchNostrEvents(
     
     const result = await pool.query(
       `SELECT id, title, content, url, source_id, document_type, attributes,
-              1 - (embedding <=> $1::vector) as score
+              1 - ${vectorDistanceSql('$1')} as score
        FROM documents
        WHERE ${where}
-         AND embedding IS NOT NULL
-       ORDER BY embedding <=> $1::vector
+         AND ${vectorScopeSql()}
+       ORDER BY ${vectorDistanceSql('$1')}
        LIMIT $${params.length + 2}`,
       [vectorStr, ...params, limit]
     );
@@ -180,10 +184,10 @@ export async function searchNostrEvents(
     
     const result = await pool.query(
       `SELECT id, title, content, url, source_id, document_type, attributes,
-              ts_rank(to_tsvector('english', content || ' ' || title), to_tsquery('english', $1)) as score
+              ${textRankSql('$1')} as score
        FROM documents
        WHERE ${where}
-         AND to_tsvector('english', content || ' ' || title) @@ to_tsquery('english', $1)
+         AND ${textMatchSql('$1')}
        ORDER BY score DESC
        LIMIT $${params.length + 2}`,
       [expandedQuery, ...params, limit]
@@ -202,12 +206,12 @@ export async function searchNostrEvents(
     
     const result = await pool.query(
       `WITH vector_scores AS (
-         SELECT id, 1 - (embedding <=> $1::vector) as vscore
+         SELECT id, 1 - ${vectorDistanceSql('$1')} as vscore
          FROM documents
-         WHERE ${where} AND embedding IS NOT NULL
+         WHERE ${where} AND ${vectorScopeSql()}
        ),
        text_scores AS (
-         SELECT id, ts_rank(to_tsvector('english', content || ' ' || title), to_tsquery('english', $2)) as tscore
+         SELECT id, ${textRankSql('$2')} as tscore
          FROM documents
          WHERE ${where}
        )
@@ -0,0 +1,102 @@
+/**
+ * Nostr Event Verification
+ * Checks that an event's id is the hash of its content and that its
+ * Schnorr signature matches the author's pubkey
+ */
+
+import { Event, VerifiedEvent, validateEvent, getEventHash, verifyEvent } from 'nostr-tools';
+
+export type EventRejection = 'malformed' | 'id-mismatch' | 'bad-signature';
+
+export interface EventVerification {
+  valid: boolean;
+  reason?: EventRejection;
+}
+
+export interface RejectedEvent {
+  event: Event;
+  reason: EventRejection;
+}
+
+export interface BatchVerification {
+  valid: Event[];
+  rejected: RejectedEvent[];
+}
+
+const VERIFIED_CACHE_SIZE = Number(process.env.NOSTR_VERIFIED_CACHE_SIZE || 50000);
+const VERIFY_CHUNK_SIZE = 200;
+
+const HEX_64 = /^[0-9a-f]{64}$/;
+const HEX_128 = /^[0-9a-f]{128}$/;
+
+// Signatures already checked, keyed by id and sig. The id is recomputed for
+// every event, so a cache hit only skips the Schnorr check for content the
+// signature is known to cover.
+const verifiedSignatures = new Map<string, true>();
+
+function rememberSignature(key: string): void {
+  verifiedSignatures.set(key, true);
+  if (verifiedSignatures.size > VERIFIED_CACHE_SIZE) {
+    const oldest = verifiedSignatures.keys().next().value;
+    if (oldest !== undefined) verifiedSignatures.delete(oldest);
+  }
+}
+
+/**
+ * Verify one event
+ */
+export function verifyNostrEvent(event: Event): EventVerification {
+  if (!validateEvent(event)
+    || typeof event.id !== 'string' || !HEX_64.test(event.id)
+    || typeof event.sig !== 'string' || !HEX_128.test(event.sig)) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  let hash: string;
+  try {
+    hash = getEventHash(event);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+  if (hash !== event.id) return { valid: false, reason: 'id-mismatch' };
+
+  const key = `${event.id}:${event.sig}`;
+  if (verifiedSignatures.has(key)) return { valid: true };
+  if (!verifyEvent(event)) return { valid: false, reason: 'bad-signature' };
+
+  rememberSignature(key);
+  return { valid: true };
+}
+
+/**
+ * Verify a batch of events. Ids are recomputed for every event; signatures
+ * already verified are not checked again, and the work yields to the event
+ * loop between chunks so large relay responses do not stall other requests.
+ */
+export async function verifyNostrEvents(events: Event[]): Promise<BatchVerification> {
+  const result: BatchVerification = { valid: [], rejected: [] };
+
+  for (let i = 0; i < events.length; i++) {
+    if (i > 0 && i % VERIFY_CHUNK_SIZE === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    const verification = verifyNostrEvent(events[i]);
+    if (verification.valid) {
+      result.valid.push(events[i]);
+    } else {
+      result.rejected.push({ event: events[i], reason: verification.reason! });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Stand-in for nostr-tools' relay-level check, so that invalid events reach
+ * verifyNostrEvents and are counted against the relay that served them
+ * instead of being dropped silently
+ */
+export function deferVerification(event: Event): event is VerifiedEvent {
+  return true;
+}
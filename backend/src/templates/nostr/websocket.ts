@@ -0,0 +1,11 @@
+/**
+ * WebSocket for nostr-tools
+ * nostr-tools connects through the global WebSocket, which Node 20 only
+ * provides behind --experimental-websocket. Import this before opening relays.
+ */
+
+import WebSocket from 'ws';
+
+if (typeof (global as any).WebSocket === 'undefined') {
+  (global as any).WebSocket = WebSocket;
+}
@@ -1,4 +1,5 @@
 import { Pool } from 'pg';
+import { getActiveEmbeddingSpace, vectorDistanceSql, vectorScopeSql } from '../embeddings/space';
 import { NLPProcessor } from '../nlp';
 import { chunkTranscript } from '../podcasts/utils';
 import { buildConsensusTranscript } from './consensus';
@@ -19,6 +20,7 @@ import { promisify } from 'util';
 import fs from 'fs/promises';
 import os from 'os';
 import path from 'path';
+import { textMatchSql, textRankSql } from '../search/text-search';
 
 const execFileAsync = promisify(execFile);
 
@@ -298,10 +300,10 @@ export class TVService {
       const whereClause = buildWhere(1);
       params = [vectorStr, ...filters.map(f => f.value), limit];
       queryText = `
-        SELECT id, title, content, url, attributes, 1 - (embedding <=> $1::vector) as score
+        SELECT id, title, content, url, attributes, 1 - ${vectorDistanceSql('$1')} as score
         FROM documents
-        ${whereClause}
-        ORDER BY embedding <=> $1::vector
+        ${whereClause} AND ${vectorScopeSql()}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $${params.length}
       `;
     } else if (mode === 'text') {
@@ -309,10 +311,10 @@ export class TVService {
       params = [query, ...filters.map(f => f.value), limit];
       queryText = `
         SELECT id, title, content, url, attributes,
-          ts_rank(to_tsvector('english', content || ' ' || title), plainto_tsquery('english', $1)) as score
+          ${textRankSql('$1', { parser: 'plainto_tsquery' })} as score
         FROM documents
         ${whereClause}
-          AND to_tsvector('english', content || ' ' || title) @@ plainto_tsquery('english', $1)
+          AND ${textMatchSql('$1', { parser: 'plainto_tsquery' })}
         ORDER BY score DESC
         LIMIT $${params.length}
       `;
@@ -321,12 +323,12 @@ export class TVService {
       params = [vectorStr, query, ...filters.map(f => f.value), limit];
       queryText = `
         WITH vector_scores AS (
-          SELECT id, 1 - (embedding <=> $1::vector) as vscore
+          SELECT id, 1 - ${vectorDistanceSql('$1')} as vscore
           FROM documents
-          ${whereClause}
+          ${whereClause} AND ${vectorScopeSql()}
         ),
         text_scores AS (
-          SELECT id, ts_rank(to_tsvector('english', content || ' ' || title), plainto_tsquery('english', $2)) as tscore
+          SELECT id, ${textRankSql('$2', { parser: 'plainto_tsquery' })} as tscore
           FROM documents
           ${whereClause}
         )
@@ -370,10 +372,10 @@ export class TVService {
     const docsResult = await this.pool.query(`
       WITH vector_docs AS (
         SELECT id, title, content, url, attributes,
-               1 - (embedding <=> $1::vector) as vscore
+               1 - ${vectorDistanceSql('$1')} as vscore
         FROM documents
-        WHERE document_type = 'tv_transcript_chunk'
-        ORDER BY embedding <=> $1::vector
+        WHERE document_type = 'tv_transcript_chunk' AND ${vectorScopeSql()}
+        ORDER BY ${vectorDistanceSql('$1')}
         LIMIT $4
       ),
       tag_matches AS (
@@ -737,10 +739,10 @@ export class TVService {
 
       const result = await this.pool.query(`
         INSERT INTO documents (
-          title, content, url, document_type, attributes, embedding, created_at, updated_at
-        ) VALUES ($1, $2, $3, 'tv_transcript_chunk', $4::jsonb, $5::vector, NOW(), NOW())
+          title, content, url, document_type, attributes, embedding, embedding_model, created_at, updated_at
+        ) VALUES ($1, $2, $3, 'tv_transcript_chunk', $4::jsonb, $5::vector, $6, NOW(), NOW())
         RETURNING id
-      `, [title, chunk.text, null, JSON.stringify(attributes), vectorStr]);
+      `, [title, chunk.text, null, JSON.stringify(attributes), vectorStr, getActiveEmbeddingSpace().modelId]);
 
       const documentId = result.rows[0].id;
       await this.storeMetadata(documentId, episode, consensus.overallConfidence);
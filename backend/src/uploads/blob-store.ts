@@ -0,0 +1,82 @@
+/**
+ * Blob Store
+ * Original files on local disk, addressed by the sha256 of their content, so
+ * a file uploaded twice is stored once
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const BLOB_STORE_DIR = process.env.BLOB_STORE_DIR || path.resolve(process.cwd(), 'data', 'blobs');
+
+export class LocalBlobStore {
+  private root: string;
+
+  constructor(root: string = BLOB_STORE_DIR) {
+    this.root = root;
+  }
+
+  async put(data: Buffer): Promise<string> {
+    const key = createHash('sha256').update(data).digest('hex');
+    const target = this.pathFor(key);
+    if (!fs.existsSync(target)) {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      const temp = `${target}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temp, data);
+      await fs.promises.rename(temp, target);
+    }
+    return key;
+  }
+
+  /**
+   * Move a file (e.g. a finished upload) into the store
+   */
+  async putFile(filePath: string): Promise<string> {
+    const hash = createHash('sha256');
+    await new Promise<void>((resolve, reject) => {
+      fs.createReadStream(filePath)
+        .on('data', chunk => hash.update(chunk))
+        .on('end', () => resolve())
+        .on('error', reject);
+    });
+
+    const key = hash.digest('hex');
+    const target = this.pathFor(key);
+    if (fs.existsSync(target)) {
+      await fs.promises.unlink(filePath);
+      return key;
+    }
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    try {
+      await fs.promises.rename(filePath, target);
+    } catch (error) {
+      // Temp dir on another device
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+      await fs.promises.copyFile(filePath, `${target}.${process.pid}.tmp`);
+      await fs.promises.rename(`${target}.${process.pid}.tmp`, target);
+      await fs.promises.unlink(filePath);
+    }
+    return key;
+  }
+
+  has(key: string): boolean {
+    return fs.existsSync(this.pathFor(key));
+  }
+
+  async read(key: string): Promise<Buffer> {
+    return fs.promises.readFile(this.pathFor(key));
+  }
+
+  createReadStream(key: string): fs.ReadStream {
+    return fs.createReadStream(this.pathFor(key));
+  }
+
+  private pathFor(key: string): string {
+    if (!/^[0-9a-f]{64}$/.test(key)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return path.join(this.root, key.slice(0, 2), key.slice(2, 4), key);
+  }
+}
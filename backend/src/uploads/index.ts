@@ -0,0 +1,9 @@
+/**
+ * Uploads Module
+ * Export the blob store, upload jobs and routes
+ */
+
+export * from './types';
+export * from './blob-store';
+export * from './jobs';
+export * from './routes';
@@ -0,0 +1,275 @@
+/**
+ * Upload Jobs
+ * Each uploaded file is stored in the blob store and indexed in the
+ * background: format extraction, archives and emails unpacked, the processing
+ * pipeline, then chunking and embedding. Jobs survive a restart.
+ */
+
+import { Pool } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { ExtractedDocument, FileExtractor, EXTRACTABLE_FILE_TYPES, FileItem, autoProcessEnabled, fileExtension } from '../connectors';
+import { getActiveEmbeddingSpace } from '../embeddings';
+import { indexDocumentChunks } from '../search/chunks';
+import { languageToTsConfig } from '../search/text-search';
+import { SearchIdentity, UNRESTRICTED_IDENTITY, documentAccessSql } from '../search/access';
+import { WebhookManager } from '../webhooks';
+import { LocalBlobStore } from './blob-store';
+import { ReceivedFile, StoredBlob, UploadJob, UploadOptions } from './types';
+
+const UPLOAD_CONCURRENCY = Number(process.env.UPLOAD_CONCURRENCY || 1);
+
+export class UploadJobManager {
+  private pool: Pool;
+  private blobs: LocalBlobStore;
+  private generateEmbedding: (text: string) => Promise<number[]>;
+  private webhookManager?: WebhookManager;
+  private queue: string[] = [];
+  private running = new Set<string>();
+
+  constructor(
+    pool: Pool,
+    blobs: LocalBlobStore,
+    generateEmbedding: (text: string) => Promise<number[]>,
+    webhookManager?: WebhookManager
+  ) {
+    this.pool = pool;
+    this.blobs = blobs;
+    this.generateEmbedding = generateEmbedding;
+    this.webhookManager = webhookManager;
+  }
+
+  /**
+   * Store the received files and queue one job per file
+   */
+  async createJobs(files: ReceivedFile[], options: UploadOptions = {}): Promise<UploadJob[]> {
+    const jobs: UploadJob[] = [];
+    for (const file of files) {
+      const blobKey = await this.blobs.putFile(file.path);
+      const result = await this.pool.query(
+        `INSERT INTO upload_jobs (filename, content_type, size_bytes, blob_key, options)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [file.filename.substring(0, 500), file.contentType || null, file.size, blobKey, JSON.stringify(options)]
+      );
+      jobs.push(this.rowToJob(result.rows[0]));
+    }
+
+    for (const job of jobs) this.enqueue(job.id);
+    return jobs;
+  }
+
+  async getJob(id: string): Promise<UploadJob | null> {
+    const result = await this.pool.query('SELECT * FROM upload_jobs WHERE id = $1', [id]);
+    return result.rows[0] ? this.rowToJob(result.rows[0]) : null;
+  }
+
+  async listJobs(limit = 20): Promise<UploadJob[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM upload_jobs ORDER BY created_at DESC LIMIT $1',
+      [limit]
+    );
+    return result.rows.map(row => this.rowToJob(row));
+  }
+
+  /**
+   * The original file of an uploaded document (an inner file or attachment
+   * for documents unpacked from an archive or email), if the identity may
+   * see the document
+   */
+  async getDocumentBlob(documentId: string, identity: SearchIdentity = UNRESTRICTED_IDENTITY): Promise<StoredBlob | null> {
+    const access = documentAccessSql(identity, 2);
+    const result = await this.pool.query(
+      `SELECT attributes FROM documents
+       WHERE id = $1 AND document_type = 'upload' ${access.sql ? `AND ${access.sql}` : ''}`,
+      [documentId, ...access.params]
+    );
+    const attributes = result.rows[0]?.attributes;
+    if (!attributes?.blobKey || !this.blobs.has(attributes.blobKey)) return null;
+
+    return {
+      key: attributes.blobKey,
+      filename: attributes.filename || 'download',
+      contentType: attributes.contentType || null
+    };
+  }
+
+  openBlob(key: string) {
+    return this.blobs.createReadStream(key);
+  }
+
+  /**
+   * Queue jobs a previous process left queued or half done. Documents a
+   * half-done job already indexed are replaced.
+   */
+  async resumeInterruptedJobs(): Promise<void> {
+    const result = await this.pool.query(
+      `UPDATE upload_jobs SET status = 'queued'
+       WHERE status IN ('queued', 'processing')
+       RETURNING id, created_at`
+    );
+    if (result.rows.length > 0) {
+      console.log(`Resuming ${result.rows.length} upload job(s)`);
+    }
+    result.rows
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime())
+      .forEach(row => this.enqueue(row.id));
+  }
+
+  private enqueue(jobId: string): void {
+    this.queue.push(jobId);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.running.size < UPLOAD_CONCURRENCY && this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      this.running.add(jobId);
+      this.run(jobId)
+        .catch(error => console.error(`Upload job ${jobId} crashed:`, error))
+        .finally(() => {
+          this.running.delete(jobId);
+          this.drain();
+        });
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const started = await this.pool.query(
+      `UPDATE upload_jobs SET status = 'processing', started_at = NOW(), log = '{}'
+       WHERE id = $1 AND status = 'queued'
+       RETURNING *`,
+      [jobId]
+    );
+    if (!started.rows[0]) return;
+    const job = this.rowToJob(started.rows[0]);
+
+    const log: string[] = [];
+    const documentIds: string[] = [];
+    try {
+      const extension = fileExtension(job.filename);
+      if (!EXTRACTABLE_FILE_TYPES.includes(extension)) {
+        throw new Error(`Unsupported file type: ${extension || job.filename}`);
+      }
+
+      const found: { doc: ExtractedDocument; item: FileItem }[] = [];
+      const extractor = new FileExtractor(
+        { fileTypes: EXTRACTABLE_FILE_TYPES, autoProcess: autoProcessEnabled(job.options.autoProcess) },
+        {
+          emit: (doc, item) => found.push({ doc, item }),
+          log: message => log.push(message)
+        }
+      );
+
+      await extractor.extract({
+        externalId: `upload:${job.id}`,
+        name: job.filename,
+        displayPath: job.filename,
+        url: `/api/uploads/jobs/${job.id}/download`,
+        extension,
+        modifiedTime: job.createdAt,
+        data: await this.blobs.read(job.blobKey),
+        depth: 0,
+        attributes: {
+          filename: job.filename,
+          extension,
+          fileSize: job.size,
+          contentType: job.contentType,
+          uploadId: job.id
+        }
+      });
+
+      if (found.length === 0) {
+        throw new Error('No text could be extracted from the file');
+      }
+
+      // A resumed job replaces what it indexed before the restart
+      await this.pool.query(
+        `DELETE FROM documents WHERE document_type = 'upload' AND attributes->>'uploadId' = $1`,
+        [job.id]
+      );
+
+      for (const { doc, item } of found) {
+        const blobKey = item.depth === 0 ? job.blobKey : await this.blobs.put(item.data);
+        documentIds.push(await this.indexDocument({
+          ...doc,
+          attributes: { ...doc.attributes, uploadId: job.id, blobKey }
+        }));
+        log.push(`Indexed: ${item.displayPath}`);
+      }
+
+      await this.finishJob(job.id, 'completed', documentIds, log);
+    } catch (error) {
+      log.push(`Failed: ${(error as Error).message}`);
+      await this.finishJob(job.id, 'failed', documentIds, log, (error as Error).message);
+    }
+  }
+
+  private async indexDocument(doc: ExtractedDocument): Promise<string> {
+    const embedding = await this.generateEmbedding(`${doc.title} ${doc.content}`);
+
+    const result = await this.pool.query(`
+      INSERT INTO documents (
+        id, external_id, document_type, title, content, url, attributes,
+        embedding, embedding_model, language_config, last_modified, created_at, updated_at
+      )
+      VALUES ($1, $2, 'upload', $3, $4, $5, $6, $7::vector, $8, $9::regconfig, $10, NOW(), NOW())
+      RETURNING id, title, url
+    `, [
+      uuidv4(),
+      doc.externalId.substring(0, 255),
+      doc.title.substring(0, 500),
+      doc.content,
+      doc.url || null,
+      JSON.stringify(doc.attributes || {}),
+      `[${embedding.join(',')}]`,
+      getActiveEmbeddingSpace().modelId,
+      languageToTsConfig(doc.language || doc.attributes?.language),
+      doc.lastModified || null
+    ]);
+
+    const row = result.rows[0];
+    await indexDocumentChunks(this.pool, row.id, doc.title, doc.content, this.generateEmbedding);
+
+    this.webhookManager?.emit('document.indexed', {
+      document_id: row.id,
+      title: row.title,
+      url: row.url,
+      source_id: null
+    }).catch(console.error);
+
+    return row.id;
+  }
+
+  private async finishJob(
+    jobId: string,
+    status: 'completed' | 'failed',
+    documentIds: string[],
+    log: string[],
+    errorMessage?: string
+  ): Promise<void> {
+    await this.pool.query(
+      `UPDATE upload_jobs
+       SET status = $2, document_ids = $3, log = $4, error_message = $5, completed_at = NOW()
+       WHERE id = $1`,
+      [jobId, status, documentIds, log, errorMessage || null]
+    );
+  }
+
+  private rowToJob(row: any): UploadJob {
+    return {
+      id: row.id,
+      filename: row.filename,
+      contentType: row.content_type,
+      size: Number(row.size_bytes),
+      blobKey: row.blob_key,
+      options: row.options || {},
+      status: row.status,
+      documentIds: row.document_ids || [],
+      log: row.log || [],
+      errorMessage: row.error_message,
+      createdAt: row.created_at,
+      startedAt: row.started_at,
+      completedAt: row.completed_at
+    };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Upload Routes
+ * Multipart file upload, per-file job status and download of the originals
+ */
+
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EXTRACTABLE_FILE_TYPES, fileExtension } from '../connectors';
+import { UploadJobManager } from './jobs';
+import { UploadJob } from './types';
+
+const MAX_UPLOAD_FILES = Number(process.env.UPLOAD_MAX_FILES || 20);
+const MAX_UPLOAD_BYTES = Number(process.env.UPLOAD_MAX_FILE_MB || 100) * 1024 * 1024;
+
+const upload = multer({
+  dest: path.join(os.tmpdir(), 'beacon-uploads'),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_UPLOAD_FILES }
+});
+
+function receiveFiles(req: Request, res: Response, next: NextFunction): void {
+  upload.array('files', MAX_UPLOAD_FILES)(req, res, (error: any) => {
+    if (!error) return next();
+    if (error instanceof multer.MulterError) {
+      const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      res.status(status).json({ error: error.message, code: error.code });
+      return;
+    }
+    next(error);
+  });
+}
+
+function removeTempFiles(files: Express.Multer.File[]): void {
+  for (const file of files) {
+    fs.promises.unlink(file.path).catch(() => undefined);
+  }
+}
+
+function toResponse(job: UploadJob) {
+  const { blobKey, ...rest } = job;
+  return { ...rest, downloadUrl: `/api/uploads/jobs/${job.id}/download` };
+}
+
+export function createUploadRoutes(manager: UploadJobManager): Router {
+  const router = Router();
+
+  /**
+   * POST /api/uploads
+   * multipart/form-data with one or more `files` (archives are unpacked).
+   * Optional field `autoProcess` ("true"/"false") overrides AUTO_PROCESS.
+   * Returns 202 with one job per file.
+   */
+  router.post('/', receiveFiles, async (req: Request, res: Response) => {
+    const files = (req.files as Express.Multer.File[]) || [];
+    try {
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'No files uploaded (multipart field "files")' });
+      }
+
+      const unsupported = files.filter(file => !EXTRACTABLE_FILE_TYPES.includes(fileExtension(file.originalname)));
+      if (unsupported.length > 0) {
+        removeTempFiles(files);
+        return res.status(400).json({
+          error: `Unsupported file type: ${unsupported.map(file => file.originalname).join(', ')}`,
+          supported: EXTRACTABLE_FILE_TYPES
+        });
+      }
+
+      const autoProcess = req.body.autoProcess === undefined ? undefined : req.body.autoProcess === 'true';
+      const jobs = await manager.createJobs(
+        files.map(file => ({
+          path: file.path,
+          filename: file.originalname,
+          contentType: file.mimetype,
+          size: file.size
+        })),
+        { autoProcess }
+      );
+
+      res.status(202).json({ jobs: jobs.map(toResponse) });
+    } catch (error) {
+      removeTempFiles(files);
+      console.error('Error accepting upload:', error);
+      res.status(500).json({ error: 'Failed to accept upload' });
+    }
+  });
+
+  /**
+   * GET /api/uploads/jobs
+   */
+  router.get('/jobs', async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      res.json((await manager.listJobs(limit)).map(toResponse));
+    } catch (error) {
+      console.error('Error listing upload jobs:', error);
+      res.status(500).json({ error: 'Failed to list upload jobs' });
+    }
+  });
+
+  /**
+   * GET /api/uploads/jobs/:id
+   * Status, log and the ids of the documents indexed from the file
+   */
+  router.get('/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const job = await manager.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Upload job not found' });
+      }
+      res.json(toResponse(job));
+    } catch (error) {
+      console.error('Error getting upload job:', error);
+      res.status(500).json({ error: 'Failed to get upload job' });
+    }
+  });
+
+  /**
+   * GET /api/uploads/jobs/:id/download
+   * The uploaded file as received
+   */
+  router.get('/jobs/:id/download', async (req: Request, res: Response) => {
+    try {
+      const job = await manager.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Upload job not found' });
+      }
+      res.attachment(job.filename);
+      res.type(job.contentType || 'application/octet-stream');
+      manager.openBlob(job.blobKey)
+        .on('error', error => {
+          console.error('Error reading upload blob:', error);
+          if (!res.headersSent) res.status(404).json({ error: 'Uploaded file not found' });
+          else res.end();
+        })
+        .pipe(res);
+    } catch (error) {
+      console.error('Error downloading upload:', error);
+      res.status(500).json({ error: 'Failed to download upload' });
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,44 @@
+/**
+ * Upload Types
+ */
+
+export type UploadJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+
+export interface UploadOptions {
+  autoProcess?: boolean;       // OCR / translate / describe; default: AUTO_PROCESS
+}
+
+export interface UploadJob {
+  id: string;
+  filename: string;
+  contentType: string | null;
+  size: number;
+  blobKey: string;
+  options: UploadOptions;
+  status: UploadJobStatus;
+  documentIds: string[];
+  log: string[];
+  errorMessage: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  completedAt: Date | null;
+}
+
+/**
+ * A file received by the upload route, still in its temporary location
+ */
+export interface ReceivedFile {
+  path: string;
+  filename: string;
+  contentType?: string;
+  size: number;
+}
+
+/**
+ * Where an indexed document's original bytes can be downloaded from
+ */
+export interface StoredBlob {
+  key: string;
+  filename: string;
+  contentType: string | null;
+}
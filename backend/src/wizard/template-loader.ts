@@ -5,95 +5,9 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as yaml from 'js-yaml';
 import { IntegrationTemplate } from './types';
 
-// Simple YAML parser for our use case
-function parseYaml(content: string): any {
-  const lines = content.split('\n');
-  const result: any = {};
-  const stack: { indent: number; obj: any; key: string }[] = [{ indent: -1, obj: result, key: '' }];
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    const trimmed = line.trimStart();
-    
-    // Skip comments and empty lines
-    if (!trimmed || trimmed.startsWith('#')) continue;
-    
-    const indent = line.length - trimmed.length;
-    
-    // Pop stack until we find parent
-    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) {
-      stack.pop();
-    }
-    
-    const parent = stack[stack.length - 1].obj;
-    
-    // Handle array items
-    if (trimmed.startsWith('- ')) {
-      const value = trimmed.substring(2).trim();
-      const key = stack[stack.length - 1].key;
-      if (!parent[key]) parent[key] = [];
-      
-      if (value.includes(':')) {
-        const obj = {};
-        parent[key].push(obj);
-        parseInlineObject(value, obj);
-        stack.push({ indent, obj, key: '' });
-      } else if (value.startsWith('"') || value.startsWith("'")) {
-        parent[key].push(value.slice(1, -1));
-      } else {
-        parent[key].push(parseValue(value));
-      }
-      continue;
-    }
-    
-    // Handle key: value pairs
-    const colonIdx = trimmed.indexOf(':');
-    if (colonIdx === -1) continue;
-    
-    const key = trimmed.substring(0, colonIdx).trim();
-    const valueStr = trimmed.substring(colonIdx + 1).trim();
-    
-    if (valueStr === '' || valueStr === '|' || valueStr === '>') {
-      // Nested object or multiline string
-      parent[key] = valueStr === '|' || valueStr === '>' ? '' : {};
-      stack.push({ indent, obj: parent[key], key });
-    } else {
-      parent[key] = parseValue(valueStr);
-      stack[stack.length - 1].key = key;
-    }
-  }
-  
-  return result;
-}
-
-function parseValue(str: string): any {
-  if (str === 'true') return true;
-  if (str === 'false') return false;
-  if (str === 'null') return null;
-  if (/^-?\d+$/.test(str)) return parseInt(str, 10);
-  if (/^-?\d+\.\d+$/.test(str)) return parseFloat(str);
-  if ((str.startsWith('"') && str.endsWith('"')) || 
-      (str.startsWith("'") && str.endsWith("'"))) {
-    return str.slice(1, -1);
-  }
-  if (str.startsWith('[') && str.endsWith(']')) {
-    return str.slice(1, -1).split(',').map(s => parseValue(s.trim()));
-  }
-  return str;
-}
-
-function parseInlineObject(str: string, obj: any): void {
-  const pairs = str.split(',');
-  for (const pair of pairs) {
-    const [key, value] = pair.split(':').map(s => s.trim());
-    if (key && value) {
-      obj[key] = parseValue(value);
-    }
-  }
-}
-
 export class TemplateLoader {
   private templates: Map<string, IntegrationTemplate> = new Map();
   private templatesDir: string;
@@ -118,7 +32,7 @@ export class TemplateLoader {
         try {
           const filePath = path.join(categoryDir, file);
           const content = fs.readFileSync(filePath, 'utf-8');
-          const template = parseYaml(content) as IntegrationTemplate;
+          const template = yaml.load(content) as IntegrationTemplate;
           
           const templateId = file.replace(/\.ya?ml$/, '');
           template.category = category;
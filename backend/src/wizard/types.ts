@@ -39,6 +39,7 @@ export interface IntegrationTemplate {
   category: string;
   auth: AuthConfig;
   endpoints: Record<string, EndpointConfig>;
+  queries?: Record<string, GraphQLQueryConfig>;   // GraphQL templates: posted to the first endpoint
   mapping: Record<string, MappingConfig>;
   rate_limit?: RateLimitConfig;
   features?: string[];
@@ -77,6 +78,13 @@ export interface EndpointConfig {
   pagination?: PaginationConfig;
 }
 
+export interface GraphQLQueryConfig {
+  query: string;
+  variables?: Record<string, any>;
+  results_field?: string;
+  pagination?: PaginationConfig;
+}
+
 export interface PaginationConfig {
   type: 'cursor' | 'page' | 'offset';
   cursor_param?: string;
@@ -84,6 +92,8 @@ export interface PaginationConfig {
   offset_param?: string;
   limit_param?: string;
   next_field?: string;
+  cursor_field?: string;
+  next_param?: string;
   results_field?: string;
   total_field?: string;
   has_more_field?: string;
@@ -100,6 +110,17 @@ export interface MappingConfig {
   created?: string;
   document_type?: string;
   attributes?: Record<string, string>;
+  acl?: MappingAclConfig;
+}
+
+/**
+ * Expressions for the users and groups allowed to see a record, and whether
+ * it is public
+ */
+export interface MappingAclConfig {
+  users?: string;
+  groups?: string;
+  public?: string;
 }
 
 export interface RateLimitConfig {
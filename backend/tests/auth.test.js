@@ -0,0 +1,74 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const {
+  generateApiKey,
+  parseApiKeyPrefix,
+  hashApiKey,
+  verifyApiKeyHash,
+  hasScope,
+  resolveRequiredScope,
+  ApiKeyManager,
+  getAuthOptionsFromEnv
+} = require('../dist/auth');
+
+test('generated keys round-trip through prefix parsing and hashing', () => {
+  const { key, prefix } = generateApiKey();
+  assert.strictEqual(parseApiKeyPrefix(key), prefix);
+  assert.strictEqual(parseApiKeyPrefix('not-a-key'), null);
+
+  const hash = hashApiKey(key, 'pepper');
+  assert.ok(verifyApiKeyHash(key, hash, 'pepper'));
+  assert.ok(!verifyApiKeyHash(key, hash, 'other-pepper'));
+  assert.ok(!verifyApiKeyHash(`${key}x`, hash, 'pepper'));
+});
+
+test('admin implies every scope, write does not imply read', () => {
+  assert.ok(hasScope(['admin'], 'documents:write'));
+  assert.ok(hasScope(['search:read'], 'search:read'));
+  assert.ok(!hasScope(['search:read'], 'documents:write'));
+  assert.ok(!hasScope(['documents:write'], 'search:read'));
+});
+
+test('resolveRequiredScope separates search, write and admin routes', () => {
+  assert.strictEqual(resolveRequiredScope('GET', '/api/search'), 'search:read');
+  assert.strictEqual(resolveRequiredScope('POST', '/api/ask'), 'search:read');
+  assert.strictEqual(resolveRequiredScope('POST', '/api/search/rewrite'), 'search:read');
+  assert.strictEqual(resolveRequiredScope('POST', '/api/documents'), 'documents:write');
+  assert.strictEqual(resolveRequiredScope('DELETE', '/api/documents/123'), 'documents:write');
+  assert.strictEqual(resolveRequiredScope('GET', '/api/uploads/jobs'), 'documents:write');
+  assert.strictEqual(resolveRequiredScope('GET', '/api/uploads/jobs/abc/download'), 'documents:write');
+  assert.strictEqual(resolveRequiredScope('GET', '/api/ontology'), 'search:read');
+  assert.strictEqual(resolveRequiredScope('PUT', '/api/ontology/123'), 'admin');
+  assert.strictEqual(resolveRequiredScope('GET', '/api/connectors'), 'admin');
+  assert.strictEqual(resolveRequiredScope('POST', '/api/config/push'), 'admin');
+  assert.strictEqual(resolveRequiredScope('POST', '/api/webhooks/'), 'admin');
+  assert.strictEqual(resolveRequiredScope('POST', '/api/auth/keys'), 'admin');
+  assert.strictEqual(resolveRequiredScope('GET', '/api/nostr/relays'), 'search:read');
+  assert.strictEqual(resolveRequiredScope('PATCH', '/api/nostr/relays/wss%3A%2F%2Fnos.lol'), 'admin');
+});
+
+test('the bootstrap key grants admin and near misses do not', async () => {
+  const manager = new ApiKeyManager(null, { bootstrapKey: 'bootstrap-secret' });
+
+  const context = await manager.authenticate('bootstrap-secret');
+  assert.deepStrictEqual(context.scopes, ['admin']);
+  assert.strictEqual(context.bootstrap, true);
+
+  assert.strictEqual(await manager.authenticate('bootstrap-secreT'), null);
+  assert.strictEqual(await manager.authenticate('bootstrap'), null);
+});
+
+test('search is public unless AUTH_ANONYMOUS_SCOPES closes it', () => {
+  const saved = process.env.AUTH_ANONYMOUS_SCOPES;
+  try {
+    delete process.env.AUTH_ANONYMOUS_SCOPES;
+    assert.deepStrictEqual(getAuthOptionsFromEnv().anonymousScopes, ['search:read']);
+
+    process.env.AUTH_ANONYMOUS_SCOPES = '';
+    assert.deepStrictEqual(getAuthOptionsFromEnv().anonymousScopes, []);
+  } finally {
+    if (saved === undefined) delete process.env.AUTH_ANONYMOUS_SCOPES;
+    else process.env.AUTH_ANONYMOUS_SCOPES = saved;
+  }
+});
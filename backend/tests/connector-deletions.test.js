@@ -0,0 +1,131 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const JSZip = require('jszip');
+
+const { FolderConnector } = require('../dist/connectors');
+
+function folderConnector(folderPath, deletions, fileTypes = ['.txt']) {
+  return new FolderConnector({
+    id: 'c1',
+    name: 'notes',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    config: { type: 'folder', folderPath, recursive: true, fileTypes, watchForChanges: false, deletions }
+  });
+}
+
+// In-memory stand-in for the manager's hooks: tombstoned ids leave `indexed`
+function memoryHooks(indexed) {
+  const calls = [];
+  return {
+    calls,
+    loadState: async () => null,
+    saveState: async () => undefined,
+    listExternalIds: async () => [...indexed],
+    removeDocuments: async (ids, dryRun) => {
+      calls.push({ ids, dryRun });
+      const removed = ids.filter(id => indexed.has(id)).map(externalId => ({ externalId, title: externalId }));
+      if (!dryRun) removed.forEach(doc => indexed.delete(doc.externalId));
+      return removed;
+    }
+  };
+}
+
+async function run(connector, indexed) {
+  const hooks = memoryHooks(indexed);
+  connector.setSyncHooks(hooks);
+  connector.on('document', doc => indexed.add(doc.externalId));
+  return { run: await connector.run(), hooks };
+}
+
+test('a full sync tombstones documents whose files are gone, or only reports them in dry-run', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connector-deletions-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'a.txt'), 'first file with enough content');
+    fs.writeFileSync(path.join(dir, 'b.txt'), 'second file with enough content');
+
+    const indexed = new Set();
+    const first = await run(folderConnector(dir), indexed);
+    assert.strictEqual(first.run.documentsAdded, 2);
+    assert.strictEqual(first.run.documentsRemoved, 0);
+    assert.strictEqual(first.hooks.calls.length, 0);
+
+    fs.unlinkSync(path.join(dir, 'b.txt'));
+
+    const dryRun = await run(folderConnector(dir, 'dry-run'), indexed);
+    assert.strictEqual(dryRun.run.documentsRemoved, 0);
+    assert.strictEqual(dryRun.run.deletionReport.dryRun, true);
+    assert.strictEqual(dryRun.run.deletionReport.count, 1);
+    assert.strictEqual(indexed.size, 2);
+
+    const second = await run(folderConnector(dir), indexed);
+    assert.strictEqual(second.run.status, 'completed');
+    assert.strictEqual(second.run.documentsRemoved, 1);
+    assert.deepStrictEqual(second.run.deletionReport, {
+      dryRun: false,
+      count: 1,
+      documents: [{ externalId: dryRun.run.deletionReport.documents[0].externalId, title: dryRun.run.deletionReport.documents[0].externalId }]
+    });
+    assert.strictEqual(indexed.size, 1);
+
+    const off = await run(folderConnector(dir, 'off'), new Set([...indexed, 'stale']));
+    assert.strictEqual(off.run.documentsRemoved, 0);
+    assert.strictEqual(off.hooks.calls.length, 0);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a run that finds nothing does not remove anything', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connector-deletions-'));
+  try {
+    const indexed = new Set(['previously-indexed']);
+    const { run: result, hooks } = await run(folderConnector(dir), indexed);
+    assert.strictEqual(result.status, 'completed');
+    assert.strictEqual(result.documentsRemoved, 0);
+    assert.strictEqual(hooks.calls.length, 0);
+    assert.ok(result.log.some(line => line.includes('Skipping deletion check')));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('a changed archive keeps the inner files it still has and drops the rest', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'connector-deletions-'));
+  const zipPath = path.join(dir, 'bundle.zip');
+  const writeZip = async files => {
+    const zip = new JSZip();
+    for (const [name, content] of Object.entries(files)) zip.file(name, content);
+    fs.writeFileSync(zipPath, await zip.generateAsync({ type: 'nodebuffer' }));
+  };
+
+  try {
+    await writeZip({ 'kept.txt': 'this inner file stays in the archive', 'dropped.txt': 'this inner file is removed later' });
+    const indexed = new Set();
+    const connector = folderConnector(dir, undefined, ['.zip', '.txt']);
+    const docs = [];
+    connector.on('document', doc => docs.push(doc));
+    await run(connector, indexed);
+    const idOf = content => docs.find(doc => doc.content === content).externalId;
+    const kept = idOf('this inner file stays in the archive');
+    const dropped = idOf('this inner file is removed later');
+    const archive = docs.find(doc => doc.title === 'bundle.zip').externalId;
+    assert.ok(kept.startsWith(`${archive}/`) && dropped.startsWith(`${archive}/`));
+
+    // What the watcher does on a change: re-extract, then report what survived
+    await writeZip({ 'kept.txt': 'this inner file stays in the archive' });
+    const deletions = [];
+    connector.on('delete', (externalId, keep) => deletions.push({ externalId, keep }));
+    await connector.handleFileChange(zipPath, dir);
+
+    assert.strictEqual(deletions.length, 1);
+    assert.strictEqual(deletions[0].externalId, archive);
+    assert.deepStrictEqual(deletions[0].keep.sort(), [archive, kept].sort());
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,56 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+
+// Keep the pipeline offline: language detection only
+process.env.TRANSLATION_ENABLED = 'false';
+process.env.OCR_ENABLED = 'false';
+process.env.AI_DESCRIPTION_ENABLED = 'false';
+
+const { FolderConnector } = require('../dist/connectors');
+
+function folderConnector(folderPath, autoProcess) {
+  return new FolderConnector({
+    id: 'c1',
+    name: 'scans',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    config: { type: 'folder', folderPath, recursive: true, fileTypes: ['.txt', '.png'], watchForChanges: false, autoProcess }
+  });
+}
+
+async function collect(connector) {
+  const docs = [];
+  connector.on('document', doc => docs.push(doc));
+  const run = await connector.run();
+  assert.strictEqual(run.status, 'completed');
+  return { docs, run };
+}
+
+test('processed files carry the detected language and their pipeline steps', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beacon-processing-'));
+  try {
+    fs.writeFileSync(path.join(dir, 'receta.txt'), 'La receta tradicional de la abuela lleva tomates maduros, ajo, aceite de oliva y mucha paciencia en la cocina.');
+    fs.writeFileSync(path.join(dir, 'photo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+
+    const { docs, run } = await collect(folderConnector(dir, true));
+    assert.strictEqual(docs.length, 1);
+    assert.strictEqual(docs[0].language, 'es');
+    assert.strictEqual(docs[0].attributes.detectedLanguage, 'es');
+    assert.ok(docs[0].attributes.processingSteps.includes('language_detected:Spanish'));
+    assert.strictEqual(docs[0].attributes.translation, undefined);
+    assert.ok(run.log.some(line => line.includes('Processed receta.txt: language: es')));
+    assert.strictEqual(run.stats.filesProcessed, 2);
+
+    const plain = await collect(folderConnector(dir, false));
+    assert.strictEqual(plain.docs.length, 1);
+    assert.strictEqual(plain.docs[0].language, undefined);
+    assert.strictEqual(plain.docs[0].attributes.processingSteps, undefined);
+    assert.ok(plain.run.log.some(line => line.includes('Skipping photo.png: media files need content processing')));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,42 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { validateSchedule, nextRunTime, planScheduledRun } = require('../dist/connectors');
+
+test('schedules need exactly one valid cron or interval', () => {
+  assert.strictEqual(validateSchedule({ cron: '0 3 * * *', timezone: 'Europe/Berlin' }), null);
+  assert.strictEqual(validateSchedule({ intervalMinutes: 15, catchUp: 'skip' }), null);
+  assert.match(validateSchedule({}), /exactly one/);
+  assert.match(validateSchedule({ cron: '0 3 * * *', intervalMinutes: 5 }), /exactly one/);
+  assert.match(validateSchedule({ cron: '61 * * * *' }), /Invalid cron/);
+  assert.match(validateSchedule({ intervalMinutes: 0 }), /intervalMinutes/);
+  assert.match(validateSchedule({ cron: '* * * * *', timezone: 'Mars/Olympus' }), /timezone/);
+  assert.match(validateSchedule({ intervalMinutes: 5, catchUp: 'all' }), /catchUp/);
+});
+
+test('next run follows the cron expression in its timezone', () => {
+  const after = new Date('2024-03-10T12:30:00Z');
+  assert.strictEqual(
+    nextRunTime({ cron: '0 3 * * *', timezone: 'UTC' }, after).toISOString(),
+    '2024-03-11T03:00:00.000Z'
+  );
+  assert.strictEqual(
+    nextRunTime({ cron: '0 3 * * *', timezone: 'Asia/Tokyo' }, after).toISOString(),
+    '2024-03-10T18:00:00.000Z'
+  );
+  assert.strictEqual(nextRunTime({ intervalMinutes: 45 }, after).toISOString(), '2024-03-10T13:15:00.000Z');
+});
+
+test('missed runs collapse into one catch-up job or are skipped', () => {
+  const dueAt = new Date('2024-03-10T00:00:00Z');
+  const onTime = planScheduledRun({ intervalMinutes: 60 }, dueAt, new Date('2024-03-10T00:00:20Z'), 60_000);
+  assert.deepStrictEqual(onTime, { enqueue: true, missed: false, nextRunAt: new Date('2024-03-10T01:00:00Z') });
+
+  // Down for five and a half hours: one job, and the cadence stays on the hour
+  const late = new Date('2024-03-10T05:30:00Z');
+  const once = planScheduledRun({ intervalMinutes: 60 }, dueAt, late, 60_000);
+  assert.deepStrictEqual(once, { enqueue: true, missed: true, nextRunAt: new Date('2024-03-10T06:00:00Z') });
+
+  const skip = planScheduledRun({ cron: '0 * * * *', timezone: 'UTC', catchUp: 'skip' }, dueAt, late, 60_000);
+  assert.deepStrictEqual(skip, { enqueue: false, missed: true, nextRunAt: new Date('2024-03-10T06:00:00Z') });
+});
@@ -0,0 +1,111 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('node:http');
+
+const { CrawlFrontier, WebSpiderConnector, canonicalizeCrawlUrl } = require('../dist/connectors');
+
+function memoryFrontierStore() {
+  const rows = new Map();
+  return {
+    rows,
+    load: async () => [...rows.values()].map(entry => ({ ...entry })),
+    add: async entries => entries.forEach(entry => { if (!rows.has(entry.url)) rows.set(entry.url, { ...entry }); }),
+    update: async entry => { rows.set(entry.url, { ...entry }); },
+    clear: async () => rows.clear()
+  };
+}
+
+test('crawl URLs lose fragments and tracking parameters', () => {
+  assert.strictEqual(
+    canonicalizeCrawlUrl('/docs?id=7&utm_source=news&fbclid=x#intro', 'https://Example.com/start'),
+    'https://example.com/docs?id=7'
+  );
+  assert.strictEqual(canonicalizeCrawlUrl('mailto:team@example.com'), null);
+});
+
+test('hosts are fetched in turn and wait out their cooldown', () => {
+  const frontier = new CrawlFrontier(null);
+  frontier.add(['http://a.test/1', 'http://a.test/2', 'http://b.test/1'], 0);
+
+  const first = frontier.next();
+  assert.strictEqual(first.entry.url, 'http://a.test/1');
+  frontier.cooldown('a.test', 60_000);
+
+  assert.strictEqual(frontier.next().entry.url, 'http://b.test/1');
+  frontier.cooldown('b.test', 60_000);
+
+  const waiting = frontier.next();
+  assert.strictEqual(waiting.entry, null);
+  assert.ok(waiting.waitMs > 0 && waiting.waitMs <= 60_000);
+
+  assert.strictEqual(frontier.next(Date.now() + 61_000).entry.url, 'http://a.test/2');
+  assert.strictEqual(frontier.next(Date.now() + 61_000), null);
+});
+
+test('a stopped crawl resumes from its stored frontier', async () => {
+  const requests = [];
+  const filler = 'enough words on this page to be worth indexing as a document';
+  const server = http.createServer((req, res) => {
+    requests.push(req.url);
+    const links = req.url === '/'
+      ? '<a href="/p1">1</a> <a href="/p2">2</a> <a href="/p3?utm_source=feed#top">3</a> <a href="/p3">3</a>'
+      : '';
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(`<html><head><title>${req.url}</title></head><body><article>${filler} ${links}</article></body></html>`);
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const seedUrl = `http://127.0.0.1:${server.address().port}/`;
+
+  const frontier = memoryFrontierStore();
+  const indexed = new Set();
+  const removed = [];
+  const hooks = {
+    frontier,
+    loadState: async () => null,
+    saveState: async () => undefined,
+    listExternalIds: async () => [...indexed],
+    removeDocuments: async ids => { removed.push(...ids); return []; },
+    loadItemStates: async () => new Map(),
+    saveItemState: async () => undefined
+  };
+
+  const crawl = async stopAfter => {
+    const connector = new WebSpiderConnector({
+      id: 'c1',
+      name: 'site',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      config: {
+        type: 'web', seedUrl, maxDepth: 1, maxPages: 50, sameDomainOnly: true,
+        respectRobotsTxt: false, useSitemaps: false, rateLimit: 100
+      }
+    });
+    connector.setSyncHooks(hooks);
+    connector.on('document', doc => {
+      indexed.add(doc.externalId);
+      if (indexed.size === stopAfter) connector.stop();
+    });
+    return connector.run();
+  };
+
+  try {
+    const first = await crawl(2);
+    assert.strictEqual(first.status, 'stopped');
+    assert.deepStrictEqual(requests, ['/', '/p1']);
+    assert.deepStrictEqual(
+      [...frontier.rows.values()].map(entry => [new URL(entry.url).pathname, entry.status]),
+      [['/', 'done'], ['/p1', 'done'], ['/p2', 'queued'], ['/p3', 'queued']]
+    );
+
+    requests.length = 0;
+    const second = await crawl();
+    assert.strictEqual(second.status, 'completed');
+    assert.deepStrictEqual(requests, ['/p2', '/p3']);
+    assert.strictEqual(second.processedItems, 4);
+    assert.deepStrictEqual(removed, []);
+    assert.strictEqual(frontier.rows.size, 0);
+  } finally {
+    server.close();
+  }
+});
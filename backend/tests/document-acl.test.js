@@ -0,0 +1,83 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const {
+  resolveDocumentAcl,
+  searchIdentityFromRequest,
+  identityCacheKey,
+  documentAccessSql
+} = require('../dist/search/access');
+const { buildFilterSql } = require('../dist/search/filters');
+const { mapSqlRow } = require('../dist/connectors');
+const { mapRecord } = require('../dist/connectors/rest-mapping');
+
+function fakeRequest(headers, auth) {
+  const lowered = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+  return { auth, get: name => lowered[name.toLowerCase()] };
+}
+
+test('source permissions restrict a document and merge with the connector defaults', () => {
+  assert.deepStrictEqual(resolveDocumentAcl(undefined, undefined), { public: true, users: [], groups: [] });
+  assert.deepStrictEqual(
+    resolveDocumentAcl({ users: ['Alice@Example.com', 'bob@example.com'] }, { groups: ['Admins'] }),
+    { public: false, users: ['alice@example.com', 'bob@example.com'], groups: ['admins'] }
+  );
+  assert.strictEqual(resolveDocumentAcl({ public: true }, undefined).public, true);
+  assert.strictEqual(resolveDocumentAcl({ public: true }, { public: false }).public, false);
+  assert.strictEqual(resolveDocumentAcl(undefined, { public: false, groups: ['hr'] }).public, false);
+});
+
+test('identity headers are trusted from authenticated keys only', () => {
+  const headers = { 'X-Beacon-User': 'Alice@Example.com', 'X-Beacon-Groups': 'Engineering, hr' };
+  const key = { keyId: 'k', tenantId: null, scopes: ['search:read'], anonymous: false, bootstrap: false };
+  const admin = { ...key, scopes: ['admin'] };
+  const anonymous = { ...key, keyId: null, anonymous: true };
+
+  assert.deepStrictEqual(searchIdentityFromRequest(fakeRequest(headers, key)), {
+    user: 'alice@example.com', groups: ['engineering', 'hr'], unrestricted: false
+  });
+  assert.deepStrictEqual(searchIdentityFromRequest(fakeRequest(headers, anonymous)), {
+    user: null, groups: [], unrestricted: false
+  });
+  assert.strictEqual(searchIdentityFromRequest(fakeRequest({}, admin)).unrestricted, true);
+  assert.strictEqual(searchIdentityFromRequest(fakeRequest(headers, admin)).unrestricted, false);
+  assert.strictEqual(searchIdentityFromRequest(fakeRequest({}, key)).unrestricted, false);
+  assert.notStrictEqual(
+    identityCacheKey(searchIdentityFromRequest(fakeRequest(headers, key))),
+    identityCacheKey(searchIdentityFromRequest(fakeRequest({}, key)))
+  );
+});
+
+test('search filters trim documents the identity may not see', () => {
+  const identity = { user: 'alice@example.com', groups: ['hr'], unrestricted: false };
+  const filters = [{ field: 'type', value: 'page', negated: false, raw: 'type:page' }];
+
+  const sql = buildFilterSql(filters, 3, 'd', identity);
+  assert.strictEqual(
+    sql.sql,
+    "d.document_type = $3 AND (d.acl_public OR d.acl_users && $4::text[] OR d.acl_groups && $5::text[])"
+  );
+  assert.deepStrictEqual(sql.params, ['page', ['alice@example.com'], ['hr']]);
+
+  assert.deepStrictEqual(documentAccessSql({ user: null, groups: [], unrestricted: false }, 1), { sql: 'acl_public', params: [] });
+  assert.deepStrictEqual(documentAccessSql({ user: null, groups: [], unrestricted: true }, 1), { sql: '', params: [] });
+  assert.deepStrictEqual(buildFilterSql(filters, 1).params, ['page']);
+});
+
+test('sql and rest connectors read permissions from source records', () => {
+  const row = { id: 7, title: 'Salaries', content: '...', readers: ['Alice'], teams: 'hr,finance' };
+  const doc = mapSqlRow(row, { aclUsers: 'readers', aclGroups: 'teams' });
+  assert.deepStrictEqual(doc.acl, { users: ['alice'], groups: ['hr', 'finance'] });
+  assert.strictEqual(doc.attributes.readers, undefined);
+  assert.strictEqual(mapSqlRow({ id: 1, title: 't', content: 'c' }).acl, undefined);
+
+  const record = { id: 'f1', name: 'Plan', permissions: [{ emailAddress: 'bob@example.com' }], shared: false };
+  const mapped = mapRecord({
+    id: '$.id',
+    title: '$.name',
+    content: '',
+    acl: { users: '$.permissions[*].emailAddress', public: '$.shared' }
+  }, record);
+  assert.deepStrictEqual(mapped.acl, { public: false, users: ['bob@example.com'] });
+  assert.strictEqual(mapped.attributes.acl, undefined);
+});
@@ -0,0 +1,35 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { chunkDocument, takeMatchedChunk } = require('../dist/search/chunks');
+
+test('long paragraphs are split into bounded, ordered chunks', () => {
+  const sentence = 'The quick brown fox jumps over the lazy dog. ';
+  const content = `${sentence.repeat(100)}\n\nShort closing paragraph.`;
+  const chunks = chunkDocument(content, { chunkSize: 300, chunkOverlap: 50 });
+
+  assert.ok(chunks.length > 10);
+  assert.deepStrictEqual(chunks.map(c => c.index), chunks.map((_, i) => i));
+  // chunk size plus the overlap carried from the previous chunk
+  assert.ok(chunks.every(c => c.text.length <= 300 + 50 + 2));
+  assert.ok(chunks[chunks.length - 1].text.endsWith('Short closing paragraph.'));
+});
+
+test('matched chunk columns become a matchedChunk object', () => {
+  const row = takeMatchedChunk({
+    id: 'doc-1',
+    score: 0.8,
+    matched_chunk_index: 4,
+    matched_chunk_text: 'evidence',
+    matched_chunk_start: 100,
+    matched_chunk_end: 108,
+    matched_chunk_score: '0.8'
+  });
+  assert.deepStrictEqual(row, {
+    id: 'doc-1',
+    score: 0.8,
+    matchedChunk: { index: 4, text: 'evidence', startOffset: 100, endOffset: 108, score: 0.8 }
+  });
+
+  assert.deepStrictEqual(takeMatchedChunk({ id: 'doc-2', score: 0.1, matched_chunk_index: null }), { id: 'doc-2', score: 0.1 });
+});
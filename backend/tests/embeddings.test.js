@@ -0,0 +1,39 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const {
+  getEmbeddingConfigFromEnv,
+  setActiveEmbeddingSpace,
+  vectorDistanceSql,
+  vectorIndexName,
+  vectorScopeSql
+} = require('../dist/embeddings');
+
+test('provider defaults follow EMBEDDING_PROVIDER', () => {
+  const saved = { ...process.env };
+  try {
+    delete process.env.EMBEDDING_MODEL;
+    delete process.env.EMBEDDING_DIMENSIONS;
+    process.env.EMBEDDING_PROVIDER = 'ollama';
+    process.env.OLLAMA_URL = 'http://ollama:11434';
+    const ollama = getEmbeddingConfigFromEnv();
+    assert.strictEqual(ollama.model, 'nomic-embed-text');
+    assert.strictEqual(ollama.dimensions, 768);
+    assert.strictEqual(ollama.baseUrl, 'http://ollama:11434');
+
+    process.env.EMBEDDING_PROVIDER = 'something-else';
+    const local = getEmbeddingConfigFromEnv();
+    assert.strictEqual(local.provider, 'local');
+    assert.strictEqual(local.dimensions, 384);
+  } finally {
+    process.env = saved;
+  }
+});
+
+test('vector SQL is scoped to and cast for the active model', () => {
+  setActiveEmbeddingSpace({ modelId: "openai:it's-large", dimensions: 1536 });
+  assert.strictEqual(vectorScopeSql('c'), "c.embedding IS NOT NULL AND c.embedding_model = 'openai:it''s-large'");
+  assert.strictEqual(vectorDistanceSql('$1'), '(embedding::vector(1536) <=> $1::vector(1536))');
+  assert.strictEqual(vectorIndexName('documents', 'local:Xenova/all-MiniLM-L6-v2'), 'idx_documents_embedding_local_xenova_all_minilm_l6_v2');
+  assert.throws(() => setActiveEmbeddingSpace({ modelId: 'x', dimensions: 0 }));
+});
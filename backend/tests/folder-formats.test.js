@@ -0,0 +1,169 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const zlib = require('node:zlib');
+const JSZip = require('jszip');
+
+const { FolderConnector, parseEmail, splitMbox, readArchive, readTar, rtfToText } = require('../dist/connectors');
+
+const EMAIL = [
+  'From: =?UTF-8?Q?Ren=C3=A9e_Martin?= <renee@example.com>',
+  'To: ops@example.com, "Smith, Jo" <jo@example.com>',
+  'Date: Tue, 03 Mar 2026 09:30:00 +0000',
+  'Subject: Quarterly numbers',
+  'Message-ID: <q1@example.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Hi all, the quarterly figures are attached. Caf=C3=A9 budget is up.',
+  '--b1',
+  'Content-Type: text/plain; name="figures.txt"',
+  'Content-Disposition: attachment; filename="figures.txt"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  Buffer.from('Revenue grew twelve percent over the quarter.').toString('base64'),
+  '--b1--',
+  ''
+].join('\r\n');
+
+function folderConnector(folderPath, fileTypes) {
+  return new FolderConnector({
+    id: 'c1',
+    name: 'files',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    config: { type: 'folder', folderPath, recursive: true, fileTypes, watchForChanges: false }
+  });
+}
+
+async function collect(connector) {
+  const docs = [];
+  connector.on('document', doc => docs.push(doc));
+  const run = await connector.run();
+  assert.strictEqual(run.status, 'completed');
+  return docs;
+}
+
+// A one-file ustar archive
+function tarOf(name, content) {
+  const header = Buffer.alloc(512);
+  header.write(name, 0);
+  header.write('0000644\0', 100);
+  header.write(`${content.length.toString(8).padStart(11, '0')}\0`, 124);
+  header.write(`${Math.floor(Date.now() / 1000).toString(8).padStart(11, '0')}\0`, 136);
+  header.write('0', 156);
+  header.write('ustar\0', 257);
+  const body = Buffer.alloc(Math.ceil(content.length / 512) * 512);
+  Buffer.from(content).copy(body);
+  return Buffer.concat([header, body, Buffer.alloc(1024)]);
+}
+
+test('emails are parsed into headers, body and attachments', () => {
+  const email = parseEmail(Buffer.from(EMAIL, 'latin1'));
+  assert.strictEqual(email.from, 'Renée Martin <renee@example.com>');
+  assert.deepStrictEqual(email.to, ['ops@example.com', '"Smith, Jo" <jo@example.com>']);
+  assert.strictEqual(email.date.toISOString(), '2026-03-03T09:30:00.000Z');
+  assert.strictEqual(email.messageId, 'q1@example.com');
+  assert.match(email.text, /Café budget/);
+  assert.strictEqual(email.attachments.length, 1);
+  assert.strictEqual(email.attachments[0].filename, 'figures.txt');
+  assert.match(email.attachments[0].data.toString(), /twelve percent/);
+
+  const mbox = `From renee@example.com Tue Mar  3 09:30:00 2026\n${EMAIL}\nFrom jo@example.com Wed Mar  4 10:00:00 2026\nSubject: Re\n\n>From the desk of Jo\n`;
+  const messages = splitMbox(Buffer.from(mbox));
+  assert.strictEqual(messages.length, 2);
+  assert.match(messages[1].toString(), /^Subject: Re\n\nFrom the desk of Jo/);
+});
+
+test('tar archives and RTF documents are read', () => {
+  const entries = readTar(tarOf('docs/readme.txt', 'Inside the tarball'));
+  assert.deepStrictEqual(entries.map(entry => entry.path), ['docs/readme.txt']);
+  assert.strictEqual(entries[0].data.toString(), 'Inside the tarball');
+
+  const rtf = '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\*\\generator Writer;}\\f0 Caf\\\'e9 menu\\par Price \\u8364?5\\tab done}';
+  assert.strictEqual(rtfToText(rtf), 'Café menu\nPrice €5\tdone');
+});
+
+test('zip entries stop inflating once they overrun a budget shared across archives', async () => {
+  const zip = new JSZip();
+  zip.file('small.txt', 'A small file.');
+  zip.file('bomb.txt', Buffer.alloc(4 * 1024 * 1024));
+  zip.file('after.txt', 'Never reached.');
+  const data = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+
+  const budget = { remainingBytes: 64 * 1024 };
+  const entries = await readArchive(data, '.zip', budget);
+  assert.deepStrictEqual(entries.map(entry => entry.path), ['small.txt']);
+  assert.strictEqual(budget.remainingBytes, 0);
+
+  // A nested archive draws on what its parent left, here nothing
+  assert.deepStrictEqual(await readArchive(data, '.zip', budget), []);
+});
+
+test('files inside archives and email attachments become documents of their own', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beacon-formats-'));
+  try {
+    const zip = new JSZip();
+    zip.file('notes/plan.md', '# Launch plan\n\nShip the new search engine in spring.');
+    zip.file('notes/image.png', Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    zip.file('inner.zip', await new JSZip().file('deep.txt', 'A file two archives deep.').generateAsync({ type: 'nodebuffer' }));
+    fs.writeFileSync(path.join(dir, 'bundle.zip'), await zip.generateAsync({ type: 'nodebuffer' }));
+    fs.writeFileSync(path.join(dir, 'backup.tar.gz'), zlib.gzipSync(tarOf('log.txt', 'Backup completed without errors.')));
+    fs.writeFileSync(path.join(dir, 'numbers.eml'), EMAIL);
+
+    const docs = await collect(folderConnector(dir, ['.zip', '.tar.gz', '.eml', '.md', '.txt']));
+    const byTitle = new Map(docs.map(doc => [doc.title, doc]));
+
+    const bundle = byTitle.get('bundle.zip');
+    assert.match(bundle.content, /notes\/plan\.md/);
+
+    const plan = byTitle.get('Launch plan');
+    assert.strictEqual(plan.attributes.parentExternalId, bundle.externalId);
+    assert.strictEqual(plan.attributes.parentPath, 'bundle.zip');
+    assert.strictEqual(plan.attributes.innerPath, 'notes/plan.md');
+    assert.ok(plan.externalId.startsWith(`${bundle.externalId}/`));
+
+    const deep = docs.find(doc => doc.content === 'A file two archives deep.');
+    assert.strictEqual(deep.attributes.parentPath, 'bundle.zip/inner.zip');
+    assert.ok(!docs.some(doc => doc.attributes.innerPath === 'notes/image.png'));
+
+    assert.ok(docs.some(doc => doc.content === 'Backup completed without errors.' && doc.attributes.parentPath === 'backup.tar.gz'));
+
+    const email = byTitle.get('Quarterly numbers');
+    assert.strictEqual(email.attributes.from, 'Renée Martin <renee@example.com>');
+    assert.strictEqual(email.attributes.sentAt, '2026-03-03T09:30:00.000Z');
+    assert.deepStrictEqual(email.attributes.attachments, ['figures.txt']);
+    assert.strictEqual(email.lastModified.toISOString(), '2026-03-03T09:30:00.000Z');
+
+    const attachment = docs.find(doc => doc.attributes.parentExternalId === email.externalId);
+    assert.strictEqual(attachment.content, 'Revenue grew twelve percent over the quarter.');
+    assert.strictEqual(attachment.attributes.email.from, 'Renée Martin <renee@example.com>');
+    assert.strictEqual(attachment.attributes.email.subject, 'Quarterly numbers');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('files whose paths share a long prefix keep distinct ids', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'beacon-formats-'));
+  try {
+    const nested = path.join(dir, 'a-folder-name-long-enough-to-fill-the-old-id-prefix');
+    fs.mkdirSync(nested);
+    fs.writeFileSync(path.join(nested, 'first.txt'), 'First file.');
+    fs.writeFileSync(path.join(nested, 'second.txt'), 'Second file.');
+
+    const docs = await collect(folderConnector(dir, ['.txt']));
+    assert.strictEqual(docs.length, 2);
+    assert.notStrictEqual(docs[0].externalId, docs[1].externalId);
+    assert.ok(docs.every(doc => !doc.externalId.includes('/')));
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
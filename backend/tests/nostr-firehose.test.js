@@ -0,0 +1,247 @@
+process.env.NOSTR_FIREHOSE_BACKOFF_MS = '5';
+process.env.NOSTR_FIREHOSE_OVERLAP_SECONDS = '60';
+
+const test = require('node:test');
+const assert = require('node:assert');
+const { generateSecretKey, finalizeEvent } = require('nostr-tools');
+
+const { NostrFirehose, backoffDelay } = require('../dist/ingestion/firehose');
+const { renderFirehoseMetrics } = require('../dist/ingestion/firehose-routes');
+
+const RELAY_A = 'wss://a.example';
+const RELAY_B = 'wss://b.example';
+const alice = generateSecretKey();
+
+function note(content, created_at = Math.floor(Date.now() / 1000) - 10) {
+  const { id, pubkey, sig, kind, tags } = finalizeEvent({ kind: 1, created_at, tags: [], content }, alice);
+  return { id, pubkey, sig, kind, created_at, tags, content };
+}
+
+function fakeSubscriber() {
+  return {
+    subscriptions: [],
+    dropped: [],
+    subscribeMap(requests, params) {
+      const subscription = { url: requests[0].url, filter: requests[0].filter, params, closed: false };
+      subscription.close = () => { subscription.closed = true; };
+      this.subscriptions.push(subscription);
+      return subscription;
+    },
+    close(urls) {
+      this.dropped.push(...urls);
+    },
+    latest(url) {
+      return this.subscriptions.filter(subscription => subscription.url === url).pop();
+    }
+  };
+}
+
+function setup({ saved = new Map(), failWrites = () => false, relays = [RELAY_A, RELAY_B] } = {}) {
+  const subscriber = fakeSubscriber();
+  const indexed = [];
+  const saves = [];
+  const observations = [];
+  const firehose = new NostrFirehose(null, {
+    relays,
+    kinds: [1, 5],
+    batchSize: 100,
+    flushIntervalMs: 60_000,
+    subscriber,
+    events: {
+      applyDeletion: async () => 0,
+      indexEvent: async event => {
+        if (failWrites(event)) throw new Error('connection refused');
+        indexed.push(event.id);
+        return 'indexed';
+      }
+    },
+    checkpoints: {
+      load: async () => saved,
+      save: async checkpoints => { saves.push(checkpoints); }
+    },
+    registry: {
+      pickRelays: async () => [RELAY_B],
+      recordObservation: async (url, observation) => { observations.push([url, observation]); },
+      saveRelayInfo: async () => undefined,
+      demote: async () => undefined
+    }
+  });
+  return { firehose, subscriber, indexed, saves, observations };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+test('events are deduplicated across relays and checkpoints only move for live relays', async () => {
+  const { firehose, subscriber, indexed, saves } = setup({ saved: new Map([[RELAY_A, 1_700_000_000]]) });
+  await firehose.start();
+
+  const a = subscriber.latest(RELAY_A);
+  const b = subscriber.latest(RELAY_B);
+  assert.deepStrictEqual(a.filter, { kinds: [1, 5], since: 1_700_000_000 - 60 });
+  assert.ok(b.filter.since > 1_700_000_000, 'relays without a checkpoint start from the lookback window');
+
+  const first = note('first');
+  const second = note('second');
+  a.params.onevent(first);
+  b.params.onevent(first);
+  b.params.onevent(second);
+  b.params.onevent({ ...note('forged'), content: 'tampered' });
+  a.params.oneose();
+  await tick();
+
+  await firehose.flush();
+  assert.deepStrictEqual(indexed, [first.id, second.id]);
+  assert.strictEqual(saves.length, 1);
+  assert.deepStrictEqual(saves[0].map(checkpoint => [checkpoint.relayUrl, checkpoint.eventsReceived]), [[RELAY_A, 1]]);
+
+  const status = firehose.status();
+  assert.deepStrictEqual(status.relays.map(relay => relay.state), ['live', 'syncing']);
+  assert.strictEqual(status.relays[1].since, null);
+  assert.ok(status.relays[0].lagSeconds <= 1);
+  assert.deepStrictEqual(
+    [status.totals.received, status.totals.duplicates, status.totals.rejected, status.totals.indexed],
+    [4, 1, 1, 2]
+  );
+
+  await firehose.stop();
+  assert.ok(a.closed && b.closed);
+});
+
+test('a dropped relay reconnects from its checkpoint after a backoff', async () => {
+  const { firehose, subscriber } = setup({ saved: new Map([[RELAY_A, 1_700_000_000]]) });
+  await firehose.start();
+
+  const first = subscriber.latest(RELAY_A);
+  // SimplePool reports EOSE right before the close of a failed connection
+  first.params.oneose();
+  first.params.onclose(['connection failed']);
+  // One microtask turn lets the EOSE check run, well before the backoff timer
+  await Promise.resolve();
+
+  let relay = firehose.status().relays[0];
+  assert.strictEqual(relay.state, 'backoff');
+  assert.strictEqual(relay.attempts, 1);
+  assert.strictEqual(relay.lastError, 'connection failed');
+  assert.deepStrictEqual(subscriber.dropped, [RELAY_A]);
+
+  await new Promise(resolve => setTimeout(resolve, 50));
+  const second = subscriber.latest(RELAY_A);
+  assert.notStrictEqual(second, first);
+  assert.strictEqual(second.filter.since, 1_700_000_000 - 60);
+
+  // Callbacks from the old subscription are ignored
+  first.params.onevent(note('late'));
+  second.params.oneose();
+  await tick();
+
+  relay = firehose.status().relays[0];
+  assert.deepStrictEqual([relay.state, relay.attempts, relay.reconnects, relay.received], ['live', 0, 1, 0]);
+  await firehose.stop();
+});
+
+test('a batch the store cannot take is kept and checkpoints stay put', async () => {
+  let storeDown = true;
+  const { firehose, subscriber, indexed, saves } = setup({ failWrites: () => storeDown });
+  await firehose.start();
+
+  const a = subscriber.latest(RELAY_A);
+  a.params.oneose();
+  await tick();
+  const events = [note('one'), note('two')];
+  events.forEach(event => a.params.onevent(event));
+
+  await firehose.flush();
+  assert.deepStrictEqual(indexed, []);
+  assert.strictEqual(saves.length, 0);
+  assert.strictEqual(firehose.status().pending, 2);
+  assert.strictEqual(firehose.status().flushErrors, 1);
+
+  storeDown = false;
+  await firehose.flush();
+  assert.deepStrictEqual(indexed, events.map(event => event.id));
+  assert.strictEqual(saves.length, 1);
+  assert.strictEqual(firehose.status().pending, 0);
+  await firehose.stop();
+});
+
+test('events that fail on their own are retried before checkpoints move, then given up on', async () => {
+  const [good, flaky, poison] = [note('good'), note('flaky'), note('poison')];
+  let flakyFailures = 1;
+  const { firehose, subscriber, indexed, saves } = setup({
+    failWrites: event => event.id === poison.id || (event.id === flaky.id && flakyFailures-- > 0)
+  });
+  await firehose.start();
+
+  const a = subscriber.latest(RELAY_A);
+  a.params.oneose();
+  await tick();
+  [good, flaky, poison].forEach(event => a.params.onevent(event));
+
+  await firehose.flush();
+  assert.deepStrictEqual(indexed, [good.id]);
+  assert.strictEqual(firehose.status().pending, 2);
+  assert.strictEqual(saves.length, 0);
+
+  await firehose.flush();
+  assert.deepStrictEqual(indexed, [good.id, flaky.id]);
+  assert.strictEqual(firehose.status().pending, 1);
+  assert.strictEqual(saves.length, 0);
+
+  // Third failed write: the event is dropped and the checkpoints move on. A
+  // batch where every write fails means the store is down, so it needs company.
+  const later = note('later');
+  a.params.onevent(later);
+  await firehose.flush();
+  assert.deepStrictEqual(indexed, [good.id, flaky.id, later.id]);
+  assert.strictEqual(firehose.status().pending, 0);
+  assert.deepStrictEqual(saves.map(batch => batch.map(c => c.relayUrl)), [[RELAY_A]]);
+
+  // Forgotten as seen, so a relay that sends it again gets it another try
+  a.params.onevent(poison);
+  assert.strictEqual(firehose.status().pending, 1);
+  await firehose.stop();
+});
+
+test('without configured relays the firehose follows the registry and reports what each relay delivered', async () => {
+  const { firehose, subscriber, observations } = setup({ relays: null });
+  await firehose.start();
+  assert.deepStrictEqual(firehose.status().relays.map(relay => relay.url), [RELAY_B]);
+
+  const b = subscriber.latest(RELAY_B);
+  const first = note('first');
+  b.params.onevent(first);
+  b.params.onevent(first);
+  b.params.onevent({ ...note('forged'), content: 'tampered' });
+  b.params.oneose();
+  await tick();
+  await firehose.flush();
+
+  const [live, events] = observations;
+  assert.strictEqual(live[1].ok, true);
+  assert.ok(live[1].latencyMs >= 0);
+  assert.deepStrictEqual(events, [RELAY_B, { events: 2, invalid: 1, unique: 1 }]);
+
+  // Nothing new since the last flush, nothing reported
+  await firehose.flush();
+  assert.strictEqual(observations.length, 2);
+  await firehose.stop();
+});
+
+test('status renders as Prometheus metrics', async () => {
+  const { firehose, subscriber } = setup();
+  await firehose.start();
+  subscriber.latest(RELAY_A).params.onevent(note('metrics'));
+
+  const text = renderFirehoseMetrics(firehose.status());
+  assert.match(text, /^# TYPE beacon_nostr_firehose_received_total counter$/m);
+  assert.match(text, /^beacon_nostr_firehose_received_total 1$/m);
+  assert.match(text, /^beacon_nostr_firehose_pending_events 1$/m);
+  assert.match(text, /^beacon_nostr_firehose_relay_received_total\{relay="wss:\/\/a\.example"\} 1$/m);
+  await firehose.stop();
+
+  for (let attempt = 1; attempt <= 20; attempt++) {
+    const delay = backoffDelay(attempt, 1000, 60_000);
+    const expected = 1000 * 2 ** (attempt - 1);
+    assert.ok(delay >= Math.min(60_000, expected * 0.8) && delay <= Math.min(60_000, expected * 1.2));
+  }
+});
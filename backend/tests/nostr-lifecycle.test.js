@@ -0,0 +1,127 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { generateSecretKey, finalizeEvent } = require('nostr-tools');
+
+const {
+  eventAddress,
+  isNewerVersion,
+  latestVersions,
+  parseDeletionRequest
+} = require('../dist/templates/nostr/lifecycle');
+const { NostrConnector } = require('../dist/connectors');
+
+const alice = generateSecretKey();
+const bob = generateSecretKey();
+
+function sign(secretKey, kind, created_at, tags = [], content = '') {
+  return finalizeEvent({ kind, created_at, tags, content }, secretKey);
+}
+
+function article(d, created_at, content = `article ${d} at ${created_at}`) {
+  return sign(alice, 30023, created_at, [['d', d], ['title', `Article ${d}`]], content);
+}
+
+test('replaceable and addressable events are keyed on kind, pubkey and d tag', () => {
+  const profile = sign(alice, 0, 100);
+  const note = sign(alice, 1, 100);
+  const first = article('intro', 100);
+
+  assert.strictEqual(eventAddress(profile), `0:${profile.pubkey}:`);
+  assert.strictEqual(eventAddress(sign(alice, 10002, 100)), `10002:${profile.pubkey}:`);
+  assert.strictEqual(eventAddress(first), `30023:${first.pubkey}:intro`);
+  assert.strictEqual(eventAddress(sign(alice, 30023, 100)), `30023:${first.pubkey}:`);
+  assert.strictEqual(eventAddress(note), null);
+
+  assert.strictEqual(isNewerVersion({ id: 'b', created_at: 2 }, { id: 'a', created_at: 1 }), true);
+  assert.strictEqual(isNewerVersion({ id: 'b', created_at: 1 }, { id: 'a', created_at: 1 }), false);
+  assert.strictEqual(isNewerVersion({ id: 'a', created_at: 1 }, { id: 'b', created_at: 1 }), true);
+});
+
+test('a batch keeps only the newest version of each address', () => {
+  const old = article('intro', 100);
+  const current = article('intro', 200);
+  const other = article('other', 50);
+  const note = sign(alice, 1, 10);
+
+  assert.deepStrictEqual(latestVersions([old, note, current, other]), [note, current, other]);
+});
+
+test('deletion requests only target the author\'s own addresses', () => {
+  const own = article('intro', 100);
+  const foreign = sign(bob, 30023, 100, [['d', 'intro']]);
+  const deletion = sign(alice, 5, 300, [
+    ['e', 'a'.repeat(64)],
+    ['a', eventAddress(own)],
+    ['a', eventAddress(foreign)],
+    ['k', '30023']
+  ]);
+
+  assert.deepStrictEqual(parseDeletionRequest(deletion), {
+    deletionId: deletion.id,
+    pubkey: own.pubkey,
+    createdAt: 300,
+    eventIds: ['a'.repeat(64)],
+    addresses: [eventAddress(own)]
+  });
+  assert.strictEqual(parseDeletionRequest(sign(alice, 5, 300, [['k', '1']])), null);
+  assert.strictEqual(parseDeletionRequest(own), null);
+});
+
+test('the connector applies deletions first and skips stale or deleted events', async () => {
+  const old = article('intro', 100);
+  const current = article('intro', 200);
+  const deleted = article('gone', 100);
+  const stale = article('edited', 100);
+  const deletion = sign(alice, 5, 300, [['a', eventAddress(deleted)]]);
+
+  const connector = new NostrConnector({
+    id: 'c1',
+    name: 'nostr',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    config: { type: 'nostr', relays: ['wss://relay.example'], kinds: [30023] }
+  });
+  const filters = [];
+  connector.pool = {
+    seenOn: new Map(),
+    querySync: async (relays, filter) => {
+      filters.push(filter);
+      return filter.kinds[0] === 5 ? [deletion] : [old, current, deleted, stale];
+    },
+    close: () => undefined
+  };
+
+  const calls = [];
+  connector.setSyncHooks({
+    loadState: async () => null,
+    saveState: async () => undefined,
+    listExternalIds: async () => [],
+    removeDocuments: async () => [],
+    nostrEvents: {
+      applyDeletion: async event => {
+        calls.push(['delete', event.id]);
+        return 1;
+      },
+      admitConnectorEvent: async (event, externalId) => {
+        calls.push(['admit', externalId]);
+        if (event.id === deleted.id) return 'deleted';
+        if (event.id === stale.id) return 'stale';
+        return 'indexed';
+      }
+    }
+  });
+
+  const emitted = [];
+  connector.on('document', doc => emitted.push(doc));
+  const run = await connector.run();
+
+  assert.deepStrictEqual(filters.map(filter => filter.kinds), [[30023], [5]]);
+  assert.deepStrictEqual(calls[0], ['delete', deletion.id]);
+  assert.deepStrictEqual(calls.slice(1).map(call => call[1]), [
+    eventAddress(current), eventAddress(deleted), eventAddress(stale)
+  ]);
+  assert.deepStrictEqual(emitted.map(doc => doc.attributes.eventId), [current.id]);
+  assert.strictEqual(emitted[0].externalId, eventAddress(current));
+  assert.deepStrictEqual(run.stats, { documentsDeleted: 1, eventsDeleted: 1, versionsSuperseded: 1 });
+});
@@ -0,0 +1,59 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { generateSecretKey, finalizeEvent } = require('nostr-tools');
+
+const { parseRelayList, relayCover, coverageRows } = require('../dist/ingestion/outbox');
+
+test('relay lists split into write and read relays by marker', () => {
+  const event = finalizeEvent({
+    kind: 10002,
+    created_at: 1700000000,
+    content: '',
+    tags: [
+      ['r', 'wss://Both.example/'],
+      ['r', 'wss://write.example', 'write'],
+      ['r', 'wss://read.example', 'read'],
+      ['r', 'ws://localhost:7000'],
+      ['r', 'https://not-a-relay.example'],
+      ['p', 'f'.repeat(64)]
+    ]
+  }, generateSecretKey());
+
+  const list = parseRelayList(event);
+  assert.strictEqual(list.pubkey, event.pubkey);
+  assert.strictEqual(list.eventId, event.id);
+  assert.deepStrictEqual(list.write, ['wss://both.example', 'wss://write.example']);
+  assert.deepStrictEqual(list.read, ['wss://both.example', 'wss://read.example']);
+
+  assert.strictEqual(parseRelayList({ ...event, kind: 3 }), null);
+});
+
+test('coverage counts the events only one relay returned', () => {
+  const rows = coverageRows('alice', ['wss://outbox.example'], new Map([
+    ['wss://outbox.example', new Set(['e1', 'e2', 'e3'])],
+    ['wss://popular.example', new Set(['e2', 'e4'])],
+    ['wss://empty.example', new Set()]
+  ]));
+
+  assert.deepStrictEqual(rows, [
+    { relayUrl: 'wss://outbox.example', pubkey: 'alice', isWriteRelay: true, eventsFound: 3, uniqueEvents: 2 },
+    { relayUrl: 'wss://popular.example', pubkey: 'alice', isWriteRelay: false, eventsFound: 2, uniqueEvents: 1 },
+    { relayUrl: 'wss://empty.example', pubkey: 'alice', isWriteRelay: false, eventsFound: 0, uniqueEvents: 0 }
+  ]);
+});
+
+test('the relay cover reaches every author with as few relays as the greedy pass finds', () => {
+  const row = (relayUrl, pubkey, eventsFound = 1) => ({ relayUrl, pubkey, eventsFound });
+
+  assert.deepStrictEqual(relayCover([
+    row('wss://big.example', 'alice'),
+    row('wss://big.example', 'bob'),
+    row('wss://big.example', 'carol'),
+    row('wss://small.example', 'alice'),
+    row('wss://niche.example', 'dave'),
+    row('wss://niche.example', 'alice'),
+    row('wss://dead.example', 'erin', 0)
+  ]), ['wss://big.example', 'wss://niche.example']);
+
+  assert.deepStrictEqual(relayCover([]), []);
+});
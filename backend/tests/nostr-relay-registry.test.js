@@ -0,0 +1,72 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { generateSecretKey, finalizeEvent } = require('nostr-tools');
+
+const { relayScore } = require('../dist/ingestion/relay-registry');
+const { RelayManager } = require('../dist/ingestion/relay-manager');
+
+const alice = generateSecretKey();
+
+function note(content) {
+  const { id, pubkey, sig, kind, created_at, tags } = finalizeEvent({ kind: 1, created_at: 1700000000, tags: [], content }, alice);
+  return { id, pubkey, sig, kind, created_at, tags, content };
+}
+
+function stats(changes = {}) {
+  return { requests: 0, failures: 0, avgLatencyMs: null, eventsReceived: 0, invalidEvents: 0, uniqueEvents: 0, ...changes };
+}
+
+test('relay scores favor reliable relays that serve valid, unique events', () => {
+  const fresh = relayScore(stats());
+  assert.strictEqual(fresh, 0.375);
+
+  const healthy = relayScore(stats({ requests: 100, avgLatencyMs: 200, eventsReceived: 5000, uniqueEvents: 500 }));
+  const flaky = relayScore(stats({ requests: 100, failures: 60, avgLatencyMs: 200, eventsReceived: 5000, uniqueEvents: 500 }));
+  const forging = relayScore(stats({ requests: 100, avgLatencyMs: 200, eventsReceived: 5000, invalidEvents: 2000, uniqueEvents: 500 }));
+  const slow = relayScore(stats({ requests: 100, avgLatencyMs: 5000, eventsReceived: 5000, uniqueEvents: 500 }));
+  const redundant = relayScore(stats({ requests: 100, avgLatencyMs: 200, eventsReceived: 5000 }));
+
+  assert.ok(healthy > fresh);
+  assert.ok(flaky < fresh && forging < fresh);
+  assert.ok(slow < healthy && redundant < healthy);
+  for (const score of [healthy, flaky, forging, slow, redundant]) assert.ok(score >= 0 && score <= 1);
+});
+
+test('the relay manager reports each request and which relay delivered an event first', async () => {
+  const observations = [];
+  const demotions = [];
+  const registry = {
+    recordObservation: async (url, observation) => { observations.push([url, observation]); },
+    saveRelayInfo: async () => undefined,
+    demote: async (url, until) => { demotions.push([url, until]); }
+  };
+
+  const manager = new RelayManager(['wss://a.example', 'wss://b.example', 'wss://down.example'], registry);
+  const [one, two, three] = [note('one'), note('two'), note('three')];
+  const forged = ['x', 'y', 'z'].map(content => ({ ...note(content), content: 'tampered' }));
+  manager.pool = {
+    querySync: async ([url]) => {
+      if (url === 'wss://a.example') return [one, two, forged[0]];
+      if (url === 'wss://b.example') return [two, three, ...forged.slice(1)];
+      throw new Error('connection refused');
+    },
+    close: () => undefined
+  };
+
+  const events = await manager.fetchWithRateLimit(manager.relayUrls(), { kinds: [1] });
+  assert.deepStrictEqual(events.map(event => event.id).sort(), [one.id, two.id, three.id].sort());
+
+  const reported = Object.fromEntries(observations.map(([url, { latencyMs, ...rest }]) => [url, rest]));
+  assert.deepStrictEqual(reported, {
+    'wss://a.example': { ok: true, events: 2, invalid: 1, unique: 2 },
+    'wss://b.example': { ok: true, events: 2, invalid: 2, unique: 1 },
+    'wss://down.example': { ok: false, error: 'connection refused' }
+  });
+
+  // A relay is demoted once it has served three forged events
+  assert.deepStrictEqual(demotions.map(([url]) => url), []);
+  await manager.fetchWithRateLimit(['wss://b.example'], { kinds: [1] });
+  assert.deepStrictEqual(demotions.map(([url]) => url), ['wss://b.example']);
+  assert.ok(demotions[0][1] > new Date());
+  assert.strictEqual(observations.pop()[1].unique, 0);
+});
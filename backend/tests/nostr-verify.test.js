@@ -0,0 +1,53 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { generateSecretKey, finalizeEvent, getEventHash } = require('nostr-tools');
+
+const { verifyNostrEvent, verifyNostrEvents } = require('../dist/templates/nostr/verify');
+
+function signedNote(content) {
+  return finalizeEvent({ kind: 1, created_at: 1700000000, tags: [['t', 'nostr']], content }, generateSecretKey());
+}
+
+// A plain copy, without the verified flag finalizeEvent sets
+function copy(event, changes = {}) {
+  const { id, pubkey, sig, kind, created_at, tags, content } = event;
+  return { id, pubkey, sig, kind, created_at, tags, content, ...changes };
+}
+
+test('events with a matching id and signature are accepted', () => {
+  const note = copy(signedNote('hello'));
+  assert.deepStrictEqual(verifyNostrEvent(note), { valid: true });
+  assert.deepStrictEqual(verifyNostrEvent(copy(note)), { valid: true });
+});
+
+test('forged events are rejected with the reason', () => {
+  const note = copy(signedNote('original'));
+  const victim = copy(signedNote('someone else'));
+
+  assert.deepStrictEqual(verifyNostrEvent(copy(note, { content: 'forged' })), { valid: false, reason: 'id-mismatch' });
+
+  // Attributed to another pubkey, with the id recomputed to match
+  const forged = copy(note, { pubkey: victim.pubkey });
+  forged.id = getEventHash(forged);
+  assert.deepStrictEqual(verifyNostrEvent(forged), { valid: false, reason: 'bad-signature' });
+
+  assert.deepStrictEqual(verifyNostrEvent(copy(note, { sig: 'zz' })), { valid: false, reason: 'malformed' });
+  assert.deepStrictEqual(verifyNostrEvent(copy(note, { tags: 'nostr' })), { valid: false, reason: 'malformed' });
+});
+
+test('a cached signature does not vouch for altered content', () => {
+  const note = copy(signedNote('cached'));
+  assert.strictEqual(verifyNostrEvent(note).valid, true);
+  assert.strictEqual(verifyNostrEvent(copy(note, { content: 'altered' })).reason, 'id-mismatch');
+});
+
+test('batches split into valid and rejected events', async () => {
+  const notes = Array.from({ length: 450 }, (_, i) => copy(signedNote(`note ${i}`)));
+  notes[10] = copy(notes[10], { content: 'tampered' });
+  notes[300] = copy(notes[300], { sig: notes[301].sig });
+
+  const { valid, rejected } = await verifyNostrEvents(notes);
+  assert.strictEqual(valid.length, 448);
+  assert.deepStrictEqual(rejected.map(r => r.reason), ['id-mismatch', 'bad-signature']);
+  assert.strictEqual(rejected[1].event, notes[300]);
+});
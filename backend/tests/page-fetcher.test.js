@@ -0,0 +1,83 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('node:http');
+
+const { HttpPageFetcher, WebSpiderConnector } = require('../dist/connectors');
+
+let hasPlaywright = true;
+try {
+  require.resolve('playwright');
+} catch {
+  hasPlaywright = false;
+}
+
+async function startSite() {
+  const server = http.createServer((req, res) => {
+    if (req.url === '/old') {
+      res.writeHead(301, { Location: '/app' });
+      return res.end();
+    }
+    if (req.url === '/file.pdf') {
+      res.writeHead(200, { 'Content-Type': 'application/pdf' });
+      return res.end('%PDF-1.4');
+    }
+    // An app shell: a little static text, the rest would come from JavaScript
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', ETag: '"shell"' });
+    res.end('<html><head><title>App</title></head><body><main>Loading the application, please enable JavaScript.</main><script src="/app.js"></script></body></html>');
+  });
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { server, origin: `http://127.0.0.1:${server.address().port}` };
+}
+
+function spider(seedUrl, fetcher) {
+  return new WebSpiderConnector({
+    id: 'c1',
+    name: 'app',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    config: {
+      type: 'web', seedUrl, maxDepth: 0, maxPages: 5, sameDomainOnly: true,
+      respectRobotsTxt: false, useSitemaps: false, rateLimit: 100, fetcher
+    }
+  });
+}
+
+test('the HTTP fetcher follows redirects and only reads HTML bodies', async () => {
+  const { server, origin } = await startSite();
+  try {
+    const fetcher = new HttpPageFetcher();
+    const page = await fetcher.fetch(`${origin}/old`);
+    assert.strictEqual(page.status, 200);
+    assert.strictEqual(page.url, `${origin}/app`);
+    assert.strictEqual(page.headers.etag, '"shell"');
+    assert.match(page.body, /Loading the application/);
+
+    const pdf = await fetcher.fetch(`${origin}/file.pdf`);
+    assert.strictEqual(pdf.headers['content-type'], 'application/pdf');
+    assert.strictEqual(pdf.body, '');
+  } finally {
+    server.close();
+  }
+});
+
+test('without Playwright, auto mode indexes thin pages from static HTML and browser mode fails', { skip: hasPlaywright }, async () => {
+  const { server, origin } = await startSite();
+  try {
+    const auto = spider(`${origin}/app`, 'auto');
+    const docs = [];
+    auto.on('document', doc => docs.push(doc));
+    const run = await auto.run();
+    assert.strictEqual(run.status, 'completed');
+    assert.strictEqual(docs.length, 1);
+    assert.ok(run.log.some(line => line.includes('playwright not installed')));
+
+    const browser = spider(`${origin}/app`, 'browser');
+    browser.on('error', () => undefined);
+    const failed = await browser.run();
+    assert.strictEqual(failed.status, 'failed');
+    assert.match(failed.errorMessage, /playwright not installed/);
+  } finally {
+    server.close();
+  }
+});
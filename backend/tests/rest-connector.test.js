@@ -0,0 +1,176 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('node:http');
+
+const { RestConnector, getPath, mapRecord } = require('../dist/connectors');
+
+test('template paths, alternatives and placeholders map a record', () => {
+  const record = {
+    id: 7,
+    title: { rendered: 'Hello &amp; welcome' },
+    content: { rendered: '<p>First</p><script>x()</script><p>Second</p>' },
+    labels: [{ name: 'bug' }, { name: 'ui' }],
+    parent: { database_id: 'db-1' },
+    modified: '2024-05-01T10:00:00Z'
+  };
+  const doc = mapRecord({
+    id: '$.id',
+    title: '$.title.rendered',
+    content: '$.content.rendered',
+    content_type: 'html',
+    url: '${base_url}/p/${$.id}',
+    modified: '$.modified',
+    document_type: 'post',
+    attributes: { labels: '$.labels[*].name', parent_id: '$.parent.page_id || $.parent.database_id' }
+  }, record, { base_url: 'https://cms.example' }, 'post');
+
+  assert.strictEqual(doc.externalId, 'post:7');
+  assert.strictEqual(doc.title, 'Hello & welcome');
+  assert.strictEqual(doc.content, 'FirstSecond');
+  assert.strictEqual(doc.url, 'https://cms.example/p/7');
+  assert.deepStrictEqual(doc.attributes.labels, ['bug', 'ui']);
+  assert.strictEqual(doc.attributes.parent_id, 'db-1');
+  assert.strictEqual(doc.lastModified.toISOString(), '2024-05-01T10:00:00.000Z');
+  assert.strictEqual(getPath({ '@odata.nextLink': 'next' }, '@odata.nextLink'), 'next');
+  assert.strictEqual(mapRecord({ id: '$.missing', title: '$.t', content: '' }, {}), null);
+});
+
+test('rest connector authenticates, follows cursors and maps every page', async () => {
+  const seen = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    seen.push({ auth: req.headers.authorization, cursor: url.searchParams.get('cursor'), state: url.searchParams.get('state') });
+    const page = url.searchParams.get('cursor') === 'p2'
+      ? { items: [{ id: 3, name: 'three' }], meta: { next: null } }
+      : { items: [{ id: 1, name: 'one' }, { id: 2, name: 'two' }], meta: { next: 'p2' } };
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(page));
+  });
+  await new Promise(resolve => server.listen(0, resolve));
+
+  try {
+    const connector = new RestConnector({
+      id: 'c1',
+      name: 'test',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      config: {
+        type: 'rest',
+        credentials: { base_url: `http://127.0.0.1:${server.address().port}/`, access_token: 'secret' },
+        definition: {
+          name: 'Test',
+          auth: { type: 'token', fields: [] },
+          endpoints: {
+            list_items: {
+              url: '${base_url}/items',
+              method: 'GET',
+              params: { state: 'all', q: '${query}' },
+              pagination: { type: 'cursor', cursor_param: 'cursor', results_field: 'items', next_field: 'meta.next' }
+            },
+            get_item: { url: '${base_url}/items/${id}', method: 'GET' }
+          },
+          mapping: { item: { id: '$.id', title: '$.name', content: '$.name' } }
+        }
+      }
+    });
+    const docs = [];
+    connector.on('document', doc => docs.push(doc));
+    const run = await connector.run();
+
+    assert.strictEqual(run.status, 'completed', run.errorMessage);
+    assert.deepStrictEqual(docs.map(d => d.externalId), ['list_items:1', 'list_items:2', 'list_items:3']);
+    assert.deepStrictEqual(seen.map(s => s.cursor), [null, 'p2']);
+    assert.ok(seen.every(s => s.auth === 'Bearer secret' && s.state === 'all'));
+  } finally {
+    server.close();
+  }
+});
+
+test('rest connector does not send credentials to next-page links on another origin', async () => {
+  const stolen = [];
+  const thief = http.createServer((req, res) => {
+    stolen.push(req.headers.authorization);
+    res.end('{}');
+  });
+  await new Promise(resolve => thief.listen(0, resolve));
+  const server = http.createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ items: [{ id: 1, name: 'one' }], next: `http://localhost:${thief.address().port}/items?page=2` }));
+  });
+  await new Promise(resolve => server.listen(0, resolve));
+
+  try {
+    const connector = new RestConnector({
+      id: 'c1',
+      name: 'test',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      config: {
+        type: 'rest',
+        credentials: { base_url: `http://127.0.0.1:${server.address().port}`, access_token: 'secret' },
+        definition: {
+          name: 'Test',
+          auth: { type: 'token', fields: [] },
+          endpoints: {
+            list_items: {
+              url: '${base_url}/items',
+              method: 'GET',
+              pagination: { type: 'cursor', results_field: 'items', next_field: 'next' }
+            }
+          },
+          mapping: { item: { id: '$.id', title: '$.name', content: '$.name' } }
+        }
+      }
+    });
+    connector.on('error', () => undefined);
+    const run = await connector.run();
+
+    assert.strictEqual(run.status, 'failed');
+    assert.match(run.errorMessage, /another origin/);
+    assert.deepStrictEqual(stolen, []);
+  } finally {
+    server.close();
+    thief.close();
+  }
+});
+
+test('rest connector scopes ids by endpoint when a flat mapping serves several', async () => {
+  const server = http.createServer((req, res) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify([{ id: 1, name: req.url.includes('pages') ? 'a page' : 'a post' }]));
+  });
+  await new Promise(resolve => server.listen(0, resolve));
+
+  try {
+    const connector = new RestConnector({
+      id: 'c1',
+      name: 'test',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      config: {
+        type: 'rest',
+        credentials: { base_url: `http://127.0.0.1:${server.address().port}` },
+        definition: {
+          name: 'Test',
+          auth: { type: 'none', fields: [] },
+          endpoints: {
+            list_posts: { url: '${base_url}/posts', method: 'GET' },
+            list_pages: { url: '${base_url}/pages', method: 'GET' }
+          },
+          mapping: { id: '$.id', title: '$.name', content: '$.name' }
+        }
+      }
+    });
+    const docs = [];
+    connector.on('document', doc => docs.push(doc));
+    const run = await connector.run();
+
+    assert.strictEqual(run.status, 'completed', run.errorMessage);
+    assert.deepStrictEqual(docs.map(d => d.externalId).sort(), ['list_pages:1', 'list_posts:1']);
+  } finally {
+    server.close();
+  }
+});
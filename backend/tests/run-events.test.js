@@ -0,0 +1,79 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const express = require('express');
+
+const { RunEventStream, createConnectorRoutes } = require('../dist/connectors');
+
+function parseEvents(text) {
+  return text.split('\n\n')
+    .filter(block => block.startsWith('id:'))
+    .map(block => {
+      const fields = Object.fromEntries(block.split('\n').map(line => {
+        const i = line.indexOf(': ');
+        return [line.slice(0, i), line.slice(i + 2)];
+      }));
+      return { id: Number(fields.id), type: fields.event, data: JSON.parse(fields.data) };
+    });
+}
+
+test('the run event buffer keeps the most recent events', () => {
+  const stream = new RunEventStream('run-1', 'connector-1', 3);
+  for (let i = 1; i <= 5; i++) stream.publish('log', { line: `line ${i}` });
+
+  assert.strictEqual(stream.oldestBufferedId, 3);
+  assert.deepStrictEqual(stream.since(3).map(event => event.data.line), ['line 4', 'line 5']);
+  assert.strictEqual(stream.isComplete, false);
+  stream.publish('complete', { status: 'completed' });
+  assert.strictEqual(stream.isComplete, true);
+});
+
+test('the events route replays from Last-Event-ID, filling evicted lines from the log table', async () => {
+  const stream = new RunEventStream('run-1', 'connector-1', 2);
+  stream.publish('start', { status: 'running' });
+  stream.publish('log', { line: 'first' });
+  stream.publish('log', { line: 'second' });
+  stream.publish('document', { externalId: 'a', status: 'added' });
+
+  const logQueries = [];
+  const manager = {
+    getRunEvents: (connectorId, runId) => (connectorId === 'connector-1' && runId === 'run-1' ? stream : null),
+    getLatestRunId: () => 'run-1',
+    getRun: async () => null,
+    getRunLogs: async (connectorId, runId, after, limit, before) => {
+      logQueries.push({ after, before });
+      if (runId !== 'run-1') return [];
+      return [
+        { seq: 2, line: 'first', createdAt: new Date() },
+        { seq: 3, line: 'second', createdAt: new Date() }
+      ].filter(line => line.seq > after && (before === undefined || line.seq < before));
+    }
+  };
+
+  const app = express();
+  app.use('/api/connectors', createConnectorRoutes(manager));
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const base = `http://127.0.0.1:${server.address().port}/api/connectors/connector-1/runs`;
+
+  try {
+    const response = await fetch(`${base}/latest/events`, { headers: { 'Last-Event-ID': '1' } });
+    assert.strictEqual(response.status, 200);
+    assert.match(response.headers.get('content-type'), /text\/event-stream/);
+
+    setTimeout(() => {
+      stream.publish('log', { line: 'third' });
+      stream.publish('complete', { status: 'completed' });
+    }, 50);
+    const events = parseEvents(await response.text());
+
+    assert.deepStrictEqual(events.map(event => event.id), [2, 3, 4, 5, 6]);
+    assert.deepStrictEqual(events.map(event => event.type), ['log', 'log', 'document', 'log', 'complete']);
+    assert.strictEqual(events[0].data.line, 'first');
+    assert.deepStrictEqual(logQueries[0], { after: 1, before: 3 });
+
+    const missing = await fetch(`${base}/run-2/events`);
+    assert.strictEqual(missing.status, 404);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,69 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { parseSearchFilters, buildFilterSql } = require('../dist/search/filters');
+const { textMatchSql, textRankSql, corpusTextConfigs } = require('../dist/search/text-search');
+
+test('filters are split from free text', () => {
+  const parsed = parseSearchFilters('lightning fees tag:Bitcoin after:2026-01-01 source:confluence attr.category:faq -tag:nsfw');
+
+  assert.strictEqual(parsed.text, 'lightning fees');
+  assert.deepStrictEqual(parsed.filters.map(f => [f.field, f.value, f.negated]), [
+    ['tag', 'bitcoin', false],
+    ['after', '2026-01-01', false],
+    ['source', 'confluence', false],
+    ['attr', 'faq', false],
+    ['tag', 'nsfw', true]
+  ]);
+  assert.deepStrictEqual(parsed.filters[3].path, ['category']);
+  assert.deepStrictEqual(parsed.rejected, []);
+});
+
+test('unknown prefixes stay in the text and invalid values are rejected', () => {
+  const parsed = parseSearchFilters('see https://example.com after:yesterday quality:2 has:media');
+
+  assert.strictEqual(parsed.text, 'see https://example.com');
+  assert.deepStrictEqual(parsed.filters.map(f => f.field), ['has']);
+  assert.deepStrictEqual(parsed.rejected.map(r => r.raw), ['after:yesterday', 'quality:2']);
+});
+
+test('npub authors resolve to hex pubkeys', () => {
+  const hex = '3bf0c63fcb93463407af97a5e5ee64fa883d107ef9e558472c4eb9aaaefa459d';
+  const parsed = parseSearchFilters('author:npub180cvv07tjdrrgpa0j7j7tmnyl2yr6yr7l8j4s3evf6u64th6gkwsyjh6w6');
+  assert.strictEqual(parsed.filters[0].value, hex);
+});
+
+test('filter SQL is parameterised and negation keeps rows without the attribute', () => {
+  const { filters } = parseSearchFilters('attr.category:faq -tag:nsfw');
+  const sql = buildFilterSql(filters, 3, 'd');
+
+  assert.deepStrictEqual(sql.params, [['category'], 'faq', 'nsfw']);
+  assert.match(sql.sql, /d\.attributes #>> \$3::text\[\] = \$4/);
+  assert.match(sql.sql, /NOT COALESCE\(/);
+  assert.ok(!sql.sql.includes('faq'));
+});
+
+test('without a query language each document is matched in its own config', async () => {
+  let queries = 0;
+  const pool = {
+    query: async () => {
+      queries++;
+      return { rows: [{ config: 'english' }, { config: 'german' }, { config: 'custom_cfg' }] };
+    }
+  };
+
+  const configs = await corpusTextConfigs(pool);
+  assert.deepStrictEqual(configs, ['english', 'german']);
+  await corpusTextConfigs(pool);
+  assert.strictEqual(queries, 1);
+
+  assert.strictEqual(
+    textMatchSql('$1', { alias: 'd', config: configs }),
+    "((d.language_config = 'english'::regconfig AND d.search_vector @@ to_tsquery('english'::regconfig, $1)) OR " +
+    "(d.language_config = 'german'::regconfig AND d.search_vector @@ to_tsquery('german'::regconfig, $1)))"
+  );
+  assert.strictEqual(textRankSql('$1', { config: configs }), 'ts_rank(search_vector, to_tsquery(language_config, $1))');
+
+  // A named language parses the query once
+  assert.strictEqual(textMatchSql('$2', { config: 'french' }), "search_vector @@ to_tsquery('french'::regconfig, $2)");
+});
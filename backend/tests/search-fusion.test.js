@@ -0,0 +1,25 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { reciprocalRankFusion } = require('../dist/search/fusion');
+
+test('RRF rewards documents ranked well in both legs', () => {
+  const fused = reciprocalRankFusion([
+    { name: 'vector', weight: 1, results: [{ id: 'a', score: 0.9 }, { id: 'b', score: 0.8 }, { id: 'c', score: 0.1 }] },
+    { name: 'text', weight: 1, results: [{ id: 'b', score: 0.01 }, { id: 'c', score: 0.005 }] }
+  ], { k: 60 });
+
+  assert.strictEqual(fused[0].id, 'b');
+  assert.deepStrictEqual(fused[0].ranks, { vector: 2, text: 1 });
+  assert.strictEqual(fused.find(r => r.id === 'a').ranks.text, null);
+  assert.ok(fused.every(r => r.score > 0 && r.score <= 1));
+});
+
+test('RRF leg weights shift the ranking', () => {
+  const legs = weight => [
+    { name: 'vector', weight: 1, results: [{ id: 'v' }, { id: 't' }] },
+    { name: 'text', weight, results: [{ id: 't' }] }
+  ];
+  assert.strictEqual(reciprocalRankFusion(legs(0), { k: 1 })[0].id, 'v');
+  assert.strictEqual(reciprocalRankFusion(legs(1), { k: 1 })[0].id, 't');
+});
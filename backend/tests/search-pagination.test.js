@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const { encodeCursor, decodeCursor, paginate } = require('../dist/search/pagination');
+
+const ranked = [
+  { id: 'c', score: 0.5 },
+  { id: 'a', score: 0.9 },
+  { id: 'b', score: 0.5 },
+  { id: 'd', score: 0.1 },
+  { id: 'e', score: 0.5 }
+];
+
+test('cursor round-trips and rejects garbage', () => {
+  const cursor = { score: 0.123456789, id: 'abc', position: 20 };
+  assert.deepStrictEqual(decodeCursor(encodeCursor(cursor)), cursor);
+  assert.throws(() => decodeCursor('not-a-cursor'));
+});
+
+test('paginate walks every result exactly once with ties broken by id', () => {
+  const seen = [];
+  let cursor = null;
+  do {
+    const page = paginate(ranked, 2, cursor);
+    seen.push(...page.results.map(r => r.id));
+    cursor = page.nextCursor ? decodeCursor(page.nextCursor) : null;
+  } while (cursor);
+
+  assert.deepStrictEqual(seen, ['a', 'b', 'c', 'e', 'd']);
+});
+
+test('same cursor yields the same page', () => {
+  const first = paginate(ranked, 2);
+  const cursor = decodeCursor(first.nextCursor);
+  assert.deepStrictEqual(paginate(ranked, 2, cursor), paginate([...ranked].reverse(), 2, cursor));
+});
@@ -0,0 +1,58 @@
+const test = require('node:test');
+const assert = require('node:assert');
+
+const {
+  markTerms,
+  renderHighlight,
+  sentenceWindows,
+  trimSnippet,
+  bestPassages,
+  lexicalPassages
+} = require('../dist/search/snippets');
+
+test('highlights are HTML-escaped before <mark> tags are added', () => {
+  const html = renderHighlight(markTerms('Use <b>bitcoin</b> & Bitcoiners', ['bitcoin']));
+  assert.strictEqual(html, 'Use &lt;b&gt;<mark>bitcoin</mark>&lt;/b&gt; &amp; Bitcoiners');
+});
+
+test('sentence windows respect the word budget', () => {
+  const windows = sentenceWindows('One two three. Four five six. Seven eight nine ten eleven twelve.', 6, 10);
+  assert.deepStrictEqual(windows, ['One two three. Four five six.', 'Seven eight nine ten eleven twelve.']);
+});
+
+test('snippets are trimmed at a word boundary', () => {
+  assert.strictEqual(trimSnippet('alpha beta gamma delta', 14), 'alpha beta…');
+  assert.strictEqual(trimSnippet('short', 14), 'short');
+});
+
+test('best passages are ranked by embedding similarity', async () => {
+  const embed = async text => text.includes('lightning') ? [1, 0] : [0, 1];
+  const passages = await bestPassages(
+    'Cats sleep a lot. Dogs bark at night. The lightning network routes payments.',
+    [1, 0],
+    embed,
+    { fragments: 1, fragmentWords: 5, snippetLength: 100, maxWindows: 10 }
+  );
+  assert.deepStrictEqual(passages, ['The lightning network routes payments.']);
+});
+
+test('passages are picked lexically once the embedding budget is spent', async () => {
+  const calls = [];
+  const embed = async text => { calls.push(text); return text.includes('lightning') ? [1, 0] : [0, 1]; };
+  const options = { fragments: 1, fragmentWords: 5, snippetLength: 100, maxWindows: 10, maxEmbeddings: 4 };
+  const content = 'Cats sleep a lot. Dogs bark at night. The lightning network routes payments.';
+  const budget = { remaining: options.maxEmbeddings };
+
+  assert.deepStrictEqual(await bestPassages(content, [1, 0], embed, options, budget, ['routes']), ['The lightning network routes payments.']);
+  assert.strictEqual(budget.remaining, 1);
+  assert.strictEqual(calls.length, 3);
+
+  assert.deepStrictEqual(await bestPassages(content, [1, 0], embed, options, budget, ['dogs', 'night']), ['Dogs bark at night.']);
+  assert.strictEqual(calls.length, 3);
+});
+
+test('lexical passages rank by distinct terms and keep document order on ties', () => {
+  const windows = ['No match here.', 'Bitcoin fees.', 'Bitcoin and lightning fees.', 'Lightning only.'];
+  assert.deepStrictEqual(lexicalPassages(windows, ['bitcoin', 'lightning'], 2), ['Bitcoin and lightning fees.', 'Bitcoin fees.']);
+  assert.deepStrictEqual(lexicalPassages(windows, [], 1), ['No match here.']);
+});
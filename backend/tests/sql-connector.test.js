@@ -0,0 +1,122 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const Database = require('better-sqlite3');
+
+const { SqlConnector, bindNamedParams, mapSqlRow, serializeWatermark, restoreWatermark } = require('../dist/connectors');
+
+test('named parameters become dialect placeholders outside strings and casts', () => {
+  const sql = "SELECT id::text, ':skip' AS s FROM t WHERE updated_at > :last_run AND owner = :owner OR updated_at > :last_run";
+  const pg = bindNamedParams(sql, { last_run: '2024-01-01', owner: 'ann' }, 'postgres');
+  assert.strictEqual(pg.text, "SELECT id::text, ':skip' AS s FROM t WHERE updated_at > $1 AND owner = $2 OR updated_at > $3");
+  assert.deepStrictEqual(pg.values, ['2024-01-01', 'ann', '2024-01-01']);
+
+  const mysql = bindNamedParams('SELECT * FROM t WHERE ts > :last_run', { last_run: 5 }, 'mysql');
+  assert.strictEqual(mysql.text, 'SELECT * FROM t WHERE ts > ?');
+  assert.throws(() => bindNamedParams('SELECT :missing', {}, 'sqlite'), /:missing/);
+});
+
+test('rows map to documents with unmapped columns as attributes', () => {
+  const doc = mapSqlRow(
+    { ticket_id: 12, subject: 'Printer', body: 'Jammed', notes: null, status: 'open', updated_at: '2024-02-03T04:05:06Z' },
+    { id: 'ticket_id', title: 'subject', content: ['body', 'notes'] },
+    'updated_at'
+  );
+  assert.strictEqual(doc.externalId, '12');
+  assert.strictEqual(doc.title, 'Printer');
+  assert.strictEqual(doc.content, 'Jammed');
+  assert.deepStrictEqual(doc.attributes, { status: 'open', updated_at: '2024-02-03T04:05:06Z' });
+  assert.strictEqual(doc.lastModified.toISOString(), '2024-02-03T04:05:06.000Z');
+  assert.strictEqual(mapSqlRow({ title: 'no id' }), null);
+});
+
+test('sql connector syncs incrementally and removes deleted rows', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sql-connector-'));
+  const file = path.join(dir, 'source.db');
+  const db = new Database(file);
+  db.exec('CREATE TABLE notes (id INTEGER PRIMARY KEY, title TEXT, content TEXT, updated_at TEXT)');
+  const insert = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?)');
+  insert.run(1, 'One', 'first', '2024-01-01 10:00:00');
+  insert.run(2, 'Two', 'second', '2024-01-02 10:00:00');
+
+  let state = null;
+  const indexed = new Set();
+  const hooks = {
+    loadState: async () => state,
+    saveState: async next => { state = next; },
+    listExternalIds: async () => [...indexed],
+    removeDocuments: async ids => ids.filter(id => indexed.delete(id)).map(externalId => ({ externalId }))
+  };
+
+  const runOnce = async () => {
+    const connector = new SqlConnector({
+      id: 'c1',
+      name: 'notes',
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      config: {
+        type: 'sql',
+        connectionString: `sqlite://${file}`,
+        metadataQuery: 'SELECT id FROM notes',
+        dataQuery: 'SELECT * FROM notes WHERE updated_at > :last_run ORDER BY updated_at',
+        watermarkColumn: 'updated_at'
+      }
+    });
+    connector.setSyncHooks(hooks);
+    const docs = [];
+    connector.on('document', doc => {
+      docs.push(doc);
+      indexed.add(doc.externalId);
+    });
+    const run = await connector.run();
+    return { run, docs };
+  };
+
+  try {
+    const first = await runOnce();
+    assert.strictEqual(first.run.status, 'completed');
+    assert.deepStrictEqual(first.docs.map(doc => doc.externalId), ['1', '2']);
+    assert.deepStrictEqual(state, { watermark: '2024-01-02 10:00:00' });
+
+    insert.run(3, 'Three', 'third', '2024-01-03 10:00:00');
+    db.prepare('DELETE FROM notes WHERE id = 1').run();
+
+    const second = await runOnce();
+    assert.strictEqual(second.run.status, 'completed');
+    assert.deepStrictEqual(second.docs.map(doc => doc.externalId), ['3']);
+    assert.strictEqual(second.run.documentsRemoved, 1);
+    assert.deepStrictEqual([...indexed].sort(), ['2', '3']);
+    assert.deepStrictEqual(state, { watermark: '2024-01-03 10:00:00' });
+
+    // A source that suddenly returns nothing is not taken as every row deleted
+    db.prepare('DELETE FROM notes').run();
+    const third = await runOnce();
+    assert.strictEqual(third.run.status, 'completed');
+    assert.strictEqual(third.run.documentsRemoved, 0);
+    assert.deepStrictEqual([...indexed].sort(), ['2', '3']);
+  } finally {
+    db.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test('date watermarks are bound back as dates, not as UTC strings', () => {
+  const parsed = new Date(2024, 0, 2, 10, 0, 0); // How pg and mysql2 read a local timestamp column
+  const saved = serializeWatermark(parsed);
+  assert.deepStrictEqual(saved, { watermark: parsed.toISOString(), watermarkType: 'date' });
+
+  const restored = restoreWatermark(JSON.parse(JSON.stringify(saved)), 'postgres');
+  assert.ok(restored instanceof Date);
+  assert.strictEqual(restored.getTime(), parsed.getTime());
+
+  // Watermarks saved before the type was recorded
+  assert.ok(restoreWatermark({ watermark: '2024-01-02T10:00:00.000Z' }, 'mysql') instanceof Date);
+  assert.strictEqual(restoreWatermark({ watermark: '2024-01-02 10:00:00' }, 'mysql'), '2024-01-02 10:00:00');
+  assert.strictEqual(restoreWatermark({ watermark: 42 }, 'postgres'), 42);
+  assert.strictEqual(restoreWatermark(saved, 'sqlite'), parsed.toISOString());
+  assert.strictEqual(restoreWatermark({}, 'postgres'), undefined);
+  assert.deepStrictEqual(serializeWatermark(10n), { watermark: '10' });
+});
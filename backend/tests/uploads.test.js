@@ -0,0 +1,70 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('node:fs');
+const os = require('node:os');
+const path = require('node:path');
+const express = require('express');
+
+const { LocalBlobStore, createUploadRoutes } = require('../dist/uploads');
+
+test('the blob store keys files by content and stores duplicates once', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'beacon-blobs-'));
+  try {
+    const store = new LocalBlobStore(root);
+    const key = await store.put(Buffer.from('quarterly report'));
+    assert.match(key, /^[0-9a-f]{64}$/);
+    assert.strictEqual(await store.put(Buffer.from('quarterly report')), key);
+
+    const upload = path.join(root, 'incoming');
+    fs.writeFileSync(upload, 'quarterly report');
+    assert.strictEqual(await store.putFile(upload), key);
+    assert.ok(!fs.existsSync(upload));
+
+    assert.strictEqual((await store.read(key)).toString(), 'quarterly report');
+    assert.throws(() => store.has('../../etc/passwd'), /Invalid blob key/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('the upload route queues one job per supported file', async () => {
+  const received = [];
+  const manager = {
+    createJobs: async (files, options) => {
+      received.push({ files, options });
+      return files.map((file, i) => ({ id: `job-${i}`, filename: file.filename, blobKey: 'k', status: 'queued' }));
+    }
+  };
+  const app = express();
+  app.use('/api/uploads', createUploadRoutes(manager));
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  const url = `http://127.0.0.1:${server.address().port}/api/uploads`;
+
+  try {
+    const form = new FormData();
+    form.append('files', new Blob(['Meeting notes for the launch']), 'notes.txt');
+    form.append('files', new Blob(['PK']), 'bundle.zip');
+    form.append('autoProcess', 'false');
+    const accepted = await fetch(url, { method: 'POST', body: form });
+    assert.strictEqual(accepted.status, 202);
+    const body = await accepted.json();
+    assert.deepStrictEqual(body.jobs.map(job => job.filename), ['notes.txt', 'bundle.zip']);
+    assert.strictEqual(body.jobs[0].blobKey, undefined);
+    assert.strictEqual(body.jobs[0].downloadUrl, '/api/uploads/jobs/job-0/download');
+    assert.deepStrictEqual(received[0].options, { autoProcess: false });
+    received[0].files.forEach(file => fs.rmSync(file.path, { force: true }));
+
+    const rejected = new FormData();
+    rejected.append('files', new Blob(['MZ']), 'setup.exe');
+    const response = await fetch(url, { method: 'POST', body: rejected });
+    assert.strictEqual(response.status, 400);
+    assert.match((await response.json()).error, /Unsupported file type: setup\.exe/);
+
+    const empty = await fetch(url, { method: 'POST', body: new FormData() });
+    assert.strictEqual(empty.status, 400);
+    assert.strictEqual(received.length, 1);
+  } finally {
+    server.close();
+  }
+});
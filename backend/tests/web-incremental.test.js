@@ -0,0 +1,132 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const http = require('node:http');
+const zlib = require('node:zlib');
+
+const { WebSpiderConnector, parseSitemap } = require('../dist/connectors');
+
+function page(title, body, links = []) {
+  const anchors = links.map(href => `<a href="${href}">${href}</a>`).join(' ');
+  return `<html><head><title>${title}</title></head><body><article>${body} ${anchors}</article></body></html>`;
+}
+
+// A small site: / links to /c, the sitemap index lists /a and /b
+function startSite() {
+  const requests = [];
+  let cVersion = 1;
+  const filler = 'enough words on this page to be worth indexing as a document';
+
+  const server = http.createServer((req, res) => {
+    requests.push({ path: req.url, status: null });
+    const reply = (status, headers, body) => {
+      requests[requests.length - 1].status = status;
+      res.writeHead(status, headers);
+      res.end(body);
+    };
+    const origin = `http://${req.headers.host}`;
+    const html = { 'Content-Type': 'text/html' };
+
+    switch (req.url) {
+      case '/robots.txt':
+        return reply(200, {}, `User-agent: *\nDisallow: /private\n\nSitemap: ${origin}/sitemap-index.xml\n`);
+      case '/sitemap-index.xml':
+        return reply(200, { 'Content-Type': 'application/xml' },
+          `<?xml version="1.0"?><sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+            <sitemap><loc>${origin}/pages.xml.gz</loc></sitemap>
+          </sitemapindex>`);
+      case '/pages.xml.gz':
+        return reply(200, { 'Content-Type': 'application/octet-stream' }, zlib.gzipSync(
+          `<?xml version="1.0"?><urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+            <url><loc>${origin}/a</loc><lastmod>2020-01-01</lastmod></url>
+            <url><loc>${origin}/b</loc></url>
+            <url><loc>${origin}/private/x</loc></url>
+          </urlset>`));
+      case '/':
+        if (req.headers['if-none-match'] === '"home-v1"') return reply(304, {}, '');
+        return reply(200, { ...html, ETag: '"home-v1"' }, page('Home', filler, ['/c']));
+      case '/a':
+        return reply(200, html, page('A', filler));
+      case '/b':
+        return reply(200, html, page('B', filler));
+      case '/c':
+        return reply(200, html, page('C', `${filler}, version ${cVersion++}`));
+      default:
+        return reply(404, {}, '');
+    }
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => resolve({ server, requests, url: `http://127.0.0.1:${server.address().port}/` }));
+  });
+}
+
+function memoryHooks() {
+  const indexed = new Set();
+  const states = new Map();
+  return {
+    indexed,
+    loadState: async () => null,
+    saveState: async () => undefined,
+    listExternalIds: async () => [...indexed],
+    removeDocuments: async () => [],
+    loadItemStates: async () => new Map(states),
+    saveItemState: async (key, state) => { states.set(key, JSON.parse(JSON.stringify(state))); }
+  };
+}
+
+async function crawl(seedUrl, hooks) {
+  const connector = new WebSpiderConnector({
+    id: 'c1',
+    name: 'site',
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    config: { type: 'web', seedUrl, maxDepth: 1, maxPages: 20, sameDomainOnly: true, respectRobotsTxt: true, rateLimit: 0 }
+  });
+  connector.setSyncHooks(hooks);
+  const docs = [];
+  connector.on('document', doc => {
+    docs.push(doc);
+    hooks.indexed.add(doc.externalId);
+  });
+  const run = await connector.run();
+  return { run, docs };
+}
+
+test('sitemap indexes list their child sitemaps and page entries their lastmod', () => {
+  const index = parseSitemap('<sitemapindex><sitemap><loc> https://x.test/s1.xml </loc></sitemap></sitemapindex>');
+  assert.deepStrictEqual(index, { urls: [], sitemaps: ['https://x.test/s1.xml'] });
+
+  const urlset = parseSitemap('<urlset><url><loc>https://x.test/a</loc><lastmod>2024-05-01</lastmod></url><url><loc>https://x.test/b</loc><lastmod>soon</lastmod></url></urlset>');
+  assert.deepStrictEqual(urlset.urls, [
+    { url: 'https://x.test/a', lastModified: new Date('2024-05-01') },
+    { url: 'https://x.test/b', lastModified: undefined }
+  ]);
+});
+
+test('a re-crawl only re-indexes pages whose content changed', async () => {
+  const { server, requests, url } = await startSite();
+  try {
+    const hooks = memoryHooks();
+    const first = await crawl(url, hooks);
+    assert.strictEqual(first.run.status, 'completed');
+    assert.deepStrictEqual(first.docs.map(doc => new URL(doc.url).pathname).sort(), ['/', '/a', '/b', '/c']);
+    assert.deepStrictEqual(first.run.stats, { pagesNew: 4 });
+    assert.ok(!requests.some(r => r.path.startsWith('/private')));
+
+    requests.length = 0;
+    const second = await crawl(url, hooks);
+    assert.strictEqual(second.run.status, 'completed');
+    assert.deepStrictEqual(second.docs.map(doc => new URL(doc.url).pathname), ['/c']);
+    assert.strictEqual(second.run.documentsUpdated, 1);
+    assert.strictEqual(second.run.documentsAdded, 0);
+    assert.deepStrictEqual(second.run.stats, { pagesUnchanged: 3, pagesChanged: 1 });
+
+    // Home answered 304 and its stored links still led to /c; /a was skipped by its sitemap lastmod
+    assert.strictEqual(requests.find(r => r.path === '/').status, 304);
+    assert.ok(requests.some(r => r.path === '/c'));
+    assert.ok(!requests.some(r => r.path === '/a'));
+  } finally {
+    server.close();
+  }
+});
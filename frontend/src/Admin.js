@@ -4,6 +4,7 @@ import IntegrationCatalog from './components/IntegrationCatalog';
 import WizardPanel from './components/WizardPanel';
 import GitHistory from './components/GitHistory';
 import ConfigEditor from './components/ConfigEditor';
+import { authHeaders } from './utils/apiKey';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -19,7 +20,7 @@ const Admin = () => {
 
   const fetchGitStatus = async () => {
     try {
-      const res = await fetch(`${API_URL}/api/config/status`);
+      const res = await fetch(`${API_URL}/api/config/status`, { headers: authHeaders() });
       const data = await res.json();
       setGitStatus(data);
     } catch (err) {
@@ -381,6 +381,8 @@ function App() {
 
       if (query) params.append('q', query);
       params.append('limit', '20');
+      // Result cards expand to the full document, so ask for content alongside snippets
+      params.append('include_content', 'true');
 
       const filterActive = selectedTags.length > 0 || selectedEntity || selectedSentiment || selectedSource || selectedDocType || selectedAuthor || selectedConcept;
 
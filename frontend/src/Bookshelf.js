@@ -83,7 +83,7 @@ const Bookshelf = ({
     try {
       let url = `${API_URL}/api/documents?limit=100`;
       if (searchQuery) {
-        url = `${API_URL}/api/search?q=${encodeURIComponent(searchQuery)}&limit=100`;
+        url = `${API_URL}/api/search?q=${encodeURIComponent(searchQuery)}&limit=100&include_content=true`;
       }
       const response = await fetch(url);
       if (!response.ok) throw new Error('Failed to fetch documents');
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import './ConfigWizard.css';
+import { authHeaders } from './utils/apiKey';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -65,7 +66,7 @@ function ConfigWizard() {
     try {
       const response = await fetch(`${API_URL}/api/wizard/sessions`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ integrationName: integrationName.trim() })
       });
 
@@ -103,7 +104,7 @@ function ConfigWizard() {
     try {
       const response = await fetch(`${API_URL}/api/wizard/chat`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({
           sessionId: session.sessionId,
           message: messageText
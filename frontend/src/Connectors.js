@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import './Connectors.css';
+import { authHeaders } from './utils/apiKey';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -31,7 +32,7 @@ function Connectors({ onClose }) {
 
   const fetchConnectors = useCallback(async () => {
     try {
-      const response = await fetch(`${API_URL}/api/connectors`);
+      const response = await fetch(`${API_URL}/api/connectors`, { headers: authHeaders() });
       if (!response.ok) throw new Error('Failed to fetch connectors');
       const data = await response.json();
       setConnectors(data);
@@ -109,7 +110,7 @@ function Connectors({ onClose }) {
       
       const response = await fetch(url, {
         method: editingConnector ? 'PUT' : 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify(payload)
       });
 
@@ -154,7 +155,8 @@ function Connectors({ onClose }) {
 
     try {
       const response = await fetch(`${API_URL}/api/connectors/${id}`, {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: authHeaders()
       });
       if (!response.ok) throw new Error('Failed to delete connector');
       fetchConnectors();
@@ -166,7 +168,8 @@ function Connectors({ onClose }) {
   const handleRun = async (id) => {
     try {
       const response = await fetch(`${API_URL}/api/connectors/${id}/run`, {
-        method: 'POST'
+        method: 'POST',
+        headers: authHeaders()
       });
       if (!response.ok) {
         const data = await response.json();
@@ -181,7 +184,8 @@ function Connectors({ onClose }) {
   const handleStop = async (id) => {
     try {
       const response = await fetch(`${API_URL}/api/connectors/${id}/stop`, {
-        method: 'POST'
+        method: 'POST',
+        headers: authHeaders()
       });
       if (!response.ok) throw new Error('Failed to stop connector');
       fetchConnectors();
@@ -6,6 +6,7 @@ import {
   fetchGitConfig, 
   syncGitConfig 
 } from '../utils/api';
+import { getApiKey, setApiKey } from '../../utils/apiKey';
 
 function Settings() {
   const queryClient = useQueryClient();
@@ -60,6 +61,19 @@ function Settings() {
       <div className="admin-card">
         {activeTab === 'general' && (
           <div className="space-y-4">
+            <div className="admin-form-group">
+              <label className="admin-label">API Key</label>
+              <input
+                type="password"
+                className="admin-input"
+                defaultValue={getApiKey()}
+                placeholder="Admin key, kept in this browser"
+                onBlur={(e) => {
+                  setApiKey(e.target.value.trim());
+                  queryClient.invalidateQueries();
+                }}
+              />
+            </div>
             <div className="admin-form-group">
               <label className="admin-label">Site Name</label>
               <input type="text" className="admin-input" defaultValue={settings.general.siteName} />
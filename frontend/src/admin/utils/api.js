@@ -2,6 +2,8 @@
  * API utility functions for Beacon Search Admin
  */
 
+import { authHeaders } from '../../utils/apiKey';
+
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
 /**
@@ -11,11 +13,12 @@ async function fetchAPI(endpoint, options = {}) {
   const url = `${API_URL}${endpoint}`;
   
   const config = {
+    ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
       ...options.headers,
     },
-    ...options,
   };
 
   const response = await fetch(url, config);
@@ -125,6 +128,7 @@ export const importDictionaryCSV = (file) => {
   formData.append('file', file);
   return fetch(`${API_URL}/api/dictionary/import`, {
     method: 'POST',
+    headers: authHeaders(),
     body: formData,
   }).then(r => r.json());
 };
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { authHeaders } from '../utils/apiKey';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -7,7 +8,7 @@ const IntegrationCatalog = ({ onSelect }) => {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    fetch(`${API_URL}/api/wizard/templates`)
+    fetch(`${API_URL}/api/wizard/templates`, { headers: authHeaders() })
       .then(res => res.json())
       .then(data => {
         setTemplates(data.templates);
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { authHeaders } from '../utils/apiKey';
 
 const API_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -13,7 +14,7 @@ const WizardPanel = ({ initialTemplate }) => {
     const startSession = async () => {
       const res = await fetch(`${API_URL}/api/wizard/start`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ platform: initialTemplate?.id })
       });
       const data = await res.json();
@@ -39,7 +40,7 @@ const WizardPanel = ({ initialTemplate }) => {
     try {
       const res = await fetch(`${API_URL}/api/wizard/chat`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ sessionId, message: userMsg })
       });
       const data = await res.json();
@@ -0,0 +1,37 @@
+/**
+ * apiKey.js
+ * The API key the UI sends to the backend: one saved in this browser from
+ * the admin settings, or REACT_APP_API_KEY baked in at build time.
+ */
+
+const STORAGE_KEY = 'beacon.apiKey';
+
+export function getApiKey() {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    if (saved) return saved;
+  } catch {
+    // Storage can be unavailable (private mode, sandboxed frames)
+  }
+  return process.env.REACT_APP_API_KEY || '';
+}
+
+export function setApiKey(key) {
+  try {
+    if (key) {
+      window.localStorage.setItem(STORAGE_KEY, key);
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Nothing to persist to; the build-time key still applies
+  }
+}
+
+/**
+ * Headers that authenticate a request, empty when no key is configured
+ */
+export function authHeaders() {
+  const key = getApiKey();
+  return key ? { Authorization: `Bearer ${key}` } : {};
+}
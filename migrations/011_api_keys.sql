@@ -0,0 +1,20 @@
+-- Migration: API key authentication
+-- Hashed, scoped, tenant-bound keys for every /api route
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  tenant_id VARCHAR(255) NOT NULL DEFAULT 'default',
+  key_prefix VARCHAR(32) NOT NULL UNIQUE,    -- Public lookup part of bk_<prefix>_<secret>
+  key_hash VARCHAR(128) NOT NULL,            -- SHA-256 (or HMAC with API_KEY_PEPPER) of the full key
+  scopes TEXT[] NOT NULL DEFAULT '{}',       -- 'search:read', 'documents:write', 'admin'
+  created_by UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  rotated_from UUID REFERENCES api_keys(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_tenant ON api_keys(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_api_keys_active ON api_keys(key_prefix) WHERE revoked_at IS NULL;
@@ -0,0 +1,22 @@
+-- Migration: Persisted full-text search vector
+-- Weighted tsvector (title A, content B, tags C) stored on documents so text
+-- search no longer recomputes to_tsvector per row at query time
+
+-- Text search config per document (set by connectors from detected language)
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS language_config REGCONFIG NOT NULL DEFAULT 'english';
+
+-- Generated column: kept in sync on every INSERT/UPDATE, backfilled when added
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+  setweight(to_tsvector(language_config, COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector(language_config, COALESCE(content, '')), 'B') ||
+  setweight(to_tsvector(language_config, COALESCE(attributes->'tags', '[]'::jsonb)), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_search_vector
+ON documents USING GIN(search_vector);
+
+-- Per-column expression indexes are superseded by idx_documents_search_vector
+DROP INDEX IF EXISTS idx_documents_content;
+DROP INDEX IF EXISTS idx_documents_title;
@@ -0,0 +1,20 @@
+-- Migration: Chunk-level embeddings
+-- Long documents are split into overlapping chunks, each with its own embedding,
+-- so vector search can match any part of a document rather than its beginning
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  start_offset INTEGER NOT NULL DEFAULT 0,   -- Approximate character offsets in documents.content
+  end_offset INTEGER NOT NULL DEFAULT 0,
+  embedding vector(384),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(document_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document ON document_chunks(document_id);
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding
+ON document_chunks USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
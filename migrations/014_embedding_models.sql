@@ -0,0 +1,50 @@
+-- Migration: Embedding model versioning and re-embedding jobs
+-- Every vector records the model that produced it, so the embedding provider
+-- can change (local, Ollama, OpenAI-compatible; any dimension) without mixing
+-- incompatible vectors in one similarity query.
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(255);
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS embedding_model VARCHAR(255);
+
+-- Everything embedded so far came from the built-in MiniLM model
+UPDATE documents SET embedding_model = 'local:Xenova/all-MiniLM-L6-v2'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+UPDATE document_chunks SET embedding_model = 'local:Xenova/all-MiniLM-L6-v2'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- Columns lose their fixed dimension; vectors are cast per model at query time
+DROP INDEX IF EXISTS idx_documents_embedding;
+DROP INDEX IF EXISTS idx_document_chunks_embedding;
+ALTER TABLE documents ALTER COLUMN embedding TYPE vector;
+ALTER TABLE document_chunks ALTER COLUMN embedding TYPE vector;
+
+-- Per-model partial expression indexes (the server creates these for any other active model)
+CREATE INDEX IF NOT EXISTS idx_documents_embedding_local_xenova_all_minilm_l6_v2
+ON documents USING hnsw ((embedding::vector(384)) vector_cosine_ops)
+WHERE embedding_model = 'local:Xenova/all-MiniLM-L6-v2';
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_local_xenova_all_minilm_l6_v2
+ON document_chunks USING hnsw ((embedding::vector(384)) vector_cosine_ops)
+WHERE embedding_model = 'local:Xenova/all-MiniLM-L6-v2';
+
+-- Background re-embedding jobs
+CREATE TABLE IF NOT EXISTS embedding_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  target_model VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',   -- pending, running, completed, failed, cancelled
+  total_documents INTEGER NOT NULL DEFAULT 0,
+  processed_documents INTEGER NOT NULL DEFAULT 0,
+  failed_documents INTEGER NOT NULL DEFAULT 0,
+  last_document_id UUID,                            -- Resume point (documents are processed in id order)
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  started_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- At most one active job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_embedding_jobs_active
+ON embedding_jobs ((true)) WHERE status IN ('pending', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_embedding_jobs_created ON embedding_jobs(created_at DESC);
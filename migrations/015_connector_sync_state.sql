@@ -0,0 +1,9 @@
+-- Migration: Connector sync state
+-- Per-connector state kept between runs (e.g. the SQL connector's watermark
+-- for incremental `:last_run` queries).
+
+CREATE TABLE IF NOT EXISTS connector_sync_state (
+    connector_id UUID PRIMARY KEY REFERENCES connectors(id) ON DELETE CASCADE,
+    state JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,37 @@
+-- Migration: Connector schedules and job queue
+-- Connectors can run on a cron or "every N minutes" schedule. Every run,
+-- manual or scheduled, goes through connector_jobs; the partial unique index
+-- guarantees at most one queued or running job per connector across all
+-- backend instances, and heartbeats let a crashed instance's jobs be retried.
+
+ALTER TABLE connectors ADD COLUMN IF NOT EXISTS schedule JSONB;
+ALTER TABLE connectors ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_connectors_next_run_at
+ON connectors(next_run_at) WHERE schedule IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS connector_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    connector_id UUID NOT NULL REFERENCES connectors(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',       -- queued, running, completed, failed, cancelled
+    triggered_by VARCHAR(20) NOT NULL DEFAULT 'manual', -- manual, schedule, catch_up, retry
+    scheduled_for TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    locked_by VARCHAR(255),
+    locked_at TIMESTAMPTZ,
+    heartbeat_at TIMESTAMPTZ,
+    run_id UUID,
+    error_message TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_connector_jobs_active
+ON connector_jobs(connector_id) WHERE status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_connector_jobs_queued
+ON connector_jobs(scheduled_for) WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_connector_jobs_connector
+ON connector_jobs(connector_id, created_at DESC);
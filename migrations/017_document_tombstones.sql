@@ -0,0 +1,12 @@
+-- Migration: Document tombstones
+-- Documents whose source item disappeared are tombstoned (deleted_at set):
+-- hidden from search at once, restored if the item shows up again, and
+-- purged after DOCUMENT_TOMBSTONE_GRACE_HOURS.
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_documents_deleted_at
+ON documents(source_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- What a run removed, or would have removed in dry-run mode
+ALTER TABLE connector_runs ADD COLUMN IF NOT EXISTS deletion_report JSONB;
@@ -0,0 +1,14 @@
+-- Migration: Connector item state
+-- Per-item bookkeeping a connector keeps between runs, such as the HTTP
+-- validators (ETag, Last-Modified) and content hash of every crawled page.
+
+CREATE TABLE IF NOT EXISTS connector_item_state (
+    connector_id UUID NOT NULL REFERENCES connectors(id) ON DELETE CASCADE,
+    item_key TEXT NOT NULL,
+    state JSONB NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (connector_id, item_key)
+);
+
+-- Per-run counters such as pages unchanged vs changed
+ALTER TABLE connector_runs ADD COLUMN IF NOT EXISTS stats JSONB;
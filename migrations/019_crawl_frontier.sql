@@ -0,0 +1,22 @@
+-- Migration: Crawl frontier
+-- URLs of the current web crawl pass, so a stopped or interrupted crawl
+-- resumes where it left off. Cleared when a pass finishes.
+
+CREATE TABLE IF NOT EXISTS crawl_frontier (
+    connector_id UUID NOT NULL REFERENCES connectors(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    host TEXT NOT NULL,
+    depth INTEGER NOT NULL DEFAULT 0,
+    priority INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',   -- queued, done, failed, skipped
+    next_fetch_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    external_id TEXT,
+    last_error TEXT,
+    seq BIGSERIAL,                                  -- Discovery order
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (connector_id, url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crawl_frontier_queued
+ON crawl_frontier(connector_id, host, priority DESC, seq) WHERE status = 'queued';
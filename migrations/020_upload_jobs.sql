@@ -0,0 +1,22 @@
+-- Migration: Document uploads
+-- One job per uploaded file. The original is kept in the blob store under
+-- blob_key (its sha256); the job records the documents indexed from it.
+
+CREATE TABLE IF NOT EXISTS upload_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    filename VARCHAR(500) NOT NULL,
+    content_type VARCHAR(255),
+    size_bytes BIGINT NOT NULL DEFAULT 0,
+    blob_key VARCHAR(64) NOT NULL,
+    options JSONB NOT NULL DEFAULT '{}',
+    status VARCHAR(20) NOT NULL DEFAULT 'queued',   -- queued, processing, completed, failed
+    document_ids UUID[] NOT NULL DEFAULT '{}',
+    log TEXT[] NOT NULL DEFAULT '{}',
+    error_message TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_jobs_created ON upload_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_upload_jobs_pending ON upload_jobs(created_at) WHERE status IN ('queued', 'processing');
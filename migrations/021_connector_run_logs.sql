@@ -0,0 +1,17 @@
+-- Migration: Connector run logs
+-- Every log line of a connector run, so the full log survives the in-memory
+-- cap on connector_runs.log. seq is the line's event id in the run's live
+-- event stream, which lets a reconnecting client resume from Last-Event-ID.
+-- run_id has no foreign key: lines are written while the run is in progress,
+-- before its connector_runs row exists.
+
+CREATE TABLE IF NOT EXISTS connector_run_logs (
+    run_id UUID NOT NULL,
+    seq INTEGER NOT NULL,
+    connector_id UUID NOT NULL REFERENCES connectors(id) ON DELETE CASCADE,
+    line TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (run_id, seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_connector_run_logs_connector ON connector_run_logs(connector_id, created_at);
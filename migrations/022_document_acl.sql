@@ -0,0 +1,11 @@
+-- Migration: Document access control
+-- A document is visible to a searcher when acl_public is set, or when the
+-- searcher's user is in acl_users or one of their groups is in acl_groups.
+-- Principals are stored lowercased. Existing documents stay public.
+
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS acl_public BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS acl_users TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE documents ADD COLUMN IF NOT EXISTS acl_groups TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_documents_acl_users ON documents USING GIN (acl_users) WHERE NOT acl_public;
+CREATE INDEX IF NOT EXISTS idx_documents_acl_groups ON documents USING GIN (acl_groups) WHERE NOT acl_public;
@@ -0,0 +1,78 @@
+-- Migration: Nostr deletions and replaceable events
+-- Replaceable (0, 3, 10000-19999) and addressable (30000-39999) events are
+-- keyed on kind:pubkey:d-tag. nostr_events holds the current version of each
+-- address; older versions move to nostr_event_versions. Deletion requests
+-- (kind 5) are kept in nostr_deletions so targets that arrive later are
+-- refused too.
+
+ALTER TABLE nostr_events ADD COLUMN IF NOT EXISTS address TEXT;
+ALTER TABLE nostr_events ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+ALTER TABLE nostr_events ADD COLUMN IF NOT EXISTS deleted_by TEXT;
+
+CREATE TABLE IF NOT EXISTS nostr_event_versions (
+    event_id TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    pubkey TEXT NOT NULL,
+    kind INTEGER NOT NULL,
+    event_created_at TIMESTAMP NOT NULL,
+    title TEXT,
+    content TEXT,
+    tags JSONB,
+    metadata JSONB,
+    superseded_by TEXT,            -- Event id of the version that replaced it
+    superseded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_nostr_event_versions_address
+ON nostr_event_versions(address, event_created_at DESC);
+
+CREATE TABLE IF NOT EXISTS nostr_deletions (
+    deletion_id TEXT NOT NULL,     -- The kind 5 event
+    pubkey TEXT NOT NULL,          -- Its author; only their own events are deleted
+    target TEXT NOT NULL,          -- Event id (e tag) or address (a tag)
+    deleted_before BIGINT NOT NULL, -- created_at of the request; later versions of an address survive
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (deletion_id, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nostr_deletions_target ON nostr_deletions(target, pubkey);
+
+-- Address existing events. Addressable events are only keyed when their d tag was recorded.
+UPDATE nostr_events SET address = kind || ':' || pubkey || ':'
+WHERE address IS NULL AND (kind IN (0, 3) OR kind BETWEEN 10000 AND 19999);
+
+UPDATE nostr_events SET address = kind || ':' || pubkey || ':' || (event_metadata->>'identifier')
+WHERE address IS NULL AND kind BETWEEN 30000 AND 39999 AND event_metadata->>'identifier' IS NOT NULL;
+
+-- Keep the newest version of each address; archive and hide the rest
+CREATE TEMP TABLE superseded_nostr_events AS
+SELECT id, document_id, current_event_id
+FROM (
+    SELECT id, document_id,
+           FIRST_VALUE(event_id) OVER w AS current_event_id,
+           ROW_NUMBER() OVER w AS version
+    FROM nostr_events
+    WHERE address IS NOT NULL
+    WINDOW w AS (PARTITION BY address ORDER BY event_created_at DESC, event_id ASC)
+) ranked
+WHERE version > 1;
+
+INSERT INTO nostr_event_versions (
+    event_id, address, pubkey, kind, event_created_at, title, content, tags, metadata, superseded_by
+)
+SELECT n.event_id, n.address, n.pubkey, n.kind, n.event_created_at,
+       d.title, d.content, n.tags, n.event_metadata, s.current_event_id
+FROM superseded_nostr_events s
+JOIN nostr_events n ON n.id = s.id
+LEFT JOIN documents d ON d.id = n.document_id
+ON CONFLICT (event_id) DO NOTHING;
+
+UPDATE documents SET deleted_at = NOW()
+WHERE id IN (SELECT document_id FROM superseded_nostr_events) AND deleted_at IS NULL;
+
+DELETE FROM nostr_events WHERE id IN (SELECT id FROM superseded_nostr_events);
+
+DROP TABLE superseded_nostr_events;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nostr_events_address
+ON nostr_events(address) WHERE address IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Migration: Nostr firehose checkpoints
+-- The live ingestion service keeps one subscription per relay. After each
+-- batch is written it records, per relay, the created_at up to which that
+-- relay's events are indexed, and resubscribes from there after a restart.
+
+CREATE TABLE IF NOT EXISTS nostr_firehose_checkpoints (
+    relay_url TEXT PRIMARY KEY,
+    since BIGINT NOT NULL,          -- Unix seconds; events up to here are indexed
+    events_received BIGINT NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
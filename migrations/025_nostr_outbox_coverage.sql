@@ -0,0 +1,25 @@
+-- Migration: NIP-65 relay lists and relay coverage
+-- The author crawler routes each author to the write relays in their kind
+-- 10002 relay list and records which relays returned their events, so the
+-- set of relays needed to cover the tracked authors can be worked out.
+
+CREATE TABLE IF NOT EXISTS nostr_relay_lists (
+    pubkey TEXT PRIMARY KEY,
+    event_id TEXT,                  -- Newest kind 10002 event; NULL when the author has none
+    event_created_at BIGINT,
+    write_relays TEXT[] NOT NULL DEFAULT '{}',   -- Outbox: where the author publishes
+    read_relays TEXT[] NOT NULL DEFAULT '{}',    -- Inbox: where the author reads mentions
+    fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS nostr_relay_coverage (
+    relay_url TEXT NOT NULL,
+    pubkey TEXT NOT NULL,
+    is_write_relay BOOLEAN NOT NULL DEFAULT false, -- Listed in the author's write relays
+    events_found INTEGER NOT NULL DEFAULT 0,        -- Returned by the relay in the last crawl
+    unique_events INTEGER NOT NULL DEFAULT 0,       -- Of those, events no other relay returned
+    crawled_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (relay_url, pubkey)
+);
+
+CREATE INDEX IF NOT EXISTS idx_nostr_relay_coverage_pubkey ON nostr_relay_coverage(pubkey);
@@ -0,0 +1,46 @@
+-- Migration: Persistent Nostr relay registry
+-- Every relay the ingestion pipelines know about, with its NIP-11 document
+-- and the health observed while crawling it. Pipelines pick relays from
+-- here by score instead of from hard-coded lists.
+
+CREATE TABLE IF NOT EXISTS nostr_relays (
+    url TEXT PRIMARY KEY,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    source TEXT NOT NULL DEFAULT 'manual',  -- seed, manual, observed, event_content, relay_tag, nip65_list
+    discovered_from TEXT,                   -- Event that mentioned the relay, for discovered relays
+
+    -- NIP-11 relay information document
+    nip11 JSONB,
+    nip11_fetched_at TIMESTAMPTZ,
+    max_limit INTEGER,                      -- limitation.max_limit: most events one REQ returns
+    auth_required BOOLEAN NOT NULL DEFAULT false,
+    payment_required BOOLEAN NOT NULL DEFAULT false,
+
+    -- Observed health
+    requests BIGINT NOT NULL DEFAULT 0,
+    failures BIGINT NOT NULL DEFAULT 0,
+    avg_latency_ms DOUBLE PRECISION,        -- Moving average over successful requests
+    events_received BIGINT NOT NULL DEFAULT 0,  -- Valid events
+    invalid_events BIGINT NOT NULL DEFAULT 0,   -- Rejected for a bad id or signature
+    unique_events BIGINT NOT NULL DEFAULT 0,    -- Valid events no other relay delivered first
+    score DOUBLE PRECISION NOT NULL DEFAULT 0.375, -- relayScore() of a relay with no history
+    demoted_until TIMESTAMPTZ,
+    last_success_at TIMESTAMPTZ,
+    last_failure_at TIMESTAMPTZ,
+    last_error TEXT,
+
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_nostr_relays_score ON nostr_relays(score DESC) WHERE enabled;
+
+-- The relays the pipelines used to hard-code
+INSERT INTO nostr_relays (url, source) VALUES
+    ('wss://relay.damus.io', 'seed'),
+    ('wss://nos.lol', 'seed'),
+    ('wss://relay.nostr.band', 'seed'),
+    ('wss://nostr.mom', 'seed'),
+    ('wss://relay.primal.net', 'seed'),
+    ('wss://nostr.wine', 'seed')
+ON CONFLICT (url) DO NOTHING;
@@ -0,0 +1,13 @@
+-- Migration: Relay removals and relay-list indexers in the registry
+-- Removed relays keep their row, hidden, so that pipelines still connected
+-- to them do not register them again as observed. Relays that collect
+-- everyone's NIP-65 relay lists get their own source, nip65_indexer: the
+-- author crawler asks them for relay lists and other pipelines skip them.
+
+ALTER TABLE nostr_relays ADD COLUMN IF NOT EXISTS removed_at TIMESTAMPTZ;
+
+-- The relay-list indexer the author crawler used to hard-code
+INSERT INTO nostr_relays (url, source) VALUES
+    ('wss://purplepag.es', 'nip65_indexer')
+ON CONFLICT (url) DO UPDATE SET source = 'nip65_indexer'
+    WHERE nostr_relays.source = 'observed';